@@ -1,4 +1,5 @@
 import { NextResponse } from 'next/server';
+import { getDefaultProviderName } from '@/lib/providers';
 
 export async function GET() {
   const environmentStatus = {
@@ -7,5 +8,5 @@ export async function GET() {
     ANTHROPIC_API_KEY: !!process.env.ANTHROPIC_API_KEY,
   };
 
-  return NextResponse.json({ environmentStatus });
+  return NextResponse.json({ environmentStatus, researchProvider: getDefaultProviderName() });
 } 
\ No newline at end of file
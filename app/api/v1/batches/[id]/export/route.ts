@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { exportBatch, getBatchRunner } from '@/lib/batch';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+
+const exportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+// GET /api/v1/batches/:id/export?format=csv|json - the uploaded rows enriched with results so far
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-batches', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(exportQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-batches');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const batch = await getBatchRunner().get(id);
+    if (!batch) {
+      return handleNextError(new Error(`Batch ${id} not found`), ErrorType.NOT_FOUND, 'API v1-batches');
+    }
+
+    const file = exportBatch(batch, parsed.data.format);
+    return new NextResponse(file.content, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-batches');
+  }
+}
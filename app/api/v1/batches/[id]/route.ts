@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess } from '@/lib/api/research-route';
+import { getBatchRunner } from '@/lib/batch';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+
+// GET /api/v1/batches/:id - batch status with every row's progress and results
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-batches', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const batch = await getBatchRunner().get(id);
+    if (!batch) {
+      return handleNextError(new Error(`Batch ${id} not found`), ErrorType.NOT_FOUND, 'API v1-batches');
+    }
+    return NextResponse.json({ batch });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-batches');
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { batchRequestSchema } from '@/lib/api/schemas';
+import { getBatchRunner, submitBatchRequest } from '@/lib/batch';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+
+const listQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/v1/batches - research every account in a CSV ({ csv } or { rows }) in the background
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-batches');
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-batches', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(batchRequestSchema, body, 'API v1-batches');
+  if (parsed.response) return parsed.response;
+
+  let submitted;
+  try {
+    submitted = await submitBatchRequest(parsed.data, request.headers.get('x-firecrawl-api-key') || undefined);
+  } catch (error) {
+    // Unreadable CSVs and files without any usable domain are the caller's to fix
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-batches');
+  }
+  return NextResponse.json(submitted, { status: 202 });
+}
+
+// GET /api/v1/batches?status=&limit= - list batches, newest first
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-batches', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(listQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-batches');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const batches = await getBatchRunner().list(parsed.data);
+    return NextResponse.json({ batches });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-batches');
+  }
+}
@@ -0,0 +1,5 @@
+import { createResearchRoute } from '@/lib/api/research-route';
+import { researchRunners } from '@/lib/api/runners';
+
+// POST /api/v1/company-research - deep intelligence report on a single company website
+export const POST = createResearchRoute('v1-company-research', researchRunners['company-research']);
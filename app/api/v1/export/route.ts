@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { exportRequestSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { exportReport } from '@/lib/export';
+
+// POST /api/v1/export - render a completed run ({ format, report }) as a downloadable file
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-export');
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-export', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(exportRequestSchema, body, 'API v1-export');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const file = await exportReport(parsed.data.report, parsed.data.format);
+    return new NextResponse(Buffer.from(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-export');
+  }
+}
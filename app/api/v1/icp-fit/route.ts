@@ -0,0 +1,5 @@
+import { createResearchRoute } from '@/lib/api/research-route';
+import { researchRunners } from '@/lib/api/runners';
+
+// POST /api/v1/icp-fit - score a prospect domain against ICP profiles
+export const POST = createResearchRoute('v1-icp-fit', researchRunners['icp-fit']);
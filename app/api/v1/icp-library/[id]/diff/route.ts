@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getICPLibrary } from '@/lib/icp-library';
+
+const diffQuerySchema = z.object({
+  from: z.coerce.number().int().min(1).optional(),
+  to: z.coerce.number().int().min(1).optional(),
+});
+
+// GET /api/v1/icp-library/:id/diff?from=&to= - field changes between two versions (default: previous to current)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(diffQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-icp-library');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const diff = await getICPLibrary().diff(id, parsed.data.from, parsed.data.to);
+    if (!diff) {
+      return handleNextError(new Error(`Saved ICP profile ${id} not found`), ErrorType.NOT_FOUND, 'API v1-icp-library');
+    }
+    return NextResponse.json({ diff });
+  } catch (error) {
+    // Unknown version numbers
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-icp-library');
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getICPLibrary } from '@/lib/icp-library';
+
+const restoreSchema = z.object({
+  version: z.number().int().min(1),
+});
+
+// POST /api/v1/icp-library/:id/restore - make an earlier version ({ version }) current again
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-icp-library', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(restoreSchema, body, 'API v1-icp-library');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const entry = await getICPLibrary().restore(id, parsed.data.version);
+    if (!entry) {
+      return handleNextError(new Error(`Saved ICP profile ${id} not found`), ErrorType.NOT_FOUND, 'API v1-icp-library');
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-icp-library');
+  }
+}
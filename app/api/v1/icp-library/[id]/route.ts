@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { icpLibraryUpdateSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getICPLibrary } from '@/lib/icp-library';
+
+// GET /api/v1/icp-library/:id - a saved profile with its full version history
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const entry = await getICPLibrary().get(id);
+    if (!entry) {
+      return handleNextError(new Error(`Saved ICP profile ${id} not found`), ErrorType.NOT_FOUND, 'API v1-icp-library');
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-icp-library');
+  }
+}
+
+// PATCH /api/v1/icp-library/:id - rename or redescribe; profile changes go through /versions
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-icp-library', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(icpLibraryUpdateSchema, body, 'API v1-icp-library');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const entry = await getICPLibrary().rename(id, parsed.data);
+    if (!entry) {
+      return handleNextError(new Error(`Saved ICP profile ${id} not found`), ErrorType.NOT_FOUND, 'API v1-icp-library');
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-icp-library');
+  }
+}
+
+// DELETE /api/v1/icp-library/:id - remove a saved profile and its history
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    if (!(await getICPLibrary().delete(id))) {
+      return handleNextError(new Error(`Saved ICP profile ${id} not found`), ErrorType.NOT_FOUND, 'API v1-icp-library');
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-icp-library');
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { icpLibraryVersionSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getICPLibrary } from '@/lib/icp-library';
+
+// POST /api/v1/icp-library/:id/versions - add a version ({ profile, origin?, note? }) from an edit or a re-run
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-icp-library', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(icpLibraryVersionSchema, body, 'API v1-icp-library');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const { profile, ...options } = parsed.data;
+    const entry = await getICPLibrary().addVersion(id, profile, options);
+    if (!entry) {
+      return handleNextError(new Error(`Saved ICP profile ${id} not found`), ErrorType.NOT_FOUND, 'API v1-icp-library');
+    }
+    return NextResponse.json({ entry });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-icp-library');
+  }
+}
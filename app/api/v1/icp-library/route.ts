@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { icpLibrarySaveSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getICPLibrary } from '@/lib/icp-library';
+
+const listQuerySchema = z.object({
+  search: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/v1/icp-library - save a profile ({ profile, name?, description?, note? }) as a new entry
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-icp-library', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(icpLibrarySaveSchema, body, 'API v1-icp-library');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const { profile, ...options } = parsed.data;
+    const entry = await getICPLibrary().save(profile, options);
+    return NextResponse.json({ entry }, { status: 201 });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-icp-library');
+  }
+}
+
+// GET /api/v1/icp-library?search=&limit= - saved profiles with their current version, most recently changed first
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-icp-library', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(listQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-icp-library');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const entries = await getICPLibrary().list(parsed.data);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-icp-library');
+  }
+}
@@ -0,0 +1,5 @@
+import { createResearchRoute } from '@/lib/api/research-route';
+import { researchRunners } from '@/lib/api/runners';
+
+// POST /api/v1/icp - ICP generation (mode: company | multi-agent | dossier)
+export const POST = createResearchRoute('v1-icp', researchRunners['icp']);
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { JOB_CONFIG } from '@/lib/config';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getJobQueue } from '@/lib/jobs';
+
+const eventsQuerySchema = z.object({
+  offset: z.coerce.number().int().min(0).default(0),
+  limit: z.coerce.number().int().min(1).max(JOB_CONFIG.EVENTS_PAGE_SIZE).default(JOB_CONFIG.EVENTS_PAGE_SIZE),
+});
+
+// GET /api/v1/jobs/:id/events?offset=&limit= - page through the job's event log
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-jobs', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(eventsQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-jobs');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const queue = getJobQueue();
+    const job = await queue.get(id);
+    if (!job) {
+      return handleNextError(new Error(`Job ${id} not found`), ErrorType.NOT_FOUND, 'API v1-jobs');
+    }
+
+    const { offset, limit } = parsed.data;
+    const events = await queue.getEvents(id, offset, limit);
+    return NextResponse.json({
+      status: job.status,
+      events,
+      nextOffset: offset + events.length,
+      total: job.eventCount,
+    });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-jobs');
+  }
+}
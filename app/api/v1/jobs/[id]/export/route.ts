@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { exportFormatSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { exportReport } from '@/lib/export';
+import { getJobQueue } from '@/lib/jobs';
+
+const exportQuerySchema = z.object({
+  format: exportFormatSchema.default('markdown'),
+});
+
+// GET /api/v1/jobs/:id/export?format= - download a completed job's report
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-jobs', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(exportQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-jobs');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const job = await getJobQueue().get(id);
+    if (!job) {
+      return handleNextError(new Error(`Job ${id} not found`), ErrorType.NOT_FOUND, 'API v1-jobs');
+    }
+    if (job.status !== 'completed' || !job.result) {
+      return handleNextError(new Error(`Job ${id} has no result to export (status: ${job.status})`), ErrorType.VALIDATION, 'API v1-jobs');
+    }
+
+    const { query, url } = job.input as { query?: string; url?: string };
+    const file = await exportReport({
+      title: query || url || `Research report ${job.id}`,
+      query: query || url,
+      content: job.result.content,
+      sources: job.result.sources,
+      followUpQuestions: job.result.followUpQuestions,
+      icpProfiles: job.result.icpProfiles,
+      generatedAt: job.finishedAt,
+    }, parsed.data.format);
+
+    return new NextResponse(Buffer.from(file.data), {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-jobs');
+  }
+}
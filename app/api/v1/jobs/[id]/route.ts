@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getJobQueue } from '@/lib/jobs';
+
+// GET /api/v1/jobs/:id - job status, progress and (once completed) the result
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-jobs', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const job = await getJobQueue().get(id);
+    if (!job) {
+      return handleNextError(new Error(`Job ${id} not found`), ErrorType.NOT_FOUND, 'API v1-jobs');
+    }
+    return NextResponse.json({ job });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-jobs');
+  }
+}
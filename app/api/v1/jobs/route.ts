@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { researchJobRequestSchema } from '@/lib/api/runners';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getJobQueue } from '@/lib/jobs';
+
+const listQuerySchema = z.object({
+  status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/v1/jobs - submit a research run ({ kind, input }) to run in the background
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-jobs');
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-jobs', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(researchJobRequestSchema, body, 'API v1-jobs');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const job = await getJobQueue().submit(parsed.data, {
+      apiKey: request.headers.get('x-firecrawl-api-key') || undefined
+    });
+    return NextResponse.json({ job }, { status: 202 });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-jobs');
+  }
+}
+
+// GET /api/v1/jobs?status=&limit= - list jobs, newest first
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-jobs', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(listQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-jobs');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const jobs = await getJobQueue().list(parsed.data);
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-jobs');
+  }
+}
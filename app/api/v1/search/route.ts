@@ -0,0 +1,5 @@
+import { createResearchRoute } from '@/lib/api/research-route';
+import { researchRunners } from '@/lib/api/runners';
+
+// POST /api/v1/search - multi-step web research with a synthesized, cited answer
+export const POST = createResearchRoute('v1-search', researchRunners['search']);
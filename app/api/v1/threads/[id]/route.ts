@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { threadUpdateSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getThreadWorkspace } from '@/lib/threads';
+
+// GET /api/v1/threads/:id - a thread with every turn
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const thread = await getThreadWorkspace().get(id);
+    if (!thread) {
+      return handleNextError(new Error(`Thread ${id} not found`), ErrorType.NOT_FOUND, 'API v1-threads');
+    }
+    return NextResponse.json({ thread });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
+
+// PATCH /api/v1/threads/:id - rename ({ title })
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-threads', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(threadUpdateSchema, body, 'API v1-threads');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const thread = await getThreadWorkspace().rename(id, parsed.data.title);
+    if (!thread) {
+      return handleNextError(new Error(`Thread ${id} not found`), ErrorType.NOT_FOUND, 'API v1-threads');
+    }
+    return NextResponse.json({ thread });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
+
+// DELETE /api/v1/threads/:id
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    if (!(await getThreadWorkspace().delete(id))) {
+      return handleNextError(new Error(`Thread ${id} not found`), ErrorType.NOT_FOUND, 'API v1-threads');
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { threadTurnSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getThreadWorkspace } from '@/lib/threads';
+
+// POST /api/v1/threads/:id/turns - append a finished answer ({ kind, query, content, sources, ... })
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-threads', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(threadTurnSchema, body, 'API v1-threads');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const thread = await getThreadWorkspace().appendTurn(id, parsed.data);
+    if (!thread) {
+      return handleNextError(new Error(`Thread ${id} not found`), ErrorType.NOT_FOUND, 'API v1-threads');
+    }
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getThreadWorkspace, threadExportFile } from '@/lib/threads';
+
+const exportQuerySchema = z.object({
+  ids: z.string().max(10000).optional(),
+});
+
+// GET /api/v1/threads/export?ids=a,b - a JSON file of the given threads, or of every thread, for /import
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(exportQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-threads');
+  if (parsed.response) return parsed.response;
+
+  const ids = parsed.data.ids?.split(',').map(id => id.trim()).filter(Boolean);
+  let file;
+  try {
+    file = threadExportFile(await getThreadWorkspace().exportThreads(ids));
+  } catch (error) {
+    return handleNextError(error, ErrorType.NOT_FOUND, 'API v1-threads');
+  }
+
+  return new NextResponse(file.content, {
+    headers: {
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="${file.filename}"`,
+    },
+  });
+}
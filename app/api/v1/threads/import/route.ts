@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { threadExportSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getThreadWorkspace } from '@/lib/threads';
+
+// POST /api/v1/threads/import - add the threads of an export file; ids already present are skipped
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-threads', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(threadExportSchema, body, 'API v1-threads');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const result = await getThreadWorkspace().importThreads(parsed.data);
+    return NextResponse.json(result, { status: result.imported.length > 0 ? 201 : 200 });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
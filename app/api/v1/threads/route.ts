@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { threadCreateSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getThreadWorkspace } from '@/lib/threads';
+
+const listQuerySchema = z.object({
+  search: z.string().max(200).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/v1/threads - start an empty thread ({ title? }); turns are added through /turns
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-threads', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(threadCreateSchema, body, 'API v1-threads');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const thread = await getThreadWorkspace().create(parsed.data);
+    return NextResponse.json({ thread }, { status: 201 });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
+
+// GET /api/v1/threads?search=&limit= - threads without their turns, most recently active first; a search also returns matching snippets
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-threads', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(listQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-threads');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const threads = await getThreadWorkspace().list(parsed.data);
+    return NextResponse.json({ threads });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-threads');
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getWatchlist } from '@/lib/watchlist';
+
+// POST /api/v1/watchlist/:id/check - re-scrape now; returns the snapshot and the digest when pages changed
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-watchlist');
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const result = await getWatchlist().check(id, { apiKey: request.headers.get('x-firecrawl-api-key') || undefined });
+    if (!result) {
+      return handleNextError(new Error(`Watch target ${id} not found`), ErrorType.NOT_FOUND, 'API v1-watchlist');
+    }
+    return NextResponse.json(result);
+  } catch (error) {
+    return handleNextError(error, ErrorType.API_ERROR, 'API v1-watchlist');
+  }
+}
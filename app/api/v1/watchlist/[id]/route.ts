@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { watchTargetUpdateSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getWatchlist } from '@/lib/watchlist';
+
+// GET /api/v1/watchlist/:id - a watched competitor with its snapshots (without page text)
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    const watchlist = getWatchlist();
+    const target = await watchlist.get(id);
+    if (!target) {
+      return handleNextError(new Error(`Watch target ${id} not found`), ErrorType.NOT_FOUND, 'API v1-watchlist');
+    }
+    return NextResponse.json({ target, snapshots: await watchlist.snapshots(id) });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
+
+// PATCH /api/v1/watchlist/:id - rename, pause or resume, or change what is watched and how often
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-watchlist', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(watchTargetUpdateSchema, body, 'API v1-watchlist');
+  if (parsed.response) return parsed.response;
+
+  const { id } = await params;
+  try {
+    const target = await getWatchlist().update(id, parsed.data);
+    if (!target) {
+      return handleNextError(new Error(`Watch target ${id} not found`), ErrorType.NOT_FOUND, 'API v1-watchlist');
+    }
+    return NextResponse.json({ target });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
+
+// DELETE /api/v1/watchlist/:id - stop watching and drop the snapshots and digests
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  const { id } = await params;
+  try {
+    if (!(await getWatchlist().remove(id))) {
+      return handleNextError(new Error(`Watch target ${id} not found`), ErrorType.NOT_FOUND, 'API v1-watchlist');
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getWatchlist } from '@/lib/watchlist';
+
+const listQuerySchema = z.object({
+  targetId: z.string().max(200).optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// GET /api/v1/watchlist/digests?targetId=&since=&limit= - change digests, newest first
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(listQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-watchlist');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const { since, ...options } = parsed.data;
+    const digests = await getWatchlist().digests({ ...options, since: since && new Date(since).toISOString() });
+    return NextResponse.json({ digests });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
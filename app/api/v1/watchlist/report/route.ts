@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getWatchlist } from '@/lib/watchlist';
+
+const reportQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).optional(),
+});
+
+// GET /api/v1/watchlist/report?days= - markdown report of the changes found in the last N days (default 7)
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(reportQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-watchlist');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const report = await getWatchlist().report(parsed.data.days);
+    return new NextResponse(report, { headers: { 'Content-Type': 'text/markdown; charset=utf-8' } });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
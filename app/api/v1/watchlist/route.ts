@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { checkApiAccess, validateRequest } from '@/lib/api/research-route';
+import { watchTargetCreateSchema } from '@/lib/api/schemas';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getWatchlist } from '@/lib/watchlist';
+
+const listQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// POST /api/v1/watchlist - watch a competitor ({ domain, name?, intelligenceTypes?, intervalHours?, provider? })
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch (error) {
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-watchlist', { reason: 'Request body is not valid JSON' });
+  }
+
+  const parsed = validateRequest(watchTargetCreateSchema, body, 'API v1-watchlist');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const target = await getWatchlist().register(parsed.data);
+    return NextResponse.json({ target }, { status: 201 });
+  } catch (error) {
+    // Invalid and already watched domains are the caller's to fix
+    return handleNextError(error, ErrorType.VALIDATION, 'API v1-watchlist');
+  }
+}
+
+// GET /api/v1/watchlist?limit= - watched competitors with their check schedule
+export async function GET(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-watchlist', { rateLimit: false });
+  if (denied) return denied;
+
+  const parsed = validateRequest(listQuerySchema, Object.fromEntries(request.nextUrl.searchParams), 'API v1-watchlist');
+  if (parsed.response) return parsed.response;
+
+  try {
+    const targets = await getWatchlist().list(parsed.data.limit);
+    return NextResponse.json({ targets });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
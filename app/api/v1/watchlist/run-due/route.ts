@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { checkApiAccess } from '@/lib/api/research-route';
+import { ErrorType, handleNextError } from '@/lib/error-handler';
+import { getWatchlist } from '@/lib/watchlist';
+
+// POST /api/v1/watchlist/run-due - check every target that is due; for cron jobs where the server does not stay up
+export async function POST(request: NextRequest) {
+  const denied = await checkApiAccess(request, 'v1-watchlist');
+  if (denied) return denied;
+
+  try {
+    const results = await getWatchlist().runDueChecks();
+    return NextResponse.json({
+      checked: results.length,
+      digests: results.flatMap(result => (result.digest ? [result.digest] : [])),
+      failed: results.filter(result => result.target.lastError).map(result => ({ id: result.target.id, domain: result.target.domain, error: result.target.lastError })),
+    });
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, 'API v1-watchlist');
+  }
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { cancelAccountBatch, exportAccountBatch, getAccountBatch, listAccountBatches, listSavedICPProfiles, submitAccountBatch } from './search';
+import type { AccountFit, BatchMode, BatchRow, BatchRun } from '@/lib/batch';
+import type { SavedICPProfileSummary } from '@/lib/icp-library';
+
+const POLL_INTERVAL_MS = 2000;
+
+const STATUS_STYLES: Record<BatchRow['status'], string> = {
+  queued: 'text-gray-500 dark:text-gray-400',
+  running: 'text-orange-600 dark:text-orange-400',
+  completed: 'text-green-600 dark:text-green-400',
+  failed: 'text-red-600 dark:text-red-400',
+  cancelled: 'text-gray-500 dark:text-gray-400',
+};
+
+const TIER_STYLES: Record<AccountFit['tier'], string> = {
+  strong: 'text-green-600 dark:text-green-400',
+  moderate: 'text-amber-600 dark:text-amber-400',
+  weak: 'text-red-600 dark:text-red-400',
+  'insufficient-data': 'text-gray-500 dark:text-gray-400',
+};
+
+interface BatchPanelProps {
+  apiKey?: string;
+}
+
+export function BatchPanel({ apiKey }: BatchPanelProps) {
+  const [csv, setCsv] = useState('');
+  const [name, setName] = useState('');
+  const [mode, setMode] = useState<BatchMode>('company-research');
+  const [savedProfiles, setSavedProfiles] = useState<SavedICPProfileSummary[]>([]);
+  const [profileIds, setProfileIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [batch, setBatch] = useState<BatchRun | null>(null);
+  const [recent, setRecent] = useState<BatchRun[]>([]);
+  const [skipped, setSkipped] = useState<string[]>([]);
+
+  const active = batch?.status === 'queued' || batch?.status === 'running';
+
+  useEffect(() => {
+    listAccountBatches({ limit: 10 }).then(setRecent).catch(error => console.error('Failed to list batches:', error));
+  }, [batch?.id, batch?.status]);
+
+  useEffect(() => {
+    if (mode !== 'icp-fit') return;
+    listSavedICPProfiles().then(setSavedProfiles).catch(error => console.error('Failed to load ICP library:', error));
+  }, [mode]);
+
+  // Poll the open batch until every row has finished
+  const batchId = batch?.id;
+  useEffect(() => {
+    if (!batchId || !active) return;
+    const timer = setInterval(async () => {
+      try {
+        const latest = await getAccountBatch(batchId);
+        if (latest) setBatch(latest);
+      } catch (error) {
+        console.error('Failed to refresh batch:', error);
+      }
+    }, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [batchId, active]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setCsv(await file.text());
+    if (!name) setName(file.name.replace(/\.csv$/i, ''));
+  };
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    try {
+      const submitted = await submitAccountBatch({
+        mode,
+        csv,
+        name: name.trim() || undefined,
+        profileIds: mode === 'icp-fit' ? profileIds : undefined,
+      }, apiKey);
+      setBatch(submitted.batch);
+      setSkipped(submitted.skipped);
+      toast.success(`${mode === 'icp-fit' ? 'Scoring' : 'Researching'} ${submitted.batch.rows.length} accounts`);
+    } catch (error) {
+      toast.error('Could not start the batch', {
+        description: error instanceof Error ? error.message : 'Check the CSV and try again'
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const toggleProfile = (id: string) => {
+    setProfileIds(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  };
+
+  const handleCancel = async () => {
+    if (!batch) return;
+    try {
+      const cancelled = await cancelAccountBatch(batch.id);
+      if (cancelled) setBatch(cancelled);
+    } catch (error) {
+      console.error('Cancel error:', error);
+      toast.error('Could not cancel the batch');
+    }
+  };
+
+  const handleDownload = async (format: 'csv' | 'json') => {
+    if (!batch) return;
+    try {
+      const file = await exportAccountBatch(batch.id, format);
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Export failed', {
+        description: error instanceof Error ? error.message : 'Could not create the file'
+      });
+    }
+  };
+
+  const finished = batch ? batch.rows.filter(row => row.status !== 'queued' && row.status !== 'running').length : 0;
+  const costUsd = batch ? batch.rows.reduce((total, row) => total + row.costUsd, 0) : 0;
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-4">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-semibold">Bulk Account Research</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Upload a CSV with a <code>domain</code> column (plus any columns you want to keep) to research every account or score it against saved ICP profiles.
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-800 space-y-3">
+        <input
+          type="file"
+          accept=".csv,text/csv"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-sm text-gray-600 dark:text-gray-300"
+        />
+        <textarea
+          value={csv}
+          onChange={(e) => setCsv(e.target.value)}
+          placeholder={'domain,name,notes\nstripe.com,Stripe,Existing customer\nlinear.app,Linear,'}
+          className="w-full h-40 p-3 border rounded-md font-mono text-sm dark:bg-zinc-950 dark:border-zinc-800"
+        />
+        {mode === 'icp-fit' && (
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            {savedProfiles.length === 0 ? (
+              <span className="text-gray-500 dark:text-gray-400">Save ICP profiles to the library to score accounts against them.</span>
+            ) : savedProfiles.map(entry => (
+              <label key={entry.id} className="flex items-center gap-1.5 text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={profileIds.includes(entry.id)}
+                  onChange={() => toggleProfile(entry.id)}
+                />
+                {entry.name}
+              </label>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={mode}
+            onChange={(e) => setMode(e.target.value as BatchMode)}
+            className="p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          >
+            <option value="company-research">Company research</option>
+            <option value="icp-fit">ICP fit</option>
+          </select>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Batch name (optional)"
+            className="flex-1 min-w-[200px] p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          />
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={submitting || !csv.trim() || (mode === 'icp-fit' && profileIds.length === 0)}
+            className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {submitting ? 'Starting...' : mode === 'icp-fit' ? 'Score accounts' : 'Start research'}
+          </button>
+        </div>
+        {recent.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <span className="text-gray-500 dark:text-gray-400">Recent:</span>
+            {recent.map(item => (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => { setBatch(item); setSkipped([]); }}
+                className={`px-2 py-1 rounded-md border ${item.id === batch?.id ? 'border-orange-400' : 'border-gray-200 dark:border-gray-700'} text-gray-700 dark:text-gray-300`}
+              >
+                {item.name || item.createdAt.slice(0, 16).replace('T', ' ')} ({item.status})
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {batch && (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow border border-gray-200 dark:border-gray-800">
+          <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-b border-gray-200 dark:border-gray-800">
+            <div className="text-sm">
+              <span className="font-medium">{batch.name || 'Batch'}</span>
+              <span className="text-gray-500 dark:text-gray-400">
+                {' '}· {batch.status} · {finished}/{batch.rows.length} done · ${costUsd.toFixed(2)}
+              </span>
+            </div>
+            <div className="flex items-center gap-2">
+              {active && (
+                <button
+                  type="button"
+                  onClick={handleCancel}
+                  className="px-2.5 py-1 text-xs rounded-md border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400"
+                >
+                  Cancel
+                </button>
+              )}
+              {(['csv', 'json'] as const).map(format => (
+                <button
+                  key={format}
+                  type="button"
+                  onClick={() => handleDownload(format)}
+                  disabled={finished === 0}
+                  className="px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {skipped.length > 0 && (
+            <div className="px-4 py-2 text-xs text-amber-700 dark:text-amber-400 border-b border-gray-200 dark:border-gray-800">
+              Skipped {skipped.length}: {skipped.slice(0, 5).join('; ')}{skipped.length > 5 ? '; ...' : ''}
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead className="text-left text-xs text-gray-500 dark:text-gray-400">
+                <tr>
+                  <th className="px-4 py-2">Domain</th>
+                  <th className="px-4 py-2">Status</th>
+                  {batch.mode === 'icp-fit' && <th className="px-4 py-2">Fit</th>}
+                  <th className="px-4 py-2">Industry</th>
+                  <th className="px-4 py-2">Summary</th>
+                  <th className="px-4 py-2">Sources</th>
+                </tr>
+              </thead>
+              <tbody>
+                {batch.rows.map(row => (
+                  <tr key={row.index} className="border-t border-gray-100 dark:border-gray-800 align-top">
+                    <td className="px-4 py-2 font-medium">{row.input.name || row.input.domain}</td>
+                    <td className={`px-4 py-2 whitespace-nowrap ${STATUS_STYLES[row.status]}`}>
+                      {row.status === 'running' ? `${row.progress.percent}% · ${row.progress.message}` : row.status}
+                      {row.error && <div className="text-xs text-red-500 max-w-[200px] truncate" title={row.error}>{row.error}</div>}
+                    </td>
+                    {batch.mode === 'icp-fit' && (
+                      <td className="px-4 py-2 whitespace-nowrap" title={row.fit?.rationale}>
+                        {row.fit && (
+                          <>
+                            <span className="font-medium">{row.fit.score}</span>
+                            <span className={`ml-1 text-xs ${TIER_STYLES[row.fit.tier]}`}>{row.fit.tier}</span>
+                            <div className="text-xs text-gray-500 dark:text-gray-400">{row.fit.profileName}</div>
+                          </>
+                        )}
+                      </td>
+                    )}
+                    <td className="px-4 py-2">{row.summary?.industry}</td>
+                    <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{row.summary?.summary}</td>
+                    <td className="px-4 py-2">
+                      {(row.sources || []).slice(0, 3).map((source, index) => (
+                        <a key={source.url} href={source.url} target="_blank" rel="noopener noreferrer" title={source.title} className="text-orange-600 hover:underline mr-1">
+                          [{index + 1}]
+                        </a>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,14 +1,25 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { search, analyzeCompanyIntelligence, generateICPProfiles, generateMultiAgentICPProfiles } from './search';
+import { search, analyzeCompanyIntelligence, generateICPProfiles, generateMultiAgentICPProfiles, cancelResearchRun, getResearchThread, recordThreadTurn } from './search';
 import { readStreamableValue } from 'ai/rsc';
 import { SearchDisplay } from './search-display';
 import { SearchEvent, Source } from '@/lib/langgraph-search-engine';
 import { AgentEvent } from '@/lib/multi-agent/types';
 import { MarkdownRenderer } from './markdown-renderer';
 import { CitationTooltip } from './citation-tooltip';
+import { CitationReportPanel } from './citation-report';
+import { CredibilityBadge } from './source-credibility';
+import { TimeRangeSelect } from './time-range-select';
+import { ExportMenu } from './export-menu';
+import { BatchPanel } from './batch-panel';
+import { ICPFitPanel } from './icp-fit-panel';
+import { ICPLibraryPanel, SaveToLibrary } from './icp-library-panel';
+import { WatchlistPanel } from './watchlist-panel';
 import { AgentActivityPanel } from './agent-activity-panel';
+import { THREAD_EVENTS } from './thread-sidebar';
+import type { NewThreadTurn } from '@/lib/threads';
+import { TimeRange, timeRangeIssue } from '@/lib/time-range';
 import Image from 'next/image';
 import { getFaviconUrl, getDefaultFavicon, markFaviconFailed } from '@/lib/favicon-utils';
 import {
@@ -149,6 +160,11 @@ function SourcesList({ sources }: { sources: Source[] }) {
                       <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 truncate">
                         {new URL(source.url).hostname}
                       </p>
+                      {source.credibility && (
+                        <div className="mt-1">
+                          <CredibilityBadge credibility={source.credibility} />
+                        </div>
+                      )}
                     </div>
                     <svg 
                       className={`w-4 h-4 text-gray-400 transition-transform ${expandedSourceIndex === i ? 'rotate-180' : ''}`} 
@@ -184,6 +200,112 @@ function SourcesList({ sources }: { sources: Source[] }) {
   );
 }
 
+// The citation check emitted just before a final result, if the run made one
+function citationReportFrom(events: SearchEvent[]) {
+  const event = [...events].reverse().find(e => e.type === 'citation-report');
+  return event?.type === 'citation-report' ? event.report : undefined;
+}
+
+// A finished answer, rendered the same way live and when a saved thread is reopened
+function TurnResult({ turn, apiKey }: { turn: NewThreadTurn; apiKey?: string }) {
+  const target = turn.target || turn.query;
+  const flaggedClaims = turn.citationReport?.claims.filter(claim => claim.status !== 'supported');
+  const citationCheck = turn.citationReport && <CitationReportPanel report={turn.citationReport} />;
+
+  if (turn.kind === 'company') {
+    return (
+      <div className="space-y-4">
+        <MarkdownRenderer content={turn.content} flaggedClaims={flaggedClaims} />
+        {citationCheck}
+        <ExportMenu report={{
+          title: `Company intelligence: ${target}`,
+          query: target,
+          content: turn.content,
+          sources: turn.sources,
+          followUpQuestions: turn.followUpQuestions
+        }} />
+      </div>
+    );
+  }
+
+  if (turn.kind === 'icp') {
+    return (
+      <div className="space-y-4">
+        <MarkdownRenderer content={turn.content} flaggedClaims={flaggedClaims} />
+        {citationCheck}
+        <ExportMenu report={{
+          title: `ICP analysis: ${target}`,
+          query: target,
+          content: turn.content,
+          sources: turn.sources,
+          followUpQuestions: turn.followUpQuestions,
+          icpProfiles: turn.icpProfiles
+        }} />
+        {turn.icpProfiles && turn.icpProfiles.length > 0 && (
+          <>
+            <SaveToLibrary profiles={turn.icpProfiles} note={`ICP analysis: ${target}`} />
+            <ICPFitPanel profiles={turn.icpProfiles} apiKey={apiKey} />
+          </>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="prose prose-sm dark:prose-invert max-w-none">
+        <MarkdownRenderer content={turn.content} flaggedClaims={flaggedClaims} />
+      </div>
+      <CitationTooltip sources={turn.sources} />
+      {citationCheck}
+
+      {/* Follow-up Questions */}
+      {turn.followUpQuestions && turn.followUpQuestions.length > 0 && (
+        <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
+            Follow-up questions
+          </h3>
+          <div className="space-y-2">
+            {turn.followUpQuestions.map((question, index) => (
+              <button
+                key={index}
+                onClick={() => {
+                  const evt = new CustomEvent('followUpQuestion', { 
+                    detail: { question },
+                    bubbles: true 
+                  });
+                  document.dispatchEvent(evt);
+                }}
+                className="block w-full text-left px-4 py-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-orange-300 dark:hover:border-orange-700 hover:bg-orange-50 dark:hover:bg-orange-900/10 transition-colors group"
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-700 dark:text-gray-300 group-hover:text-gray-900 dark:group-hover:text-gray-100">
+                    {question}
+                  </span>
+                  <svg className="w-4 h-4 text-gray-400 group-hover:text-orange-500 flex-shrink-0 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                  </svg>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Sources */}
+      <SourcesList sources={turn.sources} />
+
+      <ExportMenu report={{
+        title: turn.query,
+        query: turn.query,
+        content: turn.content,
+        sources: turn.sources,
+        followUpQuestions: turn.followUpQuestions
+      }} />
+    </div>
+  );
+}
+
 export function Chat() {
   const [messages, setMessages] = useState<Array<{
     id: string;
@@ -202,9 +324,14 @@ export function Chat() {
   const [, setIsCheckingEnv] = useState<boolean>(true);
   const [pendingQuery, setPendingQuery] = useState<string>('');
   const messagesContainerRef = useRef<HTMLDivElement>(null);
-  const [activeTab, setActiveTab] = useState<'research' | 'icp'>('research');
+  // Id of the server-side run currently streaming, used by the Stop button
+  const activeRunIdRef = useRef<string | null>(null);
+  // Saved thread the conversation on screen belongs to; set once its first answer is stored
+  const threadIdRef = useRef<string | undefined>(undefined);
+  const [activeTab, setActiveTab] = useState<'research' | 'icp' | 'bulk' | 'library' | 'watchlist'>('research');
   const [dossierInput, setDossierInput] = useState<string>('');
   const [useMultiAgent, setUseMultiAgent] = useState<boolean>(true); // Default to multi-agent
+  const [timeRange, setTimeRange] = useState<TimeRange | undefined>(undefined);
   const [agentEvents, setAgentEvents] = useState<AgentEvent[]>([]);
   const [showAgentPanel, setShowAgentPanel] = useState<boolean>(false);
 
@@ -236,7 +363,8 @@ export function Chat() {
         if (data.environmentStatus) {
           // Only check for Firecrawl API key since we can pass it from frontend
           // OpenAI and Anthropic keys must be in environment
-          setHasApiKey(data.environmentStatus.FIRECRAWL_API_KEY);
+          // Non-Firecrawl research providers (fetch, fixture) don't need a key at all
+          setHasApiKey(data.environmentStatus.FIRECRAWL_API_KEY || (data.researchProvider && data.researchProvider !== 'firecrawl'));
         }
       } catch (error) {
         console.error('Failed to check environment:', error);
@@ -270,6 +398,71 @@ export function Chat() {
     }
   };
 
+  // Reopen a saved thread, or start over, when asked from the thread sidebar
+  useEffect(() => {
+    const handleOpenThread = async (event: Event) => {
+      if (isSearching) {
+        toast.info('Stop the current research before switching threads');
+        return;
+      }
+      const threadId = (event as CustomEvent).detail.threadId;
+      try {
+        const thread = await getResearchThread(threadId);
+        if (!thread) {
+          toast.error('This thread no longer exists');
+          return;
+        }
+        threadIdRef.current = thread.id;
+        // Restored answers keep their text as context, so follow-ups see the whole thread
+        setMessages(thread.turns.flatMap(turn => [
+          { id: `${turn.id}-query`, role: 'user' as const, content: turn.query, isSearch: true },
+          {
+            id: turn.id,
+            role: 'assistant' as const,
+            content: <TurnResult turn={turn} apiKey={firecrawlApiKey || undefined} />,
+            isSearch: false,
+            searchResults: turn.content
+          }
+        ]));
+        setAgentEvents([]);
+        setActiveTab('research');
+        document.dispatchEvent(new CustomEvent(THREAD_EVENTS.ACTIVE, { detail: { threadId: thread.id } }));
+      } catch (error) {
+        console.error('Failed to open thread:', error);
+        toast.error('Could not open the thread');
+      }
+    };
+
+    const handleNewThread = () => {
+      if (isSearching) {
+        toast.info('Stop the current research before starting a new thread');
+        return;
+      }
+      threadIdRef.current = undefined;
+      setMessages([]);
+      setAgentEvents([]);
+      document.dispatchEvent(new CustomEvent(THREAD_EVENTS.ACTIVE, { detail: { threadId: null } }));
+    };
+
+    document.addEventListener(THREAD_EVENTS.OPEN, handleOpenThread);
+    document.addEventListener(THREAD_EVENTS.NEW, handleNewThread);
+    return () => {
+      document.removeEventListener(THREAD_EVENTS.OPEN, handleOpenThread);
+      document.removeEventListener(THREAD_EVENTS.NEW, handleNewThread);
+    };
+  }, [isSearching, firecrawlApiKey]);
+
+  const persistTurn = async (turn: NewThreadTurn) => {
+    try {
+      const thread = await recordThreadTurn(threadIdRef.current, turn);
+      threadIdRef.current = thread.id;
+      document.dispatchEvent(new CustomEvent(THREAD_EVENTS.ACTIVE, { detail: { threadId: thread.id } }));
+    } catch (error) {
+      console.error('Failed to save thread:', error);
+      toast.error('This answer could not be saved to the thread');
+    }
+  };
+
   // Listen for follow-up question events
   useEffect(() => {
     const handleFollowUpQuestion = async (event: Event) => {
@@ -326,8 +519,10 @@ export function Chat() {
       
       // Get search stream with context
       // Pass the API key only if user provided one, otherwise let server use env var
-      const { stream } = await search(query, conversationContext, firecrawlApiKey || undefined);
+      const { stream, runId } = await search(query, conversationContext, firecrawlApiKey || undefined, undefined, undefined, undefined, undefined, timeRange);
+      activeRunIdRef.current = runId;
       let finalContent = '';
+      let turn: NewThreadTurn | undefined;
       
       // Read stream and update events
       let streamingStarted = false;
@@ -366,58 +561,20 @@ export function Chat() {
           // Capture final result
           if (event.type === 'final-result') {
             finalContent = event.content;
+            const finished: NewThreadTurn = {
+              kind: 'search',
+              query,
+              content: finalContent,
+              sources: event.sources || [],
+              followUpQuestions: event.followUpQuestions,
+              citationReport: citationReportFrom(events)
+            };
+            turn = finished;
             
             // Update the streaming message with final content and sources
             setMessages(prev => prev.map(msg => 
               msg.id === resultMsgId 
-                ? {
-                    ...msg,
-                    content: (
-                      <div className="space-y-4">
-                        <div className="prose prose-sm dark:prose-invert max-w-none">
-                          <MarkdownRenderer content={finalContent} />
-                        </div>
-                        <CitationTooltip sources={event.sources || []} />
-                        
-                        {/* Follow-up Questions */}
-                        {event.followUpQuestions && event.followUpQuestions.length > 0 && (
-                          <div className="mt-8 pt-6 border-t border-gray-200 dark:border-gray-700">
-                            <h3 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
-                              Follow-up questions
-                            </h3>
-                            <div className="space-y-2">
-                              {event.followUpQuestions.map((question, index) => (
-                                <button
-                                  key={index}
-                                  onClick={() => {
-                                    const evt = new CustomEvent('followUpQuestion', { 
-                                      detail: { question },
-                                      bubbles: true 
-                                    });
-                                    document.dispatchEvent(evt);
-                                  }}
-                                  className="block w-full text-left px-4 py-3 rounded-lg border border-gray-200 dark:border-gray-700 hover:border-orange-300 dark:hover:border-orange-700 hover:bg-orange-50 dark:hover:bg-orange-900/10 transition-colors group"
-                                >
-                                  <div className="flex items-center justify-between">
-                                    <span className="text-sm text-gray-700 dark:text-gray-300 group-hover:text-gray-900 dark:group-hover:text-gray-100">
-                                      {question}
-                                    </span>
-                                    <svg className="w-4 h-4 text-gray-400 group-hover:text-orange-500 flex-shrink-0 ml-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
-                                    </svg>
-                                  </div>
-                                </button>
-                              ))}
-                            </div>
-                          </div>
-                        )}
-                        
-                        {/* Sources */}
-                        <SourcesList sources={event.sources || []} />
-                      </div>
-                    ),
-                    searchResults: finalContent
-                  }
+                ? { ...msg, content: <TurnResult turn={finished} />, searchResults: finalContent }
                 : msg
             ));
           }
@@ -430,6 +587,9 @@ export function Chat() {
           ));
         }
       }
+
+      // Keep the finished answer in the thread so it survives a reload
+      if (turn) await persistTurn(turn);
     } catch (error) {
       console.error('Search error:', error);
       // Remove the search display message
@@ -457,6 +617,7 @@ export function Chat() {
         isSearch: false
       }]);
     } finally {
+      activeRunIdRef.current = null;
       setIsSearching(false);
     }
   };
@@ -504,7 +665,7 @@ export function Chat() {
       }
 
       // Choose between single-agent or multi-agent ICP analysis
-      const { stream } = useMultiAgent 
+      const { stream, runId } = useMultiAgent 
         ? await generateMultiAgentICPProfiles(
             `Create comprehensive ICP profiles for ${urlToUse}`,
             [{
@@ -528,8 +689,10 @@ export function Chat() {
             }],
             context: conversationContext
           }, firecrawlApiKey || undefined);
+      activeRunIdRef.current = runId;
 
       let finalContent = '';
+      let turn: NewThreadTurn | undefined;
       let streamingStarted = false;
       const resultMsgId = (Date.now() + 2).toString();
 
@@ -577,24 +740,41 @@ export function Chat() {
           ));
         } else if (event.type === 'final-result') {
           finalContent = event.content;
+          // Validated profiles arrive just before the final result
+          const structured = events.find(e => e.type === 'icp-profiles');
+          const finished: NewThreadTurn = {
+            kind: 'icp',
+            query: `ICP analysis: ${urlToUse}`,
+            target: urlToUse,
+            content: finalContent,
+            sources: event.sources || [],
+            followUpQuestions: event.followUpQuestions,
+            icpProfiles: structured?.type === 'icp-profiles' ? structured.profiles : undefined,
+            citationReport: citationReportFrom(events)
+          };
+          turn = finished;
+          const resultContent = <TurnResult turn={finished} apiKey={firecrawlApiKey || undefined} />;
           
           if (!streamingStarted) {
             setMessages(prev => [...prev, {
               id: resultMsgId,
               role: 'assistant',
-              content: <MarkdownRenderer content={finalContent} />,
+              content: resultContent,
               isSearch: false,
               searchResults: finalContent
             }]);
           } else {
             setMessages(prev => prev.map(msg => 
               msg.id === resultMsgId 
-                ? { ...msg, content: <MarkdownRenderer content={finalContent} />, searchResults: finalContent }
+                ? { ...msg, content: resultContent, searchResults: finalContent }
                 : msg
             ));
           }
         }
       }
+
+      // Keep the finished answer in the thread so it survives a reload
+      if (turn) await persistTurn(turn);
     } catch (error) {
       console.error('ICP generation error:', error);
       setMessages(prev => prev.filter(msg => msg.id !== assistantMsgId));
@@ -611,6 +791,7 @@ export function Chat() {
         isSearch: false
       }]);
     } finally {
+      activeRunIdRef.current = null;
       setIsSearching(false);
     }
   };
@@ -700,11 +881,13 @@ export function Chat() {
       // Ensure URL has protocol
       const fullUrl = url.startsWith('http') ? url : `https://${url}`;
 
-      const { stream } = await analyzeCompanyIntelligence(fullUrl, {
+      const { stream, runId } = await analyzeCompanyIntelligence(fullUrl, {
         context: conversationContext
       }, firecrawlApiKey || undefined);
+      activeRunIdRef.current = runId;
 
       let finalContent = '';
+      let turn: NewThreadTurn | undefined;
       let streamingStarted = false;
       const resultMsgId = (Date.now() + 2).toString();
 
@@ -742,24 +925,38 @@ export function Chat() {
           ));
         } else if (event.type === 'final-result') {
           finalContent = event.content;
+          const finished: NewThreadTurn = {
+            kind: 'company',
+            query: url,
+            target: fullUrl,
+            content: finalContent,
+            sources: event.sources || [],
+            followUpQuestions: event.followUpQuestions,
+            citationReport: citationReportFrom(events)
+          };
+          turn = finished;
+          const resultContent = <TurnResult turn={finished} />;
           
           if (!streamingStarted) {
             setMessages(prev => [...prev, {
               id: resultMsgId,
               role: 'assistant',
-              content: <MarkdownRenderer content={finalContent} />,
+              content: resultContent,
               isSearch: false,
               searchResults: finalContent
             }]);
           } else {
             setMessages(prev => prev.map(msg => 
               msg.id === resultMsgId 
-                ? { ...msg, content: <MarkdownRenderer content={finalContent} />, searchResults: finalContent }
+                ? { ...msg, content: resultContent, searchResults: finalContent }
                 : msg
             ));
           }
         }
       }
+
+      // Keep the finished answer in the thread so it survives a reload
+      if (turn) await persistTurn(turn);
     } catch (error) {
       console.error('Company research error:', error);
       setMessages(prev => prev.filter(msg => msg.id !== assistantMsgId));
@@ -776,15 +973,36 @@ export function Chat() {
         isSearch: false
       }]);
     } finally {
+      activeRunIdRef.current = null;
       setIsSearching(false);
     }
   };
 
+  const handleStop = async () => {
+    const runId = activeRunIdRef.current;
+    if (!runId) return;
+
+    try {
+      const cancelled = await cancelResearchRun(runId);
+      if (cancelled) {
+        toast.info('Stopping research...');
+      }
+    } catch (error) {
+      console.error('Failed to stop research:', error);
+      toast.error('Could not stop the research run');
+    }
+  };
+
   const handleSubmit = async (e?: React.FormEvent) => {
     if (e) {
       e.preventDefault();
     }
     if (!input.trim() || isSearching) return;
+    const rangeIssue = timeRange && timeRangeIssue(timeRange);
+    if (rangeIssue) {
+      toast.error(rangeIssue);
+      return;
+    }
     setShowSuggestions(false);
 
     const userMessage = input;
@@ -847,10 +1065,40 @@ export function Chat() {
           >
             ICP {activeTab === 'icp' && (useMultiAgent ? '🤖' : '🔍')}
           </button>
+          <button
+            className={`px-4 py-2 rounded-t-md ${activeTab === 'bulk' ? 'bg-white dark:bg-zinc-950 border border-b-0 border-gray-200 dark:border-gray-800' : 'text-gray-600 dark:text-gray-300'}`}
+            onClick={() => setActiveTab('bulk')}
+          >
+            Bulk
+          </button>
+          <button
+            className={`px-4 py-2 rounded-t-md ${activeTab === 'library' ? 'bg-white dark:bg-zinc-950 border border-b-0 border-gray-200 dark:border-gray-800' : 'text-gray-600 dark:text-gray-300'}`}
+            onClick={() => setActiveTab('library')}
+          >
+            Library
+          </button>
+          <button
+            className={`px-4 py-2 rounded-t-md ${activeTab === 'watchlist' ? 'bg-white dark:bg-zinc-950 border border-b-0 border-gray-200 dark:border-gray-800' : 'text-gray-600 dark:text-gray-300'}`}
+            onClick={() => setActiveTab('watchlist')}
+          >
+            Watchlist
+          </button>
         </div>
       </div>
 
-      {messages.length === 0 && activeTab === 'research' ? (
+      {activeTab === 'bulk' ? (
+        <div className="flex-1 px-4 sm:px-6 lg:px-8 pb-8">
+          <BatchPanel apiKey={firecrawlApiKey || undefined} />
+        </div>
+      ) : activeTab === 'library' ? (
+        <div className="flex-1 px-4 sm:px-6 lg:px-8 pb-8">
+          <ICPLibraryPanel apiKey={firecrawlApiKey || undefined} />
+        </div>
+      ) : activeTab === 'watchlist' ? (
+        <div className="flex-1 px-4 sm:px-6 lg:px-8 pb-8">
+          <WatchlistPanel apiKey={firecrawlApiKey || undefined} />
+        </div>
+      ) : messages.length === 0 && activeTab === 'research' ? (
         // Center input when no messages
         <div className="flex-1 flex items-center justify-center px-4 sm:px-6 lg:px-8">
           <div className="w-full max-w-4xl">
@@ -871,22 +1119,28 @@ export function Chat() {
                   className="w-full h-14 rounded-full border border-zinc-200 bg-white pl-6 pr-16 text-base ring-offset-white file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-zinc-500 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-orange-500 focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-800 dark:bg-zinc-950 dark:ring-offset-zinc-950 dark:placeholder:text-zinc-400 dark:focus-visible:ring-orange-400 shadow-sm"
                   disabled={isSearching}
                 />
-                <button
-                  type="submit"
-                  disabled={isSearching || !input.trim()}
-                  className="absolute right-2 top-2 h-10 w-10 bg-orange-500 hover:bg-orange-600 text-white rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center"
-                >
-                  {isSearching ? (
-                    <svg className="w-5 h-5 animate-spin" fill="none" viewBox="0 0 24 24">
-                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                {isSearching ? (
+                  <button
+                    type="button"
+                    onClick={handleStop}
+                    title="Stop research"
+                    className="absolute right-2 top-2 h-10 w-10 bg-orange-500 hover:bg-orange-600 text-white rounded-full transition-colors duration-200 flex items-center justify-center"
+                  >
+                    <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                      <rect x="6" y="6" width="12" height="12" rx="2" />
                     </svg>
-                  ) : (
+                  </button>
+                ) : (
+                  <button
+                    type="submit"
+                    disabled={!input.trim()}
+                    className="absolute right-2 top-2 h-10 w-10 bg-orange-500 hover:bg-orange-600 text-white rounded-full disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200 flex items-center justify-center"
+                  >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                     </svg>
-                  )}
-                </button>
+                  </button>
+                )}
                 
                 {/* Suggestions dropdown - only show on initial load */}
                 {showSuggestions && !input && messages.length === 0 && (
@@ -912,6 +1166,7 @@ export function Chat() {
                   </div>
                 )}
               </div>
+              <TimeRangeSelect value={timeRange} onChange={setTimeRange} disabled={isSearching} />
             </form>
           </div>
         </div>
@@ -986,6 +1241,15 @@ export function Chat() {
                   : (useMultiAgent ? '🤖 Start Multi-Agent ICP Analysis' : '🔍 Start Single-Agent ICP Analysis')
                 }
               </button>
+              {isSearching && (
+                <button
+                  type="button"
+                  onClick={handleStop}
+                  className="px-4 py-3 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Stop
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -1037,17 +1301,23 @@ export function Chat() {
               disabled={isSearching}
             />
             
-            <button
-              type="submit"
-              disabled={!input.trim() || isSearching}
-              className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white flex items-center justify-center transition-colors shadow-sm"
-            >
-              {isSearching ? (
-                <svg className="animate-spin h-5 w-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            {isSearching ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                title="Stop research"
+                className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-orange-500 hover:bg-orange-600 text-white flex items-center justify-center transition-colors shadow-sm"
+              >
+                <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="currentColor" viewBox="0 0 24 24">
+                  <rect x="6" y="6" width="12" height="12" rx="2" />
                 </svg>
-              ) : (
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!input.trim()}
+                className="absolute right-2 top-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-orange-500 hover:bg-orange-600 disabled:bg-gray-300 disabled:cursor-not-allowed text-white flex items-center justify-center transition-colors shadow-sm"
+              >
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
                   width="20"
@@ -1062,8 +1332,8 @@ export function Chat() {
                   <circle cx="11" cy="11" r="8" />
                   <path d="m21 21-4.35-4.35" />
                 </svg>
-              )}
-            </button>
+              </button>
+            )}
             
             {/* Suggestions dropdown - positioned to show above input */}
             {showSuggestions && !input && (
@@ -1089,6 +1359,9 @@ export function Chat() {
               </div>
             )}
           </div>
+          {activeTab === 'research' && (
+            <TimeRangeSelect value={timeRange} onChange={setTimeRange} disabled={isSearching} />
+          )}
         </form>
       </div>
         </>
@@ -0,0 +1,91 @@
+'use client';
+
+import { useState } from 'react';
+import type { ClaimCheck, ClaimStatus, CitationReport } from '@/lib/citation-verification';
+
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  supported: 'Supported',
+  partial: 'Partly supported',
+  unsupported: 'Not in cited source',
+  miscited: 'Wrong source cited',
+  unverifiable: 'Could not check',
+};
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  supported: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  partial: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  unsupported: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  miscited: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  unverifiable: 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+/**
+ * Short text for the warning shown inline after a flagged claim
+ */
+export function claimWarning(claim: ClaimCheck): string {
+  return claim.status === 'miscited' && claim.suggestedCitation
+    ? `Stated in [${claim.suggestedCitation}], not the cited source`
+    : CLAIM_STATUS_LABELS[claim.status];
+}
+
+/**
+ * Summary of a citation check, listing the claims to review before the answer is shared
+ */
+export function CitationReportPanel({ report }: { report: CitationReport }) {
+  const [expanded, setExpanded] = useState(false);
+  const flagged = report.claims.filter(claim => claim.status !== 'supported');
+  if (report.claims.length === 0) return null;
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-800 p-4 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium">Citation check</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {report.totals.supported} of {report.claims.length} cited claims supported
+          {report.skipped > 0 && ` · ${report.skipped} not checked`}
+        </span>
+        {(Object.keys(CLAIM_STATUS_LABELS) as ClaimStatus[])
+          .filter(status => status !== 'supported' && report.totals[status] > 0)
+          .map(status => (
+            <span key={status} className={`px-2 py-0.5 rounded text-xs ${STATUS_STYLES[status]}`}>
+              {report.totals[status]} {CLAIM_STATUS_LABELS[status].toLowerCase()}
+            </span>
+          ))}
+        {flagged.length > 0 && (
+          <button
+            type="button"
+            onClick={() => setExpanded(!expanded)}
+            className="ml-auto text-xs text-orange-600 hover:underline"
+          >
+            {expanded ? 'Hide claims' : 'Review claims'}
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <ul className="space-y-2 text-xs">
+          {flagged.map(claim => (
+            <li key={claim.id} className="border-t border-gray-100 dark:border-gray-800 pt-2">
+              <span className={`px-1.5 py-0.5 rounded ${STATUS_STYLES[claim.status]}`}>{claimWarning(claim)}</span>
+              <span className="ml-2 text-gray-700 dark:text-gray-300">{claim.text}</span>
+              <div className="mt-1 text-gray-500 dark:text-gray-400">
+                {claim.reason}
+                {claim.evidence && (
+                  <a
+                    href={claim.evidence.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    title={claim.evidence.quote}
+                    className="ml-1 text-orange-600 hover:underline"
+                  >
+                    [{claim.evidence.source}]
+                  </a>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
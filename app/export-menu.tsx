@@ -0,0 +1,63 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { exportResearchReport } from './search';
+import type { ExportFormat, ResearchReport } from '@/lib/export';
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'pdf', label: 'PDF' },
+  { format: 'docx', label: 'Word' },
+  { format: 'json', label: 'JSON' },
+];
+
+interface ExportMenuProps {
+  report: ResearchReport;
+}
+
+export function ExportMenu({ report }: ExportMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+  const handleExport = async (format: ExportFormat) => {
+    setExporting(format);
+    try {
+      const file = await exportResearchReport(report, format);
+      const bytes = Uint8Array.from(atob(file.base64), char => char.charCodeAt(0));
+      const url = URL.createObjectURL(new Blob([bytes], { type: file.contentType }));
+
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Export failed', {
+        description: error instanceof Error ? error.message : 'Could not create the file'
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 pt-2">
+      <span className="text-xs text-gray-500 dark:text-gray-400">Export:</span>
+      {FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          type="button"
+          onClick={() => handleExport(format)}
+          disabled={exporting !== null}
+          className="px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300 dark:hover:border-orange-700 hover:bg-orange-50 dark:hover:bg-orange-900/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {exporting === format ? 'Exporting...' : label}
+        </button>
+      ))}
+    </div>
+  );
+}
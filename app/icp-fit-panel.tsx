@@ -0,0 +1,119 @@
+'use client';
+
+import { useState } from 'react';
+import { readStreamableValue } from 'ai/rsc';
+import { toast } from 'sonner';
+import { scoreICPFit } from './search';
+import type { FitCriterion, ICPFitResult, ICPFitScore } from '@/lib/icp-fit';
+import type { ICPProfile } from '@/lib/multi-agent/types';
+
+const VERDICT_STYLES: Record<ICPFitScore['verdict'], string> = {
+  strong: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300',
+  moderate: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  weak: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  'insufficient-data': 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300',
+};
+
+const STATUS_ICONS: Record<FitCriterion['status'], string> = {
+  matched: '✓',
+  partial: '◐',
+  unmatched: '✗',
+  unknown: '?',
+};
+
+interface ICPFitPanelProps {
+  profiles: ICPProfile[];
+  apiKey?: string;
+}
+
+/**
+ * "Does this account fit?" - score a prospect domain against the profiles of an ICP run
+ */
+export function ICPFitPanel({ profiles, apiKey }: ICPFitPanelProps) {
+  const [domain, setDomain] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [result, setResult] = useState<ICPFitResult | null>(null);
+
+  const handleScore = async () => {
+    setResult(null);
+    setStatus('Starting...');
+    try {
+      const { stream } = await scoreICPFit(domain.trim(), profiles, apiKey);
+      for await (const event of readStreamableValue(stream)) {
+        if (!event) continue;
+        if (event.type === 'phase-update') setStatus(event.message);
+        if (event.type === 'icp-fit') setResult(event.result);
+        if (event.type === 'error') throw new Error(event.error);
+        if (event.type === 'cancelled') throw new Error(event.message);
+      }
+    } catch (error) {
+      toast.error('Fit scoring failed', {
+        description: error instanceof Error ? error.message : 'Could not score this account'
+      });
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-800 p-4 space-y-3">
+      <div className="text-sm font-medium">Does an account fit these profiles?</div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={domain}
+          onChange={(e) => setDomain(e.target.value)}
+          placeholder="prospect.com"
+          className="flex-1 p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          disabled={status !== null}
+        />
+        <button
+          type="button"
+          onClick={handleScore}
+          disabled={status !== null || !domain.trim()}
+          className="px-3 py-2 text-sm bg-orange-500 hover:bg-orange-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {status !== null ? 'Scoring...' : 'Score fit'}
+        </button>
+      </div>
+      {status && <div className="text-xs text-gray-500 dark:text-gray-400">{status}</div>}
+
+      {result && (
+        <div className="space-y-3">
+          {result.scores.map(score => (
+            <div key={score.profileId || score.profileName} className="border-t border-gray-100 dark:border-gray-800 pt-3">
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-sm">{score.profileName}</span>
+                <span className="text-sm font-semibold">{score.score}/100</span>
+                <span className={`px-2 py-0.5 rounded text-xs ${VERDICT_STYLES[score.verdict]}`}>{score.verdict}</span>
+                <span className="text-xs text-gray-500 dark:text-gray-400">evidence for {Math.round(score.coverage * 100)}% of criteria</span>
+              </div>
+              <ul className="mt-2 space-y-1 text-xs">
+                {[...score.matched, ...score.partial, ...score.unmatched, ...score.unknown].map(criterion => (
+                  <li key={criterion.key} className="flex gap-2">
+                    <span className="w-4 text-center">{STATUS_ICONS[criterion.status]}</span>
+                    <span>
+                      <span className="font-medium">{criterion.label}:</span> {criterion.reason}
+                      {criterion.evidence.map((evidence, index) => (
+                        <a
+                          key={`${evidence.url}-${index}`}
+                          href={evidence.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          title={evidence.quote}
+                          className="ml-1 text-orange-600 hover:underline"
+                        >
+                          [source]
+                        </a>
+                      ))}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,363 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  addICPProfileVersion,
+  deleteSavedICPProfile,
+  diffICPProfileVersions,
+  getSavedICPProfile,
+  listSavedICPProfiles,
+  renameSavedICPProfile,
+  restoreICPProfileVersion,
+  saveICPProfile,
+} from './search';
+import { ICPFitPanel } from './icp-fit-panel';
+import { ICP_FIT_CONFIG } from '@/lib/config';
+import type { ICPProfileDiff, SavedICPProfile, SavedICPProfileSummary } from '@/lib/icp-library';
+import type { ICPProfile } from '@/lib/multi-agent/types';
+
+type Section = 'characteristics' | 'firmographics' | 'technographics' | 'psychographics' | 'validation' | 'insights';
+
+// Hand-editable profile fields; list fields are edited one entry per line
+const FIELDS: { section: Section; key: string; label: string; list?: boolean }[] = [
+  { section: 'characteristics', key: 'industry', label: 'Industry' },
+  { section: 'characteristics', key: 'companySize', label: 'Company size' },
+  { section: 'characteristics', key: 'revenueRange', label: 'Revenue range' },
+  { section: 'characteristics', key: 'geographicFocus', label: 'Geographic focus' },
+  { section: 'characteristics', key: 'businessModel', label: 'Business model' },
+  { section: 'firmographics', key: 'fundingStage', label: 'Funding stage' },
+  { section: 'firmographics', key: 'growthStage', label: 'Growth stage' },
+  { section: 'firmographics', key: 'marketPosition', label: 'Market position' },
+  { section: 'technographics', key: 'currentTechStack', label: 'Tech stack', list: true },
+  { section: 'technographics', key: 'integrationRequirements', label: 'Integration requirements', list: true },
+  { section: 'psychographics', key: 'painPoints', label: 'Pain points', list: true },
+  { section: 'psychographics', key: 'buyingTriggers', label: 'Buying triggers', list: true },
+  { section: 'psychographics', key: 'decisionMakingProcess', label: 'Decision making' },
+  { section: 'psychographics', key: 'budgetAllocation', label: 'Budget allocation' },
+  { section: 'insights', key: 'valuePropositions', label: 'Value propositions', list: true },
+  { section: 'insights', key: 'commonObjections', label: 'Common objections', list: true },
+  { section: 'insights', key: 'outreachStrategy', label: 'Outreach strategy', list: true },
+];
+
+function readField(profile: ICPProfile, section: Section, key: string): string {
+  const value = (profile[section] as unknown as Record<string, unknown>)[key];
+  return Array.isArray(value) ? value.join('\n') : String(value ?? '');
+}
+
+function writeField(profile: ICPProfile, section: Section, key: string, value: string, list?: boolean): ICPProfile {
+  return {
+    ...profile,
+    [section]: {
+      ...profile[section],
+      [key]: list ? value.split('\n').map(item => item.trim()).filter(Boolean) : value,
+    },
+  };
+}
+
+interface SaveToLibraryProps {
+  profiles: ICPProfile[];
+  // Stored on the version, e.g. the query or URL of the run
+  note?: string;
+}
+
+/**
+ * Save the profiles of an ICP run, each as a new library entry or as a new
+ * version of an entry saved from an earlier run
+ */
+export function SaveToLibrary({ profiles, note }: SaveToLibraryProps) {
+  const [entries, setEntries] = useState<SavedICPProfileSummary[]>([]);
+  const [targets, setTargets] = useState<Record<number, string>>({});
+  const [saved, setSaved] = useState<Record<number, boolean>>({});
+
+  useEffect(() => {
+    listSavedICPProfiles().then(setEntries).catch(error => console.error('Failed to load ICP library:', error));
+  }, []);
+
+  const handleSave = async (index: number) => {
+    const target = targets[index];
+    try {
+      if (target) {
+        const entry = await addICPProfileVersion(target, profiles[index], { origin: 'run', note });
+        toast.success(entry ? `Saved as version ${entry.currentVersion} of ${entry.name}` : 'Saved profile not found');
+      } else {
+        const entry = await saveICPProfile(profiles[index], { note });
+        toast.success(`Saved ${entry.name} to the ICP library`);
+      }
+      setSaved(prev => ({ ...prev, [index]: true }));
+    } catch (error) {
+      toast.error('Could not save the profile', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-800 p-4 space-y-2">
+      <div className="text-sm font-medium">Save to ICP library</div>
+      {profiles.map((profile, index) => (
+        <div key={profile.id || index} className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="flex-1 min-w-[160px]">{profile.name}</span>
+          <select
+            value={targets[index] || ''}
+            onChange={(e) => setTargets(prev => ({ ...prev, [index]: e.target.value }))}
+            className="p-1.5 border rounded-md text-xs dark:bg-zinc-950 dark:border-zinc-800"
+          >
+            <option value="">New saved profile</option>
+            {entries.map(entry => (
+              <option key={entry.id} value={entry.id}>New version of {entry.name}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => handleSave(index)}
+            disabled={saved[index]}
+            className="px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 hover:border-orange-300 disabled:opacity-50"
+          >
+            {saved[index] ? 'Saved' : 'Save'}
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ICPLibraryPanelProps {
+  apiKey?: string;
+}
+
+export function ICPLibraryPanel({ apiKey }: ICPLibraryPanelProps) {
+  const [search, setSearch] = useState('');
+  const [entries, setEntries] = useState<SavedICPProfileSummary[]>([]);
+  const [selected, setSelected] = useState<SavedICPProfile | null>(null);
+  const [draft, setDraft] = useState<ICPProfile | null>(null);
+  const [name, setName] = useState('');
+  const [diff, setDiff] = useState<ICPProfileDiff | null>(null);
+  const [fromVersion, setFromVersion] = useState<number | undefined>();
+  const [toVersion, setToVersion] = useState<number | undefined>();
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listSavedICPProfiles({ search: search || undefined }));
+    } catch (error) {
+      console.error('Failed to load ICP library:', error);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const open = (entry: SavedICPProfile | undefined) => {
+    setSelected(entry || null);
+    setDraft(entry ? entry.versions.find(version => version.version === entry.currentVersion)!.profile : null);
+    setName(entry?.name || '');
+    setDiff(null);
+    setToVersion(entry?.currentVersion);
+    setFromVersion(entry && entry.versions.length > 1 ? entry.versions[entry.versions.length - 2].version : undefined);
+  };
+
+  const run = async (action: () => Promise<SavedICPProfile | undefined>, message: string) => {
+    try {
+      const entry = await action();
+      open(entry);
+      await refresh();
+      toast.success(message);
+    } catch (error) {
+      toast.error('ICP library update failed', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleDiff = async () => {
+    if (!selected) return;
+    try {
+      setDiff(await diffICPProfileVersions(selected.id, fromVersion, toVersion) || null);
+    } catch (error) {
+      toast.error('Could not compare versions', {
+        description: error instanceof Error ? error.message : undefined
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected || !window.confirm(`Delete ${selected.name} and all of its versions?`)) return;
+    await deleteSavedICPProfile(selected.id);
+    open(undefined);
+    await refresh();
+  };
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-4">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-semibold">ICP Library</h2>
+        <p className="text-gray-600 dark:text-gray-400">Saved ICP profiles with their version history. Save profiles from any ICP run.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or industry"
+            className="w-full p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          />
+          {entries.length === 0 && <p className="text-sm text-gray-500">No saved profiles yet.</p>}
+          {entries.map(entry => (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={async () => open(await getSavedICPProfile(entry.id))}
+              className={`w-full text-left p-3 rounded-md border text-sm ${selected?.id === entry.id ? 'border-orange-400' : 'border-gray-200 dark:border-gray-800'}`}
+            >
+              <div className="font-medium">{entry.name}</div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">
+                {entry.profile.characteristics.industry || 'No industry'} · v{entry.currentVersion} · {entry.versionCount} version{entry.versionCount === 1 ? '' : 's'}
+              </div>
+            </button>
+          ))}
+        </div>
+
+        <div className="md:col-span-2 space-y-4">
+          {selected && draft ? (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="flex-1 p-2 border rounded-md text-sm font-medium dark:bg-zinc-950 dark:border-zinc-800"
+                />
+                <button
+                  type="button"
+                  onClick={() => run(() => renameSavedICPProfile(selected.id, { name }), 'Renamed')}
+                  disabled={!name.trim() || name === selected.name}
+                  className="px-3 py-2 text-xs rounded-md border border-gray-200 dark:border-gray-700 disabled:opacity-50"
+                >
+                  Rename
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="px-3 py-2 text-xs rounded-md border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400"
+                >
+                  Delete
+                </button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {FIELDS.map(field => (
+                  <label key={`${field.section}.${field.key}`} className="text-xs space-y-1">
+                    <span className="text-gray-500 dark:text-gray-400">{field.label}</span>
+                    {field.list ? (
+                      <textarea
+                        value={readField(draft, field.section, field.key)}
+                        onChange={(e) => setDraft(writeField(draft, field.section, field.key, e.target.value, true))}
+                        rows={3}
+                        className="w-full p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+                      />
+                    ) : (
+                      <input
+                        type="text"
+                        value={readField(draft, field.section, field.key)}
+                        onChange={(e) => setDraft(writeField(draft, field.section, field.key, e.target.value))}
+                        className="w-full p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+                      />
+                    )}
+                  </label>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => run(() => addICPProfileVersion(selected.id, draft, { origin: 'edit' }), 'Saved a new version')}
+                className="px-4 py-2 text-sm bg-orange-500 hover:bg-orange-600 text-white rounded-md"
+              >
+                Save as new version
+              </button>
+
+              <div className="rounded-lg border border-gray-200 dark:border-gray-800 p-4 space-y-3">
+                <div className="text-sm font-medium">Version history</div>
+                <ul className="space-y-1 text-xs">
+                  {[...selected.versions].reverse().map(version => (
+                    <li key={version.version} className="flex items-center gap-2">
+                      <span className="font-medium">v{version.version}</span>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {version.origin} · {new Date(version.createdAt).toLocaleString()}{version.note ? ` · ${version.note}` : ''}
+                      </span>
+                      {version.version === selected.currentVersion ? (
+                        <span className="text-green-600 dark:text-green-400">current</span>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => run(() => restoreICPProfileVersion(selected.id, version.version), `Restored version ${version.version}`)}
+                          className="text-orange-600 hover:underline"
+                        >
+                          Restore
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+
+                {selected.versions.length > 1 && (
+                  <div className="flex items-center gap-2 text-xs">
+                    <span>Compare</span>
+                    {[fromVersion, toVersion].map((value, index) => (
+                      <select
+                        key={index}
+                        value={value ?? ''}
+                        onChange={(e) => (index === 0 ? setFromVersion : setToVersion)(Number(e.target.value))}
+                        className="p-1 border rounded-md dark:bg-zinc-950 dark:border-zinc-800"
+                      >
+                        {selected.versions.map(version => (
+                          <option key={version.version} value={version.version}>v{version.version}</option>
+                        ))}
+                      </select>
+                    ))}
+                    <button type="button" onClick={handleDiff} className="px-2.5 py-1 rounded-md border border-gray-200 dark:border-gray-700">
+                      Show changes
+                    </button>
+                  </div>
+                )}
+
+                {diff && (
+                  diff.changes.length === 0 ? (
+                    <p className="text-xs text-gray-500">No differences between v{diff.fromVersion} and v{diff.toVersion}.</p>
+                  ) : (
+                    <ul className="space-y-2 text-xs">
+                      {diff.changes.map(change => (
+                        <li key={change.path}>
+                          <div className="font-mono text-gray-600 dark:text-gray-400">{change.path}</div>
+                          {change.kind === 'changed' ? (
+                            <div>
+                              <span className="line-through text-red-600 dark:text-red-400">{String(change.before ?? '')}</span>
+                              {' → '}
+                              <span className="text-green-600 dark:text-green-400">{String(change.after ?? '')}</span>
+                            </div>
+                          ) : (
+                            <div className="space-y-0.5">
+                              {change.added?.map(item => <div key={`+${item}`} className="text-green-600 dark:text-green-400">+ {item}</div>)}
+                              {change.removed?.map(item => <div key={`-${item}`} className="text-red-600 dark:text-red-400">- {item}</div>)}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500">Select a saved profile to edit it, see its history or compare versions.</p>
+          )}
+
+          {entries.length > 0 && (
+            <ICPFitPanel profiles={entries.slice(0, ICP_FIT_CONFIG.MAX_PROFILES).map(entry => entry.profile)} apiKey={apiKey} />
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,41 @@
 'use client';
 
 import { memo } from 'react';
+import type { ClaimCheck } from '@/lib/citation-verification';
+import { claimWarning } from './citation-report';
 
 interface MarkdownRendererProps {
   content: string;
   streaming?: boolean;
+  // Claims from a citation check to mark with an inline warning
+  flaggedClaims?: ClaimCheck[];
 }
 
+// Private-use characters survive the markdown passes untouched
+const WARNING_TOKEN = /\uE000(\d+)\uE001/g;
+
 export const MarkdownRenderer = memo(function MarkdownRenderer({ 
   content, 
-  streaming = false 
+  streaming = false,
+  flaggedClaims = []
 }: MarkdownRendererProps) {
+  // Mark where each flagged claim ends; claims whose text moved are skipped
+  const markClaims = (text: string) => {
+    const located = flaggedClaims
+      .map((claim, index) => ({ claim, index }))
+      .filter(({ claim }) => text.slice(claim.start, claim.end) === claim.text)
+      .sort((a, b) => b.claim.end - a.claim.end);
+    for (const { claim, index } of located) {
+      text = `${text.slice(0, claim.end)}\uE000${index}\uE001${text.slice(claim.end)}`;
+    }
+    return text;
+  };
+
+  const renderWarnings = (html: string) => html.replace(WARNING_TOKEN, (_, index: string) => {
+    const claim = flaggedClaims[Number(index)];
+    return `<span class="citation-warning ml-1 px-1 rounded text-xs bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300 cursor-help" title="${escapeAttribute(claim.reason)}">⚠ ${escapeAttribute(claimWarning(claim))}</span>`;
+  });
+
   // Simple markdown parsing
   const parseMarkdown = (text: string) => {
     // Handle links [text](url) - must come before citations
@@ -101,10 +126,14 @@ export const MarkdownRenderer = memo(function MarkdownRenderer({
   return (
     <div className="text-gray-700 dark:text-gray-300">
       <div 
-        dangerouslySetInnerHTML={{ __html: parseMarkdown(content) }} 
+        dangerouslySetInnerHTML={{ __html: renderWarnings(parseMarkdown(markClaims(content))) }} 
         className="markdown-content leading-relaxed [&>p]:text-sm [&>ul]:text-sm [&>ol]:text-sm [&_li]:text-sm [&>h1]:text-gray-900 [&>h1]:dark:text-gray-100 [&>h2]:text-gray-900 [&>h2]:dark:text-gray-100 [&>h3]:text-gray-900 [&>h3]:dark:text-gray-100 [&>h4]:text-gray-900 [&>h4]:dark:text-gray-100"
       />
       {streaming && <span className="animate-pulse text-orange-500">▊</span>}
     </div>
   );
-});
\ No newline at end of file
+});
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
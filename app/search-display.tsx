@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import { SearchEvent, SearchPhase, Source } from '@/lib/langgraph-search-engine';
+import type { RunUsage } from '@/lib/usage';
 
 export function SearchDisplay({ events }: { events: SearchEvent[] }) {
   const [currentPhase, setCurrentPhase] = useState<SearchPhase>('understanding');
@@ -9,6 +10,9 @@ export function SearchDisplay({ events }: { events: SearchEvent[] }) {
   const [searchingQueries, setSearchingQueries] = useState<string[]>([]);
   const [foundSources, setFoundSources] = useState<Source[]>([]);
   const [thinkingMessages, setThinkingMessages] = useState<string[]>([]);
+  const [cancelledMessage, setCancelledMessage] = useState<string | null>(null);
+  const [cacheHits, setCacheHits] = useState(0);
+  const [usage, setUsage] = useState<RunUsage | null>(null);
 
   useEffect(() => {
     events.forEach(event => {
@@ -21,6 +25,12 @@ export function SearchDisplay({ events }: { events: SearchEvent[] }) {
         setFoundSources(prev => [...prev, ...event.sources]);
       } else if (event.type === 'thinking') {
         setThinkingMessages(prev => [...prev, event.message]);
+      } else if (event.type === 'cancelled') {
+        setCancelledMessage(event.message);
+      } else if (event.type === 'cache-hit') {
+        setCacheHits(prev => prev + 1);
+      } else if (event.type === 'usage') {
+        setUsage(event.usage);
       }
     });
   }, [events]);
@@ -40,6 +50,14 @@ export function SearchDisplay({ events }: { events: SearchEvent[] }) {
 
   return (
     <div className="space-y-4">
+      {/* Stopped by the user */}
+      {cancelledMessage && (
+        <div className="bg-gray-50 border border-gray-300 rounded-lg p-4">
+          <h3 className="font-semibold text-gray-900">⏹️ Research Stopped</h3>
+          <p className="text-sm text-gray-700">{cancelledMessage}</p>
+        </div>
+      )}
+
       {/* Current Phase */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
         <div className="flex items-center space-x-3">
@@ -47,6 +65,14 @@ export function SearchDisplay({ events }: { events: SearchEvent[] }) {
           <div>
             <h3 className="font-semibold text-blue-900">{getPhaseInfo(currentPhase).title}</h3>
             <p className="text-sm text-blue-700">{getPhaseInfo(currentPhase).description}</p>
+            {cacheHits > 0 && (
+              <p className="text-xs text-blue-600 mt-1">⚡ {cacheHits} result{cacheHits === 1 ? '' : 's'} reused from cache</p>
+            )}
+            {usage && (
+              <p className="text-xs text-blue-600 mt-1">
+                {usage.totalTokens.toLocaleString()} tokens · {usage.totalCredits} credits · ~${usage.estimatedCostUsd.toFixed(3)}
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -2,14 +2,36 @@
 
 import { createStreamableValue } from 'ai/rsc';
 import { FirecrawlClient } from '@/lib/firecrawl';
+import { createResearchCache } from '@/lib/cache';
+import { createUsageLedger, UsageBudget } from '@/lib/usage';
+import { ProviderName } from '@/lib/providers';
+import { getCheckpointer, ResearchSessionSummary } from '@/lib/checkpointer';
+import { researchJobRequestSchema, ResearchJobRequest } from '@/lib/api/runners';
+import { getJobQueue, JobListOptions, ResearchJob } from '@/lib/jobs';
+import { cancelRun, registerRun } from '@/lib/run-registry';
+import { batchRequestSchema, BatchRequest, threadExportSchema, threadTurnSchema, watchTargetCreateSchema, watchTargetUpdateSchema } from '@/lib/api/schemas';
+import { exportBatch, getBatchRunner, submitBatchRequest, BatchListOptions, BatchRun } from '@/lib/batch';
+import { exportReport, ExportFormat, ResearchReport } from '@/lib/export';
+import { getICPLibrary, ICPLibraryListOptions, ICPProfileDiff, ICPVersionOrigin, SavedICPProfile, SavedICPProfileSummary } from '@/lib/icp-library';
+import { getThreadWorkspace, threadExportFile, NewThreadTurn, ResearchThread, ResearchThreadSummary, ThreadImportResult, ThreadListOptions } from '@/lib/threads';
+import { getWatchlist, ChangeDigest, DigestListOptions, WatchCheckResult, WatchTarget, WatchTargetInput, WatchTargetUpdate } from '@/lib/watchlist';
 import { LangGraphSearchEngine as SearchEngine, SearchEvent, Source } from '@/lib/langgraph-search-engine';
+import type { ICPProfile } from '@/lib/multi-agent/types';
+import { TimeRange, timeRangeIssue } from '@/lib/time-range';
 
-export async function search(query: string, context?: { query: string; response: string }[], apiKey?: string) {
+export async function search(query: string, context?: { query: string; response: string }[], apiKey?: string, provider?: ProviderName, sessionId?: string, bypassCache?: boolean, budget?: UsageBudget, timeRange?: TimeRange) {
+  const rangeIssue = timeRange && timeRangeIssue(timeRange);
+  if (rangeIssue) throw new Error(rangeIssue);
   const stream = createStreamableValue<SearchEvent>();
   
-  // Create FirecrawlClient with API key if provided
-  const firecrawl = new FirecrawlClient(apiKey);
-  const searchEngine = new SearchEngine(firecrawl);
+  // Create FirecrawlClient with API key and research provider if provided
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
+  // Checkpoint every step so the run can be resumed if it is interrupted
+  const searchEngine = new SearchEngine(firecrawl, { enableCheckpointing: true });
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
 
   // Run search in background
   (async () => {
@@ -17,36 +39,84 @@ export async function search(query: string, context?: { query: string; response:
       // Stream events as they happen
       await searchEngine.search(query, (event) => {
         stream.update(event);
-      }, context);
+      }, context, sessionId, run.signal, timeRange);
       
       stream.done();
     } catch (error) {
       stream.error(error);
+    } finally {
+      run.release();
+    }
+  })();
+
+  return { stream: stream.value, runId: run.runId };
+}
+
+// Resume an interrupted search from its last completed step
+export async function resumeSearch(sessionId: string, apiKey?: string, provider?: ProviderName, bypassCache?: boolean, budget?: UsageBudget) {
+  const stream = createStreamableValue<SearchEvent>();
+
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
+  const searchEngine = new SearchEngine(firecrawl, { enableCheckpointing: true });
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
+
+  (async () => {
+    try {
+      await searchEngine.resume(sessionId, (event) => {
+        stream.update(event);
+      }, run.signal);
+      stream.done();
+    } catch (error) {
+      stream.error(error);
+    } finally {
+      run.release();
     }
   })();
 
-  return { stream: stream.value };
+  return { stream: stream.value, runId: run.runId };
+}
+
+// Stop a streamed research run using the runId returned by the action that started it
+export async function cancelResearchRun(runId: string): Promise<boolean> {
+  return cancelRun(runId);
+}
+
+export async function listSearchSessions(): Promise<ResearchSessionSummary[]> {
+  return getCheckpointer().listSessions();
 }
 
-export async function analyzeICP(dossierText: string, query?: string, context?: { query: string; response: string }[], apiKey?: string) {
+export async function deleteSearchSession(sessionId: string): Promise<void> {
+  await getCheckpointer().deleteThread(sessionId);
+}
+
+export async function analyzeICP(dossierText: string, query?: string, context?: { query: string; response: string }[], apiKey?: string, provider?: ProviderName, bypassCache?: boolean, budget?: UsageBudget) {
   'use server';
   const stream = createStreamableValue<SearchEvent>();
 
-  const firecrawl = new FirecrawlClient(apiKey);
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
   const searchEngine = new SearchEngine(firecrawl);
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
 
   (async () => {
     try {
       await searchEngine.analyzeDossier(dossierText, (event) => {
         stream.update(event);
-      }, { query, context });
+      }, { query, context, signal: run.signal });
       stream.done();
     } catch (error) {
       stream.error(error);
+    } finally {
+      run.release();
     }
   })();
 
-  return { stream: stream.value };
+  return { stream: stream.value, runId: run.runId };
 }
 
 export async function analyzeCompanyIntelligence(
@@ -56,26 +126,35 @@ export async function analyzeCompanyIntelligence(
     includeCompetitorAnalysis?: boolean;
     context?: { query: string; response: string }[];
   },
-  apiKey?: string
+  apiKey?: string,
+  provider?: ProviderName,
+  bypassCache?: boolean,
+  budget?: UsageBudget
 ) {
   'use server';
   const stream = createStreamableValue<SearchEvent>();
 
-  const firecrawl = new FirecrawlClient(apiKey);
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
   const searchEngine = new SearchEngine(firecrawl);
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
 
   (async () => {
     try {
       await searchEngine.analyzeCompanyIntelligence(url, (event) => {
         stream.update(event);
-      }, options);
+      }, { ...options, signal: run.signal });
       stream.done();
     } catch (error) {
       stream.error(error);
+    } finally {
+      run.release();
     }
   })();
 
-  return { stream: stream.value };
+  return { stream: stream.value, runId: run.runId };
 }
 
 export async function generateICPProfiles(
@@ -84,26 +163,35 @@ export async function generateICPProfiles(
     companyResearchData?: Source[];
     context?: { query: string; response: string }[];
   },
-  apiKey?: string
+  apiKey?: string,
+  provider?: ProviderName,
+  bypassCache?: boolean,
+  budget?: UsageBudget
 ) {
   'use server';
   const stream = createStreamableValue<SearchEvent>();
 
-  const firecrawl = new FirecrawlClient(apiKey);
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
   const searchEngine = new SearchEngine(firecrawl);
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
 
   (async () => {
     try {
       await searchEngine.generateICPProfiles(companyUrl, (event) => {
         stream.update(event);
-      }, options);
+      }, { ...options, signal: run.signal });
       stream.done();
     } catch (error) {
       stream.error(error);
+    } finally {
+      run.release();
     }
   })();
 
-  return { stream: stream.value };
+  return { stream: stream.value, runId: run.runId };
 }
 
 // NEW: Multi-Agent ICP Analysis
@@ -114,24 +202,220 @@ export async function generateMultiAgentICPProfiles(
     context?: { query: string; response: string }[];
     useMultiAgent?: boolean;
   },
-  apiKey?: string
+  apiKey?: string,
+  provider?: ProviderName,
+  bypassCache?: boolean,
+  budget?: UsageBudget
 ) {
   'use server';
   const stream = createStreamableValue<SearchEvent>();
 
-  const firecrawl = new FirecrawlClient(apiKey);
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
   const searchEngine = new SearchEngine(firecrawl);
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
 
   (async () => {
     try {
       await searchEngine.generateMultiAgentICPProfiles(query, sources, (event) => {
         stream.update(event);
-      }, options);
+      }, { ...options, signal: run.signal });
       stream.done();
     } catch (error) {
       stream.error(error);
+    } finally {
+      run.release();
     }
   })();
 
-  return { stream: stream.value };
-}
\ No newline at end of file
+  return { stream: stream.value, runId: run.runId };
+}
+
+// ICP Fit: does this prospect match any of the given profiles?
+export async function scoreICPFit(url: string, profiles: ICPProfile[], apiKey?: string, provider?: ProviderName, bypassCache?: boolean, budget?: UsageBudget) {
+  const stream = createStreamableValue<SearchEvent>();
+
+  const firecrawl = new FirecrawlClient(apiKey, provider, createResearchCache({ bypass: bypassCache }), createUsageLedger(budget));
+  const searchEngine = new SearchEngine(firecrawl);
+  searchEngine.reportCacheHits((event) => stream.update(event));
+  searchEngine.reportUsage((event) => stream.update(event));
+
+  const run = registerRun();
+
+  (async () => {
+    try {
+      await searchEngine.scoreICPFit(url, profiles, (event) => {
+        stream.update(event);
+      }, { signal: run.signal });
+      stream.done();
+    } catch (error) {
+      stream.error(error);
+    } finally {
+      run.release();
+    }
+  })();
+
+  return { stream: stream.value, runId: run.runId };
+}
+
+// Background jobs: runs keep going after the browser tab closes
+export async function submitResearchJob(request: ResearchJobRequest, apiKey?: string): Promise<ResearchJob> {
+  const validated = researchJobRequestSchema.parse(request);
+  return getJobQueue().submit(validated, { apiKey });
+}
+
+export async function getResearchJob(jobId: string): Promise<ResearchJob | undefined> {
+  return getJobQueue().get(jobId);
+}
+
+export async function listResearchJobs(options?: JobListOptions): Promise<ResearchJob[]> {
+  return getJobQueue().list(options);
+}
+
+export async function getResearchJobEvents(jobId: string, offset?: number): Promise<SearchEvent[]> {
+  return getJobQueue().getEvents(jobId, offset);
+}
+
+export async function cancelResearchJob(jobId: string): Promise<ResearchJob | undefined> {
+  return getJobQueue().cancel(jobId);
+}
+
+// Exports: the file comes back base64-encoded for the browser to download
+export async function exportResearchReport(report: ResearchReport, format: ExportFormat): Promise<{ filename: string; contentType: string; base64: string }> {
+  const file = await exportReport(report, format);
+  return {
+    filename: file.filename,
+    contentType: file.contentType,
+    base64: Buffer.from(file.data).toString('base64'),
+  };
+}
+
+// Bulk account research: a CSV of domains researched in the background
+export async function submitAccountBatch(request: BatchRequest, apiKey?: string): Promise<{ batch: BatchRun; skipped: string[] }> {
+  return submitBatchRequest(batchRequestSchema.parse(request), apiKey);
+}
+
+export async function getAccountBatch(batchId: string): Promise<BatchRun | undefined> {
+  return getBatchRunner().get(batchId);
+}
+
+export async function listAccountBatches(options?: BatchListOptions): Promise<BatchRun[]> {
+  return getBatchRunner().list(options);
+}
+
+export async function cancelAccountBatch(batchId: string): Promise<BatchRun | undefined> {
+  return getBatchRunner().cancel(batchId);
+}
+
+export async function exportAccountBatch(batchId: string, format: 'csv' | 'json'): Promise<{ filename: string; contentType: string; content: string }> {
+  const batch = await getBatchRunner().get(batchId);
+  if (!batch) throw new Error(`Batch ${batchId} not found`);
+  return exportBatch(batch, format);
+}
+
+// Saved ICP library: profiles and their version history survive page reloads
+export async function listSavedICPProfiles(options?: ICPLibraryListOptions): Promise<SavedICPProfileSummary[]> {
+  return getICPLibrary().list(options);
+}
+
+export async function getSavedICPProfile(id: string): Promise<SavedICPProfile | undefined> {
+  return getICPLibrary().get(id);
+}
+
+export async function saveICPProfile(profile: ICPProfile, options?: { name?: string; description?: string; note?: string }): Promise<SavedICPProfile> {
+  return getICPLibrary().save(profile, options);
+}
+
+export async function addICPProfileVersion(id: string, profile: ICPProfile, options?: { origin?: ICPVersionOrigin; note?: string }): Promise<SavedICPProfile | undefined> {
+  return getICPLibrary().addVersion(id, profile, options);
+}
+
+export async function restoreICPProfileVersion(id: string, version: number): Promise<SavedICPProfile | undefined> {
+  return getICPLibrary().restore(id, version);
+}
+
+export async function renameSavedICPProfile(id: string, changes: { name?: string; description?: string }): Promise<SavedICPProfile | undefined> {
+  return getICPLibrary().rename(id, changes);
+}
+
+export async function deleteSavedICPProfile(id: string): Promise<boolean> {
+  return getICPLibrary().delete(id);
+}
+
+export async function diffICPProfileVersions(id: string, fromVersion?: number, toVersion?: number): Promise<ICPProfileDiff | undefined> {
+  return getICPLibrary().diff(id, fromVersion, toVersion);
+}
+
+// Research threads: finished answers are kept so a conversation can be reopened and continued
+export async function listResearchThreads(options?: ThreadListOptions): Promise<ResearchThreadSummary[]> {
+  return getThreadWorkspace().list(options);
+}
+
+export async function getResearchThread(id: string): Promise<ResearchThread | undefined> {
+  return getThreadWorkspace().get(id);
+}
+
+// Append a finished turn, starting a new thread when there is none yet (or it was deleted)
+export async function recordThreadTurn(threadId: string | undefined, turn: NewThreadTurn): Promise<ResearchThread> {
+  const validated = threadTurnSchema.parse(turn);
+  const threads = getThreadWorkspace();
+  const thread = threadId ? await threads.appendTurn(threadId, validated) : undefined;
+  return thread ?? threads.create({ turns: [validated] });
+}
+
+export async function renameResearchThread(id: string, title: string): Promise<ResearchThread | undefined> {
+  return getThreadWorkspace().rename(id, title);
+}
+
+export async function deleteResearchThread(id: string): Promise<boolean> {
+  return getThreadWorkspace().delete(id);
+}
+
+export async function exportResearchThreads(ids?: string[]): Promise<{ filename: string; contentType: string; content: string }> {
+  return threadExportFile(await getThreadWorkspace().exportThreads(ids));
+}
+
+export async function importResearchThreads(content: string): Promise<ThreadImportResult> {
+  let file: unknown;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  const parsed = threadExportSchema.safeParse(file);
+  if (!parsed.success) {
+    throw new Error(`Not a thread export: ${parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+  }
+  return getThreadWorkspace().importThreads(parsed.data);
+}
+
+// Competitor watchlist: competitor pages re-scraped on a schedule, with digests of what changed
+export async function listWatchTargets(): Promise<WatchTarget[]> {
+  return getWatchlist().list();
+}
+
+export async function addWatchTarget(input: WatchTargetInput): Promise<WatchTarget> {
+  return getWatchlist().register(watchTargetCreateSchema.parse(input));
+}
+
+export async function updateWatchTarget(id: string, changes: WatchTargetUpdate): Promise<WatchTarget | undefined> {
+  return getWatchlist().update(id, watchTargetUpdateSchema.parse(changes));
+}
+
+export async function removeWatchTarget(id: string): Promise<boolean> {
+  return getWatchlist().remove(id);
+}
+
+export async function checkWatchTarget(id: string, apiKey?: string): Promise<WatchCheckResult | undefined> {
+  return getWatchlist().check(id, { apiKey });
+}
+
+export async function listChangeDigests(options?: DigestListOptions): Promise<ChangeDigest[]> {
+  return getWatchlist().digests(options);
+}
+
+export async function getChangeReport(days?: number): Promise<string> {
+  return getWatchlist().report(days);
+}
@@ -0,0 +1,39 @@
+'use client';
+
+import type { SourceAuthority, SourceCredibility } from '@/lib/source-scoring';
+
+export const AUTHORITY_LABELS: Record<SourceAuthority, string> = {
+  'first-party': 'Company site',
+  official: 'Official',
+  reference: 'Reference',
+  news: 'News',
+  review: 'Review site',
+  unknown: 'Web page',
+  community: 'Community',
+  'content-farm': 'Content farm',
+};
+
+/**
+ * Credibility score, kind of site and date for one source; the reasons behind the score show on hover
+ */
+export function CredibilityBadge({ credibility }: { credibility: SourceCredibility }) {
+  const percent = Math.round(credibility.score * 100);
+  const tone = credibility.duplicateOf || percent < 40
+    ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300'
+    : percent < 65
+      ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300'
+      : 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+  const date = credibility.updatedAt || credibility.publishedAt;
+
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 text-[11px] text-gray-500 dark:text-gray-400 cursor-help"
+      title={credibility.reasons.join('\n')}
+    >
+      <span className={`px-1.5 py-0.5 rounded font-medium ${tone}`}>{percent}%</span>
+      <span>{AUTHORITY_LABELS[credibility.authority]}</span>
+      {date && <span>· {date.slice(0, 10)}</span>}
+      {credibility.duplicateOf && <span>· duplicate</span>}
+    </span>
+  );
+}
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { toast } from 'sonner';
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar';
+import { deleteResearchThread, exportResearchThreads, importResearchThreads, listResearchThreads, renameResearchThread } from './search';
+import type { ResearchThreadSummary } from '@/lib/threads';
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Document events shared with the chat, in the same way follow-up questions are passed around
+export const THREAD_EVENTS = {
+  // Sidebar -> chat: { threadId }
+  OPEN: 'openThread',
+  // Sidebar -> chat: start an empty conversation
+  NEW: 'newThread',
+  // Chat -> sidebar: { threadId } of the conversation on screen, null for a new one
+  ACTIVE: 'activeThreadChanged',
+} as const;
+
+/**
+ * Past research threads: search, reopen, rename, delete, import and export
+ */
+export function ThreadSidebar() {
+  const [threads, setThreads] = useState<ResearchThreadSummary[]>([]);
+  const [search, setSearch] = useState('');
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      listResearchThreads({ search: search.trim() || undefined })
+        .then(setThreads)
+        .catch(error => console.error('Failed to list threads:', error));
+    }, search ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [search, refreshKey]);
+
+  // Every saved turn may retitle or reorder the list
+  useEffect(() => {
+    const handleActive = (event: Event) => {
+      setActiveId((event as CustomEvent).detail.threadId);
+      setRefreshKey(key => key + 1);
+    };
+    document.addEventListener(THREAD_EVENTS.ACTIVE, handleActive);
+    return () => document.removeEventListener(THREAD_EVENTS.ACTIVE, handleActive);
+  }, []);
+
+  const open = (threadId: string) => {
+    document.dispatchEvent(new CustomEvent(THREAD_EVENTS.OPEN, { detail: { threadId } }));
+  };
+
+  const handleRename = async (thread: ResearchThreadSummary) => {
+    const title = window.prompt('Rename thread', thread.title);
+    if (!title?.trim()) return;
+    try {
+      await renameResearchThread(thread.id, title);
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Rename error:', error);
+      toast.error('Could not rename the thread');
+    }
+  };
+
+  const handleDelete = async (thread: ResearchThreadSummary) => {
+    if (!window.confirm(`Delete "${thread.title || 'Untitled thread'}"?`)) return;
+    try {
+      await deleteResearchThread(thread.id);
+      if (thread.id === activeId) document.dispatchEvent(new CustomEvent(THREAD_EVENTS.NEW));
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      console.error('Delete error:', error);
+      toast.error('Could not delete the thread');
+    }
+  };
+
+  const handleExport = async () => {
+    try {
+      const file = await exportResearchThreads();
+      const url = URL.createObjectURL(new Blob([file.content], { type: file.contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = file.filename;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('Export failed', {
+        description: error instanceof Error ? error.message : 'Could not create the file'
+      });
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const result = await importResearchThreads(await file.text());
+      toast.success(`Imported ${result.imported.length} thread${result.imported.length === 1 ? '' : 's'}`, {
+        description: result.skipped.length > 0 ? `Skipped ${result.skipped.length}: ${result.skipped.slice(0, 3).join('; ')}` : undefined
+      });
+      setRefreshKey(key => key + 1);
+    } catch (error) {
+      toast.error('Import failed', {
+        description: error instanceof Error ? error.message : 'Could not read the file'
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <button
+          type="button"
+          onClick={() => document.dispatchEvent(new CustomEvent(THREAD_EVENTS.NEW))}
+          className="w-full px-3 py-2 text-sm bg-orange-500 hover:bg-orange-600 text-white rounded-md"
+        >
+          New thread
+        </button>
+        <SidebarInput
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search threads..."
+        />
+      </SidebarHeader>
+
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>{search.trim() ? 'Matching threads' : 'Threads'}</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {threads.length === 0 && (
+                <div className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">
+                  {search.trim() ? 'No threads match' : 'Finished research is saved here'}
+                </div>
+              )}
+              {threads.map(thread => (
+                <SidebarMenuItem key={thread.id}>
+                  <SidebarMenuButton
+                    isActive={thread.id === activeId}
+                    onClick={() => open(thread.id)}
+                    className="h-auto flex-col items-start gap-0.5"
+                  >
+                    <span className="w-full truncate">{thread.title || 'Untitled thread'}</span>
+                    <span className="text-xs text-gray-500 dark:text-gray-400">
+                      {thread.turnCount} turn{thread.turnCount === 1 ? '' : 's'} · {thread.updatedAt.slice(0, 10)}
+                    </span>
+                    {thread.matches?.map(match => (
+                      <span key={`${match.turnId}-${match.field}`} className="w-full text-xs text-gray-600 dark:text-gray-300 line-clamp-2 whitespace-normal">
+                        {match.snippet}
+                      </span>
+                    ))}
+                  </SidebarMenuButton>
+                  <SidebarMenuAction showOnHover onClick={() => handleDelete(thread)} title="Delete thread" className="top-1.5">
+                    ✕
+                  </SidebarMenuAction>
+                  <SidebarMenuAction showOnHover onClick={() => handleRename(thread)} title="Rename thread" className="top-1.5 right-7">
+                    ✎
+                  </SidebarMenuAction>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+
+      <SidebarFooter>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={handleExport}
+            className="flex-1 px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300"
+          >
+            Export all
+          </button>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="flex-1 px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300"
+          >
+            Import
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+      </SidebarFooter>
+    </Sidebar>
+  );
+}
@@ -0,0 +1,67 @@
+'use client';
+
+import type { TimeRange } from '@/lib/time-range';
+
+interface TimeRangeSelectProps {
+  value?: TimeRange;
+  onChange: (value: TimeRange | undefined) => void;
+  disabled?: boolean;
+}
+
+const OPTIONS: Array<{ value: '' | TimeRange['preset']; label: string }> = [
+  { value: '', label: 'Any time' },
+  { value: 'week', label: 'Past week' },
+  { value: 'month', label: 'Past month' },
+  { value: 'year', label: 'Past year' },
+  { value: 'custom', label: 'Custom range' },
+];
+
+/**
+ * Limits a search to material published in a time range
+ */
+export function TimeRangeSelect({ value, onChange, disabled }: TimeRangeSelectProps) {
+  const inputClass = 'p-1 border rounded-md text-xs dark:bg-zinc-950 dark:border-zinc-800';
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+      <label htmlFor="time-range">Published</label>
+      <select
+        id="time-range"
+        value={value?.preset || ''}
+        disabled={disabled}
+        onChange={(e) => {
+          const preset = e.target.value as '' | TimeRange['preset'];
+          onChange(preset ? { preset } : undefined);
+        }}
+        className={inputClass}
+      >
+        {OPTIONS.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+      {value?.preset === 'custom' && (
+        <>
+          <input
+            type="date"
+            aria-label="From"
+            value={value.from || ''}
+            max={value.to}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, from: e.target.value || undefined })}
+            className={inputClass}
+          />
+          <span>to</span>
+          <input
+            type="date"
+            aria-label="To"
+            value={value.to || ''}
+            min={value.from}
+            disabled={disabled}
+            onChange={(e) => onChange({ ...value, to: e.target.value || undefined })}
+            className={inputClass}
+          />
+        </>
+      )}
+    </div>
+  );
+}
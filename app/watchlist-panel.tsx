@@ -0,0 +1,287 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { addWatchTarget, checkWatchTarget, getChangeReport, listChangeDigests, listWatchTargets, removeWatchTarget, updateWatchTarget } from './search';
+import type { ChangeDigest, ChangeSignificance, WatchIntelligenceType, WatchTarget } from '@/lib/watchlist';
+
+const INTELLIGENCE_TYPES: Array<{ value: WatchIntelligenceType; label: string }> = [
+  { value: 'pricing', label: 'Pricing' },
+  { value: 'customers', label: 'Customers' },
+  { value: 'products', label: 'Products' },
+  { value: 'team', label: 'Team' },
+  { value: 'competitors', label: 'Comparisons' },
+];
+
+const INTERVALS: Array<{ hours: number; label: string }> = [
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 24 * 7, label: 'Weekly' },
+];
+
+const SIGNIFICANCE_STYLES: Record<ChangeSignificance, string> = {
+  high: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300',
+  medium: 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300',
+  low: 'bg-gray-100 text-gray-700 dark:bg-zinc-800 dark:text-gray-300',
+};
+
+interface WatchlistPanelProps {
+  apiKey?: string;
+}
+
+export function WatchlistPanel({ apiKey }: WatchlistPanelProps) {
+  const [domain, setDomain] = useState('');
+  const [name, setName] = useState('');
+  const [types, setTypes] = useState<WatchIntelligenceType[]>(['pricing', 'customers', 'products']);
+  const [intervalHours, setIntervalHours] = useState(24);
+  const [adding, setAdding] = useState(false);
+  const [targets, setTargets] = useState<WatchTarget[]>([]);
+  const [digests, setDigests] = useState<ChangeDigest[]>([]);
+  const [checking, setChecking] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      const [latestTargets, latestDigests] = await Promise.all([listWatchTargets(), listChangeDigests({ limit: 30 })]);
+      setTargets(latestTargets);
+      setDigests(latestDigests);
+    } catch (error) {
+      console.error('Failed to load the watchlist:', error);
+    }
+  };
+
+  useEffect(() => {
+    void refresh();
+  }, []);
+
+  const handleAdd = async () => {
+    setAdding(true);
+    try {
+      const target = await addWatchTarget({ domain, name: name.trim() || undefined, intelligenceTypes: types, intervalHours });
+      setDomain('');
+      setName('');
+      toast.success(`Watching ${target.domain}`, { description: 'The first snapshot is taken on the next scheduled check, or use Check now.' });
+      await refresh();
+    } catch (error) {
+      toast.error('Could not add the competitor', {
+        description: error instanceof Error ? error.message : 'Check the domain and try again'
+      });
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleCheck = async (target: WatchTarget) => {
+    setChecking(target.id);
+    try {
+      const result = await checkWatchTarget(target.id, apiKey);
+      if (result?.digest) {
+        toast.success(`${target.domain}: ${result.digest.headline}`);
+      } else if (result?.target.lastError) {
+        toast.error(`${target.domain}: ${result.target.lastError}`);
+      } else {
+        toast.success(`${target.domain}: no changes`);
+      }
+      await refresh();
+    } catch (error) {
+      console.error('Check error:', error);
+      toast.error(`Could not check ${target.domain}`);
+    } finally {
+      setChecking(null);
+    }
+  };
+
+  const handlePause = async (target: WatchTarget) => {
+    try {
+      await updateWatchTarget(target.id, { paused: !target.paused });
+      await refresh();
+    } catch (error) {
+      console.error('Update error:', error);
+      toast.error(`Could not update ${target.domain}`);
+    }
+  };
+
+  const handleRemove = async (target: WatchTarget) => {
+    if (!window.confirm(`Stop watching ${target.domain}? Its snapshots and digests are deleted.`)) return;
+    try {
+      await removeWatchTarget(target.id);
+      await refresh();
+    } catch (error) {
+      console.error('Remove error:', error);
+      toast.error(`Could not remove ${target.domain}`);
+    }
+  };
+
+  const handleCopyReport = async () => {
+    try {
+      await navigator.clipboard.writeText(await getChangeReport());
+      toast.success('Weekly report copied');
+    } catch (error) {
+      console.error('Report error:', error);
+      toast.error('Could not copy the report');
+    }
+  };
+
+  const toggleType = (type: WatchIntelligenceType) => {
+    setTypes(current => current.includes(type) ? current.filter(item => item !== type) : [...current, type]);
+  };
+
+  const names = new Map(targets.map(target => [target.id, target.name || target.domain]));
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-4">
+      <div className="text-center space-y-2">
+        <h2 className="text-2xl font-semibold">Competitor Watchlist</h2>
+        <p className="text-gray-600 dark:text-gray-400">
+          Competitor pages are re-scraped on a schedule and compared with the last snapshot, so pricing, customer and product changes show up the same week.
+        </p>
+      </div>
+
+      <div className="bg-white dark:bg-zinc-900 rounded-lg shadow p-6 border border-gray-200 dark:border-gray-800 space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="text"
+            value={domain}
+            onChange={(e) => setDomain(e.target.value)}
+            placeholder="competitor.com"
+            className="flex-1 min-w-[200px] p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          />
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (optional)"
+            className="flex-1 min-w-[160px] p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          />
+          <select
+            value={intervalHours}
+            onChange={(e) => setIntervalHours(Number(e.target.value))}
+            className="p-2 border rounded-md text-sm dark:bg-zinc-950 dark:border-zinc-800"
+          >
+            {INTERVALS.map(interval => (
+              <option key={interval.hours} value={interval.hours}>{interval.label}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={adding || !domain.trim() || types.length === 0}
+            className="px-4 py-2 bg-orange-500 hover:bg-orange-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {adding ? 'Adding...' : 'Watch'}
+          </button>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+          <span>Watch:</span>
+          {INTELLIGENCE_TYPES.map(type => (
+            <label key={type.value} className="flex items-center gap-1">
+              <input type="checkbox" checked={types.includes(type.value)} onChange={() => toggleType(type.value)} />
+              {type.label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {targets.length > 0 && (
+        <div className="bg-white dark:bg-zinc-900 rounded-lg shadow border border-gray-200 dark:border-gray-800">
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2">Competitor</th>
+                <th className="px-4 py-2">Watching</th>
+                <th className="px-4 py-2">Last check</th>
+                <th className="px-4 py-2">Next check</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {targets.map(target => (
+                <tr key={target.id} className="border-t border-gray-100 dark:border-gray-800 align-top">
+                  <td className="px-4 py-2 font-medium">
+                    {target.name || target.domain}
+                    {target.name && <div className="text-xs font-normal text-gray-500 dark:text-gray-400">{target.domain}</div>}
+                  </td>
+                  <td className="px-4 py-2 text-gray-700 dark:text-gray-300">{target.intelligenceTypes.join(', ')}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">
+                    {target.lastCheckedAt ? target.lastCheckedAt.slice(0, 16).replace('T', ' ') : 'Never'}
+                    {target.lastError && <div className="text-xs text-red-500 max-w-[220px] truncate" title={target.lastError}>{target.lastError}</div>}
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-500 dark:text-gray-400">
+                    {target.paused ? 'Paused' : target.nextCheckAt.slice(0, 16).replace('T', ' ')}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleCheck(target)}
+                        disabled={checking !== null}
+                        className="px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {checking === target.id ? 'Checking...' : 'Check now'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handlePause(target)}
+                        className="px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300"
+                      >
+                        {target.paused ? 'Resume' : 'Pause'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleRemove(target)}
+                        className="px-2.5 py-1 text-xs rounded-md border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-zinc-900 rounded-lg shadow border border-gray-200 dark:border-gray-800">
+        <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-800">
+          <span className="text-sm font-medium">Changes</span>
+          <button
+            type="button"
+            onClick={handleCopyReport}
+            disabled={digests.length === 0}
+            className="px-2.5 py-1 text-xs rounded-md border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:border-orange-300 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Copy weekly report
+          </button>
+        </div>
+        {digests.length === 0 ? (
+          <p className="p-4 text-sm text-gray-500 dark:text-gray-400">No changes yet. Changes appear once a competitor has been checked twice.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-800">
+            {digests.map(digest => (
+              <li key={digest.id} className="p-4 space-y-2">
+                <div className="text-sm">
+                  <span className="font-medium">{names.get(digest.targetId) || digest.domain}</span>
+                  <span className="text-gray-500 dark:text-gray-400"> · {digest.createdAt.slice(0, 10)} · {digest.headline}</span>
+                </div>
+                <ul className="space-y-1">
+                  {digest.changes.map((change, index) => (
+                    <li key={index} className="flex items-start gap-2 text-sm">
+                      <span className={`px-1.5 py-0.5 rounded text-[11px] font-medium ${SIGNIFICANCE_STYLES[change.significance]}`}>{change.category}</span>
+                      <span className="text-gray-700 dark:text-gray-300" title={change.evidence}>
+                        {change.summary}{' '}
+                        <a href={change.url} target="_blank" rel="noopener noreferrer" className="text-orange-600 hover:underline">source</a>
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {digest.unreachable.length > 0 && (
+                  <div className="text-xs text-amber-700 dark:text-amber-400">Could not re-check {digest.unreachable.length} page{digest.unreachable.length === 1 ? '' : 's'}</div>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
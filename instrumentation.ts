@@ -0,0 +1,8 @@
+// Runs once when the server starts
+export async function register() {
+  // Start the competitor watchlist scheduler; the edge runtime has no timers that outlive a request
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getWatchlist } = await import('./lib/watchlist');
+    getWatchlist();
+  }
+}
@@ -0,0 +1,94 @@
+// Cancellation helpers
+// Research runs thread a single AbortSignal from the caller (Stop button, closed
+// HTTP connection, cancelled job) down to every provider, LLM and agent call.
+
+/**
+ * Error thrown when a run is stopped through its AbortSignal. Named like the
+ * DOM AbortError so fetch, LangChain and our own aborts are handled the same way.
+ */
+export function createAbortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason;
+  if (reason instanceof Error && reason.name === 'AbortError') return reason;
+
+  const error = new Error(typeof reason === 'string' ? reason : 'Research run was cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * True for aborts raised by us, fetch, or LangChain ("Aborted" / AbortError)
+ */
+export function isAbortError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  return error.name === 'AbortError' || error.message === 'Aborted' || error.message === 'AbortError';
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError(signal);
+  }
+}
+
+/**
+ * Race a promise against the signal. Used for SDK calls that cannot be
+ * cancelled themselves - the request may finish in the background, but the
+ * run stops waiting for it.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(createAbortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(createAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * setTimeout-based delay that rejects as soon as the signal aborts
+ */
+export function abortableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(createAbortError(signal));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Signal that aborts when any of the given signals does. Lets a run stop
+ * on either the caller's signal or an internal one (e.g. the budget cap).
+ */
+export function anySignal(...signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const present = signals.filter((signal): signal is AbortSignal => Boolean(signal));
+  if (present.length <= 1) return present[0];
+
+  const controller = new AbortController();
+  for (const signal of present) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller.signal;
+}
@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createResearchCache } from '../cache';
+import { ErrorType, handleError, handleNextError } from '../error-handler';
+import { FirecrawlClient } from '../firecrawl';
+import { LangGraphSearchEngine, SearchEvent } from '../langgraph-search-engine';
+import { ProviderName } from '../providers';
+import { isRateLimited } from '../rate-limit';
+import { createUsageLedger, UsageBudget } from '../usage';
+import { ResearchRunner } from './runners';
+
+// Keep idle SSE connections alive through proxies that drop silent streams
+const SSE_HEARTBEAT_MS = 15000;
+
+/**
+ * Shared gate for /api/v1 routes: API key check (when API_ACCESS_KEY is set)
+ * and per-IP rate limiting. Returns an error response, or null to proceed.
+ * Cheap read-only routes (e.g. job polling) skip the rate limit.
+ */
+export async function checkApiAccess(
+  request: NextRequest,
+  endpoint: string,
+  options: { rateLimit?: boolean } = {}
+): Promise<NextResponse | null> {
+  const context = `API ${endpoint}`;
+
+  const accessKey = process.env.API_ACCESS_KEY;
+  if (accessKey && request.headers.get('authorization') !== `Bearer ${accessKey}`) {
+    return handleNextError(new Error('Missing or invalid API access key'), ErrorType.AUTHENTICATION, context);
+  }
+
+  if (options.rateLimit === false) return null;
+
+  const rateLimit = await isRateLimited(request, endpoint);
+  if (!rateLimit.success) {
+    const response = handleNextError(new Error('Rate limit exceeded'), ErrorType.RATE_LIMIT, context);
+    response.headers.set('X-RateLimit-Limit', String(rateLimit.limit));
+    response.headers.set('X-RateLimit-Remaining', String(rateLimit.remaining));
+    return response;
+  }
+
+  return null;
+}
+
+/**
+ * Validate a request body or query against a schema. Validation issues are safe to
+ * return and tell API clients exactly what to fix.
+ */
+export function validateRequest<S extends z.ZodTypeAny>(
+  schema: S,
+  body: unknown,
+  context: string
+): { data: z.infer<S>; response?: undefined } | { data?: undefined; response: NextResponse } {
+  const parsed = schema.safeParse(body);
+  if (parsed.success) {
+    return { data: parsed.data };
+  }
+
+  const { status, body: errorBody } = handleError(parsed.error, ErrorType.VALIDATION, context);
+  return {
+    response: NextResponse.json({
+      error: {
+        ...errorBody.error,
+        details: parsed.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message })),
+      }
+    }, { status })
+  };
+}
+
+/**
+ * Build a POST handler for a research endpoint. Requests are authenticated,
+ * rate limited and validated, then the run is either streamed as
+ * Server-Sent Events or collected into one JSON response.
+ */
+export function createResearchRoute<S extends z.ZodTypeAny>(endpoint: string, runner: ResearchRunner<S>) {
+  const context = `API ${endpoint}`;
+
+  return async function POST(request: NextRequest): Promise<Response> {
+    const denied = await checkApiAccess(request, endpoint);
+    if (denied) return denied;
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch (error) {
+      return handleNextError(error, ErrorType.VALIDATION, context, { reason: 'Request body is not valid JSON' });
+    }
+
+    const parsed = validateRequest(runner.schema, body, context);
+    if (parsed.response) return parsed.response;
+    const input = parsed.data as z.infer<S> & { stream?: boolean; provider?: ProviderName; bypassCache?: boolean; budget?: UsageBudget };
+
+    let engine: LangGraphSearchEngine;
+    try {
+      const cache = createResearchCache({ bypass: input.bypassCache });
+      const usage = createUsageLedger(input.budget);
+      const firecrawl = new FirecrawlClient(request.headers.get('x-firecrawl-api-key') || undefined, input.provider, cache, usage);
+      engine = new LangGraphSearchEngine(firecrawl, { enableCheckpointing: runner.enableCheckpointing });
+    } catch (error) {
+      // Missing server-side API keys
+      return handleNextError(error, ErrorType.SERVER_ERROR, context, { stage: 'initialization' });
+    }
+
+    const wantsStream = input.stream ?? (request.headers.get('accept') || '').includes('text/event-stream');
+
+    // Closing the connection stops the run so it does not keep spending credits
+    const signal = request.signal;
+
+    const run = async (emit: (event: SearchEvent) => void) => {
+      engine.reportCacheHits(emit);
+      engine.reportUsage(emit);
+      await runner.run({ input, engine, emit, signal });
+    };
+
+    if (wantsStream) {
+      return streamResearch(request, run, context);
+    }
+
+    return collectResearch(run, context);
+  };
+}
+
+function streamResearch(
+  request: NextRequest,
+  run: (emit: (event: SearchEvent) => void) => Promise<void>,
+  context: string
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // A gone client stops the writes; the stream is still closed once the run settles
+      let writable = true;
+      let closed = false;
+      const write = (chunk: string) => {
+        if (!writable) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          writable = false;
+        }
+      };
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        writable = false;
+        try {
+          controller.close();
+        } catch {
+          // Already closed or errored by the runtime when the client went away
+        }
+      };
+
+      const heartbeat = setInterval(() => write(': keep-alive\n\n'), SSE_HEARTBEAT_MS);
+      request.signal.addEventListener('abort', () => {
+        clearInterval(heartbeat);
+        writable = false;
+      });
+
+      try {
+        await run((event) => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+        write('event: done\ndata: {}\n\n');
+      } catch (error) {
+        const { body } = handleError(error, ErrorType.SERVER_ERROR, context);
+        write(`event: error\ndata: ${JSON.stringify({ type: 'error', error: body.error.message, correlationId: body.error.correlationId })}\n\n`);
+      } finally {
+        clearInterval(heartbeat);
+        close();
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    }
+  });
+}
+
+async function collectResearch(
+  run: (emit: (event: SearchEvent) => void) => Promise<void>,
+  context: string
+): Promise<Response> {
+  const events: SearchEvent[] = [];
+
+  try {
+    await run((event) => events.push(event));
+  } catch (error) {
+    return handleNextError(error, ErrorType.SERVER_ERROR, context);
+  }
+
+  const finalResult = [...events].reverse().find(event => event.type === 'final-result');
+  const lastError = [...events].reverse().find(event => event.type === 'error');
+  const session = events.find(event => event.type === 'session');
+  const icpProfiles = [...events].reverse().find(event => event.type === 'icp-profiles');
+  const icpFit = [...events].reverse().find(event => event.type === 'icp-fit');
+  const citationReport = [...events].reverse().find(event => event.type === 'citation-report');
+
+  if (!finalResult && lastError) {
+    return handleNextError(new Error(lastError.error), ErrorType.API_ERROR, context);
+  }
+
+  return NextResponse.json({
+    result: finalResult
+      ? {
+          content: finalResult.content,
+          sources: finalResult.sources,
+          followUpQuestions: finalResult.followUpQuestions || [],
+        }
+      : null,
+    ...(session ? { sessionId: session.sessionId } : {}),
+    ...(icpProfiles ? { icpProfiles: icpProfiles.profiles } : {}),
+    ...(icpFit ? { icpFit: icpFit.result } : {}),
+    ...(citationReport ? { citationReport: citationReport.report } : {}),
+    // Content chunks are already folded into result.content
+    events: events.filter(event => event.type !== 'content-chunk'),
+  });
+}
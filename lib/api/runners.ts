@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { getICPLibrary } from '../icp-library';
+import { LangGraphSearchEngine, SearchEvent } from '../langgraph-search-engine';
+import { companyResearchRequestSchema, icpFitRequestSchema, icpRequestSchema, searchRequestSchema } from './schemas';
+
+export interface ResearchRunContext<T> {
+  input: T;
+  engine: LangGraphSearchEngine;
+  emit: (event: SearchEvent) => void;
+  // Aborted when the client disconnects or the job is cancelled
+  signal?: AbortSignal;
+}
+
+export interface ResearchRunner<S extends z.ZodTypeAny> {
+  schema: S;
+  enableCheckpointing?: boolean;
+  run: (context: ResearchRunContext<z.infer<S>>) => Promise<void>;
+}
+
+function defineRunner<S extends z.ZodTypeAny>(runner: ResearchRunner<S>): ResearchRunner<S> {
+  return runner;
+}
+
+// The research operations exposed over HTTP and the job queue, keyed by kind
+export const researchRunners = {
+  // Multi-step web research with a synthesized, cited answer
+  'search': defineRunner({
+    schema: searchRequestSchema,
+    enableCheckpointing: true,
+    run: ({ input, engine, emit, signal }) => engine.search(input.query, emit, input.context, input.sessionId, signal, input.timeRange),
+  }),
+
+  // Deep intelligence report on a single company website
+  'company-research': defineRunner({
+    schema: companyResearchRequestSchema,
+    run: ({ input, engine, emit, signal }) => engine.analyzeCompanyIntelligence(input.url, emit, {
+      intelligenceTypes: input.intelligenceTypes,
+      includeCompetitorAnalysis: input.includeCompetitorAnalysis,
+      context: input.context,
+      signal,
+    }),
+  }),
+
+  // ICP generation for a company (mode: company), over gathered sources with the
+  // multi-agent system (mode: multi-agent) or from a research dossier (mode: dossier)
+  'icp': defineRunner({
+    schema: icpRequestSchema,
+    run: ({ input, engine, emit, signal }) => {
+      switch (input.mode) {
+        case 'company':
+          return engine.generateICPProfiles(input.url, emit, {
+            companyResearchData: input.companyResearchData,
+            context: input.context,
+            signal,
+          });
+        case 'multi-agent':
+          return engine.generateMultiAgentICPProfiles(input.query, input.sources, emit, {
+            context: input.context,
+            useMultiAgent: true,
+            signal,
+          });
+        case 'dossier':
+          return engine.analyzeDossier(input.dossier, emit, {
+            query: input.query,
+            context: input.context,
+            signal,
+          });
+      }
+    },
+  }),
+
+  // Fit score of one prospect domain against each of the given ICP profiles
+  'icp-fit': defineRunner({
+    schema: icpFitRequestSchema,
+    run: async ({ input, engine, emit, signal }) => {
+      const profiles = input.profiles || await getICPLibrary().getProfiles(input.profileIds || []);
+      return engine.scoreICPFit(input.url, profiles, emit, { signal });
+    },
+  }),
+};
+
+export type ResearchKind = keyof typeof researchRunners;
+
+export const RESEARCH_KINDS = Object.keys(researchRunners) as ResearchKind[];
+
+/**
+ * Run a research kind with input that was already validated against its schema
+ */
+export function runResearch(kind: ResearchKind, context: ResearchRunContext<unknown>): Promise<void> {
+  const run = researchRunners[kind].run as (context: ResearchRunContext<unknown>) => Promise<void>;
+  return run(context);
+}
+
+// Body of a job submission: the research kind plus that kind's request input
+export const researchJobRequestSchema = z.union([
+  z.object({ kind: z.literal('search'), input: searchRequestSchema }),
+  z.object({ kind: z.literal('company-research'), input: companyResearchRequestSchema }),
+  z.object({ kind: z.literal('icp'), input: icpRequestSchema }),
+  z.object({ kind: z.literal('icp-fit'), input: icpFitRequestSchema }),
+]);
+
+export type ResearchJobRequest = z.infer<typeof researchJobRequestSchema>;
@@ -0,0 +1,264 @@
+import { z } from 'zod';
+import { BATCH_CONFIG, ICP_FIT_CONFIG, THREAD_CONFIG, WATCHLIST_CONFIG } from '../config';
+import { icpProfileSchema } from '../icp-profiles';
+import { PROVIDER_NAMES, ProviderName } from '../providers';
+import { timeRangeIssue } from '../time-range';
+
+// Request schemas for the public /api/v1 routes
+
+const contextSchema = z.array(z.object({
+  query: z.string(),
+  response: z.string(),
+})).max(20).optional();
+
+const urlSchema = z.string().trim().min(1).transform((value, ctx) => {
+  const withProtocol = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+  try {
+    return new URL(withProtocol).toString();
+  } catch {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Must be a valid URL or domain' });
+    return z.NEVER;
+  }
+});
+
+const credibilitySchema = z.object({
+  score: z.number().min(0).max(1),
+  authority: z.enum(['first-party', 'official', 'reference', 'news', 'review', 'unknown', 'community', 'content-farm']),
+  publishedAt: z.string().optional(),
+  updatedAt: z.string().optional(),
+  ageDays: z.number().int().min(0).optional(),
+  freshness: z.number().min(0).max(1),
+  length: z.number().int().min(0),
+  duplicateOf: z.string().optional(),
+  reasons: z.array(z.string()).max(20),
+});
+
+const sourceSchema = z.object({
+  url: z.string().url(),
+  title: z.string(),
+  content: z.string().optional(),
+  quality: z.number().optional(),
+  summary: z.string().optional(),
+  credibility: credibilitySchema.optional(),
+});
+
+// Fields shared by every research request
+const baseRequestSchema = z.object({
+  // Stream Server-Sent Events instead of returning a single JSON document
+  stream: z.boolean().optional(),
+  provider: z.enum(PROVIDER_NAMES as [ProviderName, ...ProviderName[]]).optional(),
+  // Ignore cached scrapes, searches and summaries for this run (fresh results are still cached)
+  bypassCache: z.boolean().optional(),
+  // Stop the run once any of these limits is exceeded
+  budget: z.object({
+    maxCostUsd: z.number().positive().optional(),
+    maxTokens: z.number().int().positive().optional(),
+    maxCredits: z.number().int().positive().optional(),
+  }).optional(),
+  context: contextSchema,
+});
+
+const isoDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+// Past week / month / year, or custom YYYY-MM-DD bounds
+const timeRangeSchema = z.object({
+  preset: z.enum(['week', 'month', 'year', 'custom']),
+  from: isoDaySchema.optional(),
+  to: isoDaySchema.optional(),
+}).superRefine((range, ctx) => {
+  const issue = timeRangeIssue(range);
+  if (issue) ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue });
+});
+
+export const searchRequestSchema = baseRequestSchema.extend({
+  query: z.string().trim().min(1).max(2000),
+  sessionId: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, 'Session ids may only contain letters, digits, - and _').optional(),
+  // Only research material published within this range
+  timeRange: timeRangeSchema.optional(),
+});
+
+export const companyResearchRequestSchema = baseRequestSchema.extend({
+  url: urlSchema,
+  intelligenceTypes: z.array(z.enum(['pricing', 'team', 'customers', 'products', 'competitors'])).optional(),
+  includeCompetitorAnalysis: z.boolean().optional(),
+});
+
+export const icpRequestSchema = z.discriminatedUnion('mode', [
+  // ICP cards for a company website
+  baseRequestSchema.extend({
+    mode: z.literal('company'),
+    url: urlSchema,
+    companyResearchData: z.array(sourceSchema).max(100).optional(),
+  }),
+  // Multi-agent ICP analysis over already-gathered sources
+  baseRequestSchema.extend({
+    mode: z.literal('multi-agent'),
+    query: z.string().trim().min(1).max(2000),
+    sources: z.array(sourceSchema).max(100).default([]),
+  }),
+  // Deep ICP analysis of a pasted research dossier
+  baseRequestSchema.extend({
+    mode: z.literal('dossier'),
+    dossier: z.string().trim().min(1).max(200000),
+    query: z.string().trim().max(2000).optional(),
+  }),
+]);
+
+// Score one prospect against ICP profiles: given inline (e.g. the icpProfiles
+// of an earlier ICP run) or by saved ICP library id
+export const icpFitRequestSchema = baseRequestSchema.omit({ context: true }).extend({
+  url: urlSchema,
+  profiles: z.array(icpProfileSchema).min(1).max(ICP_FIT_CONFIG.MAX_PROFILES).optional(),
+  profileIds: z.array(z.string().min(1)).min(1).max(ICP_FIT_CONFIG.MAX_PROFILES).optional(),
+}).refine(request => Boolean(request.profiles) !== Boolean(request.profileIds), {
+  message: 'Provide either profiles or profileIds',
+  path: ['profiles'],
+});
+
+// Saved ICP library
+export const icpLibrarySaveSchema = z.object({
+  profile: icpProfileSchema,
+  name: z.string().trim().max(200).optional(),
+  description: z.string().max(2000).optional(),
+  note: z.string().max(500).optional(),
+});
+
+export const icpLibraryVersionSchema = z.object({
+  profile: icpProfileSchema,
+  origin: z.enum(['run', 'edit']).default('edit'),
+  note: z.string().max(500).optional(),
+});
+
+export const icpLibraryUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().max(2000).optional(),
+});
+
+export const exportFormatSchema = z.enum(['markdown', 'html', 'pdf', 'docx', 'json']);
+
+// A completed run as returned by /api/v1/search, /api/v1/icp or a finished job
+export const exportRequestSchema = z.object({
+  format: exportFormatSchema,
+  report: z.object({
+    title: z.string().trim().min(1).max(300),
+    query: z.string().max(2000).optional(),
+    content: z.string().min(1).max(500000),
+    sources: z.array(sourceSchema).max(500).default([]),
+    followUpQuestions: z.array(z.string()).max(20).optional(),
+    icpProfiles: z.array(icpProfileSchema).max(50).optional(),
+  }),
+});
+
+// Bulk account research: accounts as an uploaded CSV or as JSON rows
+export const batchRequestSchema = baseRequestSchema.pick({ provider: true, bypassCache: true, budget: true }).extend({
+  mode: z.enum(['company-research', 'icp-fit']).default('company-research'),
+  // Saved ICP library profiles to score every account against (icp-fit mode)
+  profileIds: z.array(z.string().min(1)).min(1).max(ICP_FIT_CONFIG.MAX_PROFILES).optional(),
+  name: z.string().trim().max(200).optional(),
+  csv: z.string().min(1).max(5_000_000).optional(),
+  rows: z.array(z.object({
+    domain: z.string().trim().min(1),
+    name: z.string().trim().max(300).optional(),
+    notes: z.string().max(2000).optional(),
+  })).min(1).max(BATCH_CONFIG.MAX_ROWS).optional(),
+}).refine(request => Boolean(request.csv) !== Boolean(request.rows), {
+  message: 'Provide either csv or rows',
+  path: ['csv'],
+}).refine(request => request.mode !== 'icp-fit' || Boolean(request.profileIds), {
+  message: 'icp-fit batches need profileIds',
+  path: ['profileIds'],
+});
+
+// A finished research turn appended to a thread
+const claimStatusSchema = z.enum(['supported', 'partial', 'unsupported', 'miscited', 'unverifiable']);
+const claimCount = z.number().int().min(0);
+
+const citationReportSchema = z.object({
+  claims: z.array(z.object({
+    id: z.number().int(),
+    text: z.string(),
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    citations: z.array(z.number().int()),
+    status: claimStatusSchema,
+    reason: z.string(),
+    evidence: z.object({ source: z.number().int(), url: z.string(), quote: z.string() }).optional(),
+    suggestedCitation: z.number().int().optional(),
+  })).max(500),
+  totals: z.object({
+    supported: claimCount,
+    partial: claimCount,
+    unsupported: claimCount,
+    miscited: claimCount,
+    unverifiable: claimCount,
+  }),
+  skipped: z.number().int().min(0),
+  checkedAt: z.string(),
+});
+
+export const threadTurnSchema = z.object({
+  kind: z.enum(['search', 'company', 'icp']),
+  query: z.string().trim().min(1).max(2000),
+  target: z.string().max(2000).optional(),
+  content: z.string().min(1).max(500000),
+  sources: z.array(sourceSchema).max(500).default([]),
+  followUpQuestions: z.array(z.string()).max(20).optional(),
+  icpProfiles: z.array(icpProfileSchema).max(50).optional(),
+  citationReport: citationReportSchema.optional(),
+});
+
+export const threadCreateSchema = z.object({
+  title: z.string().trim().max(200).optional(),
+});
+
+export const threadUpdateSchema = z.object({
+  title: z.string().trim().min(1).max(200),
+});
+
+// The file written by a thread export
+export const threadExportSchema = z.object({
+  format: z.literal('firesearch-threads'),
+  version: z.literal(1),
+  exportedAt: z.string().optional(),
+  threads: z.array(z.object({
+    id: z.string().trim().min(1).max(200),
+    title: z.string().trim().max(200).default(''),
+    turns: z.array(threadTurnSchema.extend({
+      id: z.string().trim().min(1).max(200),
+      createdAt: z.string().datetime(),
+    })).max(THREAD_CONFIG.MAX_TURNS),
+    createdAt: z.string().datetime(),
+    updatedAt: z.string().datetime(),
+  })).max(THREAD_CONFIG.MAX_THREADS_LISTED),
+});
+
+// Competitor watchlist
+const watchIntelligenceTypesSchema = z.array(z.enum(['pricing', 'customers', 'products', 'team', 'competitors'])).min(1).max(5);
+const watchIntervalSchema = z.number().min(WATCHLIST_CONFIG.MIN_INTERVAL_HOURS).max(WATCHLIST_CONFIG.MAX_INTERVAL_HOURS);
+
+export const watchTargetCreateSchema = z.object({
+  domain: z.string().trim().min(1).max(300),
+  name: z.string().trim().max(200).optional(),
+  intelligenceTypes: watchIntelligenceTypesSchema.optional(),
+  intervalHours: watchIntervalSchema.optional(),
+  provider: baseRequestSchema.shape.provider,
+});
+
+export const watchTargetUpdateSchema = z.object({
+  name: z.string().trim().max(200).optional(),
+  intelligenceTypes: watchIntelligenceTypesSchema.optional(),
+  intervalHours: watchIntervalSchema.optional(),
+  provider: baseRequestSchema.shape.provider,
+  paused: z.boolean().optional(),
+});
+
+export type SearchRequest = z.infer<typeof searchRequestSchema>;
+export type CompanyResearchRequest = z.infer<typeof companyResearchRequestSchema>;
+export type ICPRequest = z.infer<typeof icpRequestSchema>;
+export type ICPFitRequest = z.infer<typeof icpFitRequestSchema>;
+export type ICPLibrarySaveRequest = z.infer<typeof icpLibrarySaveSchema>;
+export type ExportRequest = z.infer<typeof exportRequestSchema>;
+export type BatchRequest = z.infer<typeof batchRequestSchema>;
+export type ThreadTurnRequest = z.infer<typeof threadTurnSchema>;
+export type ThreadExportFile = z.infer<typeof threadExportSchema>;
+export type WatchTargetCreateRequest = z.infer<typeof watchTargetCreateSchema>;
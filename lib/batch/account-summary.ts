@@ -0,0 +1,76 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { BATCH_CONFIG } from '../config';
+import { fitRationale, ICPFitResult } from '../icp-fit';
+import { messageText } from '../llm';
+import { AccountFit, AccountSummary, BatchRowInput } from './types';
+
+const field = z.preprocess(value => (value === null || value === undefined ? '' : value), z.coerce.string());
+
+const accountSummarySchema = z.object({
+  companyName: field,
+  industry: field,
+  employees: field,
+  headquarters: field,
+  funding: field,
+  summary: field,
+});
+
+/**
+ * Pull spreadsheet-friendly fields out of an account's research report
+ */
+export async function summarizeAccount(
+  model: BaseChatModel,
+  input: BatchRowInput,
+  report: string,
+  signal?: AbortSignal
+): Promise<AccountSummary> {
+  const response = await model.invoke([
+    new SystemMessage(`You turn company research reports into one spreadsheet row.
+
+Return ONLY a JSON object (no markdown) with these string fields:
+{ "companyName": "", "industry": "", "employees": "", "headquarters": "", "funding": "", "summary": "" }
+
+- Use only what the report states; use "" when it does not say.
+- employees: headcount or range, funding: stage and/or total raised.
+- summary: two sentences an SDR can read before a call - what the company does and who it sells to.`),
+    new HumanMessage(`Account: ${input.name ? `${input.name} (${input.domain})` : input.domain}${input.notes ? `\nNotes: ${input.notes}` : ''}
+
+Report:
+${report.slice(0, BATCH_CONFIG.MAX_REPORT_CHARS)}`),
+  ], { signal });
+
+  const content = messageText(response.content).replace(/```json\n?|```/g, '').trim();
+  const parsed = accountSummarySchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Summary fields did not validate: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Row fields for an icp-fit batch. Fit scoring has already extracted the
+ * firmographics, so no extra model call is needed.
+ */
+export function summarizeFit(result: ICPFitResult): { summary: AccountSummary; fit?: AccountFit } {
+  const { signals } = result;
+  const best = result.scores[0];
+  return {
+    summary: {
+      companyName: signals.companyName || '',
+      industry: signals.industry?.value || '',
+      employees: signals.employees?.value || '',
+      headquarters: signals.headquarters?.value || '',
+      funding: signals.fundingStage?.value || '',
+      summary: signals.description || '',
+    },
+    fit: best && {
+      profileId: best.profileId,
+      profileName: best.profileName,
+      score: best.score,
+      tier: best.verdict,
+      rationale: fitRationale(best),
+    },
+  };
+}
@@ -0,0 +1,328 @@
+import { v4 as uuidv4 } from 'uuid';
+import { isAbortError, throwIfAborted } from '../abort';
+import { createResearchCache } from '../cache';
+import { BATCH_CONFIG } from '../config';
+import { FirecrawlClient } from '../firecrawl';
+import { ICPFitResult } from '../icp-fit';
+import { getICPLibrary } from '../icp-library';
+import { PHASE_PROGRESS } from '../jobs/job-queue';
+import { LangGraphSearchEngine, SearchEvent } from '../langgraph-search-engine';
+import { createChatModel } from '../llm';
+import { createUsageLedger } from '../usage';
+import { summarizeAccount, summarizeFit } from './account-summary';
+import { BatchListOptions, BatchMode, BatchOptions, BatchRow, BatchRowInput, BatchRun, BatchStore } from './types';
+
+export interface SubmitBatchOptions extends BatchOptions {
+  name?: string;
+  columns?: string[];
+  // Per-batch Firecrawl key; held in memory only and never written to the store
+  apiKey?: string;
+}
+
+interface RowTask {
+  batchId: string;
+  index: number;
+}
+
+const RATE_LIMITED = /\b429\b|rate.?limit|too many requests/i;
+
+/**
+ * In-process worker pool for bulk account research. Rows from every batch
+ * share one pool so the provider sees a bounded request rate however many
+ * batches are running; row starts are spaced out and the pool pauses when
+ * the provider reports a rate limit.
+ */
+export class BatchRunner {
+  private store: BatchStore;
+  private maxConcurrent: number;
+  private pending: RowTask[] = [];
+  private running = new Map<string, AbortController>();
+  private apiKeys = new Map<string, string>();
+  private nextStartAt = 0;
+  private startTimer?: ReturnType<typeof setTimeout>;
+  private ready: Promise<void>;
+
+  constructor(store: BatchStore, maxConcurrent: number = BATCH_CONFIG.MAX_CONCURRENT_ROWS) {
+    this.store = store;
+    this.maxConcurrent = maxConcurrent;
+    this.ready = this.recover();
+  }
+
+  async submit(mode: BatchMode, inputs: BatchRowInput[], options: SubmitBatchOptions = {}): Promise<BatchRun> {
+    await this.ready;
+    if (inputs.length === 0) throw new Error('A batch needs at least one account');
+    if (inputs.length > BATCH_CONFIG.MAX_ROWS) throw new Error(`A batch can hold at most ${BATCH_CONFIG.MAX_ROWS} accounts`);
+    if (mode === 'icp-fit') {
+      if (!options.profileIds?.length) throw new Error('An ICP fit batch needs at least one saved ICP profile');
+      // Fails on unknown ids before any row is queued
+      await getICPLibrary().getProfiles(options.profileIds);
+    }
+
+    const { apiKey, name, columns, ...batchOptions } = options;
+    const batch: BatchRun = {
+      id: uuidv4(),
+      name,
+      mode,
+      status: 'queued',
+      options: batchOptions,
+      columns: columns || ['domain'],
+      rows: inputs.map((input, index) => ({
+        index,
+        input,
+        status: 'queued',
+        progress: { phase: 'understanding', percent: 0, message: 'Queued' },
+        attempts: 0,
+        costUsd: 0,
+      })),
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.store.create(batch);
+    if (apiKey) this.apiKeys.set(batch.id, apiKey);
+    this.pending.push(...batch.rows.map(row => ({ batchId: batch.id, index: row.index })));
+    this.pump();
+    return batch;
+  }
+
+  async get(id: string): Promise<BatchRun | undefined> {
+    await this.ready;
+    return this.store.get(id);
+  }
+
+  async list(options?: BatchListOptions): Promise<BatchRun[]> {
+    await this.ready;
+    return this.store.list(options);
+  }
+
+  /**
+   * Cancel a batch: queued rows are dropped and running rows stopped.
+   * Finished rows keep their results.
+   */
+  async cancel(id: string): Promise<BatchRun | undefined> {
+    await this.ready;
+    const batch = await this.store.get(id);
+    if (!batch) return undefined;
+    if (batch.status !== 'queued' && batch.status !== 'running') return batch;
+
+    this.pending = this.pending.filter(task => task.batchId !== id);
+    for (const row of batch.rows) {
+      if (row.status !== 'queued' && row.status !== 'running') continue;
+      this.running.get(rowKey({ batchId: id, index: row.index }))?.abort();
+      await this.store.updateRow(id, row.index, {
+        status: 'cancelled',
+        finishedAt: new Date().toISOString(),
+        progress: { ...row.progress, message: 'Cancelled' },
+      });
+    }
+    this.apiKeys.delete(id);
+
+    return this.store.update(id, { status: 'cancelled', finishedAt: new Date().toISOString() });
+  }
+
+  private async recover(): Promise<void> {
+    for (const status of ['running', 'queued'] as const) {
+      for (const batch of (await this.store.list({ status, limit: Number.MAX_SAFE_INTEGER })).reverse()) {
+        // Rows that were mid-run when the process stopped cannot be continued in place
+        for (const row of batch.rows.filter(row => row.status === 'running')) {
+          await this.store.updateRow(batch.id, row.index, {
+            status: 'failed',
+            error: 'Interrupted by a server restart',
+            finishedAt: new Date().toISOString(),
+          });
+        }
+        const queued = batch.rows.filter(row => row.status === 'queued');
+        this.pending.push(...queued.map(row => ({ batchId: batch.id, index: row.index })));
+        if (queued.length === 0) await this.finishBatch(batch.id);
+      }
+    }
+    this.pump();
+  }
+
+  private pump(): void {
+    if (this.startTimer) return;
+
+    while (this.running.size < this.maxConcurrent && this.pending.length > 0) {
+      // Space out row starts so bursts stay under the provider's rate limit
+      const wait = this.nextStartAt - Date.now();
+      if (wait > 0) {
+        this.startTimer = setTimeout(() => {
+          this.startTimer = undefined;
+          this.pump();
+        }, wait);
+        return;
+      }
+
+      const task = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(rowKey(task), controller);
+      this.nextStartAt = Date.now() + BATCH_CONFIG.ROW_START_INTERVAL_MS;
+
+      void this.executeRow(task, controller).finally(() => {
+        this.running.delete(rowKey(task));
+        this.pump();
+      });
+    }
+  }
+
+  private async executeRow(task: RowTask, controller: AbortController): Promise<void> {
+    const batch = await this.store.get(task.batchId);
+    const row = batch?.rows[task.index];
+    if (!batch || !row || row.status !== 'queued' || (batch.status !== 'queued' && batch.status !== 'running')) return;
+    // cancel() may have landed while the batch was read; it records the row
+    if (controller.signal.aborted) return;
+
+    if (batch.status === 'queued') {
+      await this.store.update(batch.id, { status: 'running', startedAt: new Date().toISOString() });
+    }
+    const attempts = row.attempts + 1;
+    await this.store.updateRow(batch.id, row.index, {
+      status: 'running',
+      attempts,
+      startedAt: new Date().toISOString(),
+      progress: { ...row.progress, message: 'Starting' },
+    });
+
+    const ledger = createUsageLedger(batch.options.budget);
+    try {
+      const patch = await this.researchRow(batch, row, ledger, controller.signal);
+      throwIfAborted(controller.signal);
+      await this.store.updateRow(batch.id, row.index, {
+        ...patch,
+        costUsd: row.costUsd + ledger.snapshot().estimatedCostUsd,
+        status: 'completed',
+        error: undefined,
+        finishedAt: new Date().toISOString(),
+        progress: { phase: 'complete', percent: 100, message: 'Complete' },
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        await this.keepCancelled(task);
+        return;
+      }
+      const message = error instanceof Error ? error.message : 'Research failed';
+
+      // Back off and put the row back in line when the provider is rate limiting
+      if (RATE_LIMITED.test(message) && attempts <= BATCH_CONFIG.RATE_LIMIT_RETRIES) {
+        const backoff = BATCH_CONFIG.RATE_LIMIT_BACKOFF_MS * attempts;
+        this.nextStartAt = Math.max(this.nextStartAt, Date.now() + backoff);
+        await this.store.updateRow(batch.id, row.index, {
+          status: 'queued',
+          costUsd: row.costUsd + ledger.snapshot().estimatedCostUsd,
+          progress: { ...row.progress, percent: 0, message: `Rate limited - retrying in ${Math.round(backoff / 1000)}s` },
+        });
+        this.pending.push(task);
+        return;
+      }
+
+      await this.store.updateRow(batch.id, row.index, {
+        status: 'failed',
+        costUsd: row.costUsd + ledger.snapshot().estimatedCostUsd,
+        error: message,
+        finishedAt: new Date().toISOString(),
+        progress: { phase: 'error', percent: 100, message: 'Failed' },
+      });
+    } finally {
+      if (!controller.signal.aborted) await this.finishBatch(batch.id);
+    }
+  }
+
+  /**
+   * Run the batch mode for one account and return the row's results
+   */
+  private async researchRow(
+    batch: BatchRun,
+    row: BatchRow,
+    ledger: ReturnType<typeof createUsageLedger>,
+    signal: AbortSignal
+  ): Promise<Partial<BatchRow>> {
+    const cache = createResearchCache({ bypass: batch.options.bypassCache === true });
+    const firecrawl = new FirecrawlClient(this.apiKeys.get(batch.id), batch.options.provider, cache, ledger);
+    const engine = new LangGraphSearchEngine(firecrawl);
+
+    let finalResult: Extract<SearchEvent, { type: 'final-result' }> | undefined;
+    let fitResult: ICPFitResult | undefined;
+    let lastError: string | undefined;
+    let writes: Promise<unknown> = Promise.resolve();
+
+    const emit = (event: SearchEvent) => {
+      if (signal.aborted) return;
+      if (event.type === 'final-result') finalResult = event;
+      if (event.type === 'icp-fit') fitResult = event.result;
+      if (event.type === 'error') lastError = event.error;
+      if (event.type === 'cancelled') lastError = event.message;
+      if (event.type === 'phase-update') {
+        const progress = { phase: event.phase, percent: PHASE_PROGRESS[event.phase], message: event.message };
+        writes = writes
+          .then(() => this.store.updateRow(batch.id, row.index, { progress }))
+          .catch(error => console.error(`[BatchRunner] Failed to record progress for ${row.input.domain}:`, error));
+      }
+    };
+
+    switch (batch.mode) {
+      case 'company-research':
+        await engine.analyzeCompanyIntelligence(`https://${row.input.domain}`, emit, { signal });
+        break;
+      case 'icp-fit': {
+        // Read per row so every account is scored against the current version of each profile
+        const profiles = await getICPLibrary().getProfiles(batch.options.profileIds || []);
+        await engine.scoreICPFit(`https://${row.input.domain}`, profiles, emit, { signal });
+        break;
+      }
+    }
+    await writes;
+
+    if (!finalResult) throw new Error(lastError || 'Research finished without a result');
+    const sources = finalResult.sources
+      .slice(0, BATCH_CONFIG.MAX_SOURCES_PER_ROW)
+      .map(source => ({ url: source.url, title: source.title }));
+
+    if (fitResult) return { ...summarizeFit(fitResult), sources };
+
+    const model = createChatModel('fast', { usage: ledger });
+    let summary;
+    try {
+      summary = await summarizeAccount(model, row.input, finalResult.content, signal);
+    } catch (error) {
+      if (isAbortError(error) || signal.aborted) throw error;
+      // The report is still useful without the extracted fields
+      console.error(`[BatchRunner] Summary extraction failed for ${row.input.domain}:`, error);
+    }
+
+    return { summary, sources };
+  }
+
+  // cancel() records the row and batch, but this row's 'running' writes can land after it
+  private async keepCancelled(task: RowTask): Promise<void> {
+    const batch = await this.store.get(task.batchId);
+    const row = batch?.rows[task.index];
+    if (!batch || !row) return;
+
+    if (row.status !== 'cancelled') {
+      await this.store.updateRow(batch.id, row.index, {
+        status: 'cancelled',
+        finishedAt: row.finishedAt || new Date().toISOString(),
+        progress: { ...row.progress, message: 'Cancelled' },
+      });
+    }
+    if (batch.status !== 'cancelled') {
+      await this.store.update(batch.id, { status: 'cancelled', finishedAt: batch.finishedAt || new Date().toISOString() });
+    }
+  }
+
+  private async finishBatch(id: string): Promise<void> {
+    const batch = await this.store.get(id);
+    if (!batch || (batch.status !== 'queued' && batch.status !== 'running')) return;
+    if (batch.rows.some(row => row.status === 'queued' || row.status === 'running')) return;
+
+    const anyCompleted = batch.rows.some(row => row.status === 'completed');
+    await this.store.update(id, {
+      status: anyCompleted ? 'completed' : 'failed',
+      finishedAt: new Date().toISOString(),
+    });
+    this.apiKeys.delete(id);
+  }
+}
+
+function rowKey(task: RowTask): string {
+  return `${task.batchId}:${task.index}`;
+}
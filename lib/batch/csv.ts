@@ -0,0 +1,214 @@
+// CSV import and export for bulk account research
+import { BATCH_CONFIG } from '../config';
+import { normalizeDomain } from '../multi-agent/company-enrichment';
+import { BatchRowInput, BatchRun } from './types';
+
+const DOMAIN_HEADERS = ['domain', 'website', 'url', 'company domain', 'company website', 'site', 'homepage'];
+const NAME_HEADERS = ['name', 'company', 'company name', 'account', 'account name', 'organization'];
+const NOTES_HEADERS = ['notes', 'note', 'comments', 'comment', 'context'];
+
+export interface ParsedAccounts {
+  columns: string[];
+  rows: BatchRowInput[];
+  // One message per input row that was left out
+  skipped: string[];
+}
+
+/**
+ * RFC 4180 parsing: quoted fields, "" escapes, commas and newlines inside quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+export function toCsv(rows: string[][]): string {
+  return rows.map(cells => cells.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Read accounts from an uploaded CSV. A header row is optional: without one
+ * the first column holding domains is used. Rows without a usable domain and
+ * repeated domains are reported as skipped.
+ */
+export function parseAccountsCsv(text: string): ParsedAccounts {
+  const table = parseCsv(text);
+  if (table.length === 0) throw new Error('The CSV file is empty');
+  return readAccountTable(table);
+}
+
+/**
+ * Read accounts given as JSON rows, with the same validation as a CSV upload
+ */
+export function parseAccountRows(rows: { domain: string; name?: string; notes?: string }[]): ParsedAccounts {
+  return readAccountTable([
+    ['domain', 'name', 'notes'],
+    ...rows.map(row => [row.domain, row.name || '', row.notes || '']),
+  ]);
+}
+
+function readAccountTable(table: string[][]): ParsedAccounts {
+  const header = table[0].map(cell => cell.trim());
+  const lowered = header.map(cell => cell.toLowerCase());
+  let domainColumn = lowered.findIndex(cell => DOMAIN_HEADERS.includes(cell));
+  const hasHeader = domainColumn >= 0;
+
+  const columns = hasHeader ? header : header.map((_, index) => `column_${index + 1}`);
+  if (!hasHeader) {
+    domainColumn = table[0].findIndex(cell => normalizeDomain(cell));
+    if (domainColumn < 0) {
+      throw new Error(`No domain column found. Add a header named one of: ${DOMAIN_HEADERS.join(', ')}`);
+    }
+    columns[domainColumn] = 'domain';
+  }
+
+  const nameColumn = hasHeader ? lowered.findIndex(cell => NAME_HEADERS.includes(cell)) : -1;
+  const notesColumn = hasHeader ? lowered.findIndex(cell => NOTES_HEADERS.includes(cell)) : -1;
+
+  const rows: BatchRowInput[] = [];
+  const skipped: string[] = [];
+  const seen = new Set<string>();
+
+  for (const [lineIndex, cells] of table.slice(hasHeader ? 1 : 0).entries()) {
+    const line = lineIndex + (hasHeader ? 2 : 1);
+    const domain = normalizeDomain(cells[domainColumn]);
+    if (!domain) {
+      skipped.push(`Row ${line}: "${cells[domainColumn] || ''}" is not a domain`);
+      continue;
+    }
+    if (seen.has(domain)) {
+      skipped.push(`Row ${line}: ${domain} is a duplicate`);
+      continue;
+    }
+    if (rows.length >= BATCH_CONFIG.MAX_ROWS) {
+      skipped.push(`Row ${line}: over the ${BATCH_CONFIG.MAX_ROWS} account limit`);
+      continue;
+    }
+
+    seen.add(domain);
+    rows.push({
+      domain,
+      name: nameColumn >= 0 ? cells[nameColumn]?.trim() || undefined : undefined,
+      notes: notesColumn >= 0 ? cells[notesColumn]?.trim() || undefined : undefined,
+      columns: Object.fromEntries(columns.map((column, index) => [column, (cells[index] || '').trim()])),
+    });
+  }
+
+  return { columns, rows, skipped };
+}
+
+/**
+ * Enriched CSV: the uploaded columns followed by the research results
+ */
+export function batchToCsv(batch: BatchRun): string {
+  const fitColumns = batch.mode === 'icp-fit' ? ['fit_profile', 'fit_score', 'fit_tier', 'fit_rationale'] : [];
+  const resultColumns = [
+    'status', ...fitColumns, 'company_name', 'industry', 'employees', 'headquarters', 'funding', 'summary', 'source_count', 'sources', 'cost_usd', 'error',
+  ];
+  const header = [...batch.columns, ...resultColumns.filter(column => !batch.columns.includes(column))];
+
+  const rows = batch.rows.map(row => {
+    const results: Record<string, string> = {
+      status: row.status,
+      fit_profile: row.fit?.profileName || '',
+      fit_score: row.fit ? String(row.fit.score) : '',
+      fit_tier: row.fit?.tier || '',
+      fit_rationale: row.fit?.rationale || '',
+      company_name: row.summary?.companyName || '',
+      industry: row.summary?.industry || '',
+      employees: row.summary?.employees || '',
+      headquarters: row.summary?.headquarters || '',
+      funding: row.summary?.funding || '',
+      summary: row.summary?.summary || '',
+      source_count: String(row.sources?.length || 0),
+      sources: (row.sources || []).map(source => source.url).join(' '),
+      cost_usd: row.costUsd.toFixed(4),
+      error: row.error || '',
+    };
+    return header.map(column => (column in results && !batch.columns.includes(column)
+      ? results[column]
+      : row.input.columns[column] ?? ''));
+  });
+
+  return toCsv([header, ...rows]);
+}
+
+/**
+ * Enriched CSV or JSON download for a batch, with whatever rows have finished
+ */
+export function exportBatch(batch: BatchRun, format: 'csv' | 'json'): { filename: string; contentType: string; content: string } {
+  const slug = (batch.name || 'accounts')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'accounts';
+  const filename = `${slug}-${(batch.finishedAt || batch.createdAt).slice(0, 10)}.${format}`;
+
+  if (format === 'csv') {
+    return { filename, contentType: 'text/csv; charset=utf-8', content: batchToCsv(batch) };
+  }
+
+  const accounts = batch.rows.map(row => ({
+    ...row.input.columns,
+    domain: row.input.domain,
+    status: row.status,
+    ...row.summary,
+    fit: row.fit,
+    sources: row.sources || [],
+    costUsd: row.costUsd,
+    error: row.error,
+  }));
+  return {
+    filename,
+    contentType: 'application/json',
+    content: JSON.stringify({ id: batch.id, name: batch.name, mode: batch.mode, status: batch.status, accounts }, null, 2),
+  };
+}
+
+function escapeCell(value: string): string {
+  // Leading =, +, - or @ would be run as a formula by spreadsheet apps
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
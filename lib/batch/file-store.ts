@@ -0,0 +1,101 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BATCH_CONFIG } from '../config';
+import { BatchListOptions, BatchRow, BatchRun, BatchStore } from './types';
+
+/**
+ * File-backed batch store: one JSON record per batch, rewritten atomically
+ * on every update so batches survive restarts.
+ */
+export class FileBatchStore implements BatchStore {
+  private directory: string;
+  // Serialize writes per batch so row updates never interleave
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(directory: string = BATCH_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  async create(batch: BatchRun): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.withLock(batch.id, () => this.writeRecord(batch));
+  }
+
+  async get(id: string): Promise<BatchRun | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(id), 'utf8')) as BatchRun;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async update(id: string, patch: Partial<Omit<BatchRun, 'rows'>>): Promise<BatchRun | undefined> {
+    return this.modify(id, batch => ({ ...batch, ...patch, id }));
+  }
+
+  async updateRow(id: string, index: number, patch: Partial<BatchRow>): Promise<BatchRun | undefined> {
+    return this.modify(id, batch => {
+      if (!batch.rows[index]) return batch;
+      const rows = [...batch.rows];
+      rows[index] = { ...rows[index], ...patch, index };
+      return { ...batch, rows };
+    });
+  }
+
+  async list(options: BatchListOptions = {}): Promise<BatchRun[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const batches = await Promise.all(files
+      .filter(file => file.endsWith('.batch.json'))
+      .map(file => this.get(file.slice(0, -'.batch.json'.length))));
+
+    return batches
+      .filter((batch): batch is BatchRun => Boolean(batch))
+      .filter(batch => !options.status || batch.status === options.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || BATCH_CONFIG.MAX_BATCHES_LISTED);
+  }
+
+  private modify(id: string, change: (batch: BatchRun) => BatchRun): Promise<BatchRun | undefined> {
+    return this.withLock(id, async () => {
+      const batch = await this.get(id);
+      if (!batch) return undefined;
+      const updated = change(batch);
+      await this.writeRecord(updated);
+      return updated;
+    });
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.directory, `${safeId(id)}.batch.json`);
+  }
+
+  private async writeRecord(batch: BatchRun): Promise<void> {
+    const target = this.recordPath(batch.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(batch), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const next = previous.then(task, task);
+    const tail = next.catch(() => undefined);
+    this.locks.set(key, tail);
+    // Drop the entry once the last queued write settles, so finished ids do not pile up
+    void tail.then(() => {
+      if (this.locks.get(key) === tail) this.locks.delete(key);
+    });
+    return next;
+  }
+}
+
+// Batch ids come from clients - keep them from escaping the directory
+function safeId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
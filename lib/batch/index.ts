@@ -0,0 +1,62 @@
+// Bulk Account Research - research every account in an uploaded CSV
+import type { BatchRequest } from '../api/schemas';
+import { BATCH_CONFIG } from '../config';
+import { BatchRunner } from './batch-runner';
+import { parseAccountRows, parseAccountsCsv } from './csv';
+import { FileBatchStore } from './file-store';
+import { MemoryBatchStore } from './memory-store';
+import { BatchRun, BatchStore } from './types';
+
+export * from './types';
+export { BatchRunner } from './batch-runner';
+export type { SubmitBatchOptions } from './batch-runner';
+export { MemoryBatchStore } from './memory-store';
+export { FileBatchStore } from './file-store';
+export { parseCsv, toCsv, parseAccountsCsv, parseAccountRows, batchToCsv, exportBatch } from './csv';
+export type { ParsedAccounts } from './csv';
+
+export function createBatchStore(kind: string = process.env.BATCH_STORE || BATCH_CONFIG.STORE): BatchStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryBatchStore();
+    case 'file':
+      return new FileBatchStore(process.env.BATCH_DIR || BATCH_CONFIG.DIRECTORY);
+    default:
+      throw new Error(`Unknown batch store: ${kind}`);
+  }
+}
+
+// One runner per server process so concurrent batches share the rate limit
+let sharedRunner: BatchRunner | undefined;
+
+export function getBatchRunner(): BatchRunner {
+  if (!sharedRunner) {
+    sharedRunner = new BatchRunner(createBatchStore(), BATCH_CONFIG.MAX_CONCURRENT_ROWS);
+  }
+  return sharedRunner;
+}
+
+/**
+ * Parse a validated batch request and queue it. Rows that could not be used
+ * come back as `skipped` so callers can show them next to the batch.
+ */
+export async function submitBatchRequest(
+  request: BatchRequest,
+  apiKey?: string
+): Promise<{ batch: BatchRun; skipped: string[] }> {
+  const { columns, rows, skipped } = request.csv ? parseAccountsCsv(request.csv) : parseAccountRows(request.rows || []);
+  if (rows.length === 0) {
+    throw new Error(`No accounts with a usable domain${skipped.length > 0 ? ` (${skipped[0]})` : ''}`);
+  }
+
+  const batch = await getBatchRunner().submit(request.mode, rows, {
+    name: request.name,
+    columns,
+    apiKey,
+    provider: request.provider,
+    bypassCache: request.bypassCache,
+    budget: request.budget,
+    profileIds: request.mode === 'icp-fit' ? request.profileIds : undefined,
+  });
+  return { batch, skipped };
+}
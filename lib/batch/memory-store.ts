@@ -0,0 +1,41 @@
+import { BATCH_CONFIG } from '../config';
+import { BatchListOptions, BatchRow, BatchRun, BatchStore } from './types';
+
+/**
+ * Process-local batch store. Batches are lost on restart - use the file
+ * store for batches that must survive the server.
+ */
+export class MemoryBatchStore implements BatchStore {
+  private batches = new Map<string, BatchRun>();
+
+  async create(batch: BatchRun): Promise<void> {
+    this.batches.set(batch.id, structuredClone(batch));
+  }
+
+  async get(id: string): Promise<BatchRun | undefined> {
+    const batch = this.batches.get(id);
+    return batch ? structuredClone(batch) : undefined;
+  }
+
+  async update(id: string, patch: Partial<Omit<BatchRun, 'rows'>>): Promise<BatchRun | undefined> {
+    const batch = this.batches.get(id);
+    if (!batch) return undefined;
+    Object.assign(batch, patch, { id });
+    return structuredClone(batch);
+  }
+
+  async updateRow(id: string, index: number, patch: Partial<BatchRow>): Promise<BatchRun | undefined> {
+    const batch = this.batches.get(id);
+    if (!batch || !batch.rows[index]) return undefined;
+    batch.rows[index] = { ...batch.rows[index], ...patch, index };
+    return structuredClone(batch);
+  }
+
+  async list(options: BatchListOptions = {}): Promise<BatchRun[]> {
+    return Array.from(this.batches.values())
+      .filter(batch => !options.status || batch.status === options.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || BATCH_CONFIG.MAX_BATCHES_LISTED)
+      .map(batch => structuredClone(batch));
+  }
+}
@@ -0,0 +1,96 @@
+// Bulk Account Research Types
+import type { FitVerdict } from '../icp-fit';
+import type { JobProgress } from '../jobs/types';
+import type { ProviderName } from '../providers';
+import type { UsageBudget } from '../usage';
+
+// What is run for every account in a batch
+export type BatchMode = 'company-research' | 'icp-fit';
+
+export type BatchStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type BatchRowStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface BatchRowInput {
+  domain: string;
+  name?: string;
+  notes?: string;
+  // Every cell of the uploaded CSV row, by header, so exports keep the original columns
+  columns: Record<string, string>;
+}
+
+// Summary fields extracted from an account's research report
+export interface AccountSummary {
+  companyName: string;
+  industry: string;
+  employees: string;
+  headquarters: string;
+  funding: string;
+  summary: string;
+}
+
+// Best-fitting saved ICP profile for an account in an icp-fit batch
+export interface AccountFit {
+  profileId: string;
+  profileName: string;
+  score: number;
+  // The fit verdict: strong, moderate, weak or insufficient-data
+  tier: FitVerdict;
+  rationale: string;
+}
+
+export interface BatchRow {
+  index: number;
+  input: BatchRowInput;
+  status: BatchRowStatus;
+  progress: JobProgress;
+  attempts: number;
+  // Estimated spend across all attempts
+  costUsd: number;
+  summary?: AccountSummary;
+  fit?: AccountFit;
+  sources?: { url: string; title: string }[];
+  error?: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface BatchOptions {
+  provider?: ProviderName;
+  bypassCache?: boolean;
+  // Applied to each account's run, not to the batch as a whole
+  budget?: UsageBudget;
+  // Saved ICP library profiles every account is scored against (icp-fit mode)
+  profileIds?: string[];
+}
+
+export interface BatchRun {
+  id: string;
+  name?: string;
+  mode: BatchMode;
+  status: BatchStatus;
+  options: BatchOptions;
+  // Header order of the uploaded CSV
+  columns: string[];
+  rows: BatchRow[];
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface BatchListOptions {
+  status?: BatchStatus;
+  limit?: number;
+}
+
+/**
+ * Persistence for batches. Row updates must be applied in call order so
+ * progress never moves backwards.
+ */
+export interface BatchStore {
+  create(batch: BatchRun): Promise<void>;
+  get(id: string): Promise<BatchRun | undefined>;
+  update(id: string, patch: Partial<Omit<BatchRun, 'rows'>>): Promise<BatchRun | undefined>;
+  updateRow(id: string, index: number, patch: Partial<BatchRow>): Promise<BatchRun | undefined>;
+  list(options?: BatchListOptions): Promise<BatchRun[]>;
+}
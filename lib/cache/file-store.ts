@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CACHE_CONFIG } from '../config';
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * Disk-backed cache: one JSON file per entry, sharded by the first two
+ * characters of the key hash so directories stay small. Expired files are
+ * removed lazily when they are read.
+ */
+export class FileCacheStore implements CacheStore {
+  private directory: string;
+
+  constructor(directory: string = CACHE_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const file = this.entryPath(key);
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf8')) as CacheEntry<T>;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await fs.rm(file, { force: true }).catch(() => undefined);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    const target = this.entryPath(key);
+    const temp = `${target}.${process.pid}.${Date.now()}.tmp`;
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlMs };
+
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.entryPath(key), { force: true });
+  }
+
+  private entryPath(key: string): string {
+    const name = key.replace(/[^a-zA-Z0-9_-]/g, '_');
+    const hash = name.slice(name.lastIndexOf('_') + 1);
+    return path.join(this.directory, hash.slice(0, 2) || '__', `${name}.json`);
+  }
+}
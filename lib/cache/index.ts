@@ -0,0 +1,61 @@
+// Research Cache - reuses scrapes, searches, site maps and LLM summaries across runs
+import { CACHE_CONFIG } from '../config';
+import { FileCacheStore } from './file-store';
+import { MemoryCacheStore } from './memory-store';
+import { RedisCacheStore } from './redis-store';
+import { ResearchCache, ResearchCacheOptions } from './research-cache';
+import { TieredCacheStore } from './tiered-store';
+import { CacheStore, CacheStoreName } from './types';
+
+export * from './types';
+export { ResearchCache, cacheKey } from './research-cache';
+export type { ResearchCacheOptions } from './research-cache';
+export { MemoryCacheStore } from './memory-store';
+export { FileCacheStore } from './file-store';
+export { RedisCacheStore } from './redis-store';
+export { TieredCacheStore } from './tiered-store';
+
+export const CACHE_STORE_NAMES: CacheStoreName[] = ['memory', 'file', 'redis', 'off'];
+
+export function getDefaultCacheStoreName(): CacheStoreName {
+  const configured = process.env.RESEARCH_CACHE || CACHE_CONFIG.STORE;
+  if (!CACHE_STORE_NAMES.includes(configured as CacheStoreName)) {
+    throw new Error(`Unknown research cache store: ${configured}. Expected one of ${CACHE_STORE_NAMES.join(', ')}`);
+  }
+  return configured as CacheStoreName;
+}
+
+/**
+ * Build a cache backend. Disk and Redis stores get an in-memory tier in front.
+ * Returns undefined when caching is turned off.
+ */
+export function createCacheStore(name: CacheStoreName = getDefaultCacheStoreName()): CacheStore | undefined {
+  switch (name) {
+    case 'off':
+      return undefined;
+    case 'memory':
+      return new MemoryCacheStore();
+    case 'file':
+      return new TieredCacheStore(new MemoryCacheStore(), new FileCacheStore(process.env.CACHE_DIR || CACHE_CONFIG.DIRECTORY));
+    case 'redis':
+      return new TieredCacheStore(new MemoryCacheStore(), new RedisCacheStore());
+  }
+}
+
+// One store per server process so every run shares the memory tier
+let sharedStore: CacheStore | null | undefined;
+
+export function getCacheStore(): CacheStore | undefined {
+  if (sharedStore === undefined) {
+    sharedStore = createCacheStore() ?? null;
+  }
+  return sharedStore ?? undefined;
+}
+
+/**
+ * Cache for a single research run, or undefined when caching is turned off
+ */
+export function createResearchCache(options?: ResearchCacheOptions): ResearchCache | undefined {
+  const store = getCacheStore();
+  return store ? new ResearchCache(store, options) : undefined;
+}
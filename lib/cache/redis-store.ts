@@ -0,0 +1,29 @@
+import { Redis } from '@upstash/redis';
+import { CacheStore } from './types';
+
+/**
+ * Shared cache on Upstash Redis, so every server instance reuses the same
+ * scrapes and summaries. Expiry is handled by Redis itself.
+ *
+ * Requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN.
+ */
+export class RedisCacheStore implements CacheStore {
+  private redis: Redis;
+
+  constructor(redis: Redis = Redis.fromEnv()) {
+    this.redis = redis;
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const value = await this.redis.get<T>(key);
+    return value ?? undefined;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.redis.set(key, value, { px: ttlMs });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.redis.del(key);
+  }
+}
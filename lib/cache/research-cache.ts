@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import { CACHE_CONFIG } from '../config';
+import { CacheHit, CacheOperation, CacheStats, CacheStore } from './types';
+
+export interface ResearchCacheOptions {
+  // Skip cached reads for this run. Fresh results are still written back
+  bypass?: boolean;
+  // Per-operation TTL overrides (ms)
+  ttlMs?: Partial<Record<CacheOperation, number>>;
+}
+
+const OPERATIONS: CacheOperation[] = ['scrape', 'search', 'map', 'summary'];
+
+/**
+ * Content-addressed key: a hash of everything that determines the result,
+ * so a changed page, query or model produces a new entry instead of a stale hit.
+ */
+export function cacheKey(operation: CacheOperation, parts: unknown): string {
+  const hash = createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+  return `${CACHE_CONFIG.KEY_PREFIX}:${operation}:${hash}`;
+}
+
+/**
+ * Per-run view of the shared cache store. Tracks hits and misses for the
+ * run and notifies listeners on every hit so it can be reported as an event.
+ */
+export class ResearchCache {
+  private listeners = new Set<(hit: CacheHit) => void>();
+  private counters = Object.fromEntries(
+    OPERATIONS.map(operation => [operation, { hits: 0, misses: 0 }])
+  ) as CacheStats['byOperation'];
+
+  constructor(private store: CacheStore, private options: ResearchCacheOptions = {}) {}
+
+  get bypass(): boolean {
+    return Boolean(this.options.bypass);
+  }
+
+  /**
+   * Return the cached result for keyParts, or compute and store it.
+   * Results rejected by shouldStore (failed scrapes, empty searches) are not cached.
+   */
+  async wrap<T>(
+    operation: CacheOperation,
+    label: string,
+    keyParts: unknown,
+    compute: () => Promise<T>,
+    shouldStore: (value: T) => boolean = () => true
+  ): Promise<T> {
+    const key = cacheKey(operation, keyParts);
+
+    if (!this.options.bypass) {
+      const cached = await this.read<T>(key);
+      if (cached !== undefined) {
+        this.counters[operation].hits++;
+        const hit = { operation, key, label };
+        this.listeners.forEach(listener => listener(hit));
+        return cached;
+      }
+    }
+
+    this.counters[operation].misses++;
+    const value = await compute();
+
+    if (shouldStore(value)) {
+      try {
+        await this.store.set(key, value, this.ttlFor(operation));
+      } catch (error) {
+        console.warn(`[ResearchCache] Failed to store ${operation} result:`, error);
+      }
+    }
+    return value;
+  }
+
+  /**
+   * Subscribe to cache hits. Returns an unsubscribe function
+   */
+  onHit(listener: (hit: CacheHit) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  stats(): CacheStats {
+    const byOperation = { ...this.counters };
+    const totals = Object.values(byOperation);
+    return {
+      hits: totals.reduce((sum, counter) => sum + counter.hits, 0),
+      misses: totals.reduce((sum, counter) => sum + counter.misses, 0),
+      byOperation,
+    };
+  }
+
+  private ttlFor(operation: CacheOperation): number {
+    return this.options.ttlMs?.[operation] ?? CACHE_CONFIG.TTL_MS[operation];
+  }
+
+  // A broken cache backend must never fail the research run
+  private async read<T>(key: string): Promise<T | undefined> {
+    try {
+      return await this.store.get<T>(key);
+    } catch (error) {
+      console.warn('[ResearchCache] Cache read failed, treating as miss:', error);
+      return undefined;
+    }
+  }
+}
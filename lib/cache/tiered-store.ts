@@ -0,0 +1,35 @@
+import { CACHE_CONFIG } from '../config';
+import { CacheStore } from './types';
+
+/**
+ * Memory cache in front of a slower shared store (disk or Redis). Hits from
+ * the backing store are copied into memory for a short while so repeated
+ * lookups within a run skip the round trip.
+ */
+export class TieredCacheStore implements CacheStore {
+  constructor(
+    private front: CacheStore,
+    private back: CacheStore,
+    private frontTtlMs: number = CACHE_CONFIG.MEMORY_TTL_MS
+  ) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const local = await this.front.get<T>(key);
+    if (local !== undefined) return local;
+
+    const shared = await this.back.get<T>(key);
+    if (shared !== undefined) {
+      await this.front.set(key, shared, this.frontTtlMs);
+    }
+    return shared;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<void> {
+    await this.front.set(key, value, Math.min(ttlMs, this.frontTtlMs));
+    await this.back.set(key, value, ttlMs);
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([this.front.delete(key), this.back.delete(key)]);
+  }
+}
@@ -0,0 +1,35 @@
+// Research Cache Types
+
+// Cached operations - each has its own TTL in CACHE_CONFIG.TTL_MS
+export type CacheOperation = 'scrape' | 'search' | 'map' | 'summary';
+
+export type CacheStoreName = 'memory' | 'file' | 'redis' | 'off';
+
+/**
+ * Key/value backend for cached research results. Values are JSON
+ * serializable; expired entries must read back as undefined.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface CacheHit {
+  operation: CacheOperation;
+  key: string;
+  // Human-readable subject of the cached call (URL or query)
+  label: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  byOperation: Record<CacheOperation, { hits: number; misses: number }>;
+}
+
+// Stored alongside the value so file and memory stores can expire entries
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number;
+}
@@ -0,0 +1,260 @@
+import { MemorySaver, type Checkpoint, type CheckpointMetadata, type CheckpointTuple } from "@langchain/langgraph";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CHECKPOINT_CONFIG } from './config';
+
+export interface ResearchSessionSummary {
+  sessionId: string;
+  query: string;
+  phase: string;
+  lastNode?: string;
+  step: number;
+  completed: boolean;
+  updatedAt: string;
+}
+
+type CheckpointListOptions = Parameters<MemorySaver['list']>[1];
+type PendingWrite = Parameters<MemorySaver['putWrites']>[1][number];
+type StoredCheckpoints = MemorySaver['storage'][string];
+type StoredWrites = MemorySaver['writes'];
+
+interface ThreadFile {
+  threadId: string;
+  updatedAt: string;
+  // Serialized checkpoint/metadata bytes are stored base64 encoded
+  storage: Record<string, Record<string, [string, string, string | undefined]>>;
+  writes: Record<string, Record<string, [string, string, string]>>;
+}
+
+/**
+ * Durable LangGraph checkpointer that keeps MemorySaver's in-process layout
+ * and mirrors every thread to a JSON file, so an interrupted research run can
+ * be resumed from its last completed node after a restart.
+ */
+export class FileCheckpointSaver extends MemorySaver {
+  private directory: string;
+  // Finished or in-flight loads, so concurrent callers wait for the same read
+  private threadLoads = new Map<string, Promise<void>>();
+  private pendingPersists = new Map<string, Promise<void>>();
+
+  constructor(directory: string = CHECKPOINT_CONFIG.DIRECTORY) {
+    super();
+    this.directory = path.resolve(directory);
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId) await this.loadThread(threadId);
+    return super.getTuple(config);
+  }
+
+  async *list(config: RunnableConfig, options?: CheckpointListOptions): AsyncGenerator<CheckpointTuple> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId) {
+      await this.loadThread(threadId);
+    } else {
+      for (const id of await this.listThreadIds()) {
+        await this.loadThread(id);
+      }
+    }
+    yield* super.list(config, options);
+  }
+
+  async put(config: RunnableConfig, checkpoint: Checkpoint, metadata: CheckpointMetadata): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId) await this.loadThread(threadId);
+    const result = await super.put(config, checkpoint, metadata);
+    if (threadId) {
+      this.pruneThread(threadId);
+      await this.persistThread(threadId);
+    }
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId) await this.loadThread(threadId);
+    await super.putWrites(config, writes, taskId);
+    if (threadId) await this.persistThread(threadId);
+  }
+
+  /**
+   * Summaries of stored research sessions, most recently updated first
+   */
+  async listSessions(limit: number = CHECKPOINT_CONFIG.MAX_SESSIONS_LISTED): Promise<ResearchSessionSummary[]> {
+    const summaries: ResearchSessionSummary[] = [];
+
+    for (const threadId of await this.listThreadIds()) {
+      const tuple = await this.getTuple({ configurable: { thread_id: threadId } });
+      if (!tuple) continue;
+
+      const values = tuple.checkpoint.channel_values as Record<string, unknown>;
+      const writes = (tuple.metadata?.writes || {}) as Record<string, unknown>;
+      const phase = typeof values.phase === 'string' ? values.phase : 'understanding';
+
+      summaries.push({
+        sessionId: threadId,
+        query: typeof values.query === 'string' ? values.query : '',
+        phase,
+        lastNode: Object.keys(writes)[0],
+        step: tuple.metadata?.step ?? 0,
+        completed: phase === 'complete' || phase === 'error',
+        updatedAt: tuple.checkpoint.ts,
+      });
+    }
+
+    return summaries
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit);
+  }
+
+  /**
+   * Remove a session from memory and disk
+   */
+  async deleteThread(threadId: string): Promise<void> {
+    await this.pendingPersists.get(threadId);
+    delete this.storage[threadId];
+    for (const key of Object.keys(this.writes)) {
+      if (JSON.parse(key)[0] === threadId) delete this.writes[key];
+    }
+    this.threadLoads.delete(threadId);
+    await fs.rm(this.threadPath(threadId), { force: true });
+  }
+
+  private pruneThread(threadId: string): void {
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] || {})) {
+      // Checkpoint ids are time-ordered: sort newest first and prune the tail past the limit
+      const stale = Object.keys(checkpoints)
+        .sort((a, b) => b.localeCompare(a))
+        .slice(CHECKPOINT_CONFIG.MAX_CHECKPOINTS_PER_SESSION);
+
+      for (const checkpointId of stale) {
+        delete checkpoints[checkpointId];
+        delete this.writes[JSON.stringify([threadId, namespace, checkpointId])];
+      }
+    }
+  }
+
+  private threadPath(threadId: string): string {
+    // Thread ids come from clients - hash them so no id escapes the directory or shares another's file
+    const fileId = createHash('sha256').update(threadId).digest('hex');
+    return path.join(this.directory, `${fileId}.json`);
+  }
+
+  private async listThreadIds(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.directory);
+      const ids = await Promise.all(files
+        .filter(file => file.endsWith('.json'))
+        .map(async file => {
+          try {
+            const raw = await fs.readFile(path.join(this.directory, file), 'utf8');
+            return (JSON.parse(raw) as ThreadFile).threadId;
+          } catch {
+            return undefined;
+          }
+        }));
+      return ids.filter((id): id is string => Boolean(id));
+    } catch {
+      return [];
+    }
+  }
+
+  private loadThread(threadId: string): Promise<void> {
+    let load = this.threadLoads.get(threadId);
+    if (!load) {
+      load = this.readThreadFile(threadId);
+      this.threadLoads.set(threadId, load);
+    }
+    return load;
+  }
+
+  private async readThreadFile(threadId: string): Promise<void> {
+    let file: ThreadFile;
+    try {
+      file = JSON.parse(await fs.readFile(this.threadPath(threadId), 'utf8'));
+    } catch {
+      return; // New session
+    }
+    if (file.threadId !== threadId) return;
+
+    const storage: StoredCheckpoints = {};
+    for (const [namespace, checkpoints] of Object.entries(file.storage)) {
+      storage[namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        storage[namespace][checkpointId] = [decode(checkpoint), decode(metadata), parentId];
+      }
+    }
+    this.storage[threadId] = storage;
+
+    for (const [key, entries] of Object.entries(file.writes)) {
+      const restored: StoredWrites[string] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(entries)) {
+        restored[innerKey] = [taskId, channel, decode(value)];
+      }
+      this.writes[key] = restored;
+    }
+  }
+
+  private async persistThread(threadId: string): Promise<void> {
+    // Chain writes per thread so an older snapshot never overwrites a newer one
+    const previous = this.pendingPersists.get(threadId) || Promise.resolve();
+    const next = previous.then(() => this.writeThreadFile(threadId)).catch(error => {
+      // A read-only or ephemeral disk only costs resuming after a restart; the in-memory checkpoint stands
+      console.error(`[Checkpointer] Could not persist session ${threadId}:`, error);
+    });
+    this.pendingPersists.set(threadId, next);
+    await next;
+  }
+
+  private async writeThreadFile(threadId: string): Promise<void> {
+    const file: ThreadFile = {
+      threadId,
+      updatedAt: new Date().toISOString(),
+      storage: {},
+      writes: {},
+    };
+
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] || {})) {
+      file.storage[namespace] = {};
+      for (const [checkpointId, [checkpoint, metadata, parentId]] of Object.entries(checkpoints)) {
+        file.storage[namespace][checkpointId] = [encode(checkpoint), encode(metadata), parentId];
+      }
+    }
+
+    for (const [key, entries] of Object.entries(this.writes)) {
+      if (JSON.parse(key)[0] !== threadId) continue;
+      file.writes[key] = {};
+      for (const [innerKey, [taskId, channel, value]] of Object.entries(entries)) {
+        file.writes[key][innerKey] = [taskId, channel, encode(value)];
+      }
+    }
+
+    // Write to a temp file first so a crash mid-write never corrupts the session
+    const target = this.threadPath(threadId);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(temp, JSON.stringify(file), 'utf8');
+    await fs.rename(temp, target);
+  }
+}
+
+function encode(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('base64');
+}
+
+function decode(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'base64'));
+}
+
+// One saver per process so concurrent runs share loaded sessions
+let sharedCheckpointer: FileCheckpointSaver | undefined;
+
+export function getCheckpointer(): FileCheckpointSaver {
+  if (!sharedCheckpointer) {
+    sharedCheckpointer = new FileCheckpointSaver(process.env.CHECKPOINT_DIR || CHECKPOINT_CONFIG.DIRECTORY);
+  }
+  return sharedCheckpointer;
+}
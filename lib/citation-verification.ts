@@ -0,0 +1,340 @@
+// Citation Verification
+// Final answers cite sources as [1], [2], but the model writing them can
+// attach a citation to a sentence the source never supports. This pass splits
+// an answer into cited claims, finds the passages of each cited source that
+// best match the claim, and asks the model whether they support it. A verdict
+// only counts when its quote really appears in the source, so a claim is never
+// marked supported on the checker's word alone.
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { isAbortError, throwIfAborted } from './abort';
+import { CITATION_CONFIG } from './config';
+import type { Source } from './langgraph-search-engine';
+import { messageText } from './llm';
+
+export type ClaimStatus = 'supported' | 'partial' | 'unsupported' | 'miscited' | 'unverifiable';
+
+export interface ClaimCheck {
+  id: number;
+  // The sentence as written, citation markers included
+  text: string;
+  // Position of text in the answer, for inline warnings
+  start: number;
+  end: number;
+  // 1-based source numbers the claim cites
+  citations: number[];
+  status: ClaimStatus;
+  reason: string;
+  // Where the claim is actually stated, when it is stated anywhere
+  evidence?: { source: number; url: string; quote: string };
+  // For miscited claims, the source that should have been cited
+  suggestedCitation?: number;
+}
+
+export interface CitationReport {
+  claims: ClaimCheck[];
+  totals: Record<ClaimStatus, number>;
+  // Cited sentences beyond CITATION_CONFIG.MAX_CLAIMS that were not checked
+  skipped: number;
+  checkedAt: string;
+}
+
+interface Claim {
+  id: number;
+  text: string;
+  start: number;
+  end: number;
+  citations: number[];
+  // Claim text without markers or markdown, as shown to the checker
+  statement: string;
+}
+
+interface Passage {
+  source: number;
+  text: string;
+}
+
+const verdictSchema = z.array(z.object({
+  id: z.coerce.number(),
+  verdict: z.enum(['supported', 'partial', 'unsupported']),
+  source: z.coerce.number().nullable().optional(),
+  quote: z.string().nullable().optional(),
+  reason: z.string().nullable().optional(),
+}));
+
+// [3], [1, 2] and [1][2], but not markdown links
+const CITATION_PATTERN = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+const HAS_CITATION = /\[\d+(?:\s*,\s*\d+)*\](?!\()/;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'are', 'was', 'were', 'has', 'have', 'had', 'its',
+  'their', 'they', 'which', 'into', 'over', 'than', 'also', 'more', 'most', 'such', 'been', 'being', 'about',
+  'across', 'other', 'these', 'those', 'while', 'where', 'when', 'will', 'can', 'not', 'but', 'our', 'your',
+]);
+
+/**
+ * Check every cited claim in an answer against the sources it cites.
+ * sources must be the list the answer was written from ([1] is sources[0]).
+ */
+export async function verifyCitations(
+  llm: BaseChatModel,
+  answer: string,
+  sources: Source[],
+  options: { signal?: AbortSignal } = {}
+): Promise<CitationReport> {
+  const { signal } = options;
+  const found = extractClaims(answer);
+  const claims = found.slice(0, CITATION_CONFIG.MAX_CLAIMS);
+  const checks: ClaimCheck[] = [];
+  const pending: { claim: Claim; passages: Passage[] }[] = [];
+
+  for (const claim of claims) {
+    const missing = claim.citations.filter(number => number < 1 || number > sources.length);
+    const cited = claim.citations.filter(number => !missing.includes(number));
+    const citedPassages = cited.flatMap(number => bestPassages(claim.statement, sources[number - 1], number));
+    const alternatives = alternativePassages(claim.statement, sources, cited);
+
+    if (citedPassages.length === 0 && alternatives.length === 0) {
+      checks.push(toCheck(claim, 'unverifiable', missing.length > 0
+        ? `Cites ${formatCitations(missing)}, which is not in the source list`
+        : 'The cited source has no readable content'));
+      continue;
+    }
+    pending.push({ claim, passages: [...citedPassages, ...alternatives] });
+  }
+
+  for (let i = 0; i < pending.length; i += CITATION_CONFIG.BATCH_SIZE) {
+    throwIfAborted(signal);
+    const batch = pending.slice(i, i + CITATION_CONFIG.BATCH_SIZE);
+    try {
+      checks.push(...await judgeBatch(llm, batch, sources, signal));
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : 'unknown error';
+      checks.push(...batch.map(({ claim }) => toCheck(claim, 'unverifiable', `Verification failed: ${message}`)));
+    }
+  }
+
+  checks.sort((a, b) => a.start - b.start);
+  const totals: Record<ClaimStatus, number> = { supported: 0, partial: 0, unsupported: 0, miscited: 0, unverifiable: 0 };
+  for (const check of checks) totals[check.status]++;
+  return { claims: checks, totals, skipped: found.length - claims.length, checkedAt: new Date().toISOString() };
+}
+
+/**
+ * Claims that need a reader's attention before the answer is shared
+ */
+export function flaggedClaims(report: CitationReport): ClaimCheck[] {
+  return report.claims.filter(claim => claim.status !== 'supported');
+}
+
+/**
+ * Sentences (and table rows) that carry at least one citation, with their
+ * position in the answer
+ */
+export function extractClaims(answer: string): Claim[] {
+  const claims: Claim[] = [];
+  let offset = 0;
+  let inCode = false;
+
+  for (const line of answer.split('\n')) {
+    const lineStart = offset;
+    offset += line.length + 1;
+    if (line.trim().startsWith('```')) inCode = !inCode;
+    if (inCode || /^\s*(#|```|\|?\s*:?-{3,})/.test(line)) continue;
+
+    // A table row is one claim; prose is split into sentences, keeping a
+    // citation that follows the full stop with its sentence
+    const isRow = line.trim().startsWith('|');
+    const segments = isRow
+      ? [{ text: line, index: 0 }]
+      : Array.from(line.matchAll(/(?:[^.!?]|[.!?]+(?=[^\s.!?]))+[.!?]*(?:\s*\[\d+(?:\s*,\s*\d+)*\](?!\())*/g))
+          .map(match => ({ text: match[0], index: match.index ?? 0 }));
+
+    for (const segment of isRow ? segments : mergeFragments(line, segments)) {
+      const citations = Array.from(segment.text.matchAll(CITATION_PATTERN))
+        .flatMap(match => match[1].split(',').map(number => Number(number.trim())));
+      if (citations.length === 0) continue;
+
+      // Table cells are terse by nature, so rows are checked whatever their length
+      const statement = cleanStatement(segment.text);
+      if (!isRow && statement.length < CITATION_CONFIG.MIN_CLAIM_LENGTH) continue;
+
+      const leading = segment.text.length - segment.text.trimStart().length;
+      const text = segment.text.trim();
+      const start = lineStart + segment.index + leading;
+      claims.push({ id: claims.length + 1, text, start, end: start + text.length, citations: Array.from(new Set(citations)), statement });
+    }
+  }
+  return claims;
+}
+
+async function judgeBatch(
+  llm: BaseChatModel,
+  batch: { claim: Claim; passages: Passage[] }[],
+  sources: Source[],
+  signal?: AbortSignal
+): Promise<ClaimCheck[]> {
+  const prompt = batch.map(({ claim, passages }) => [
+    `CLAIM ${claim.id} (cites ${formatCitations(claim.citations)}): ${claim.statement}`,
+    ...passages.map(passage => `  Source [${passage.source}]${claim.citations.includes(passage.source) ? ' (cited)' : ''}: "${passage.text}"`),
+  ].join('\n')).join('\n\n');
+
+  const response = await llm.invoke([
+    new SystemMessage(`You check whether sources support the claims in a research report.
+
+For each claim you get excerpts from the sources it cites, and sometimes from other sources. Return ONLY a JSON array (no markdown), one entry per claim:
+[{ "id": 1, "verdict": "supported", "source": 2, "quote": "", "reason": "" }]
+
+Rules:
+- "supported": one excerpt states everything the claim says, including its numbers, names and dates.
+- "partial": an excerpt states part of the claim, but some specifics are missing or differ.
+- "unsupported": no excerpt states the claim.
+- "source" is the number of the source whose excerpt best supports the claim. Prefer a cited source when several do. Use null when unsupported.
+- "quote" is copied exactly from that excerpt (under 200 characters). Use null when unsupported.
+- "reason" is one short sentence, e.g. which detail is missing or contradicted.
+- Judge only from the excerpts. Never use outside knowledge.`),
+    new HumanMessage(prompt),
+  ], { signal });
+
+  const content = messageText(response.content).replace(/```json\n?|```/g, '').trim();
+  const parsed = verdictSchema.safeParse(JSON.parse(content));
+  if (!parsed.success) {
+    throw new Error(`Citation verdicts did not validate: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+  }
+
+  return batch.map(({ claim }) => {
+    const verdict = parsed.data.find(entry => entry.id === claim.id);
+    if (!verdict) return toCheck(claim, 'unverifiable', 'The checker returned no verdict for this claim');
+    const reason = verdict.reason?.trim() || '';
+
+    if (verdict.verdict === 'unsupported') {
+      return toCheck(claim, 'unsupported', reason || `Not stated in ${formatCitations(claim.citations)}`);
+    }
+
+    const number = verdict.source ?? claim.citations[0];
+    const source = sources[number - 1];
+    const quote = verdict.quote?.trim() || '';
+    if (!source?.content || !quote || !normalizeText(source.content).includes(normalizeText(quote))) {
+      return toCheck(claim, 'unsupported', `Not stated in ${formatCitations(claim.citations)} - the supporting quote could not be found in the source`);
+    }
+
+    const evidence = { source: number, url: source.url, quote };
+    if (!claim.citations.includes(number)) {
+      return {
+        ...toCheck(claim, 'miscited', `Stated in [${number}], not in ${formatCitations(claim.citations)}`),
+        evidence,
+        suggestedCitation: number,
+      };
+    }
+    return {
+      ...toCheck(claim, verdict.verdict, reason || (verdict.verdict === 'supported' ? `Stated in [${number}]` : `Only partly stated in [${number}]`)),
+      evidence,
+    };
+  });
+}
+
+// The passages of one source that share the most terms with the claim
+function bestPassages(statement: string, source: Source | undefined, number: number): Passage[] {
+  if (!source?.content?.trim()) return [];
+  const terms = termsOf(statement);
+  return splitPassages(source.content)
+    .map(text => ({ text, score: overlap(terms, text) }))
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CITATION_CONFIG.PASSAGES_PER_SOURCE)
+    .map(passage => ({ source: number, text: passage.text }));
+}
+
+// The best passage from each of the closest uncited sources
+function alternativePassages(statement: string, sources: Source[], cited: number[]): Passage[] {
+  const terms = termsOf(statement);
+  return sources
+    .map((source, index) => ({ source, number: index + 1 }))
+    .filter(({ source, number }) => !cited.includes(number) && source.content?.trim())
+    .map(({ source, number }) => {
+      const [best] = bestPassages(statement, source, number);
+      return best ? { ...best, score: overlap(terms, best.text) } : undefined;
+    })
+    .filter((passage): passage is Passage & { score: number } => Boolean(passage))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, CITATION_CONFIG.ALTERNATIVE_SOURCES)
+    .map(({ source, text }) => ({ source, text }));
+}
+
+function splitPassages(content: string): string[] {
+  const passages: string[] = [];
+  let current = '';
+  for (const paragraph of content.split(/\n\s*\n/).map(part => part.replace(/\s+/g, ' ').trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > CITATION_CONFIG.PASSAGE_LENGTH) {
+      passages.push(current);
+      current = '';
+    }
+    current = current ? `${current} ${paragraph}` : paragraph;
+    while (current.length > CITATION_CONFIG.PASSAGE_LENGTH) {
+      passages.push(current.slice(0, CITATION_CONFIG.PASSAGE_LENGTH));
+      current = current.slice(CITATION_CONFIG.PASSAGE_LENGTH);
+    }
+  }
+  if (current) passages.push(current);
+  return passages;
+}
+
+// Numbers say the most about whether a passage states a claim, so they count double
+function termsOf(text: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const word of text.toLowerCase().match(/[a-z0-9][a-z0-9$%.-]*[a-z0-9%]|[a-z0-9]/g) || []) {
+    if (word.length < 3 && !/\d/.test(word)) continue;
+    if (STOPWORDS.has(word)) continue;
+    terms.set(word, /\d/.test(word) ? 2 : 1);
+  }
+  return terms;
+}
+
+function overlap(terms: Map<string, number>, text: string): number {
+  const lower = text.toLowerCase();
+  let score = 0;
+  terms.forEach((weight, term) => {
+    if (lower.includes(term)) score += weight;
+  });
+  return score;
+}
+
+// Pieces split off at an abbreviation ("e.g.", "Inc.") are joined back to
+// the sentence they belong to
+function mergeFragments(line: string, segments: { text: string; index: number }[]): { text: string; index: number }[] {
+  const merged: { text: string; index: number }[] = [];
+  for (const segment of segments) {
+    const previous = merged[merged.length - 1];
+    const isFragment = (text: string) => cleanStatement(text).length < CITATION_CONFIG.MIN_CLAIM_LENGTH;
+    if (previous && ((isFragment(previous.text) && !HAS_CITATION.test(previous.text)) || isFragment(segment.text))) {
+      previous.text = line.slice(previous.index, segment.index + segment.text.length);
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+  return merged;
+}
+
+function cleanStatement(text: string): string {
+  return text
+    .replace(CITATION_PATTERN, '')
+    .replace(/^\s*(?:[-*+]|\d+\.)\s+/, '')
+    .replace(/[*_`|]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([.,;:!?])/g, '$1')
+    .trim();
+}
+
+function toCheck(claim: Claim, status: ClaimStatus, reason: string): ClaimCheck {
+  return { id: claim.id, text: claim.text, start: claim.start, end: claim.end, citations: claim.citations, status, reason };
+}
+
+function formatCitations(numbers: number[]): string {
+  return numbers.map(number => `[${number}]`).join('');
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[*_`#>[\]()"“”'‘’]/g, '').replace(/\s+/g, ' ').trim();
+}
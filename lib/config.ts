@@ -85,4 +85,281 @@ export const MODEL_CONFIG = {
   FAST_MODEL: "gpt-4o-mini",     // Fast model for quick operations
   QUALITY_MODEL: "gpt-4o",       // High-quality model for final synthesis
   TEMPERATURE: 0,                // Model temperature (0 = deterministic)
-} as const;
\ No newline at end of file
+} as const;
+
+// LLM Provider Configuration
+// Each role maps to a provider + model. Override per role with env vars in
+// "provider:model" form, e.g. LLM_SUMMARIZER=local:llama3.1:8b or LLM_QUALITY=anthropic:claude-sonnet-4-5
+export const LLM_CONFIG = {
+  ROLES: {
+    fast: { provider: "openai", model: MODEL_CONFIG.FAST_MODEL },        // Query planning, extraction, answer checks
+    quality: { provider: "openai", model: MODEL_CONFIG.QUALITY_MODEL },  // Streaming synthesis of final answers
+    agent: { provider: "openai", model: MODEL_CONFIG.FAST_MODEL },       // Multi-agent ICP research agents
+    summarizer: { provider: "openai", model: MODEL_CONFIG.FAST_MODEL },  // Per-source summarization in ContextProcessor
+  },
+  LOCAL_BASE_URL: "http://localhost:11434/v1", // OpenAI-compatible endpoint (Ollama default; vLLM uses :8000/v1)
+  ANTHROPIC_MAX_TOKENS: 4096,    // Anthropic requires an explicit output token limit
+} as const;
+// Research Provider Configuration
+export const PROVIDER_CONFIG = {
+  DEFAULT_PROVIDER: "firecrawl", // Default search/scrape backend (firecrawl | fetch | fixture)
+  FIXTURE_DIR: ".fixtures/research", // Directory for recorded provider responses
+  FIXTURE_MODE: "replay",        // replay = read only, record = call upstream and save
+  FIXTURE_UPSTREAM: "fetch",     // Provider used to record fixtures when mode is record
+  USER_AGENT: "Mozilla/5.0 (compatible; FirecrawlTemplateBot/1.0)", // User agent for the fetch provider
+  FETCH_SEARCH_ENDPOINT: "https://html.duckduckgo.com/html/", // Keyless search endpoint for the fetch provider
+  FETCH_CRAWL_CONCURRENCY: 3,    // Parallel page fetches while crawling without Firecrawl
+  FETCH_MAX_REDIRECTS: 5,        // Redirects the fetch provider follows, each checked for a public host
+} as const;
+
+// Research Session Checkpointing
+export const CHECKPOINT_CONFIG = {
+  DIRECTORY: ".data/checkpoints", // Where durable LangGraph checkpoints are stored (one JSON file per session)
+  MAX_SESSIONS_LISTED: 50,       // Maximum sessions returned by listSessions
+  MAX_CHECKPOINTS_PER_SESSION: 5, // Older checkpoints are pruned - resuming only needs the latest
+} as const;
+
+// Research Cache
+export const CACHE_CONFIG = {
+  STORE: "file",                 // Cache backend (memory | file | redis | off)
+  DIRECTORY: ".data/cache",      // Where the file store keeps cached results
+  KEY_PREFIX: "research:v1",     // Bump the version to invalidate every cached entry
+  MEMORY_MAX_ENTRIES: 500,       // Entries kept in the in-process tier
+  MEMORY_TTL_MS: 10 * 60 * 1000, // How long disk/Redis hits stay in memory
+  TTL_MS: {
+    scrape: 24 * 60 * 60 * 1000,       // Page content
+    search: 6 * 60 * 60 * 1000,        // Search results change faster than pages
+    map: 24 * 60 * 60 * 1000,          // Site maps
+    summary: 7 * 24 * 60 * 60 * 1000,  // LLM summaries are keyed by content, so they can live longer
+  },
+} as const;
+
+// Usage Accounting
+// Prices are USD per million tokens and are only used for cost estimates.
+// Models are matched by the longest prefix, so dated snapshots share a price.
+export const USAGE_CONFIG = {
+  MODEL_PRICING: {
+    "gpt-4o-mini": { input: 0.15, output: 0.6 },
+    "gpt-4o": { input: 2.5, output: 10 },
+    "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+    "gpt-4.1": { input: 2, output: 8 },
+    "claude-sonnet-4": { input: 3, output: 15 },
+    "claude-3-5-haiku": { input: 0.8, output: 4 },
+    "claude-opus-4": { input: 15, output: 75 },
+  } as Record<string, { input: number; output: number }>,
+  FIRECRAWL_CREDIT_USD: 0.00083, // Standard plan price per credit
+  FIRECRAWL_CREDITS: {
+    scrape: 1,                   // Per page
+    map: 1,                      // Per call
+    searchResult: 1,             // Per returned result
+  },
+} as const;
+
+// Structured ICP Output
+export const ICP_SCHEMA_CONFIG = {
+  MAX_REPAIR_ATTEMPTS: 2,        // Extra LLM calls to fix output that fails schema validation
+  MAX_REPORT_CHARS: 40000,       // Report text sent to the model for extraction
+} as const;
+
+// Research Job Queue
+export const JOB_CONFIG = {
+  STORE: "file",                 // Job store backend (memory | file)
+  DIRECTORY: ".data/jobs",       // Where the file store keeps job records and event logs
+  MAX_CONCURRENT_JOBS: 2,        // Jobs executed in parallel per server process
+  EVENTS_PAGE_SIZE: 500,         // Maximum events returned per event log request
+  MAX_JOBS_LISTED: 100,          // Maximum jobs returned by list
+} as const;
+
+// Target Company Enrichment
+export const ENRICHMENT_CONFIG = {
+  MAX_COMPANIES: 20,             // Candidates verified per discovery run
+  MAX_CONCURRENCY: 3,            // Companies verified in parallel
+  SCRAPE_TIMEOUT: 12000,         // Timeout per homepage/about page scrape (ms)
+  MAX_PAGE_CHARS: 8000,          // Page text per URL sent to the model for field extraction
+  DOMAIN_SEARCH_RESULTS: 5,      // Search results inspected when resolving a missing or dead domain
+  UNVERIFIED_CONFIDENCE: 0.2,    // Confidence cap for companies whose website could not be confirmed
+  PARTIAL_CONFIDENCE: 0.5,       // Confidence cap when the site is live but does not match the claims
+} as const;
+
+// Bulk Account Research
+export const BATCH_CONFIG = {
+  STORE: "file",                 // Batch store backend (memory | file)
+  DIRECTORY: ".data/batches",    // Where the file store keeps batch records
+  MAX_ROWS: 1000,                // Accounts accepted per batch
+  MAX_CONCURRENT_ROWS: 3,        // Accounts researched in parallel across all batches
+  ROW_START_INTERVAL_MS: 2000,   // Minimum gap between row starts, to stay under provider rate limits
+  RATE_LIMIT_RETRIES: 2,         // Retries for a row that failed on a rate limit
+  RATE_LIMIT_BACKOFF_MS: 30000,  // Pause before retrying (multiplied by the attempt number)
+  MAX_REPORT_CHARS: 30000,       // Report text sent to the model for summary fields
+  MAX_SOURCES_PER_ROW: 10,       // Source links kept per account
+  MAX_BATCHES_LISTED: 50,        // Maximum batches returned by list
+} as const;
+
+// ICP Fit Scoring
+export const ICP_FIT_CONFIG = {
+  SCRAPE_TIMEOUT: 15000,         // Timeout per prospect page scrape (ms)
+  MAX_PAGE_CHARS: 6000,          // Page text per URL sent to the model for signal extraction
+  SEARCH_RESULTS: 3,             // Third-party pages (profiles, press) read for firmographics
+  MAX_PROFILES: 10,              // Profiles scored per request
+  STRONG_FIT: 75,                // Score at or above which a profile is a strong fit
+  MODERATE_FIT: 50,              // Score at or above which a profile is a moderate fit
+  MIN_COVERAGE: 0.4,             // Share of criteria weight that needs evidence before a verdict is given
+  CRITERION_WEIGHTS: {           // Relative weight of each criterion in the fit score
+    industry: 3,
+    companySize: 2,
+    revenueRange: 1.5,
+    geography: 1,
+    businessModel: 1.5,
+    fundingStage: 1,
+    growthStage: 1,
+    techStack: 2,
+  },
+} as const;
+
+// Technographic Fingerprinting
+export const TECHNOGRAPHIC_CONFIG = {
+  MAX_PAGES: 5,                  // Pages scanned per technographic analysis
+  SCRAPE_TIMEOUT: 15000,         // Per-page scrape timeout in milliseconds
+  MIN_CONFIDENCE: 0.5,           // Detections below this are dropped
+  MAX_EVIDENCE: 3,               // Evidence entries kept per technology
+  EVIDENCE_LENGTH: 160,          // Characters of matched markup kept as evidence
+  // How much one matching pattern of each kind is trusted; several matches add up
+  EVIDENCE_WEIGHTS: {
+    header: 0.9,
+    cookie: 0.8,
+    script: 0.9,
+    meta: 0.9,
+    html: 0.6,
+  },
+} as const;
+
+// Saved ICP Library
+export const ICP_LIBRARY_CONFIG = {
+  STORE: "file",                 // Library store backend (memory | file)
+  DIRECTORY: ".data/icp-library", // Where the file store keeps saved profiles
+  MAX_VERSIONS: 100,             // Versions kept per profile; the oldest are dropped first
+  MAX_ENTRIES_LISTED: 200,       // Maximum saved profiles returned by list
+} as const;
+
+// Research Threads
+export const THREAD_CONFIG = {
+  STORE: "file",                 // Thread store backend (memory | file)
+  DIRECTORY: ".data/threads",    // Where the file store keeps threads
+  MAX_TURNS: 200,                // Turns kept per thread
+  MAX_THREADS_LISTED: 200,       // Maximum threads returned by list
+  MAX_SOURCE_CHARS: 4000,        // Source text kept per stored source
+  TITLE_LENGTH: 80,              // Threads are titled from their first query, cut to this length
+  SNIPPET_LENGTH: 160,           // Characters of surrounding text in a search match
+  MAX_MATCHES_PER_THREAD: 3,     // Search matches returned for each thread
+} as const;
+
+// Citation Verification
+export const CITATION_CONFIG = {
+  ENABLED: true,                 // Check final answers' citations against their sources
+  MAX_CLAIMS: 60,                // Cited claims checked per answer, in order of appearance
+  BATCH_SIZE: 12,                // Claims judged per model call
+  MIN_CLAIM_LENGTH: 20,          // Shorter cited fragments (labels, single words) are not checked
+  PASSAGE_LENGTH: 600,           // Characters per source passage considered as evidence
+  PASSAGES_PER_SOURCE: 2,        // Best-matching passages sent from each cited source
+  ALTERNATIVE_SOURCES: 2,        // Uncited sources also sent, to detect claims cited to the wrong source
+} as const;
+
+// Source Credibility
+export const SOURCE_SCORING_CONFIG = {
+  WEIGHTS: {                     // Share of the credibility score from each signal
+    authority: 0.5,
+    freshness: 0.25,
+    length: 0.25,
+  },
+  AUTHORITY_SCORES: {            // Trust in each kind of site
+    'first-party': 0.95,         // The researched company's own site
+    official: 0.9,               // Government, regulators, standards bodies
+    reference: 0.8,              // Company databases, encyclopedias, filings
+    news: 0.75,                  // Established news and trade press
+    review: 0.65,                // Software review and rating sites
+    unknown: 0.5,
+    community: 0.4,              // Forums, Q&A and open blogging platforms
+    'content-farm': 0.15,        // SEO listicles and scraped content
+  },
+  FRESHNESS_HALF_LIFE_DAYS: 365, // A page this old scores half as fresh as one from today
+  UNDATED_FRESHNESS: 0.5,        // Freshness of pages without a date
+  IDEAL_LENGTH: 3000,            // Characters of content for a full length score
+  MIN_LENGTH: 300,               // Shorter content scores close to zero for length
+  DUPLICATE_SIMILARITY: 0.8,     // Shingle overlap (Jaccard) at which two pages count as the same
+  SHINGLE_SIZE: 5,               // Words per shingle in duplicate detection
+  DUPLICATE_PENALTY: 0.5,        // Credibility multiplier for a near-duplicate of a better source
+  MIN_CREDIBILITY: 0.35,         // Sources below this are left out of synthesis...
+  MIN_SOURCES: 3,                // ...unless fewer than this many would remain
+  RANK_WEIGHT: 0.4,              // How much credibility moves the relevance ranking (0 = not at all)
+} as const;
+
+// Time-Bounded Research
+export const TIME_RANGE_CONFIG = {
+  PRESET_DAYS: {                 // Length of each preset range, counted back from today
+    week: 7,
+    month: 31,
+    year: 366,
+  },
+  KEEP_UNDATED: true,            // Keep results without a date; the answer flags their facts as possibly outdated
+} as const;
+
+// Competitor Watchlist
+export const WATCHLIST_CONFIG = {
+  STORE: "file",                 // Watchlist store backend (memory | file)
+  DIRECTORY: ".data/watchlist",  // Where the file store keeps targets, snapshots and digests
+  DEFAULT_INTERVAL_HOURS: 24,    // Time between checks of a target unless set when it is added
+  MIN_INTERVAL_HOURS: 1,
+  MAX_INTERVAL_HOURS: 24 * 30,
+  POLL_INTERVAL_MS: 5 * 60 * 1000, // How often the in-process scheduler looks for targets that are due
+  MAX_SNAPSHOTS: 10,             // Snapshots kept per target; the oldest are dropped first
+  MAX_PAGES_PER_SNAPSHOT: 30,    // Pages kept per snapshot
+  MAX_PAGE_CHARS: 20000,         // Page text kept per snapshot page
+  MIN_LINE_LENGTH: 4,            // Shorter lines are ignored when diffing
+  MAX_DIFF_LINES: 40,            // Added or removed lines kept per changed page
+  MAX_DIFF_CHARS: 16000,         // Diff text sent to the model when describing changes
+  MAX_TARGETS_LISTED: 200,       // Maximum targets returned by list
+  MAX_DIGESTS_LISTED: 100,       // Maximum digests returned by list
+  REPORT_WINDOW_DAYS: 7,         // Default span of the change report
+} as const;
+
+// Custom Agents
+export const CUSTOM_AGENTS_CONFIG = {
+  FILE: "agents.config.json",    // Agent definitions added to multi-agent ICP runs (override with CUSTOM_AGENTS_FILE)
+  MAX_AGENTS: 10,
+  MAX_SOURCES: 10,               // Sources passed to a custom agent
+  MAX_SOURCE_CHARS: 3000,        // Text kept per source
+  MAX_DEPENDENCY_CHARS: 12000,   // JSON of the results it depends on
+  MAX_REPAIR_ATTEMPTS: 1,        // Extra LLM calls to fix output that fails its schema
+  DEFAULT_PRIORITY: 4,           // Below the built-in agents unless set
+} as const;
+
+// Agent Search
+export const AGENT_SEARCH_CONFIG = {
+  DEFAULT_QUERY_BUDGET: 2,       // Searches a multi-agent ICP agent may run on its own per analysis
+  RESULTS_PER_QUERY: 5,
+  SCRAPE_TIMEOUT: 15000,         // For results the search returned without content
+  MIN_CONTENT_LENGTH: 200,       // Shorter result content is scraped again
+  MAX_PAGE_CHARS: 4000,          // Page text given to the extraction prompt
+  MAX_TOPIC_CHARS: 100,          // Query text agents build their searches around
+} as const;
+
+// Agent Blackboard
+export const BLACKBOARD_CONFIG = {
+  WAIT_MS: 45000,                // Longest an agent waits for a fact another agent is still working on
+  MAX_VALUES: 12,                // Values kept per published fact
+} as const;
+
+// Agent Recovery
+export const AGENT_RECOVERY_CONFIG = {
+  RETRY_DELAY_MS: 2000,          // Before the first retry of a failed agent task; doubles with each retry
+  MAX_JSON_REPAIRS: 1,           // Extra LLM calls to turn analysis output that is not JSON into JSON
+  FALLBACK_MAX_SOURCES: 8,       // Sources in the single-prompt fallback extraction
+  FALLBACK_MAX_SOURCE_CHARS: 2500,
+  FALLBACK_MAX_INPUT_CHARS: 8000, // Other task input, e.g. the findings target discovery builds on
+  CONFIDENCE_PENALTIES: {        // Subtracted from ICP confidence per weak research dimension
+    'no-evidence': 0.1,
+    fallback: 0.1,
+    failed: 0.2,
+  },
+  MIN_CONFIDENCE: 0.1,
+} as const;
@@ -1,6 +1,9 @@
+import { isAbortError, throwIfAborted } from './abort';
 import { Source } from './langgraph-search-engine';
-import { generateText } from 'ai';
-import { openai } from '@ai-sdk/openai';
+import { ResearchCache } from './cache';
+import { createChatModel, getModelAssignment, messageText } from './llm';
+import { UsageLedger } from './usage';
+import { domainsIn, rankScore, scoreSources, selectForSynthesis } from './source-scoring';
 
 interface ProcessedSource extends Source {
   relevanceScore: number;
@@ -16,6 +19,12 @@ export class ContextProcessor {
   private readonly MAX_CHARS_PER_SOURCE = 15000;
   private readonly CONTEXT_WINDOW_SIZE = 500; // chars before/after keyword match
 
+  /**
+   * @param cache Research cache for this run; summaries are reused when the same content was summarized for the same focus
+   * @param usage Usage ledger for this run; summarizer tokens are recorded against it
+   */
+  constructor(private cache?: ResearchCache, private usage?: UsageLedger) {}
+
   /**
    * Process sources for optimal context selection
    */
@@ -23,20 +32,29 @@ export class ContextProcessor {
     query: string,
     sources: Source[],
     searchQueries: string[],
-    onProgress?: (message: string, sourceUrl?: string) => void
+    onProgress?: (message: string, sourceUrl?: string) => void,
+    signal?: AbortSignal
   ): Promise<ProcessedSource[]> {
+    throwIfAborted(signal);
+
+    // Leave out duplicates and untrustworthy sources before spending summarizer calls on them
+    const scored = sources.every(source => source.credibility)
+      ? sources
+      : scoreSources(sources, { firstPartyDomains: domainsIn(query) });
+    const candidates = selectForSynthesis(scored);
+
     // Determine summary length based on number of sources
-    const summaryLength = this.calculateSummaryLength(sources.length);
+    const summaryLength = this.calculateSummaryLength(candidates.length);
     
-    // Process sources with GPT-4o-mini summarization
+    // Process sources with summarizer-model summarization
     const processedSources = await Promise.all(
-      sources.map(source => this.summarizeSource(source, query, searchQueries, summaryLength, onProgress))
+      candidates.map(source => this.summarizeSource(source, query, searchQueries, summaryLength, onProgress, signal))
     );
 
-    // Filter out failed sources and sort by relevance
+    // Filter out failed sources and sort by relevance, weighted by credibility
     const validSources = processedSources
       .filter(s => s.relevanceScore > 0)
-      .sort((a, b) => b.relevanceScore - a.relevanceScore);
+      .sort((a, b) => rankScore(b.relevanceScore, b.credibility) - rankScore(a.relevanceScore, a.credibility));
 
     return validSources;
   }
@@ -290,7 +308,8 @@ export class ContextProcessor {
     query: string,
     searchQueries: string[],
     targetLength: number,
-    _onProgress?: (message: string, sourceUrl?: string) => void // eslint-disable-line @typescript-eslint/no-unused-vars
+    _onProgress?: (message: string, sourceUrl?: string) => void,
+    signal?: AbortSignal
   ): Promise<ProcessedSource> {
     // If no content, return empty source
     if (!source.content || source.content.length < 100) {
@@ -302,15 +321,22 @@ export class ContextProcessor {
         summarized: false
       };
     }
+    const content = source.content;
 
     try {
       // No longer emit individual progress events
       
       // Create a focused prompt for relevance-based summarization
       
-      const result = await generateText({
-        model: openai('gpt-4o-mini'),
-        prompt: `You are an intelligence analyst helping to extract actionable intelligence insights from web content.
+      // Summarization runs on the summarizer role so it can be routed to a cheap or local model
+      const summarize = async () => {
+        const model = createChatModel('summarizer', {
+          temperature: 0.3,
+          maxTokens: Math.ceil(targetLength / 3), // Rough token estimation
+          usage: this.usage,
+        });
+
+        const result = await model.invoke(`You are an intelligence analyst helping to extract actionable intelligence insights from web content.
 
 Intelligence Research Focus: "${query}"
 Related intelligence gathering areas: ${searchQueries.join(', ')}
@@ -319,7 +345,7 @@ Source title: ${source.title}
 Source URL: ${source.url}
 
 Content to analyze:
-${source.content.slice(0, 15000)} ${source.content.length > 15000 ? '\n[... content truncated]' : ''}
+${content.slice(0, 15000)} ${content.length > 15000 ? '\n[... content truncated]' : ''}
 
 INTELLIGENCE EXTRACTION INSTRUCTIONS:
 1. Extract ONLY intelligence that directly relates to the research focus and intelligence gathering areas
@@ -340,12 +366,22 @@ INTELLIGENCE FOCUS AREAS:
 - Technical Intelligence: Technology stack, security, integrations, API capabilities
 - Business Intelligence: Funding, partnerships, growth indicators, risk factors
 
-Provide a focused intelligence summary that would help with competitive analysis, market research, or business intelligence:`,
-        temperature: 0.3,
-        maxTokens: Math.ceil(targetLength / 3), // Rough token estimation
-      });
+Provide a focused intelligence summary that would help with competitive analysis, market research, or business intelligence:`, { signal });
 
-      const summary = result.text.trim();
+        return messageText(result.content).trim();
+      };
+
+      // Keyed by the content itself, so an updated page is summarized again
+      const summary = this.cache
+        ? await this.cache.wrap('summary', source.url, {
+            model: getModelAssignment('summarizer'),
+            query,
+            searchQueries,
+            targetLength,
+            url: source.url,
+            content,
+          }, summarize, text => text.length > 0)
+        : await summarize();
       
       // Calculate a simple relevance score based on the summary
       const relevanceScore = this.calculateRelevanceFromSummary(summary, query, searchQueries);
@@ -359,6 +395,9 @@ Provide a focused intelligence summary that would help with competitive analysis
         summarized: true
       };
     } catch (error) {
+      // Cancellation must not fall back to keyword extraction
+      if (isAbortError(error) || signal?.aborted) throw error;
+
       console.warn(`Failed to summarize source ${source.url}:`, error);
       
       // Fallback to keyword extraction method
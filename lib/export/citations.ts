@@ -0,0 +1,89 @@
+import { ICPProfile } from '../multi-agent/types';
+import { Citation, ResearchReport } from './types';
+
+/**
+ * Number every source the way the answer cites them ([1] is sources[0])
+ * and flag the ones the text actually references.
+ */
+export function collectCitations(report: ResearchReport): Citation[] {
+  const cited = new Set<number>();
+  // [n] not followed by "(" - markdown links look like [text](url)
+  for (const match of report.content.matchAll(/\[(\d+)\](?!\()/g)) {
+    cited.add(Number(match[1]));
+  }
+
+  return report.sources.map((source, index) => ({
+    number: index + 1,
+    title: source.title || source.url,
+    url: source.url,
+    cited: cited.has(index + 1),
+  }));
+}
+
+/**
+ * Full markdown body of an export: the answer plus ICP profiles and
+ * follow-up questions. The bibliography is added by each format.
+ */
+export function buildReportBody(report: ResearchReport): string {
+  const sections = [report.content.trim()];
+
+  if (report.icpProfiles && report.icpProfiles.length > 0) {
+    sections.push(renderICPProfiles(report.icpProfiles));
+  }
+
+  if (report.followUpQuestions && report.followUpQuestions.length > 0) {
+    sections.push(`## Follow-up Questions\n\n${report.followUpQuestions.map(question => `- ${question}`).join('\n')}`);
+  }
+
+  return sections.join('\n\n');
+}
+
+export function exportFilename(report: ResearchReport, extension: string): string {
+  const slug = report.title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || 'research-report';
+  const date = (report.generatedAt || new Date().toISOString()).slice(0, 10);
+  return `${slug}-${date}.${extension}`;
+}
+
+function renderICPProfiles(profiles: ICPProfile[]): string {
+  const lines = ['## Structured ICP Profiles'];
+
+  for (const profile of profiles) {
+    const { characteristics, firmographics, psychographics, validation } = profile;
+    lines.push(
+      '',
+      `### ${profile.priority}. ${profile.name}`,
+      '',
+      `- **Industry:** ${characteristics.industry || 'n/a'}`,
+      `- **Company size:** ${characteristics.companySize || 'n/a'}`,
+      `- **Revenue range:** ${characteristics.revenueRange || 'n/a'}`,
+      `- **Geography:** ${characteristics.geographicFocus || 'n/a'}`,
+      `- **Funding stage:** ${firmographics.fundingStage || 'n/a'}`,
+      `- **Confidence:** ${Math.round(validation.confidence * 100)}%`
+    );
+
+    if (psychographics.painPoints.length > 0) {
+      lines.push(`- **Pain points:** ${psychographics.painPoints.join('; ')}`);
+    }
+
+    if (profile.targetCompanies.length > 0) {
+      lines.push(
+        '',
+        '| Company | Domain | Size | Location | Reasoning |',
+        '|---------|--------|------|----------|-----------|',
+        ...profile.targetCompanies.map(company =>
+          `| ${cell(company.name)} | ${cell(company.domain)} | ${cell(company.size)} | ${cell(company.location)} | ${cell(company.reasoning)} |`
+        )
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function cell(value: string): string {
+  return (value || '').replace(/\|/g, '/').replace(/\n/g, ' ');
+}
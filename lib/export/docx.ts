@@ -0,0 +1,157 @@
+import {
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  FootnoteReferenceRun,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { buildReportBody, collectCitations } from './citations';
+import { Block, parseBlocks, parseInline } from './markdown-blocks';
+import { Citation, ResearchReport } from './types';
+
+const HEADING_LEVELS = {
+  1: HeadingLevel.HEADING_1,
+  2: HeadingLevel.HEADING_2,
+  3: HeadingLevel.HEADING_3,
+  4: HeadingLevel.HEADING_4,
+} as const;
+
+/**
+ * Word document with real footnotes for cited sources and a References
+ * section listing every source
+ */
+export async function renderDocx(report: ResearchReport): Promise<Uint8Array> {
+  const citations = collectCitations(report);
+  const byNumber = new Map(citations.map(citation => [citation.number, citation]));
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: report.title, heading: HeadingLevel.TITLE }),
+  ];
+  if (report.query && report.query !== report.title) {
+    children.push(new Paragraph({ children: [new TextRun({ text: report.query, italics: true, color: '6B7280' })] }));
+  }
+  if (report.generatedAt) {
+    children.push(new Paragraph({ children: [new TextRun({ text: `Generated ${report.generatedAt}`, size: 16, color: '6B7280' })] }));
+  }
+
+  for (const block of parseBlocks(buildReportBody(report))) {
+    children.push(...renderBlock(block, byNumber));
+  }
+
+  if (citations.length > 0) {
+    children.push(new Paragraph({ text: 'References', heading: HeadingLevel.HEADING_1 }));
+    for (const citation of citations) {
+      children.push(new Paragraph({
+        children: [
+          new TextRun({ text: `[${citation.number}] `, bold: true }),
+          new ExternalHyperlink({ link: citation.url, children: [new TextRun({ text: citation.title, style: 'Hyperlink' })] }),
+          new TextRun({ text: ` ${citation.url}`, color: '6B7280', size: 18 }),
+        ],
+      }));
+    }
+  }
+
+  // Footnote ids are the citation numbers, so [3] in the text is footnote 3
+  const footnotes = Object.fromEntries(
+    citations
+      .filter(citation => citation.cited)
+      .map(citation => [citation.number, {
+        children: [new Paragraph({
+          children: [
+            new ExternalHyperlink({ link: citation.url, children: [new TextRun({ text: citation.title, style: 'Hyperlink' })] }),
+            new TextRun({ text: ` ${citation.url}` }),
+          ],
+        })],
+      }])
+  );
+
+  const doc = new Document({
+    title: report.title,
+    description: report.query,
+    creator: 'Firecrawl Research',
+    footnotes,
+    sections: [{ children }],
+  });
+
+  return new Uint8Array(await Packer.toBuffer(doc));
+}
+
+function renderBlock(block: Block, citations: Map<number, Citation>): (Paragraph | Table)[] {
+  switch (block.type) {
+    case 'heading':
+      return [new Paragraph({ children: renderInline(block.text, citations), heading: HEADING_LEVELS[block.level] })];
+    case 'paragraph':
+      return [new Paragraph({ children: renderInline(block.text, citations) })];
+    case 'list':
+      return block.items.map((item, index) => block.ordered
+        ? new Paragraph({
+          children: [new TextRun(`${index + 1}. `), ...renderInline(item, citations)],
+          indent: { left: 360, hanging: 360 },
+        })
+        : new Paragraph({ children: renderInline(item, citations), bullet: { level: 0 } }));
+    case 'table':
+      return [renderTable(block.header, block.rows, citations)];
+    case 'code':
+      return block.text.split('\n').map(line => new Paragraph({
+        children: [new TextRun({ text: line, font: 'Courier New', size: 18 })],
+        shading: { type: ShadingType.CLEAR, fill: 'F3F4F6', color: 'auto' },
+        spacing: { after: 0 },
+      }));
+    case 'quote':
+      return [new Paragraph({
+        children: renderInline(block.text, citations),
+        indent: { left: 360 },
+        border: { left: { style: BorderStyle.SINGLE, size: 12, color: 'F97316', space: 8 } },
+      })];
+    case 'rule':
+      return [new Paragraph({ border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: 'D1D5DB', space: 1 } } })];
+  }
+}
+
+function renderTable(header: string[], rows: string[][], citations: Map<number, Citation>): Table {
+  const columns = Math.max(header.length, ...rows.map(row => row.length));
+  const toRow = (cells: string[], isHeader: boolean) => new TableRow({
+    tableHeader: isHeader,
+    children: Array.from({ length: columns }, (_, index) => new TableCell({
+      children: [new Paragraph({
+        children: isHeader
+          ? [new TextRun({ text: cells[index] || '', bold: true })]
+          : renderInline(cells[index] || '', citations),
+      })],
+      shading: isHeader ? { type: ShadingType.CLEAR, fill: 'F9FAFB', color: 'auto' } : undefined,
+    })),
+  });
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: [toRow(header, true), ...rows.map(row => toRow(row, false))],
+  });
+}
+
+function renderInline(text: string, citations: Map<number, Citation>): ParagraphChild[] {
+  return parseInline(text).map(token => {
+    if (token.type === 'citation') {
+      return citations.get(token.number)?.cited
+        ? new FootnoteReferenceRun(token.number)
+        : new TextRun(`[${token.number}]`);
+    }
+    if (token.type === 'link') {
+      return new ExternalHyperlink({ link: token.url, children: [new TextRun({ text: token.text, style: 'Hyperlink' })] });
+    }
+    return new TextRun({
+      text: token.text,
+      bold: token.bold,
+      italics: token.italic,
+      font: token.code ? 'Courier New' : undefined,
+    });
+  });
+}
@@ -0,0 +1,121 @@
+import { buildReportBody, collectCitations } from './citations';
+import { Block, parseBlocks, parseInline } from './markdown-blocks';
+import { Citation, ResearchReport } from './types';
+
+/**
+ * Standalone HTML page (inline styles, no external assets). Citations link
+ * to a numbered References list at the end.
+ */
+export function renderHtml(report: ResearchReport): string {
+  const citations = collectCitations(report);
+  const byNumber = new Map(citations.map(citation => [citation.number, citation]));
+  const body = parseBlocks(buildReportBody(report)).map(block => renderBlock(block, byNumber)).join('\n');
+
+  const references = citations.length > 0
+    ? `<section class="references">
+<h2>References</h2>
+<ol>
+${citations.map(citation => `<li id="ref-${citation.number}"><a href="${escapeAttribute(citation.url)}">${escapeHtml(citation.title)}</a><br><span class="url">${escapeHtml(citation.url)}</span></li>`).join('\n')}
+</ol>
+</section>`
+    : '';
+
+  const meta = [
+    report.query && report.query !== report.title ? `<p class="query">${escapeHtml(report.query)}</p>` : '',
+    report.generatedAt ? `<p class="meta">Generated ${escapeHtml(report.generatedAt)}</p>` : '',
+  ].join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(report.title)}</title>
+<style>
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; color: #1f2937; line-height: 1.6; max-width: 800px; margin: 40px auto; padding: 0 20px; }
+h1, h2, h3, h4 { color: #111827; line-height: 1.3; }
+h1 { border-bottom: 2px solid #f97316; padding-bottom: 8px; }
+a { color: #ea580c; }
+sup a { text-decoration: none; font-size: 0.75em; }
+table { border-collapse: collapse; width: 100%; margin: 16px 0; font-size: 0.9em; }
+th, td { border: 1px solid #e5e7eb; padding: 6px 10px; text-align: left; vertical-align: top; }
+th { background: #f9fafb; }
+pre { background: #f3f4f6; padding: 12px; overflow-x: auto; border-radius: 4px; }
+code { font-family: Menlo, Consolas, monospace; font-size: 0.9em; }
+blockquote { border-left: 3px solid #f97316; margin: 16px 0; padding-left: 12px; color: #4b5563; }
+.query { font-style: italic; color: #4b5563; }
+.meta { color: #6b7280; font-size: 0.85em; }
+.references { margin-top: 40px; border-top: 1px solid #e5e7eb; font-size: 0.9em; }
+.references .url { color: #6b7280; font-size: 0.85em; word-break: break-all; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+${meta}
+${body}
+${references}
+</body>
+</html>
+`;
+}
+
+function renderBlock(block: Block, citations: Map<number, Citation>): string {
+  const inline = (text: string) => renderInline(text, citations);
+
+  switch (block.type) {
+    case 'heading':
+      // The report title is the only h1
+      return `<h${block.level + 1}>${inline(block.text)}</h${block.level + 1}>`;
+    case 'paragraph':
+      return `<p>${inline(block.text)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>\n${block.items.map(item => `<li>${inline(item)}</li>`).join('\n')}\n</${tag}>`;
+    }
+    case 'table':
+      return `<table>
+<thead><tr>${block.header.map(cell => `<th>${inline(cell)}</th>`).join('')}</tr></thead>
+<tbody>
+${block.rows.map(row => `<tr>${row.map(cell => `<td>${inline(cell)}</td>`).join('')}</tr>`).join('\n')}
+</tbody>
+</table>`;
+    case 'code':
+      return `<pre><code>${escapeHtml(block.text)}</code></pre>`;
+    case 'quote':
+      return `<blockquote>${inline(block.text)}</blockquote>`;
+    case 'rule':
+      return '<hr>';
+  }
+}
+
+function renderInline(text: string, citations: Map<number, Citation>): string {
+  return parseInline(text).map(token => {
+    if (token.type === 'citation') {
+      return citations.has(token.number)
+        ? `<sup><a href="#ref-${token.number}">[${token.number}]</a></sup>`
+        : `[${token.number}]`;
+    }
+    if (token.type === 'link') {
+      return `<a href="${escapeAttribute(token.url)}">${escapeHtml(token.text)}</a>`;
+    }
+
+    let html = escapeHtml(token.text);
+    if (token.code) html = `<code>${html}</code>`;
+    if (token.italic) html = `<em>${html}</em>`;
+    if (token.bold) html = `<strong>${html}</strong>`;
+    return html;
+  }).join('');
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeAttribute(url: string): string {
+  // Only web links are emitted as hrefs
+  return /^https?:\/\//i.test(url) ? escapeHtml(url) : '#';
+}
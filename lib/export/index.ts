@@ -0,0 +1,45 @@
+// Report Exports
+// Turns a completed research or ICP run into a downloadable document.
+import { collectCitations, exportFilename } from './citations';
+import { renderDocx } from './docx';
+import { renderHtml } from './html';
+import { renderMarkdown } from './markdown';
+import { renderPdf } from './pdf';
+import { ExportedFile, ExportFormat, ResearchReport } from './types';
+
+export type { Citation, ExportedFile, ExportFormat, ResearchReport } from './types';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { extension: string; contentType: string; label: string }> = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8', label: 'Markdown' },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8', label: 'HTML' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf', label: 'PDF' },
+  docx: { extension: 'docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', label: 'Word' },
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8', label: 'JSON' },
+};
+
+export async function exportReport(report: ResearchReport, format: ExportFormat): Promise<ExportedFile> {
+  const stamped: ResearchReport = { ...report, generatedAt: report.generatedAt || new Date().toISOString() };
+  const { extension, contentType } = EXPORT_FORMATS[format];
+  const encoder = new TextEncoder();
+
+  let data: Uint8Array;
+  switch (format) {
+    case 'markdown':
+      data = encoder.encode(renderMarkdown(stamped));
+      break;
+    case 'html':
+      data = encoder.encode(renderHtml(stamped));
+      break;
+    case 'pdf':
+      data = await renderPdf(stamped);
+      break;
+    case 'docx':
+      data = await renderDocx(stamped);
+      break;
+    case 'json':
+      data = encoder.encode(JSON.stringify({ ...stamped, citations: collectCitations(stamped) }, null, 2));
+      break;
+  }
+
+  return { filename: exportFilename(stamped, extension), contentType, data };
+}
@@ -0,0 +1,168 @@
+// Minimal markdown parser shared by the HTML, PDF and DOCX exporters.
+// Covers what the research and ICP prompts produce: headings, paragraphs,
+// lists, tables, code blocks, quotes, rules and inline emphasis, links and [n] citations.
+
+export type Block =
+  | { type: 'heading'; level: 1 | 2 | 3 | 4; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'table'; header: string[]; rows: string[][] }
+  | { type: 'code'; text: string }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' };
+
+export type Inline =
+  | { type: 'text'; text: string; bold?: boolean; italic?: boolean; code?: boolean }
+  | { type: 'link'; text: string; url: string }
+  | { type: 'citation'; number: number };
+
+const LIST_ITEM = /^\s*(?:[-*+]|(\d+)[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+export function parseBlocks(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith('```')) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith('```')) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const level = Math.min(heading[1].length, 4) as 1 | 2 | 3 | 4;
+      blocks.push({ type: 'heading', level, text: heading[2].replace(/\s#+$/, '') });
+      i++;
+      continue;
+    }
+
+    if (/^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)) {
+      blocks.push({ type: 'rule' });
+      i++;
+      continue;
+    }
+
+    if (trimmed.startsWith('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      const header = splitRow(trimmed);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().startsWith('|')) {
+        rows.push(splitRow(lines[i].trim()));
+        i++;
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        quote.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', text: quote.join(' ') });
+      continue;
+    }
+
+    const listItem = line.match(LIST_ITEM);
+    if (listItem) {
+      const ordered = Boolean(listItem[1]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const item = lines[i].match(LIST_ITEM);
+        if (item) {
+          items.push(item[2]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i]) && items.length > 0) {
+          // Indented continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: 'list', ordered, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', text: paragraph.join(' ') });
+  }
+
+  return blocks;
+}
+
+/**
+ * Split inline markdown into styled runs, links and citations
+ */
+export function parseInline(text: string, style: { bold?: boolean; italic?: boolean } = {}): Inline[] {
+  const tokens: Inline[] = [];
+  const pattern = /(\*\*|__)(.+?)\1|(\*|_)(?!\s)(.+?)\3|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\[(\d+)\]/g;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (value: string) => {
+    if (value) tokens.push({ type: 'text', text: value, ...style });
+  };
+
+  while ((match = pattern.exec(text)) !== null) {
+    pushText(text.slice(lastIndex, match.index));
+
+    if (match[2] !== undefined) {
+      tokens.push(...parseInline(match[2], { ...style, bold: true }));
+    } else if (match[4] !== undefined) {
+      tokens.push(...parseInline(match[4], { ...style, italic: true }));
+    } else if (match[5] !== undefined) {
+      tokens.push({ type: 'text', text: match[5], code: true });
+    } else if (match[6] !== undefined) {
+      tokens.push({ type: 'link', text: match[6], url: match[7] });
+    } else if (match[8] !== undefined) {
+      tokens.push({ type: 'citation', number: Number(match[8]) });
+    }
+
+    lastIndex = pattern.lastIndex;
+  }
+
+  pushText(text.slice(lastIndex));
+  return tokens;
+}
+
+/**
+ * Inline markdown reduced to plain text (citations kept as [n])
+ */
+export function plainText(text: string): string {
+  return parseInline(text)
+    .map(token => (token.type === 'citation' ? `[${token.number}]` : token.text))
+    .join('');
+}
+
+function splitRow(row: string): string[] {
+  return row.replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const trimmed = lines[i].trim();
+  return /^(#{1,6}\s|```|>|\|)/.test(trimmed)
+    || /^(-{3,}|\*{3,}|_{3,})$/.test(trimmed)
+    || LIST_ITEM.test(lines[i]);
+}
@@ -0,0 +1,39 @@
+import { buildReportBody, collectCitations } from './citations';
+import { ResearchReport } from './types';
+
+/**
+ * Markdown with citations as footnotes ([1] becomes [^1]) and a Sources list
+ */
+export function renderMarkdown(report: ResearchReport): string {
+  const citations = collectCitations(report);
+  const known = new Set(citations.map(citation => citation.number));
+  const body = buildReportBody(report).replace(/\[(\d+)\](?!\()/g, (match, number: string) =>
+    known.has(Number(number)) ? `[^${number}]` : match
+  );
+
+  const lines = [`# ${report.title}`, ''];
+  if (report.query && report.query !== report.title) {
+    lines.push(`> ${report.query}`, '');
+  }
+  if (report.generatedAt) {
+    lines.push(`_Generated ${report.generatedAt}_`, '');
+  }
+  lines.push(body);
+
+  if (citations.length > 0) {
+    lines.push('', '## Sources', '');
+    citations.forEach(citation => {
+      lines.push(`${citation.number}. [${citation.title}](${citation.url})`);
+    });
+
+    const footnotes = citations.filter(citation => citation.cited);
+    if (footnotes.length > 0) {
+      lines.push('');
+      footnotes.forEach(citation => {
+        lines.push(`[^${citation.number}]: [${citation.title}](${citation.url})`);
+      });
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
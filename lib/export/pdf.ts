@@ -0,0 +1,333 @@
+import { PDFDocument, PDFFont, PDFPage, RGB, StandardFonts, rgb } from 'pdf-lib';
+import { buildReportBody, collectCitations } from './citations';
+import { Block, Inline, parseBlocks, parseInline, plainText } from './markdown-blocks';
+import { ResearchReport } from './types';
+
+const PAGE_WIDTH = 612;   // US Letter
+const PAGE_HEIGHT = 792;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BODY_SIZE = 10.5;
+const LINE_GAP = 1.45;
+
+const TEXT_COLOR = rgb(0.12, 0.16, 0.22);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const ACCENT_COLOR = rgb(0.92, 0.35, 0.05);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+  boldItalic: PDFFont;
+  mono: PDFFont;
+}
+
+interface Run {
+  text: string;
+  font: PDFFont;
+  color: RGB;
+}
+
+/**
+ * Paginated PDF built from the standard PDF fonts, so no font files are
+ * needed. Citations stay inline as [n] and resolve in the References section.
+ */
+export async function renderPdf(report: ResearchReport): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle(sanitize(report.title));
+  doc.setCreator('Firecrawl Research');
+  if (report.query) doc.setSubject(sanitize(report.query));
+
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique),
+    boldItalic: await doc.embedFont(StandardFonts.HelveticaBoldOblique),
+    mono: await doc.embedFont(StandardFonts.Courier),
+  };
+  const writer = new PdfWriter(doc, fonts);
+
+  writer.paragraph([{ text: report.title, font: fonts.bold, color: TEXT_COLOR }], { size: 20, spaceAfter: 6 });
+  if (report.query && report.query !== report.title) {
+    writer.paragraph([{ text: report.query, font: fonts.italic, color: MUTED_COLOR }], { size: BODY_SIZE });
+  }
+  if (report.generatedAt) {
+    writer.paragraph([{ text: `Generated ${report.generatedAt}`, font: fonts.regular, color: MUTED_COLOR }], { size: 8.5 });
+  }
+  writer.rule(ACCENT_COLOR);
+
+  for (const block of parseBlocks(buildReportBody(report))) {
+    writer.block(block);
+  }
+
+  const citations = collectCitations(report);
+  if (citations.length > 0) {
+    writer.block({ type: 'heading', level: 2, text: 'References' });
+    for (const citation of citations) {
+      writer.paragraph([
+        { text: `[${citation.number}] `, font: fonts.bold, color: ACCENT_COLOR },
+        { text: citation.title, font: fonts.regular, color: TEXT_COLOR },
+        { text: ` ${citation.url}`, font: fonts.regular, color: MUTED_COLOR },
+      ], { size: 9, spaceAfter: 3 });
+    }
+  }
+
+  writer.addPageNumbers();
+  return doc.save();
+}
+
+class PdfWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private doc: PDFDocument, private fonts: Fonts) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  block(block: Block): void {
+    switch (block.type) {
+      case 'heading': {
+        const size = [0, 16, 14, 12, 11][block.level];
+        this.ensureSpace(size * 3);
+        this.y -= size * 0.6;
+        this.paragraph(this.runs(block.text, true), { size, spaceAfter: 4 });
+        break;
+      }
+      case 'paragraph':
+        this.paragraph(this.runs(block.text));
+        break;
+      case 'list':
+        block.items.forEach((item, index) => {
+          const marker = block.ordered ? `${index + 1}.` : '•';
+          this.paragraph(this.runs(item), { indent: 16, marker, spaceAfter: 2 });
+        });
+        this.y -= 4;
+        break;
+      case 'table':
+        this.table(block.header, block.rows);
+        break;
+      case 'code':
+        block.text.split('\n').forEach(line => {
+          this.paragraph([{ text: line || ' ', font: this.fonts.mono, color: TEXT_COLOR }], { size: 9, indent: 8, spaceAfter: 0 });
+        });
+        this.y -= 6;
+        break;
+      case 'quote':
+        this.paragraph(this.runs(block.text).map(run => ({ ...run, color: MUTED_COLOR })), { indent: 12 });
+        break;
+      case 'rule':
+        this.rule(MUTED_COLOR);
+        break;
+    }
+  }
+
+  /**
+   * Draw word-wrapped runs, starting new pages as needed
+   */
+  paragraph(runs: Run[], options: { size?: number; indent?: number; marker?: string; spaceAfter?: number } = {}): void {
+    const { size = BODY_SIZE, indent = 0, marker, spaceAfter = 6 } = options;
+    const lineHeight = size * LINE_GAP;
+    const left = MARGIN + indent;
+    const width = CONTENT_WIDTH - indent;
+    const lines = wrapRuns(runs, width, size);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      if (marker && index === 0) {
+        this.page.drawText(sanitize(marker), { x: left - 12, y: this.y, size, font: this.fonts.regular, color: TEXT_COLOR });
+      }
+      let x = left;
+      for (const run of line) {
+        this.page.drawText(run.text, { x, y: this.y, size, font: run.font, color: run.color });
+        x += run.font.widthOfTextAtSize(run.text, size);
+      }
+    });
+
+    this.y -= spaceAfter;
+  }
+
+  rule(color: RGB): void {
+    this.ensureSpace(12);
+    this.y -= 6;
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.75,
+      color,
+    });
+    this.y -= 8;
+  }
+
+  addPageNumbers(): void {
+    const pages = this.doc.getPages();
+    pages.forEach((page, index) => {
+      const label = `${index + 1} / ${pages.length}`;
+      const size = 8;
+      page.drawText(label, {
+        x: PAGE_WIDTH / 2 - this.fonts.regular.widthOfTextAtSize(label, size) / 2,
+        y: MARGIN / 2,
+        size,
+        font: this.fonts.regular,
+        color: MUTED_COLOR,
+      });
+    });
+  }
+
+  private table(header: string[], rows: string[][]): void {
+    const size = 8.5;
+    const lineHeight = size * LINE_GAP;
+    const padding = 4;
+    const columns = Math.max(header.length, ...rows.map(row => row.length));
+    const columnWidth = CONTENT_WIDTH / columns;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      const wrapped = Array.from({ length: columns }, (_, index) =>
+        wrapRuns(
+          [{ text: plainText(cells[index] || ''), font: bold ? this.fonts.bold : this.fonts.regular, color: TEXT_COLOR }],
+          columnWidth - padding * 2,
+          size
+        )
+      );
+      const height = Math.max(1, ...wrapped.map(lines => lines.length)) * lineHeight + padding * 2;
+
+      this.ensureSpace(height);
+      const top = this.y;
+      wrapped.forEach((lines, column) => {
+        const x = MARGIN + column * columnWidth;
+        this.page.drawRectangle({
+          x,
+          y: top - height,
+          width: columnWidth,
+          height,
+          borderColor: rgb(0.85, 0.86, 0.88),
+          borderWidth: 0.5,
+          color: bold ? rgb(0.97, 0.97, 0.98) : undefined,
+        });
+        lines.forEach((line, index) => {
+          let cursor = x + padding;
+          for (const run of line) {
+            this.page.drawText(run.text, { x: cursor, y: top - padding - (index + 1) * lineHeight + size * 0.3, size, font: run.font, color: run.color });
+            cursor += run.font.widthOfTextAtSize(run.text, size);
+          }
+        });
+      });
+      this.y = top - height;
+    };
+
+    this.y -= 4;
+    drawRow(header, true);
+    rows.forEach(row => drawRow(row, false));
+    this.y -= 8;
+  }
+
+  private runs(text: string, heading = false): Run[] {
+    return parseInline(text).map(token => this.toRun(token, heading));
+  }
+
+  private toRun(token: Inline, heading: boolean): Run {
+    if (token.type === 'citation') {
+      return { text: `[${token.number}]`, font: this.fonts.regular, color: ACCENT_COLOR };
+    }
+    if (token.type === 'link') {
+      return { text: token.text, font: this.fonts.regular, color: ACCENT_COLOR };
+    }
+
+    const bold = heading || token.bold;
+    const font = token.code
+      ? this.fonts.mono
+      : bold && token.italic ? this.fonts.boldItalic
+      : bold ? this.fonts.bold
+      : token.italic ? this.fonts.italic
+      : this.fonts.regular;
+    return { text: token.text, font, color: TEXT_COLOR };
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+    }
+  }
+}
+
+/**
+ * Break runs into lines that fit the width, splitting on spaces (and inside
+ * words longer than a line, such as URLs)
+ */
+function wrapRuns(runs: Run[], width: number, size: number): Run[][] {
+  const lines: Run[][] = [];
+  let line: Run[] = [];
+  let lineWidth = 0;
+
+  const push = (text: string, run: Run) => {
+    const last = line[line.length - 1];
+    if (last && last.font === run.font && last.color === run.color) {
+      last.text += text;
+    } else {
+      line.push({ ...run, text });
+    }
+    lineWidth += run.font.widthOfTextAtSize(text, size);
+  };
+  const breakLine = () => {
+    // Drop the space left before the break
+    if (line.length > 0) line[line.length - 1].text = line[line.length - 1].text.trimEnd();
+    lines.push(line);
+    line = [];
+    lineWidth = 0;
+  };
+
+  for (const run of runs) {
+    for (const piece of sanitize(run.text).split(/(\s+)/)) {
+      if (!piece) continue;
+      const isSpace = /^\s+$/.test(piece);
+      if (isSpace) {
+        if (line.length > 0) push(' ', run);
+        continue;
+      }
+
+      let word = piece;
+      while (run.font.widthOfTextAtSize(word, size) > width) {
+        // Hard-break a word that cannot fit on any line
+        let cut = word.length - 1;
+        while (cut > 1 && run.font.widthOfTextAtSize(word.slice(0, cut), size) > width - lineWidth) cut--;
+        if (lineWidth > 0 && cut <= 1) {
+          breakLine();
+          continue;
+        }
+        push(word.slice(0, cut), run);
+        breakLine();
+        word = word.slice(cut);
+      }
+
+      if (lineWidth + run.font.widthOfTextAtSize(word, size) > width && line.length > 0) {
+        breakLine();
+      }
+      push(word, run);
+    }
+  }
+
+  if (line.length > 0 || lines.length === 0) breakLine();
+  return lines;
+}
+
+// Characters outside Latin-1 that the standard fonts' WinAnsi encoding still covers
+const WIN_ANSI_EXTRA = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+const REPLACEMENTS: Record<string, string> = {
+  '→': '->', '←': '<-', '≥': '>=', '≤': '<=', '≈': '~',
+  '✓': 'v', '✔': 'v', '✗': 'x', '‑': '-', '−': '-',
+};
+
+/**
+ * The standard PDF fonts only encode WinAnsi; anything else (emoji, CJK)
+ * would make drawText throw
+ */
+function sanitize(text: string): string {
+  return Array.from(text.replace(/\t/g, '    ')).map(char => {
+    if (REPLACEMENTS[char]) return REPLACEMENTS[char];
+    const code = char.codePointAt(0) || 0;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRA.has(char)) return char;
+    if (code === 0x0a) return ' ';
+    return '';
+  }).join('');
+}
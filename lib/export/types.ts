@@ -0,0 +1,33 @@
+// Report Export Types
+import type { Source } from '../langgraph-search-engine';
+import type { ICPProfile } from '../multi-agent/types';
+
+export type ExportFormat = 'markdown' | 'html' | 'pdf' | 'docx' | 'json';
+
+/**
+ * A completed research or ICP run, as shown in the chat
+ */
+export interface ResearchReport {
+  title: string;
+  query?: string;
+  // Markdown answer with [n] citations pointing into sources (1-based)
+  content: string;
+  sources: Source[];
+  followUpQuestions?: string[];
+  icpProfiles?: ICPProfile[];
+  generatedAt?: string;
+}
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  data: Uint8Array;
+}
+
+export interface Citation {
+  number: number;
+  title: string;
+  url: string;
+  // Whether the answer text actually cites this source
+  cited: boolean;
+}
@@ -1,20 +1,20 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import FirecrawlApp from '@mendable/firecrawl-js';
+import { abortableDelay, isAbortError, throwIfAborted } from './abort';
+import { ResearchCache } from './cache';
+import { USAGE_CONFIG } from './config';
+import { CreditOperation, UsageLedger } from './usage';
 import { CRAWL_CONFIG } from './config';
-
-export interface CrawlOptions {
-  limit?: number;
-  maxDepth?: number;
-  allowSubdomains?: boolean;
-  includePaths?: string[];
-  excludePaths?: string[];
-  scrapeOptions?: {
-    formats?: string[];
-    onlyMainContent?: boolean;
-    waitFor?: number;
-    timeout?: number;
-  };
-}
+import {
+  createResearchProvider,
+  CrawlOptions,
+  CrawlResult,
+  MapOptions,
+  ProviderName,
+  ResearchProvider,
+  SearchOptions,
+} from './providers';
+
+export type { CrawlOptions, CrawlResult } from './providers';
 
 export interface StructuredExtractionSchema {
   type: 'object';
@@ -27,237 +27,92 @@ export interface StructuredExtractionSchema {
   required?: string[];
 }
 
-export interface CrawlResult {
-  success: boolean;
-  id?: string;
-  status?: 'scraping' | 'completed' | 'failed';
-  total?: number;
-  completed?: number;
-  creditsUsed?: number;
-  data?: any[];
-  error?: string;
-}
-
 export class FirecrawlClient {
-  private client: FirecrawlApp;
+  private provider: ResearchProvider;
+  readonly cache?: ResearchCache;
+  readonly usage?: UsageLedger;
 
-  constructor(providedApiKey?: string) {
-    const apiKey = providedApiKey || process.env.FIRECRAWL_API_KEY;
-    if (!apiKey) {
-      throw new Error('FIRECRAWL_API_KEY is required - either provide it or set it as an environment variable');
-    }
-    this.client = new FirecrawlApp({ apiKey });
+  /**
+   * @param providedApiKey Firecrawl API key (falls back to FIRECRAWL_API_KEY)
+   * @param provider Research backend to use - a provider name or instance; defaults to RESEARCH_PROVIDER / firecrawl
+   * @param cache Research cache for this run; scrapes, searches and site maps are served from it when possible
+   * @param usage Usage ledger for this run; records provider credits and is shared with the engine's models
+   */
+  constructor(providedApiKey?: string, provider?: ProviderName | ResearchProvider, cache?: ResearchCache, usage?: UsageLedger) {
+    this.provider = typeof provider === 'object'
+      ? provider
+      : createResearchProvider(provider, providedApiKey);
+    this.cache = cache;
+    this.usage = usage;
   }
 
-  async scrapeUrl(url: string, timeoutMs: number = 15000) {
-    try {
-      // Create a timeout promise
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Scraping timeout')), timeoutMs);
-      });
-      
-      // Race the scraping against the timeout
-      const scrapePromise = this.client.scrapeUrl(url, {
-        formats: ['markdown', 'html'],
-      });
-      
-      const result = await Promise.race([scrapePromise, timeoutPromise]) as any;
-      
-      if ('success' in result && !result.success) {
-        throw new Error(result.error || 'Scrape failed');
-      }
-      
-      return {
-        markdown: (result as any).markdown || '',
-        html: (result as any).html || '',
-        metadata: (result as any).metadata || {},
-        success: true,
-      };
-    } catch (error: any) {
-      
-      // Handle timeout errors
-      if (error?.message === 'Scraping timeout') {
-        return {
-          markdown: '',
-          html: '',
-          metadata: {
-            error: 'Scraping took too long and was stopped',
-            timeout: true,
-          },
-          success: false,
-          error: 'timeout',
-        };
-      }
-      
-      // Handle 403 errors gracefully
-      if (error?.statusCode === 403 || error?.message?.includes('403')) {
-        return {
-          markdown: '',
-          html: '',
-          metadata: {
-            error: 'This website is not supported by Firecrawl',
-            statusCode: 403,
-          },
-          success: false,
-          error: 'unsupported',
-        };
-      }
-      
-      // Return error info for other failures
-      return {
-        markdown: '',
-        html: '',
-        metadata: {
-          error: error?.message || 'Failed to scrape URL',
-          statusCode: error?.statusCode,
-        },
-        success: false,
-        error: 'failed',
-      };
-    }
+  /**
+   * Name of the backend serving searches and scrapes
+   */
+  get providerName(): ProviderName {
+    return this.provider.name;
   }
 
-  async mapUrl(url: string, options?: { search?: string; limit?: number }) {
-    try {
-      const result = await this.client.mapUrl(url, {
-        search: options?.search,
-        limit: options?.limit || 10,
-      });
-      
-      if ('success' in result && !result.success) {
-        throw new Error((result as any).error || 'Map failed');
-      }
-      
-      return {
-        links: (result as any).links || [],
-        metadata: (result as any).metadata || {},
-      };
-    } catch (error) {
-      throw error;
-    }
+  async scrapeUrl(url: string, timeoutMs: number = 15000, signal?: AbortSignal) {
+    const scrape = async () => {
+      const result = await this.provider.scrapeUrl(url, timeoutMs, signal);
+      if (result.success) this.recordCredits('scrape', USAGE_CONFIG.FIRECRAWL_CREDITS.scrape);
+      return result;
+    };
+    if (!this.cache) return scrape();
+
+    // Failed scrapes are retried next time rather than cached
+    return this.cache.wrap('scrape', url, { provider: this.provider.name, url }, scrape, result => result.success);
   }
 
-  async search(query: string, options?: { limit?: number; scrapeOptions?: any }) {
-    try {
-      // Search with scrape - this gets us content immediately!
-      const searchParams: any = {
-        limit: options?.limit || 10,
-      };
-      
-      // Add scrapeOptions to get content with search results
-      if (options?.scrapeOptions !== false) {
-        searchParams.scrapeOptions = {
-          formats: ['markdown'],
-          ...options?.scrapeOptions
-        };
-      }
-      
-      
-      const result = await this.client.search(query, searchParams);
-      
-      
-      // Handle the actual Firecrawl v1 API response format
-      if (result && typeof result === 'object' && 'success' in result) {
-        if (!(result as any).success) {
-          throw new Error((result as any).error || 'Search failed');
-        }
-      }
-      
-      // Extract data - search with scrape returns data with content
-      const data = (result as any)?.data || [];
-      
-      // Transform to include scraped content
-      const enrichedData = data.map((item: any) => {
-        // Try to extract favicon from metadata or construct default
-        let favicon = item.metadata?.favicon || null;
-        if (!favicon && item.metadata?.ogImage) {
-          favicon = item.metadata.ogImage;
-        } else if (!favicon && item.url) {
-          // Default favicon URL
-          const domain = new URL(item.url).hostname;
-          favicon = `https://${domain}/favicon.ico`;
-        }
-        
-        return {
-          url: item.url,
-          title: item.title || item.metadata?.title || 'Untitled',
-          description: item.description || item.metadata?.description || '',
-          markdown: item.markdown || '',
-          html: item.html || '',
-          links: item.links || [],
-          screenshot: item.screenshot || null,
-          metadata: {
-            ...item.metadata,
-            favicon: favicon,
-            screenshot: item.screenshot
-          },
-          scraped: true, // Mark as already scraped
-          content: item.markdown || '', // For compatibility
-          favicon: favicon // Add at top level for easy access
-        };
-      });
-      
-      return {
-        data: enrichedData,
-        results: enrichedData, // For backward compatibility
-        metadata: (result as any)?.metadata || {},
-      };
-    } catch (error) {
-      throw error;
-    }
+  async mapUrl(url: string, options?: MapOptions) {
+    const map = async () => {
+      const result = await this.provider.mapUrl(url, options);
+      this.recordCredits('map', USAGE_CONFIG.FIRECRAWL_CREDITS.map);
+      return result;
+    };
+    if (!this.cache) return map();
+
+    // The signal is per run and not part of the result
+    return this.cache.wrap('map', url, { provider: this.provider.name, url, options: { ...options, signal: undefined } }, map, result => result.links.length > 0);
+  }
+
+  async search(query: string, options?: SearchOptions) {
+    const search = async () => {
+      const result = await this.provider.search(query, options);
+      this.recordCredits('search', result.data.length * USAGE_CONFIG.FIRECRAWL_CREDITS.searchResult);
+      return result;
+    };
+    if (!this.cache) return search();
+
+    return this.cache.wrap('search', query, { provider: this.provider.name, query, options: { ...options, signal: undefined } }, search, result => result.data.length > 0);
   }
 
   /**
-   * Comprehensive website crawling using Firecrawl's /crawl endpoint
+   * Comprehensive website crawling through the active provider
    * Recursively discovers and scrapes all pages on a website
    */
   async crawlWebsite(url: string, options: CrawlOptions = {}): Promise<CrawlResult> {
-    try {
-      const crawlParams: any = {
-        url,
-        limit: options.limit || CRAWL_CONFIG.DEFAULT_CRAWL_LIMIT,
-        ...options
-      };
-
-      // Configure scrape options for comprehensive data extraction
-      if (options.scrapeOptions) {
-        crawlParams.scrapeOptions = {
-          formats: ['markdown', 'html'],
-          onlyMainContent: true,
-          waitFor: 0,
-          timeout: 30000,
-          ...options.scrapeOptions
-        };
-      }
-
-      // Note: Using crawlUrl method - adjust based on actual Firecrawl API
-      const result = await this.client.crawlUrl(crawlParams.url, crawlParams);
-      
-      if (!result || !(result as any).success) {
-        throw new Error((result as any)?.error || 'Crawl failed');
-      }
+    const result = await this.provider.crawlWebsite(url, options);
+    this.recordCredits('crawl', result.creditsUsed || 0);
+    return result;
+  }
 
-      return {
-        success: true,
-        data: (result as any).data || [],
-        total: (result as any).total || 0,
-        completed: (result as any).completed || 0,
-        creditsUsed: (result as any).creditsUsed || 0,
-        status: (result as any).status || 'completed'
-      };
-    } catch (error) {
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : 'Crawl operation failed'
-      };
-    }
+  // Only Firecrawl bills credits - fetch and fixture runs are free
+  private recordCredits(operation: CreditOperation, credits: number) {
+    if (this.provider.name !== 'firecrawl') return;
+    this.usage?.recordCredits(operation, credits);
   }
 
   /**
    * Advanced website intelligence gathering with search-first URL discovery
    * Discovers relevant pages through search before targeted scraping
    */
-  async gatherWebsiteIntelligence(url: string, intelligenceType: 'pricing' | 'team' | 'customers' | 'products' | 'competitors' | 'comprehensive' = 'comprehensive') {
+  async gatherWebsiteIntelligence(
+    url: string,
+    intelligenceType: 'pricing' | 'team' | 'customers' | 'products' | 'competitors' | 'comprehensive' = 'comprehensive',
+    signal?: AbortSignal
+  ) {
     try {
       // Extract domain for search targeting
       const domain = new URL(url).hostname.replace('www.', '');
@@ -373,7 +228,7 @@ export class FirecrawlClient {
       const strategy = searchStrategies[intelligenceType];
       
       // Step 1: Discover relevant URLs through search
-      const discoveredUrls = await this.discoverRelevantUrls(strategy.searchQueries, strategy.limit);
+      const discoveredUrls = await this.discoverRelevantUrls(strategy.searchQueries, strategy.limit, signal);
       
       if (discoveredUrls.length === 0) {
         return {
@@ -383,7 +238,7 @@ export class FirecrawlClient {
       }
 
       // Step 2: Scrape the discovered URLs
-      const scrapedData = await this.scrapeDiscoveredUrls(discoveredUrls);
+      const scrapedData = await this.scrapeDiscoveredUrls(discoveredUrls, signal);
 
       if (scrapedData.length === 0) {
         return {
@@ -409,6 +264,7 @@ export class FirecrawlClient {
       };
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Intelligence gathering failed'
@@ -419,7 +275,7 @@ export class FirecrawlClient {
   /**
    * Discover relevant URLs through targeted search queries
    */
-  private async discoverRelevantUrls(searchQueries: string[], limit: number): Promise<Array<{url: string, title: string, relevanceScore: number}>> {
+  private async discoverRelevantUrls(searchQueries: string[], limit: number, signal?: AbortSignal): Promise<Array<{url: string, title: string, relevanceScore: number}>> {
     const discoveredUrls: Array<{url: string, title: string, relevanceScore: number}> = [];
     const seenUrls = new Set<string>();
 
@@ -428,15 +284,17 @@ export class FirecrawlClient {
       
       // Add delay between requests to avoid rate limits (except for first request)
       if (i > 0) {
-        await this.delay(5000); // 5 second delay between requests (increased from 2s)
+        await this.delay(5000, signal); // 5 second delay between requests (increased from 2s)
       }
       
       try {
         const searchResults = await this.retryWithBackoff(() => 
           this.search(query, {
             limit: Math.ceil(limit / searchQueries.length),
-            scrapeOptions: false // Don't scrape yet, just discover URLs
-          })
+            scrapeOptions: false, // Don't scrape yet, just discover URLs
+            signal
+          }),
+          signal
         );
 
         if (searchResults.data) {
@@ -494,6 +352,7 @@ export class FirecrawlClient {
           });
         }
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error(`Search query failed: ${query}`, error);
         continue;
       }
@@ -508,12 +367,12 @@ export class FirecrawlClient {
   /**
    * Scrape the discovered URLs to get their content
    */
-  private async scrapeDiscoveredUrls(urls: Array<{url: string, title: string, relevanceScore: number}>): Promise<any[]> {
+  private async scrapeDiscoveredUrls(urls: Array<{url: string, title: string, relevanceScore: number}>, signal?: AbortSignal): Promise<any[]> {
     const scrapedData: any[] = [];
 
     for (const urlInfo of urls) {
       try {
-        const scraped = await this.scrapeUrl(urlInfo.url);
+        const scraped = await this.scrapeUrl(urlInfo.url, undefined, signal);
         
         if (scraped.success && scraped.markdown && scraped.markdown.length > CRAWL_CONFIG.MIN_PAGE_CONTENT_LENGTH) {
           scrapedData.push({
@@ -529,12 +388,13 @@ export class FirecrawlClient {
           });
         }
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error(`Failed to scrape ${urlInfo.url}:`, error);
         continue;
       }
       
       // Small delay between scrapes to be respectful
-      await new Promise(resolve => setTimeout(resolve, 500));
+      await this.delay(500, signal);
     }
 
     return scrapedData;
@@ -574,12 +434,12 @@ export class FirecrawlClient {
    * Systematic competitor analysis crawling
    * Discovers competitors and gathers comprehensive intelligence
    */
-  async analyzeCompetitorLandscape(primaryDomain: string, knownCompetitors: string[] = []): Promise<any> {
+  async analyzeCompetitorLandscape(primaryDomain: string, knownCompetitors: string[] = [], signal?: AbortSignal): Promise<any> {
     try {
       const competitorIntelligence = [];
 
       // Analyze primary domain
-      const primaryIntel = await this.gatherWebsiteIntelligence(primaryDomain, 'comprehensive');
+      const primaryIntel = await this.gatherWebsiteIntelligence(primaryDomain, 'comprehensive', signal);
       competitorIntelligence.push({
         domain: primaryDomain,
         type: 'primary',
@@ -594,12 +454,13 @@ export class FirecrawlClient {
         
         // Add delay before each competitor (except the first)
         if (i > 0) {
-          await this.delay(CRAWL_CONFIG.COMPETITOR_CRAWL_DELAY);
+          await this.delay(CRAWL_CONFIG.COMPETITOR_CRAWL_DELAY, signal);
         }
         
         try {
           const competitorIntel = await this.retryWithBackoff(() => 
-            this.gatherWebsiteIntelligence(competitor, 'comprehensive')
+            this.gatherWebsiteIntelligence(competitor, 'comprehensive', signal),
+            signal
           );
           
           competitorIntelligence.push({
@@ -608,6 +469,7 @@ export class FirecrawlClient {
             intelligence: competitorIntel
           });
         } catch (error) {
+          if (isAbortError(error)) throw error;
           console.log(`Skipping competitor ${competitor} due to rate limits:`, error);
           // Continue with next competitor instead of failing entirely
         }
@@ -622,6 +484,7 @@ export class FirecrawlClient {
       };
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Competitor analysis failed'
@@ -632,7 +495,7 @@ export class FirecrawlClient {
   /**
    * Map website structure using search-based discovery for accurate categorization
    */
-  async mapWebsiteStructure(url: string): Promise<any> {
+  async mapWebsiteStructure(url: string, signal?: AbortSignal): Promise<any> {
     try {
       const domain = new URL(url).hostname.replace('www.', '');
       
@@ -653,11 +516,12 @@ export class FirecrawlClient {
         try {
           // Use the same search queries as gatherWebsiteIntelligence but just for discovery
           const searchQueries = this.getSearchQueriesForType(domain, type);
-          const discoveredUrls = await this.discoverRelevantUrls(searchQueries, CRAWL_CONFIG.URL_DISCOVERY_LIMIT);
+          const discoveredUrls = await this.discoverRelevantUrls(searchQueries, CRAWL_CONFIG.URL_DISCOVERY_LIMIT, signal);
           
           categorizedUrls[type] = discoveredUrls.map(u => u.url);
           totalDiscovered += discoveredUrls.length;
         } catch (error) {
+          if (isAbortError(error)) throw error;
           console.error(`Failed to discover ${type} URLs for ${domain}:`, error);
           categorizedUrls[type] = [];
         }
@@ -665,7 +529,7 @@ export class FirecrawlClient {
 
       // Also try general sitemap discovery as fallback
       try {
-        const mapResult = await this.mapUrl(url, { limit: CRAWL_CONFIG.SITEMAP_DISCOVERY_LIMIT });
+        const mapResult = await this.mapUrl(url, { limit: CRAWL_CONFIG.SITEMAP_DISCOVERY_LIMIT, signal });
         
         if (mapResult.links && mapResult.links.length > 0) {
           // Filter out URLs already discovered through search
@@ -684,6 +548,7 @@ export class FirecrawlClient {
           totalDiscovered += additionalUrls.length;
         }
       } catch (error) {
+        if (isAbortError(error)) throw error;
         console.error('Sitemap discovery failed:', error);
       }
 
@@ -700,6 +565,7 @@ export class FirecrawlClient {
       };
 
     } catch (error) {
+      if (isAbortError(error)) throw error;
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Website structure discovery failed'
@@ -708,10 +574,10 @@ export class FirecrawlClient {
   }
 
   /**
-   * Add delay between requests
+   * Add delay between requests, cut short if the run is cancelled
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return abortableDelay(ms, signal);
   }
 
   /**
@@ -719,10 +585,12 @@ export class FirecrawlClient {
    */
   private async retryWithBackoff<T>(
     fn: () => Promise<T>, 
+    signal?: AbortSignal,
     maxRetries = 2, // REDUCED: Fewer retries to fail faster
     baseDelay = 2000 // INCREASED: Longer base delay
   ): Promise<T> {
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+      throwIfAborted(signal);
       try {
         return await fn();
       } catch (error: any) {
@@ -738,7 +606,7 @@ export class FirecrawlClient {
                           baseDelay * Math.pow(2, attempt); // Exponential backoff
           
           console.log(`Rate limit hit, waiting ${waitTime}ms before retry ${attempt + 1}/${maxRetries}`);
-          await this.delay(waitTime);
+          await this.delay(waitTime, signal);
           continue;
         }
         
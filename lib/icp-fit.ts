@@ -0,0 +1,520 @@
+// ICP Fit Scoring
+// Answers "does this account fit?" for one prospect domain: read the
+// prospect's website and a few third-party pages, extract firmographic and
+// technographic signals backed by quotes that really appear on those pages,
+// then judge every criterion of every ICP profile against those signals.
+// Criteria without evidence are reported as unknown rather than guessed.
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { isAbortError, throwIfAborted } from './abort';
+import { ICP_FIT_CONFIG } from './config';
+import { FirecrawlClient } from './firecrawl';
+import { messageText } from './llm';
+import { normalizeDomain } from './multi-agent/company-enrichment';
+import { ICPProfile } from './multi-agent/types';
+import { DetectedTechnology, detectTechnologies, mergeDetections } from './technographics';
+
+export type FitCriterionKey = keyof typeof ICP_FIT_CONFIG.CRITERION_WEIGHTS;
+
+export type FitStatus = 'matched' | 'partial' | 'unmatched' | 'unknown';
+
+export type FitVerdict = 'strong' | 'moderate' | 'weak' | 'insufficient-data';
+
+// A quote from a page that was read while scoring
+export interface FitEvidence {
+  url: string;
+  quote: string;
+}
+
+export interface ProspectSignal {
+  value: string;
+  evidence: FitEvidence;
+}
+
+// What the prospect's pages say about it; fields without a verified quote are left out
+export interface ProspectSignals {
+  companyName?: string;
+  description?: string;
+  industry?: ProspectSignal;
+  employees?: ProspectSignal;
+  revenue?: ProspectSignal;
+  headquarters?: ProspectSignal;
+  markets?: ProspectSignal;
+  businessModel?: ProspectSignal;
+  fundingStage?: ProspectSignal;
+  growthStage?: ProspectSignal;
+  techStack: ProspectSignal[];
+}
+
+export interface FitCriterion {
+  key: FitCriterionKey;
+  label: string;
+  // What the profile asks for
+  expected: string;
+  // What the prospect's pages say, when they say anything
+  observed?: string;
+  status: FitStatus;
+  weight: number;
+  reason: string;
+  evidence: FitEvidence[];
+}
+
+export interface ICPFitScore {
+  profileId: string;
+  profileName: string;
+  // 0-100 over the criteria that have evidence
+  score: number;
+  verdict: FitVerdict;
+  // Share of the profile's criteria weight that had evidence (0-1)
+  coverage: number;
+  // The profile's own validation.confidence, for weighing the result
+  profileConfidence: number;
+  matched: FitCriterion[];
+  partial: FitCriterion[];
+  unmatched: FitCriterion[];
+  unknown: FitCriterion[];
+}
+
+export interface FitSource {
+  url: string;
+  title: string;
+  // The prospect's own site or a third-party page found by search
+  origin: 'website' | 'search';
+  text: string;
+  // Fingerprinted from the markup and headers of the prospect's own pages
+  technologies?: DetectedTechnology[];
+}
+
+export interface ICPFitResult {
+  domain: string;
+  signals: ProspectSignals;
+  // Best fit first
+  scores: ICPFitScore[];
+  sources: FitSource[];
+  scoredAt: string;
+}
+
+const CRITERION_LABELS: Record<FitCriterionKey, string> = {
+  industry: 'Industry',
+  companySize: 'Company size',
+  revenueRange: 'Revenue',
+  geography: 'Geography',
+  businessModel: 'Business model',
+  fundingStage: 'Funding stage',
+  growthStage: 'Growth stage',
+  techStack: 'Tech stack',
+};
+
+// The signals each text criterion is judged against
+const CRITERION_SIGNALS: Record<Exclude<FitCriterionKey, 'techStack'>, (keyof ProspectSignals)[]> = {
+  industry: ['industry'],
+  companySize: ['employees'],
+  revenueRange: ['revenue'],
+  geography: ['headquarters', 'markets'],
+  businessModel: ['businessModel'],
+  fundingStage: ['fundingStage'],
+  growthStage: ['growthStage'],
+};
+
+const SIGNAL_FIELDS = ['industry', 'employees', 'revenue', 'headquarters', 'markets', 'businessModel', 'fundingStage', 'growthStage'] as const;
+
+const CREDIT: Record<FitStatus, number> = { matched: 1, partial: 0.5, unmatched: 0, unknown: 0 };
+
+const text = z.preprocess(value => (value === null || value === undefined ? '' : value), z.coerce.string());
+
+const extractedSignalSchema = z.object({
+  value: text,
+  evidence: text,
+  url: text,
+}).nullable().optional();
+
+const extractionSchema = z.object({
+  companyName: text,
+  description: text,
+  industry: extractedSignalSchema,
+  employees: extractedSignalSchema,
+  revenue: extractedSignalSchema,
+  headquarters: extractedSignalSchema,
+  markets: extractedSignalSchema,
+  businessModel: extractedSignalSchema,
+  fundingStage: extractedSignalSchema,
+  growthStage: extractedSignalSchema,
+  techStack: z.array(z.object({ value: text, evidence: text, url: text })).nullable().optional(),
+});
+
+const judgementSchema = z.object({
+  judgements: z.array(z.object({
+    id: z.string(),
+    status: z.enum(['matched', 'partial', 'unmatched', 'unknown']).catch('unknown'),
+    reason: text,
+  })).default([]),
+});
+
+export class ICPFitScorer {
+  constructor(private firecrawl: FirecrawlClient, private llm: BaseChatModel) {}
+
+  /**
+   * Research a prospect and score it against every profile
+   */
+  async score(
+    domainOrUrl: string,
+    profiles: ICPProfile[],
+    options?: { signal?: AbortSignal; onProgress?: (message: string) => void }
+  ): Promise<ICPFitResult> {
+    const signal = options?.signal;
+    const domain = normalizeDomain(domainOrUrl);
+    if (!domain) throw new Error(`Not a valid domain: ${domainOrUrl}`);
+    if (profiles.length === 0) throw new Error('At least one ICP profile is required');
+
+    options?.onProgress?.(`Reading ${domain} and third-party profiles...`);
+    const sources = await this.gatherSources(domain, signal);
+    if (!sources.some(source => source.origin === 'website')) {
+      throw new Error(`Could not read ${domain} - check that the site is live`);
+    }
+
+    options?.onProgress?.(`Extracting firmographic and technographic signals from ${sources.length} pages...`);
+    const signals = await this.extractSignals(domain, sources, signal);
+
+    options?.onProgress?.(`Scoring ${domain} against ${profiles.length} ICP profile${profiles.length === 1 ? '' : 's'}...`);
+    const criteria = profiles.map(profile => buildCriteria(profile, signals));
+    await this.judgeCriteria(profiles, criteria, signals, signal);
+
+    const scores = profiles
+      .map((profile, index) => scoreProfile(profile, criteria[index]))
+      .sort((a, b) => b.score * b.coverage - a.score * a.coverage);
+
+    return { domain, signals, scores, sources, scoredAt: new Date().toISOString() };
+  }
+
+  private async gatherSources(domain: string, signal?: AbortSignal): Promise<FitSource[]> {
+    const homepage = await this.scrape(`https://${domain}`, 'website', signal);
+    const pages: FitSource[] = homepage ? [homepage] : [];
+
+    const extraUrls = homepage ? findSiteLinks(homepage, domain) : [];
+    const [sitePages, searchPages] = await Promise.all([
+      Promise.all(extraUrls.map(url => this.scrape(url, 'website', signal))),
+      this.searchProfiles(domain, signal),
+    ]);
+
+    for (const page of [...sitePages, ...searchPages]) {
+      if (page && !pages.some(existing => existing.url === page.url)) pages.push(page);
+    }
+    return pages;
+  }
+
+  private async scrape(url: string, origin: FitSource['origin'], signal?: AbortSignal): Promise<FitSource | undefined> {
+    try {
+      const result = await this.firecrawl.scrapeUrl(url, ICP_FIT_CONFIG.SCRAPE_TIMEOUT, signal);
+      const text = (result.markdown || '').trim();
+      if (!result.success || !text) return undefined;
+      const finalUrl = (result.metadata.url || result.metadata.sourceURL || url) as string;
+      const html = result.rawHtml || result.html;
+      const technologies = origin === 'website' && html
+        ? detectTechnologies({ url: finalUrl, html, headers: result.headers })
+        : undefined;
+      return { url: finalUrl, title: (result.metadata.title as string) || finalUrl, origin, text, technologies };
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      return undefined;
+    }
+  }
+
+  /**
+   * Third-party pages often state headcount, funding and revenue that the
+   * company's own site leaves out
+   */
+  private async searchProfiles(domain: string, signal?: AbortSignal): Promise<FitSource[]> {
+    try {
+      const results = await this.firecrawl.search(`"${domain}" company employees funding headquarters`, {
+        limit: ICP_FIT_CONFIG.SEARCH_RESULTS,
+        signal,
+      });
+      return results.data
+        .filter(result => (result.markdown || '').trim())
+        .map(result => ({ url: result.url, title: result.title || result.url, origin: 'search' as const, text: result.markdown.trim() }));
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      return [];
+    }
+  }
+
+  private async extractSignals(domain: string, sources: FitSource[], signal?: AbortSignal): Promise<ProspectSignals> {
+    const pageText = sources
+      .map(source => `URL: ${source.url}\nSource: ${source.origin === 'website' ? 'company website' : 'third-party page'}\nTitle: ${source.title}\n\n${source.text.slice(0, ICP_FIT_CONFIG.MAX_PAGE_CHARS)}`)
+      .join('\n\n---\n\n');
+
+    const response = await this.llm.invoke([
+      new SystemMessage(`You extract firmographic and technographic facts about one company from web pages.
+
+Return ONLY a JSON object (no markdown) with this shape:
+{
+  "companyName": "",
+  "description": "one sentence on what the company does",
+  ${SIGNAL_FIELDS.map(field => `"${field}": { "value": "", "evidence": "", "url": "" }`).join(',\n  ')},
+  "techStack": [{ "value": "", "evidence": "", "url": "" }]
+}
+
+Rules:
+- Only fill a field when a page states it. "evidence" must be an exact quote (under 200 characters) copied from the page given in "url".
+- Use null for any field the pages do not state. Never use outside knowledge.
+- Third-party pages only count when they are clearly about ${domain}.
+- employees: headcount or range. revenue: annual revenue. headquarters: city/country. markets: regions the company sells in.
+- businessModel: e.g. B2B SaaS, marketplace, services. fundingStage: e.g. Seed, Series B, public, bootstrapped. growthStage: e.g. startup, scale-up, mature.
+- techStack: technologies, platforms and integrations the company uses or builds on, one entry each.`),
+      new HumanMessage(`Company domain: ${domain}
+
+Pages:
+
+${pageText}`),
+    ], { signal });
+
+    const content = messageText(response.content).replace(/```json\n?|```/g, '').trim();
+    const parsed = extractionSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      throw new Error(`Prospect signals did not validate: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    const extraction = parsed.data;
+    // Fingerprinted technologies come first; the model only adds ones they missed
+    const signals: ProspectSignals = {
+      companyName: extraction.companyName || undefined,
+      description: extraction.description || undefined,
+      techStack: mergeDetections(sources.flatMap(source => source.technologies || [])).map(technology => ({
+        value: technology.name,
+        evidence: { url: technology.evidence[0].url, quote: technology.evidence[0].match },
+      })),
+    };
+    for (const field of SIGNAL_FIELDS) {
+      const supported = toSignal(extraction[field], sources);
+      if (supported) signals[field] = supported;
+    }
+    for (const tech of extraction.techStack || []) {
+      const supported = toSignal(tech, sources);
+      if (supported && !signals.techStack.some(existing => sameTech(existing.value, supported.value))) {
+        signals.techStack.push(supported);
+      }
+    }
+    return signals;
+  }
+
+  /**
+   * Judge the text criteria of all profiles in one call. Criteria without a
+   * signal stay unknown and are not sent.
+   */
+  private async judgeCriteria(
+    profiles: ICPProfile[],
+    criteria: FitCriterion[][],
+    signals: ProspectSignals,
+    signal?: AbortSignal
+  ): Promise<void> {
+    const pending = criteria.flatMap((list, profileIndex) => list
+      .map((criterion, criterionIndex) => ({ id: `${profileIndex}.${criterionIndex}`, criterion }))
+      .filter(({ criterion }) => criterion.key !== 'techStack' && criterion.observed !== undefined));
+    if (pending.length === 0) return;
+
+    throwIfAborted(signal);
+    const response = await this.llm.invoke([
+      new SystemMessage(`You judge whether a prospect company meets ICP criteria.
+
+For each criterion compare what the profile expects with what was observed about the prospect:
+- "matched": the observation satisfies the expectation (e.g. 450 employees vs "200-1000 employees").
+- "partial": it overlaps or is adjacent (e.g. fintech vs "financial services", 180 employees vs "200-1000").
+- "unmatched": it clearly contradicts the expectation.
+- "unknown": the observation does not say enough to judge.
+
+Return ONLY a JSON object (no markdown):
+{ "judgements": [{ "id": "", "status": "matched", "reason": "one short sentence" }] }`),
+      new HumanMessage(`Prospect: ${signals.companyName || 'unknown'}${signals.description ? ` - ${signals.description}` : ''}
+
+Criteria:
+${pending.map(({ id, criterion }) => `- id ${id} (${profiles[Number(id.split('.')[0])].name}) ${criterion.label}: expected "${criterion.expected}", observed "${criterion.observed}"`).join('\n')}`),
+    ], { signal });
+
+    const content = messageText(response.content).replace(/```json\n?|```/g, '').trim();
+    const parsed = judgementSchema.safeParse(JSON.parse(content));
+    const judgements = new Map((parsed.success ? parsed.data.judgements : []).map(judgement => [judgement.id, judgement]));
+
+    for (const { id, criterion } of pending) {
+      const judgement = judgements.get(id);
+      criterion.status = judgement?.status || 'unknown';
+      criterion.reason = judgement?.reason || 'The model did not judge this criterion';
+    }
+  }
+}
+
+/**
+ * Markdown report with [n] citations into the pages that were read, so the
+ * existing exports can render it
+ */
+export function formatICPFitReport(result: ICPFitResult): string {
+  const citation = (url: string) => {
+    const index = result.sources.findIndex(source => source.url === url);
+    return index >= 0 ? ` [${index + 1}]` : '';
+  };
+  const { signals } = result;
+  const lines = [`# ICP Fit: ${signals.companyName || result.domain}`, ''];
+
+  const best = result.scores[0];
+  if (best) {
+    lines.push(best.verdict === 'insufficient-data'
+      ? `**Not enough evidence for a verdict.** The pages read covered ${Math.round(best.coverage * 100)}% of the best profile's criteria.`
+      : `**Best fit: ${best.profileName} - ${best.score}/100 (${best.verdict} fit).**`, '');
+  }
+  if (signals.description) lines.push(signals.description, '');
+
+  lines.push('## Signals', '');
+  for (const field of SIGNAL_FIELDS) {
+    const value = signals[field];
+    if (value) lines.push(`- **${field}:** ${value.value}${citation(value.evidence.url)}`);
+  }
+  if (signals.techStack.length > 0) {
+    lines.push(`- **techStack:** ${signals.techStack.map(tech => `${tech.value}${citation(tech.evidence.url)}`).join(', ')}`);
+  }
+  lines.push('');
+
+  for (const score of result.scores) {
+    lines.push(
+      `## ${score.profileName}: ${score.score}/100`,
+      '',
+      `Verdict: ${score.verdict} - evidence for ${Math.round(score.coverage * 100)}% of criteria, profile confidence ${Math.round(score.profileConfidence * 100)}%`,
+      '',
+      '| Criterion | Expected | Observed | Result |',
+      '|-----------|----------|----------|--------|',
+    );
+    for (const criterion of [...score.matched, ...score.partial, ...score.unmatched, ...score.unknown]) {
+      const cites = Array.from(new Set(criterion.evidence.map(evidence => citation(evidence.url)))).join('');
+      lines.push(`| ${cell(criterion.label)} | ${cell(criterion.expected)} | ${cell(criterion.observed || '-')}${cites} | ${criterion.status}: ${cell(criterion.reason)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trim();
+}
+
+/**
+ * One-line reasons behind a profile's score, for spreadsheet exports
+ */
+export function fitRationale(score: ICPFitScore): string {
+  const groups: [string, FitCriterion[]][] = [
+    ['Matched', score.matched],
+    ['Partial', score.partial],
+    ['Not matched', score.unmatched],
+    ['No evidence', score.unknown],
+  ];
+  return groups
+    .filter(([, criteria]) => criteria.length > 0)
+    .map(([label, criteria]) => `${label}: ${criteria.map(criterion => criterion.observed ? `${criterion.label} (${criterion.observed})` : criterion.label).join(', ')}`)
+    .join('. ');
+}
+
+function buildCriteria(profile: ICPProfile, signals: ProspectSignals): FitCriterion[] {
+  const expected: Record<FitCriterionKey, string> = {
+    industry: profile.characteristics.industry,
+    companySize: profile.characteristics.companySize,
+    revenueRange: profile.characteristics.revenueRange,
+    geography: profile.characteristics.geographicFocus || profile.firmographics.geographicPresence,
+    businessModel: profile.characteristics.businessModel,
+    fundingStage: profile.firmographics.fundingStage,
+    growthStage: profile.firmographics.growthStage,
+    techStack: profile.technographics.currentTechStack.join(', '),
+  };
+
+  const criteria: FitCriterion[] = [];
+  for (const key of Object.keys(expected) as FitCriterionKey[]) {
+    if (!expected[key]?.trim()) continue;
+    const base = { key, label: CRITERION_LABELS[key], expected: expected[key], weight: ICP_FIT_CONFIG.CRITERION_WEIGHTS[key] };
+
+    if (key === 'techStack') {
+      criteria.push({ ...base, ...matchTechStack(profile.technographics.currentTechStack, signals.techStack) });
+      continue;
+    }
+
+    const observed = CRITERION_SIGNALS[key]
+      .map(field => signals[field] as ProspectSignal | undefined)
+      .filter((value): value is ProspectSignal => Boolean(value));
+    criteria.push(observed.length > 0
+      ? { ...base, observed: observed.map(value => value.value).join('; '), status: 'unknown', reason: '', evidence: observed.map(value => value.evidence) }
+      : { ...base, status: 'unknown', reason: 'No page read for this prospect states it', evidence: [] });
+  }
+  return criteria;
+}
+
+// Tech stacks are compared by name, so no model call is needed
+function matchTechStack(expected: string[], detected: ProspectSignal[]): Pick<FitCriterion, 'observed' | 'status' | 'reason' | 'evidence'> {
+  if (detected.length === 0) {
+    return { status: 'unknown', reason: 'No technologies found on the pages read', evidence: [] };
+  }
+
+  const hits = detected.filter(tech => expected.some(name => sameTech(name, tech.value)));
+  const matchedNames = expected.filter(name => hits.some(tech => sameTech(name, tech.value)));
+  const share = matchedNames.length / expected.length;
+  return {
+    observed: detected.map(tech => tech.value).join(', '),
+    status: share >= 0.5 ? 'matched' : share > 0 ? 'partial' : 'unmatched',
+    reason: matchedNames.length > 0
+      ? `Uses ${matchedNames.join(', ')} (${matchedNames.length} of ${expected.length} expected)`
+      : `None of the ${expected.length} expected technologies were found`,
+    evidence: hits.map(tech => tech.evidence),
+  };
+}
+
+function scoreProfile(profile: ICPProfile, criteria: FitCriterion[]): ICPFitScore {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const known = criteria.filter(criterion => criterion.status !== 'unknown');
+  const knownWeight = known.reduce((sum, criterion) => sum + criterion.weight, 0);
+  const earned = known.reduce((sum, criterion) => sum + criterion.weight * CREDIT[criterion.status], 0);
+
+  const score = knownWeight > 0 ? Math.round((earned / knownWeight) * 100) : 0;
+  const coverage = totalWeight > 0 ? Math.round((knownWeight / totalWeight) * 100) / 100 : 0;
+
+  return {
+    profileId: profile.id,
+    profileName: profile.name,
+    score,
+    verdict: coverage < ICP_FIT_CONFIG.MIN_COVERAGE
+      ? 'insufficient-data'
+      : score >= ICP_FIT_CONFIG.STRONG_FIT ? 'strong' : score >= ICP_FIT_CONFIG.MODERATE_FIT ? 'moderate' : 'weak',
+    coverage,
+    profileConfidence: profile.validation.confidence,
+    matched: criteria.filter(criterion => criterion.status === 'matched'),
+    partial: criteria.filter(criterion => criterion.status === 'partial'),
+    unmatched: criteria.filter(criterion => criterion.status === 'unmatched'),
+    unknown: criteria.filter(criterion => criterion.status === 'unknown'),
+  };
+}
+
+// Pages on the prospect's own site most likely to state firmographics or integrations
+function findSiteLinks(homepage: FitSource, domain: string): string[] {
+  const links = Array.from(homepage.text.matchAll(/\((https?:\/\/[^)\s]+)\)/g), match => match[1].replace(/[?#].*$/, ''))
+    .filter(link => normalizeDomain(link) === domain);
+  const about = links.find(link => /\/(about|about-us|company)\/?$/i.test(link)) || `https://${domain}/about`;
+  const integrations = links.find(link => /\/(integrations|technology|platform)\/?$/i.test(link));
+  return integrations ? [about, integrations] : [about];
+}
+
+// Keep a signal only when its quote appears on the page it claims to come from
+function toSignal(field: { value: string; evidence: string; url: string } | null | undefined, sources: FitSource[]): ProspectSignal | undefined {
+  if (!field?.value?.trim() || !field.evidence?.trim()) return undefined;
+  const quote = normalizeText(field.evidence);
+  const source = sources.find(candidate => candidate.url === field.url && normalizeText(candidate.text).includes(quote))
+    || sources.find(candidate => normalizeText(candidate.text).includes(quote));
+  if (!source) return undefined;
+  return { value: field.value.trim(), evidence: { url: source.url, quote: field.evidence.trim() } };
+}
+
+function sameTech(a: string, b: string): boolean {
+  const left = a.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const right = b.toLowerCase().replace(/[^a-z0-9]/g, '');
+  if (!left || !right) return false;
+  // Substring matches only for longer names, so "Go" does not match "Google"
+  return left === right || (Math.min(left.length, right.length) >= 4 && (left.includes(right) || right.includes(left)));
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[*_`#>[\]()]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function cell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
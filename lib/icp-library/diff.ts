@@ -0,0 +1,79 @@
+// Structured diff between two versions of an ICP profile
+import { ICPProfile } from '../multi-agent/types';
+import { ICPFieldChange } from './types';
+
+// Keys that change between runs without anyone editing the profile
+const IGNORED_KEYS = ['id', 'verification', 'source'];
+
+/**
+ * Field-by-field changes from `before` to `after`. String lists are compared
+ * as sets so reordering is not a change; target companies are matched by name.
+ */
+export function diffICPProfiles(before: ICPProfile, after: ICPProfile): ICPFieldChange[] {
+  const changes: ICPFieldChange[] = [];
+  diffValue(before, after, '', changes);
+  return changes;
+}
+
+function diffValue(before: unknown, after: unknown, path: string, changes: ICPFieldChange[]): void {
+  if (Array.isArray(before) || Array.isArray(after)) {
+    const left = Array.isArray(before) ? before : [];
+    const right = Array.isArray(after) ? after : [];
+    if ([...left, ...right].some(item => item && typeof item === 'object' && 'name' in item)) {
+      diffNamedList(left as { name: string }[], right as { name: string }[], path, changes);
+    } else {
+      diffStringList(left.map(String), right.map(String), path, changes);
+    }
+    return;
+  }
+
+  if (isRecord(before) || isRecord(after)) {
+    const left = isRecord(before) ? before : {};
+    const right = isRecord(after) ? after : {};
+    for (const key of new Set([...Object.keys(left), ...Object.keys(right)])) {
+      if (IGNORED_KEYS.includes(key)) continue;
+      diffValue(left[key], right[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+
+  const left = scalar(before);
+  const right = scalar(after);
+  if (left !== right && normalize(String(left ?? '')) !== normalize(String(right ?? ''))) {
+    changes.push({ path, kind: 'changed', before: left, after: right });
+  }
+}
+
+function diffStringList(before: string[], after: string[], path: string, changes: ICPFieldChange[]): void {
+  const beforeKeys = new Set(before.map(normalize));
+  const afterKeys = new Set(after.map(normalize));
+  const added = after.filter(item => item.trim() && !beforeKeys.has(normalize(item)));
+  const removed = before.filter(item => item.trim() && !afterKeys.has(normalize(item)));
+  if (added.length > 0 || removed.length > 0) {
+    changes.push({ path, kind: 'list', added, removed });
+  }
+}
+
+// Lists of named objects: report added and removed names, then diff the ones in both
+function diffNamedList(before: { name: string }[], after: { name: string }[], path: string, changes: ICPFieldChange[]): void {
+  diffStringList(before.map(item => item.name), after.map(item => item.name), path, changes);
+
+  const previous = new Map(before.map(item => [normalize(item.name), item]));
+  for (const item of after) {
+    const match = previous.get(normalize(item.name));
+    if (match) diffValue(match, item, `${path}.${item.name}`, changes);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+}
+
+function scalar(value: unknown): string | number | undefined {
+  if (value === null || value === undefined) return undefined;
+  return typeof value === 'number' ? value : String(value);
+}
+
+function normalize(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ICP_LIBRARY_CONFIG } from '../config';
+import { matchesSearch } from './search';
+import { ICPLibraryListOptions, ICPLibraryStore, SavedICPProfile } from './types';
+
+/**
+ * File-backed library: one JSON record per saved profile, holding its whole
+ * version history, rewritten atomically on every change.
+ */
+export class FileICPLibraryStore implements ICPLibraryStore {
+  private directory: string;
+
+  constructor(directory: string = ICP_LIBRARY_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get(id: string): Promise<SavedICPProfile | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(id), 'utf8')) as SavedICPProfile;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(entry: SavedICPProfile): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.recordPath(entry.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(entry), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.recordPath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(options: ICPLibraryListOptions = {}): Promise<SavedICPProfile[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const entries = await Promise.all(files
+      .filter(file => file.endsWith('.icp.json'))
+      .map(file => this.get(file.slice(0, -'.icp.json'.length))));
+
+    return entries
+      .filter((entry): entry is SavedICPProfile => Boolean(entry))
+      .filter(entry => matchesSearch(entry, options.search))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, options.limit || ICP_LIBRARY_CONFIG.MAX_ENTRIES_LISTED);
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.directory, `${safeId(id)}.icp.json`);
+  }
+}
+
+// Ids come from clients - keep them from escaping the directory
+function safeId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
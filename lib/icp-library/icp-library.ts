@@ -0,0 +1,175 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ICP_LIBRARY_CONFIG } from '../config';
+import { icpProfileSchema } from '../icp-profiles';
+import { ICPProfile } from '../multi-agent/types';
+import { diffICPProfiles } from './diff';
+import {
+  ICPLibraryListOptions,
+  ICPLibraryStore,
+  ICPProfileDiff,
+  ICPProfileVersion,
+  ICPVersionOrigin,
+  SavedICPProfile,
+  SavedICPProfileSummary,
+} from './types';
+
+/**
+ * Saved ICP profiles with version history. Every save, edit or restore adds
+ * a version; nothing is changed in place, so any two versions can be diffed.
+ */
+export class ICPLibrary {
+  private store: ICPLibraryStore;
+  // Serialize read-modify-write per profile so concurrent saves never drop a version
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(store: ICPLibraryStore) {
+    this.store = store;
+  }
+
+  /**
+   * Save a profile as a new library entry
+   */
+  async save(
+    profile: unknown,
+    options: { name?: string; description?: string; origin?: ICPVersionOrigin; note?: string } = {}
+  ): Promise<SavedICPProfile> {
+    const validated = parseProfile(profile);
+    const now = new Date().toISOString();
+    const entry: SavedICPProfile = {
+      id: uuidv4(),
+      name: options.name?.trim() || validated.name,
+      description: options.description?.trim() || undefined,
+      currentVersion: 1,
+      versions: [{ version: 1, profile: validated, origin: options.origin || 'run', note: options.note, createdAt: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.put(entry);
+    return entry;
+  }
+
+  async get(id: string): Promise<SavedICPProfile | undefined> {
+    return this.store.get(id);
+  }
+
+  async list(options?: ICPLibraryListOptions): Promise<SavedICPProfileSummary[]> {
+    const entries = await this.store.list(options);
+    return entries.map(({ versions, ...entry }) => ({
+      ...entry,
+      profile: currentProfile({ ...entry, versions }),
+      versionCount: versions.length,
+    }));
+  }
+
+  /**
+   * Current profiles of the given entries, in the order asked for. Unknown ids throw.
+   */
+  async getProfiles(ids: string[]): Promise<ICPProfile[]> {
+    return Promise.all(ids.map(async id => {
+      const entry = await this.store.get(id);
+      if (!entry) throw new Error(`Saved ICP profile ${id} not found`);
+      return currentProfile(entry);
+    }));
+  }
+
+  /**
+   * Add a version, e.g. a hand edit or the same segment from a re-run. A
+   * profile identical to the current version is not stored again.
+   */
+  async addVersion(
+    id: string,
+    profile: unknown,
+    options: { origin?: ICPVersionOrigin; note?: string } = {}
+  ): Promise<SavedICPProfile | undefined> {
+    const validated = parseProfile(profile);
+    return this.modify(id, entry => {
+      if (diffICPProfiles(currentProfile(entry), validated).length === 0) return entry;
+      return appendVersion(entry, validated, options.origin || 'edit', options.note);
+    });
+  }
+
+  /**
+   * Make an old version current again by copying it as a new version
+   */
+  async restore(id: string, version: number): Promise<SavedICPProfile | undefined> {
+    return this.modify(id, entry => {
+      const target = entry.versions.find(candidate => candidate.version === version);
+      if (!target) throw new Error(`Version ${version} of saved ICP profile ${id} not found`);
+      if (version === entry.currentVersion) return entry;
+      return appendVersion(entry, target.profile, 'restore', `Restored version ${version}`);
+    });
+  }
+
+  async rename(id: string, changes: { name?: string; description?: string }): Promise<SavedICPProfile | undefined> {
+    return this.modify(id, entry => ({
+      ...entry,
+      name: changes.name?.trim() || entry.name,
+      description: changes.description !== undefined ? changes.description.trim() || undefined : entry.description,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.withLock(id, () => this.store.delete(id));
+  }
+
+  /**
+   * Changes between two versions. Defaults to the previous version against the current one.
+   */
+  async diff(id: string, fromVersion?: number, toVersion?: number): Promise<ICPProfileDiff | undefined> {
+    const entry = await this.store.get(id);
+    if (!entry) return undefined;
+
+    const to = toVersion ?? entry.currentVersion;
+    const from = fromVersion ?? entry.versions[entry.versions.findIndex(version => version.version === to) - 1]?.version ?? to;
+    const before = findVersion(entry, from);
+    const after = findVersion(entry, to);
+    return { fromVersion: from, toVersion: to, changes: diffICPProfiles(before.profile, after.profile) };
+  }
+
+  private modify(id: string, change: (entry: SavedICPProfile) => SavedICPProfile): Promise<SavedICPProfile | undefined> {
+    return this.withLock(id, async () => {
+      const entry = await this.store.get(id);
+      if (!entry) return undefined;
+      const updated = change(entry);
+      if (updated !== entry) await this.store.put(updated);
+      return updated;
+    });
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const next = previous.then(task, task);
+    this.locks.set(key, next.catch(() => undefined));
+    return next;
+  }
+}
+
+function parseProfile(profile: unknown): ICPProfile {
+  const parsed = icpProfileSchema.safeParse(profile);
+  if (!parsed.success) {
+    throw new Error(`Invalid ICP profile: ${parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+function appendVersion(entry: SavedICPProfile, profile: ICPProfile, origin: ICPVersionOrigin, note?: string): SavedICPProfile {
+  const now = new Date().toISOString();
+  const version: ICPProfileVersion = { version: entry.currentVersion + 1, profile, origin, note, createdAt: now };
+  return {
+    ...entry,
+    currentVersion: version.version,
+    versions: [...entry.versions, version].slice(-ICP_LIBRARY_CONFIG.MAX_VERSIONS),
+    updatedAt: now,
+  };
+}
+
+function findVersion(entry: SavedICPProfile, version: number): ICPProfileVersion {
+  const found = entry.versions.find(candidate => candidate.version === version);
+  if (!found) throw new Error(`Version ${version} of saved ICP profile ${entry.id} not found`);
+  return found;
+}
+
+function currentProfile(entry: SavedICPProfile): ICPProfile {
+  return findVersion(entry, entry.currentVersion).profile;
+}
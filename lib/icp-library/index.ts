@@ -0,0 +1,33 @@
+// Saved ICP Library - named, versioned ICP profiles kept across sessions
+import { ICP_LIBRARY_CONFIG } from '../config';
+import { FileICPLibraryStore } from './file-store';
+import { ICPLibrary } from './icp-library';
+import { MemoryICPLibraryStore } from './memory-store';
+import { ICPLibraryStore } from './types';
+
+export * from './types';
+export { ICPLibrary } from './icp-library';
+export { MemoryICPLibraryStore } from './memory-store';
+export { FileICPLibraryStore } from './file-store';
+export { diffICPProfiles } from './diff';
+
+export function createICPLibraryStore(kind: string = process.env.ICP_LIBRARY_STORE || ICP_LIBRARY_CONFIG.STORE): ICPLibraryStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryICPLibraryStore();
+    case 'file':
+      return new FileICPLibraryStore(process.env.ICP_LIBRARY_DIR || ICP_LIBRARY_CONFIG.DIRECTORY);
+    default:
+      throw new Error(`Unknown ICP library store: ${kind}`);
+  }
+}
+
+// One library per server process so its write locks cover every route and action
+let sharedLibrary: ICPLibrary | undefined;
+
+export function getICPLibrary(): ICPLibrary {
+  if (!sharedLibrary) {
+    sharedLibrary = new ICPLibrary(createICPLibraryStore());
+  }
+  return sharedLibrary;
+}
@@ -0,0 +1,32 @@
+import { ICP_LIBRARY_CONFIG } from '../config';
+import { matchesSearch } from './search';
+import { ICPLibraryListOptions, ICPLibraryStore, SavedICPProfile } from './types';
+
+/**
+ * Process-local library. Profiles are lost on restart - use the file store
+ * to keep them.
+ */
+export class MemoryICPLibraryStore implements ICPLibraryStore {
+  private entries = new Map<string, SavedICPProfile>();
+
+  async get(id: string): Promise<SavedICPProfile | undefined> {
+    const entry = this.entries.get(id);
+    return entry ? structuredClone(entry) : undefined;
+  }
+
+  async put(entry: SavedICPProfile): Promise<void> {
+    this.entries.set(entry.id, structuredClone(entry));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.entries.delete(id);
+  }
+
+  async list(options: ICPLibraryListOptions = {}): Promise<SavedICPProfile[]> {
+    return Array.from(this.entries.values())
+      .filter(entry => matchesSearch(entry, options.search))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, options.limit || ICP_LIBRARY_CONFIG.MAX_ENTRIES_LISTED)
+      .map(entry => structuredClone(entry));
+  }
+}
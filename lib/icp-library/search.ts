@@ -0,0 +1,9 @@
+import { SavedICPProfile } from './types';
+
+export function matchesSearch(entry: SavedICPProfile, search?: string): boolean {
+  const needle = search?.trim().toLowerCase();
+  if (!needle) return true;
+  const current = entry.versions.find(version => version.version === entry.currentVersion)?.profile;
+  return [entry.name, entry.description || '', current?.characteristics.industry || '']
+    .some(value => value.toLowerCase().includes(needle));
+}
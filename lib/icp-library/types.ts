@@ -0,0 +1,64 @@
+// Saved ICP Library Types
+import type { ICPProfile } from '../multi-agent/types';
+
+// How a version came to exist
+export type ICPVersionOrigin = 'run' | 'edit' | 'restore';
+
+export interface ICPProfileVersion {
+  version: number;
+  profile: ICPProfile;
+  origin: ICPVersionOrigin;
+  // Free text, e.g. the query of the run the profile came from
+  note?: string;
+  createdAt: string;
+}
+
+export interface SavedICPProfile {
+  id: string;
+  name: string;
+  description?: string;
+  currentVersion: number;
+  // Oldest first
+  versions: ICPProfileVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// List entries leave out the version history
+export type SavedICPProfileSummary = Omit<SavedICPProfile, 'versions'> & {
+  profile: ICPProfile;
+  versionCount: number;
+};
+
+export interface ICPLibraryListOptions {
+  // Case-insensitive match on name, description and industry
+  search?: string;
+  limit?: number;
+}
+
+export interface ICPFieldChange {
+  // Dotted path into ICPProfile, e.g. psychographics.painPoints
+  path: string;
+  kind: 'changed' | 'list';
+  before?: string | number;
+  after?: string | number;
+  // Set for lists: entries only in the newer / older version
+  added?: string[];
+  removed?: string[];
+}
+
+export interface ICPProfileDiff {
+  fromVersion: number;
+  toVersion: number;
+  changes: ICPFieldChange[];
+}
+
+/**
+ * Persistence for saved profiles. Records are written whole.
+ */
+export interface ICPLibraryStore {
+  get(id: string): Promise<SavedICPProfile | undefined>;
+  put(entry: SavedICPProfile): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(options?: ICPLibraryListOptions): Promise<SavedICPProfile[]>;
+}
@@ -0,0 +1,216 @@
+// Structured ICP Profiles
+// Every ICP mode renders a markdown report for people. This module turns that
+// report (or the multi-agent engine's raw profiles) into validated ICPProfile
+// objects for downstream tooling, asking the model to repair invalid output.
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { throwIfAborted } from './abort';
+import { ICP_SCHEMA_CONFIG } from './config';
+import { messageText } from './llm';
+import { ICPProfile } from './multi-agent/types';
+
+// LLMs drop fields and mix up types, so missing values fall back to empty
+// ones and numbers given as strings are coerced
+const text = z.preprocess(value => (value === null || value === undefined ? '' : value), z.coerce.string());
+const textList = z.preprocess(
+  value => (typeof value === 'string' ? [value] : value ?? []),
+  z.array(z.coerce.string())
+);
+// Confidence is a 0-1 score; percentages are scaled down
+const confidence = z.preprocess(
+  value => (value === null || value === undefined ? 0 : value),
+  z.coerce.number().transform(score => (score > 1 ? score / 100 : score)).pipe(z.number().min(0).max(1))
+);
+
+const targetCompanySchema = z.object({
+  name: z.string().trim().min(1),
+  domain: text,
+  industry: text,
+  size: text,
+  location: text,
+  revenue: text,
+  funding: text,
+  techStack: textList,
+  reasoning: text,
+  confidence,
+  source: text,
+  // Website verification from company enrichment, passed through untouched
+  verification: z.object({
+    status: z.enum(['verified', 'partial', 'unverified']),
+    siteLive: z.boolean(),
+    nameMatches: z.boolean(),
+    industryMatches: z.boolean().optional(),
+    checkedUrls: z.array(z.string()),
+    provenance: z.record(z.object({
+      source: z.enum(['website', 'search', 'llm']),
+      url: z.string().optional(),
+      evidence: z.string().optional(),
+      corrected: z.boolean().optional(),
+      previousValue: z.string().optional(),
+    })),
+    issues: z.array(z.string()),
+    verifiedAt: z.string(),
+  }).optional(),
+});
+
+export const icpProfileSchema: z.ZodType<ICPProfile, z.ZodTypeDef, unknown> = z.object({
+  id: text,
+  name: z.string().trim().min(1),
+  priority: z.coerce.number().int().min(1),
+  characteristics: z.object({
+    industry: text,
+    companySize: text,
+    revenueRange: text,
+    geographicFocus: text,
+    businessModel: text,
+  }),
+  firmographics: z.object({
+    fundingStage: text,
+    growthStage: text,
+    marketPosition: text,
+    geographicPresence: text,
+  }).default({}),
+  technographics: z.object({
+    currentTechStack: textList,
+    technologyMaturity: text,
+    digitalTransformationStage: text,
+    integrationRequirements: textList,
+  }).default({}),
+  psychographics: z.object({
+    painPoints: textList,
+    buyingTriggers: textList,
+    decisionMakingProcess: text,
+    budgetAllocation: text,
+  }).default({}),
+  targetCompanies: z.array(targetCompanySchema).default([]),
+  validation: z.object({
+    marketSize: text,
+    competitionLevel: text,
+    salesVelocity: text,
+    revenuePotential: text,
+    confidence,
+  }).default({}),
+  insights: z.object({
+    keyDifferentiators: textList,
+    messagingResonance: textList,
+    valuePropositions: textList,
+    commonObjections: textList,
+    outreachStrategy: textList,
+  }).default({}),
+});
+
+export const icpProfilesSchema = z.array(icpProfileSchema).min(1, 'Expected at least one ICP profile');
+
+export interface StructuredICPResult {
+  profiles: ICPProfile[];
+  // LLM calls used: 0 when the given candidates were already valid
+  attempts: number;
+  // Validation problems left after the last attempt (profiles is empty then)
+  issues?: string[];
+}
+
+/**
+ * Validate profiles against the ICPProfile schema. Returns readable issues
+ * instead of throwing so they can be fed back to the model.
+ */
+export function validateICPProfiles(value: unknown): { profiles?: ICPProfile[]; issues: string[] } {
+  // Models sometimes wrap the array in an object
+  const candidate = value && typeof value === 'object' && !Array.isArray(value) && 'profiles' in value
+    ? (value as { profiles: unknown }).profiles
+    : value;
+
+  const parsed = icpProfilesSchema.safeParse(candidate);
+  if (!parsed.success) {
+    return {
+      issues: parsed.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+  }
+
+  const profiles = parsed.data
+    .map((profile, index) => ({ ...profile, id: profile.id || `icp-${index + 1}` }))
+    .sort((a, b) => a.priority - b.priority);
+  return { profiles, issues: [] };
+}
+
+/**
+ * Produce validated ICPProfile objects for a rendered ICP report. Candidates
+ * that already pass validation are returned as they are; otherwise the model
+ * extracts profiles from the report and is asked to fix its output until it
+ * validates or the repair attempts run out.
+ */
+export async function structureICPProfiles(
+  model: BaseChatModel,
+  report: string,
+  options: { candidates?: unknown; signal?: AbortSignal } = {}
+): Promise<StructuredICPResult> {
+  const { candidates, signal } = options;
+
+  if (candidates !== undefined) {
+    const existing = validateICPProfiles(candidates);
+    if (existing.profiles) return { profiles: existing.profiles, attempts: 0 };
+  }
+
+  const messages: BaseMessage[] = [
+    new SystemMessage(`You convert Ideal Customer Profile (ICP) reports into JSON.
+
+Return ONLY a JSON array (no markdown, no commentary) with one object per ICP profile in the report, using exactly this shape:
+${ICP_PROFILE_SHAPE}
+
+Rules:
+- Use only information stated in the report. Use "" or [] when the report does not say.
+- priority: 1 for the highest-priority ICP, then 2, 3, ...
+- confidence values are numbers between 0 and 1.
+- Include every target company listed for a profile.`),
+    new HumanMessage(`ICP report:\n\n${report.slice(0, ICP_SCHEMA_CONFIG.MAX_REPORT_CHARS)}`),
+  ];
+  if (candidates !== undefined) {
+    messages.push(new HumanMessage(`Draft profiles that need to be corrected into the required shape:\n${JSON.stringify(candidates).slice(0, ICP_SCHEMA_CONFIG.MAX_REPORT_CHARS)}`));
+  }
+
+  let issues: string[] = [];
+  const maxAttempts = 1 + ICP_SCHEMA_CONFIG.MAX_REPAIR_ATTEMPTS;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    throwIfAborted(signal);
+    const response = await model.invoke(messages, { signal });
+    const output = messageText(response.content);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stripCodeFences(output));
+      const result = validateICPProfiles(parsed);
+      if (result.profiles) return { profiles: result.profiles, attempts: attempt };
+      issues = result.issues;
+    } catch (error) {
+      issues = [`Output is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`];
+    }
+
+    // Repair: show the model its own output and what was wrong with it
+    messages.push(new AIMessage(output));
+    messages.push(new HumanMessage(`That output failed validation:\n- ${issues.slice(0, 20).join('\n- ')}\n\nReturn the corrected JSON array only.`));
+  }
+
+  return { profiles: [], attempts: maxAttempts, issues };
+}
+
+function stripCodeFences(content: string): string {
+  const trimmed = content.replace(/```(?:json)?\s*/g, '').replace(/```\s*$/g, '').trim();
+  // Drop any prose around the JSON document
+  const start = trimmed.search(/[[{]/);
+  const end = Math.max(trimmed.lastIndexOf(']'), trimmed.lastIndexOf('}'));
+  return start >= 0 && end > start ? trimmed.slice(start, end + 1) : trimmed;
+}
+
+const ICP_PROFILE_SHAPE = `{
+  "id": "icp-1",
+  "name": "Segment name",
+  "priority": 1,
+  "characteristics": { "industry": "", "companySize": "", "revenueRange": "", "geographicFocus": "", "businessModel": "" },
+  "firmographics": { "fundingStage": "", "growthStage": "", "marketPosition": "", "geographicPresence": "" },
+  "technographics": { "currentTechStack": [""], "technologyMaturity": "", "digitalTransformationStage": "", "integrationRequirements": [""] },
+  "psychographics": { "painPoints": [""], "buyingTriggers": [""], "decisionMakingProcess": "", "budgetAllocation": "" },
+  "targetCompanies": [{ "name": "", "domain": "", "industry": "", "size": "", "location": "", "revenue": "", "funding": "", "techStack": [""], "reasoning": "", "confidence": 0.8, "source": "" }],
+  "validation": { "marketSize": "", "competitionLevel": "", "salesVelocity": "", "revenuePotential": "", "confidence": 0.8 },
+  "insights": { "keyDifferentiators": [""], "messagingResonance": [""], "valuePropositions": [""], "commonObjections": [""], "outreachStrategy": [""] }
+}`;
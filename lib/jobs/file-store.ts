@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JOB_CONFIG } from '../config';
+import { SearchEvent } from '../langgraph-search-engine';
+import { JobListOptions, JobStore, ResearchJob } from './types';
+
+/**
+ * File-backed job store: one JSON record per job plus an append-only
+ * JSON-lines event log, so jobs and their history survive restarts.
+ */
+export class FileJobStore implements JobStore {
+  private directory: string;
+  // Serialize writes per job so record updates never interleave
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(directory: string = JOB_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  async create(job: ResearchJob): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.withLock(job.id, () => this.writeRecord(job));
+  }
+
+  async get(id: string): Promise<ResearchJob | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(id), 'utf8')) as ResearchJob;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async update(id: string, patch: Partial<ResearchJob>): Promise<ResearchJob | undefined> {
+    return this.withLock(id, async () => {
+      const job = await this.get(id);
+      if (!job) return undefined;
+      const updated = { ...job, ...patch, id };
+      await this.writeRecord(updated);
+      return updated;
+    });
+  }
+
+  async list(options: JobListOptions = {}): Promise<ResearchJob[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const jobs = await Promise.all(files
+      .filter(file => file.endsWith('.job.json'))
+      .map(file => this.get(file.slice(0, -'.job.json'.length))));
+
+    return jobs
+      .filter((job): job is ResearchJob => Boolean(job))
+      .filter(job => !options.status || job.status === options.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || JOB_CONFIG.MAX_JOBS_LISTED);
+  }
+
+  async appendEvents(id: string, events: SearchEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const lines = events.map(event => JSON.stringify(event)).join('\n') + '\n';
+    await this.withLock(`${id}:events`, () => fs.appendFile(this.eventsPath(id), lines, 'utf8'));
+  }
+
+  async getEvents(id: string, offset: number = 0, limit: number = JOB_CONFIG.EVENTS_PAGE_SIZE): Promise<SearchEvent[]> {
+    try {
+      const raw = await fs.readFile(this.eventsPath(id), 'utf8');
+      return raw
+        .split('\n')
+        .filter(Boolean)
+        .slice(offset, offset + limit)
+        .map(line => JSON.parse(line) as SearchEvent);
+    } catch {
+      return [];
+    }
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.directory, `${safeId(id)}.job.json`);
+  }
+
+  private eventsPath(id: string): string {
+    return path.join(this.directory, `${safeId(id)}.events.jsonl`);
+  }
+
+  private async writeRecord(job: ResearchJob): Promise<void> {
+    const target = this.recordPath(job.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job, null, 2), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const next = previous.then(task, task);
+    const tail = next.catch(() => undefined);
+    this.locks.set(key, tail);
+    // Drop the entry once the last queued write settles, so finished ids do not pile up
+    void tail.then(() => {
+      if (this.locks.get(key) === tail) this.locks.delete(key);
+    });
+    return next;
+  }
+}
+
+// Job ids come from clients - keep them from escaping the directory
+function safeId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
@@ -0,0 +1,33 @@
+// Research Jobs - background execution of long-running research runs
+import { JOB_CONFIG } from '../config';
+import { FileJobStore } from './file-store';
+import { JobQueue } from './job-queue';
+import { MemoryJobStore } from './memory-store';
+import { JobStore } from './types';
+
+export * from './types';
+export { JobQueue } from './job-queue';
+export type { SubmitJobOptions } from './job-queue';
+export { MemoryJobStore } from './memory-store';
+export { FileJobStore } from './file-store';
+
+export function createJobStore(kind: string = process.env.JOB_STORE || JOB_CONFIG.STORE): JobStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryJobStore();
+    case 'file':
+      return new FileJobStore(process.env.JOB_DIR || JOB_CONFIG.DIRECTORY);
+    default:
+      throw new Error(`Unknown job store: ${kind}`);
+  }
+}
+
+// One queue per server process so every route and action sees the same workers
+let sharedQueue: JobQueue | undefined;
+
+export function getJobQueue(): JobQueue {
+  if (!sharedQueue) {
+    sharedQueue = new JobQueue(createJobStore(), JOB_CONFIG.MAX_CONCURRENT_JOBS);
+  }
+  return sharedQueue;
+}
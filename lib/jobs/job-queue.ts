@@ -0,0 +1,247 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ResearchJobRequest, researchRunners, runResearch } from '../api/runners';
+import { createResearchCache } from '../cache';
+import { CitationReport } from '../citation-verification';
+import { FirecrawlClient } from '../firecrawl';
+import { ICPFitResult } from '../icp-fit';
+import { LangGraphSearchEngine, SearchEvent, SearchPhase } from '../langgraph-search-engine';
+import { ICPProfile } from '../multi-agent/types';
+import { ProviderName } from '../providers';
+import { createUsageLedger, RunUsage, UsageBudget } from '../usage';
+import { JobListOptions, JobProgress, JobStore, ResearchJob } from './types';
+
+// Rough completion estimate for each search phase
+export const PHASE_PROGRESS: Record<SearchPhase, number> = {
+  understanding: 5,
+  planning: 15,
+  searching: 35,
+  analyzing: 65,
+  synthesizing: 85,
+  complete: 100,
+  error: 100,
+};
+
+export interface SubmitJobOptions {
+  // Per-job Firecrawl key; held in memory only and never written to the store
+  apiKey?: string;
+}
+
+/**
+ * In-process worker pool for long-running research. Jobs run independently of
+ * the client that submitted them; status, progress and the event log are
+ * written to the store as the run advances.
+ */
+export class JobQueue {
+  private store: JobStore;
+  private maxConcurrent: number;
+  private pending: string[] = [];
+  private running = new Map<string, AbortController>();
+  private apiKeys = new Map<string, string>();
+  private ready: Promise<void>;
+
+  constructor(store: JobStore, maxConcurrent: number) {
+    this.store = store;
+    this.maxConcurrent = maxConcurrent;
+    this.ready = this.recover();
+  }
+
+  async submit(request: ResearchJobRequest, options: SubmitJobOptions = {}): Promise<ResearchJob> {
+    await this.ready;
+
+    const id = uuidv4();
+    const input: Record<string, unknown> = { ...request.input };
+    // Search jobs checkpoint under the job id so the session can be resumed later
+    if (request.kind === 'search' && !input.sessionId) {
+      input.sessionId = id;
+    }
+
+    const job: ResearchJob = {
+      id,
+      kind: request.kind,
+      status: 'queued',
+      input,
+      progress: { phase: 'understanding', percent: 0, message: 'Queued' },
+      eventCount: 0,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.store.create(job);
+    if (options.apiKey) this.apiKeys.set(id, options.apiKey);
+    this.pending.push(id);
+    this.pump();
+    return job;
+  }
+
+  async get(id: string): Promise<ResearchJob | undefined> {
+    await this.ready;
+    return this.store.get(id);
+  }
+
+  async list(options?: JobListOptions): Promise<ResearchJob[]> {
+    await this.ready;
+    return this.store.list(options);
+  }
+
+  async getEvents(id: string, offset?: number, limit?: number): Promise<SearchEvent[]> {
+    await this.ready;
+    return this.store.getEvents(id, offset, limit);
+  }
+
+  /**
+   * Cancel a queued or running job. Returns the updated job, or undefined if it does not exist.
+   */
+  async cancel(id: string): Promise<ResearchJob | undefined> {
+    await this.ready;
+    const job = await this.store.get(id);
+    if (!job) return undefined;
+    if (job.status !== 'queued' && job.status !== 'running') return job;
+
+    this.pending = this.pending.filter(pendingId => pendingId !== id);
+    this.running.get(id)?.abort();
+    this.apiKeys.delete(id);
+
+    return this.store.update(id, {
+      status: 'cancelled',
+      finishedAt: new Date().toISOString(),
+      progress: { ...job.progress, message: 'Cancelled' },
+    });
+  }
+
+  private async recover(): Promise<void> {
+    // Jobs that were mid-run when the process stopped cannot be continued in place
+    for (const job of await this.store.list({ status: 'running' })) {
+      await this.store.update(job.id, {
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+        finishedAt: new Date().toISOString(),
+      });
+    }
+
+    const queued = await this.store.list({ status: 'queued' });
+    this.pending.push(...queued.reverse().map(job => job.id));
+    this.pump();
+  }
+
+  private pump(): void {
+    while (this.running.size < this.maxConcurrent && this.pending.length > 0) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+
+      void this.execute(id, controller).finally(() => {
+        this.running.delete(id);
+        this.apiKeys.delete(id);
+        this.pump();
+      });
+    }
+  }
+
+  private async execute(id: string, controller: AbortController): Promise<void> {
+    const job = await this.store.get(id);
+    // cancel() may have landed while the job was read; it records the final state
+    if (!job || job.status !== 'queued' || controller.signal.aborted) return;
+
+    await this.store.update(id, {
+      status: 'running',
+      startedAt: new Date().toISOString(),
+      progress: { ...job.progress, message: 'Starting' },
+    });
+
+    let eventCount = 0;
+    let progress: JobProgress = job.progress;
+    let finalResult: Extract<SearchEvent, { type: 'final-result' }> | undefined;
+    let lastError: string | undefined;
+    let usage: RunUsage | undefined;
+    let icpProfiles: ICPProfile[] | undefined;
+    let icpFit: ICPFitResult | undefined;
+    let citationReport: CitationReport | undefined;
+    let writes: Promise<unknown> = Promise.resolve();
+
+    const emit = (event: SearchEvent) => {
+      if (controller.signal.aborted) return;
+
+      if (event.type === 'final-result') finalResult = event;
+      if (event.type === 'error') lastError = event.error;
+      if (event.type === 'cancelled') lastError = event.message;
+      if (event.type === 'icp-profiles') icpProfiles = event.profiles;
+      if (event.type === 'icp-fit') icpFit = event.result;
+      if (event.type === 'citation-report') citationReport = event.report;
+      if (event.type === 'phase-update') {
+        progress = { phase: event.phase, percent: PHASE_PROGRESS[event.phase], message: event.message };
+      }
+      // Streamed chunks are folded into the final result and usage totals are
+      // kept on the job record, so the log skips both
+      if (event.type === 'content-chunk') return;
+      if (event.type === 'usage') {
+        usage = event.usage;
+        return;
+      }
+
+      eventCount++;
+      const snapshot = { eventCount, progress, usage };
+      writes = writes
+        .then(() => this.store.appendEvents(id, [event]))
+        .then(() => this.store.update(id, snapshot))
+        .catch(error => console.error(`[JobQueue] Failed to record event for job ${id}:`, error));
+    };
+
+    try {
+      const cache = createResearchCache({ bypass: job.input.bypassCache === true });
+      const ledger = createUsageLedger(job.input.budget as UsageBudget | undefined);
+      const firecrawl = new FirecrawlClient(this.apiKeys.get(id), job.input.provider as ProviderName | undefined, cache, ledger);
+      const engine = new LangGraphSearchEngine(firecrawl, {
+        enableCheckpointing: researchRunners[job.kind].enableCheckpointing
+      });
+      engine.reportCacheHits(emit);
+      engine.reportUsage(emit);
+
+      // Inputs were validated against the runner schema on submit
+      await runResearch(job.kind, { input: job.input, engine, emit, signal: controller.signal });
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : 'Job failed';
+    }
+
+    await writes;
+    if (controller.signal.aborted) {
+      await this.keepCancelled(id);
+      return;
+    }
+
+    const finishedAt = new Date().toISOString();
+    if (finalResult) {
+      await this.store.update(id, {
+        status: 'completed',
+        finishedAt,
+        usage,
+        progress: { phase: 'complete', percent: 100, message: 'Complete' },
+        result: {
+          content: finalResult.content,
+          sources: finalResult.sources,
+          followUpQuestions: finalResult.followUpQuestions || [],
+          ...(icpProfiles ? { icpProfiles } : {}),
+          ...(icpFit ? { icpFit } : {}),
+          ...(citationReport ? { citationReport } : {}),
+        },
+      });
+    } else {
+      await this.store.update(id, {
+        status: 'failed',
+        finishedAt,
+        usage,
+        error: lastError || 'Run finished without a result',
+        progress: { ...progress, message: 'Failed' },
+      });
+    }
+  }
+
+  // cancel() records the final state, but its write can land before the 'running' one
+  private async keepCancelled(id: string): Promise<void> {
+    const job = await this.store.get(id);
+    if (!job || job.status === 'cancelled') return;
+    await this.store.update(id, {
+      status: 'cancelled',
+      finishedAt: job.finishedAt || new Date().toISOString(),
+      progress: { ...job.progress, message: 'Cancelled' },
+    });
+  }
+}
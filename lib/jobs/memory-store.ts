@@ -0,0 +1,47 @@
+import { JOB_CONFIG } from '../config';
+import { SearchEvent } from '../langgraph-search-engine';
+import { JobListOptions, JobStore, ResearchJob } from './types';
+
+/**
+ * Process-local job store. Jobs are lost on restart - use the file store
+ * when runs need to survive the server.
+ */
+export class MemoryJobStore implements JobStore {
+  private jobs = new Map<string, ResearchJob>();
+  private events = new Map<string, SearchEvent[]>();
+
+  async create(job: ResearchJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    this.events.set(job.id, []);
+  }
+
+  async get(id: string): Promise<ResearchJob | undefined> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : undefined;
+  }
+
+  async update(id: string, patch: Partial<ResearchJob>): Promise<ResearchJob | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    const updated = { ...job, ...patch, id };
+    this.jobs.set(id, updated);
+    return { ...updated };
+  }
+
+  async list(options: JobListOptions = {}): Promise<ResearchJob[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !options.status || job.status === options.status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || JOB_CONFIG.MAX_JOBS_LISTED)
+      .map(job => ({ ...job }));
+  }
+
+  async appendEvents(id: string, events: SearchEvent[]): Promise<void> {
+    const log = this.events.get(id);
+    if (log) log.push(...events);
+  }
+
+  async getEvents(id: string, offset: number = 0, limit: number = JOB_CONFIG.EVENTS_PAGE_SIZE): Promise<SearchEvent[]> {
+    return (this.events.get(id) || []).slice(offset, offset + limit);
+  }
+}
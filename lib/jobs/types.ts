@@ -0,0 +1,61 @@
+// Research Job Types
+import { ResearchKind } from '../api/runners';
+import { SearchEvent, SearchPhase, Source } from '../langgraph-search-engine';
+import { CitationReport } from '../citation-verification';
+import { ICPFitResult } from '../icp-fit';
+import { ICPProfile } from '../multi-agent/types';
+import { RunUsage } from '../usage';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  phase: SearchPhase;
+  percent: number;
+  message: string;
+}
+
+export interface JobResult {
+  content: string;
+  sources: Source[];
+  followUpQuestions: string[];
+  // Set for ICP runs
+  icpProfiles?: ICPProfile[];
+  // Set for ICP fit runs
+  icpFit?: ICPFitResult;
+  // Set when the answer's citations were checked
+  citationReport?: CitationReport;
+}
+
+export interface ResearchJob {
+  id: string;
+  kind: ResearchKind;
+  status: JobStatus;
+  input: Record<string, unknown>;
+  progress: JobProgress;
+  result?: JobResult;
+  error?: string;
+  // Token, credit and cost totals, updated while the job runs
+  usage?: RunUsage;
+  eventCount: number;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobListOptions {
+  status?: JobStatus;
+  limit?: number;
+}
+
+/**
+ * Persistence for jobs and their event logs. Implementations must keep
+ * events in append order so clients can page through them by index.
+ */
+export interface JobStore {
+  create(job: ResearchJob): Promise<void>;
+  get(id: string): Promise<ResearchJob | undefined>;
+  update(id: string, patch: Partial<ResearchJob>): Promise<ResearchJob | undefined>;
+  list(options?: JobListOptions): Promise<ResearchJob[]>;
+  appendEvents(id: string, events: SearchEvent[]): Promise<void>;
+  getEvents(id: string, offset?: number, limit?: number): Promise<SearchEvent[]>;
+}
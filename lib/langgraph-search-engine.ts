@@ -1,10 +1,21 @@
-import { StateGraph, END, START, Annotation, MemorySaver } from "@langchain/langgraph";
-import { ChatOpenAI } from "@langchain/openai";
+import { StateGraph, END, START, Annotation } from "@langchain/langgraph";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { FirecrawlClient } from './firecrawl';
 import { ContextProcessor } from './context-processor';
-import { SEARCH_CONFIG, CRAWL_CONFIG, MODEL_CONFIG } from './config';
-import { MultiAgentICPEngine, AgentEvent } from './multi-agent';
+import { SEARCH_CONFIG, CRAWL_CONFIG, CITATION_CONFIG } from './config';
+import { createChatModel, messageText } from './llm';
+import { FileCheckpointSaver, getCheckpointer } from './checkpointer';
+import { v4 as uuidv4 } from 'uuid';
+import { MultiAgentICPEngine, AgentEvent, ICPProfile } from './multi-agent';
+import { abortableDelay, isAbortError, throwIfAborted } from './abort';
+import { CacheOperation } from './cache';
+import { RunUsage, UsageLedger } from './usage';
+import { structureICPProfiles } from './icp-profiles';
+import { formatICPFitReport, ICPFitResult, ICPFitScorer } from './icp-fit';
+import { CitationReport, flaggedClaims, verifyCitations } from './citation-verification';
+import { domainsIn, filterByTimeRange, pageDates, scoreSources, selectForSynthesis, sourceDates, SourceCredibility } from './source-scoring';
+import { describeTimeRange, TimeRange } from './time-range';
 
 // Event types remain the same for frontend compatibility
 export type SearchPhase = 
@@ -26,7 +37,17 @@ export type SearchEvent =
   | { type: 'final-result'; content: string; sources: Source[]; followUpQuestions?: string[] }
   | { type: 'error'; error: string; errorType?: ErrorType }
   | { type: 'source-processing'; url: string; title: string; stage: 'browsing' | 'extracting' | 'analyzing' }
-  | { type: 'source-complete'; url: string; summary: string };
+  | { type: 'source-complete'; url: string; summary: string }
+  | { type: 'session'; sessionId: string; resumed: boolean }
+  | { type: 'cancelled'; message: string }
+  | { type: 'cache-hit'; operation: CacheOperation; label: string }
+  | { type: 'usage'; usage: RunUsage }
+  // Machine-readable profiles behind an ICP report; issues is set when validation failed
+  | { type: 'icp-profiles'; profiles: ICPProfile[]; attempts: number; issues?: string[] }
+  // Per-profile fit of one prospect, with the evidence behind every criterion
+  | { type: 'icp-fit'; result: ICPFitResult }
+  // Whether the sources cited in the final answer support each cited claim
+  | { type: 'citation-report'; report: CitationReport };
 
 export type ErrorType = 'search' | 'scrape' | 'llm' | 'unknown';
 
@@ -36,12 +57,15 @@ export interface Source {
   content?: string;
   quality?: number;
   summary?: string;
+  credibility?: SourceCredibility;
   metadata?: {
     intelligenceType?: string;
     discoveryMethod?: string;
     crawledAt?: string;
     structuredData?: unknown;
     discoveredUrls?: string[];
+    publishedTime?: string;
+    modifiedTime?: string;
   };
 }
 
@@ -75,6 +99,7 @@ export interface SearchResult {
   title: string;
   content?: string;
   markdown?: string;
+  metadata?: Record<string, unknown>;
 }
 
 export interface SearchStep {
@@ -95,6 +120,10 @@ const SearchStateAnnotation = Annotation.Root({
     reducer: (_, y) => y,
     default: () => undefined
   }),
+  timeRange: Annotation<TimeRange | undefined>({
+    reducer: (x, y) => y ?? x,
+    default: () => undefined
+  }),
   
   // Process fields
   understanding: Annotation<string | undefined>({
@@ -142,6 +171,15 @@ const SearchStateAnnotation = Annotation.Root({
     reducer: (x, y) => y ?? x,
     default: () => undefined
   }),
+  citationReport: Annotation<CitationReport | undefined>({
+    reducer: (x, y) => y ?? x,
+    default: () => undefined
+  }),
+  // Set when the usage budget ended gathering early; shown above the answer
+  budgetNote: Annotation<string | undefined>({
+    reducer: (x, y) => y ?? x,
+    default: () => undefined
+  }),
   
   // Answer tracking
   subQueries: Annotation<Array<{
@@ -190,52 +228,64 @@ interface GraphConfig {
   configurable?: {
     eventCallback?: (event: SearchEvent) => void;
     checkpointId?: string;
+    thread_id?: string;
   };
+  // Set on invoke; LangGraph hands it to every node so they can stop their own calls
+  signal?: AbortSignal;
 }
 
 export class LangGraphSearchEngine {
   private firecrawl: FirecrawlClient;
   private contextProcessor: ContextProcessor;
   private graph: ReturnType<typeof this.buildGraph>;
-  private llm: ChatOpenAI;
-  private streamingLlm: ChatOpenAI;
-  private checkpointer?: MemorySaver;
+  private llm: BaseChatModel;
+  private streamingLlm: BaseChatModel;
+  private checkpointer?: FileCheckpointSaver;
   private multiAgentEngine?: MultiAgentICPEngine;
+  private usage?: UsageLedger;
 
   constructor(firecrawl: FirecrawlClient, options?: { enableCheckpointing?: boolean }) {
     this.firecrawl = firecrawl;
-    this.contextProcessor = new ContextProcessor();
-    
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    
-    // Initialize LangChain models
-    this.llm = new ChatOpenAI({
-      modelName: MODEL_CONFIG.FAST_MODEL,
-      temperature: MODEL_CONFIG.TEMPERATURE,
-      openAIApiKey: apiKey,
-    });
+    this.usage = firecrawl.usage;
+    this.contextProcessor = new ContextProcessor(firecrawl.cache, this.usage);
     
-    this.streamingLlm = new ChatOpenAI({
-      modelName: MODEL_CONFIG.QUALITY_MODEL,
-      temperature: MODEL_CONFIG.TEMPERATURE,
-      streaming: true,
-      openAIApiKey: apiKey,
-    });
+    // Initialize LangChain models from the role assignments in LLM_CONFIG
+    this.llm = createChatModel('fast', { usage: this.usage });
+    this.streamingLlm = createChatModel('quality', { streaming: true, usage: this.usage });
 
-    // Enable checkpointing if requested
+    // Enable durable checkpointing if requested so interrupted runs can be resumed
     if (options?.enableCheckpointing) {
-      this.checkpointer = new MemorySaver();
+      this.checkpointer = getCheckpointer();
     }
     
-    // Initialize multi-agent engine
-    this.multiAgentEngine = new MultiAgentICPEngine(this.llm, this.streamingLlm);
+    // Initialize multi-agent engine - agents run on the agent role, streamed synthesis on the quality role
+    this.multiAgentEngine = new MultiAgentICPEngine(createChatModel('agent', { usage: this.usage }), this.streamingLlm, undefined, firecrawl);
     
     this.graph = this.buildGraph();
   }
 
+  /**
+   * Forward research cache hits to onEvent as cache-hit events.
+   * Returns a function that stops reporting.
+   */
+  reportCacheHits(onEvent: (event: SearchEvent) => void): () => void {
+    if (!this.firecrawl.cache) return () => {};
+    return this.firecrawl.cache.onHit(hit => onEvent({
+      type: 'cache-hit',
+      operation: hit.operation,
+      label: hit.label,
+    }));
+  }
+
+  /**
+   * Stream the run's token, credit and cost totals to onEvent as usage events
+   * whenever they change. Returns a function that stops reporting.
+   */
+  reportUsage(onEvent: (event: SearchEvent) => void): () => void {
+    if (!this.usage) return () => {};
+    return this.usage.onChange(usage => onEvent({ type: 'usage', usage }));
+  }
+
   // Company Research: Deep analysis of target company only (NO ICP creation)
   async analyzeCompanyIntelligence(
     url: string,
@@ -244,8 +294,12 @@ export class LangGraphSearchEngine {
       intelligenceTypes?: ('pricing' | 'team' | 'customers' | 'products' | 'competitors')[];
       includeCompetitorAnalysis?: boolean;
       context?: { query: string; response: string }[];
+      signal?: AbortSignal;
     }
   ): Promise<void> {
+    const callerSignal = options?.signal;
+    // Only gathering stops at the budget; the report is still written from what was found
+    const signal = this.withBudget(callerSignal);
     try {
       onEvent({ type: 'phase-update', phase: 'understanding', message: 'Initializing comprehensive company research...' });
       
@@ -256,8 +310,8 @@ export class LangGraphSearchEngine {
       // Phase 1: Website Structure Discovery
       onEvent({ type: 'phase-update', phase: 'planning', message: 'Mapping website architecture and discovering intelligence sources...' });
       
-      const siteMap = await this.firecrawl.mapWebsiteStructure(url);
-      if (siteMap.success) {
+      const siteMap = await this.untilBudget(this.firecrawl.mapWebsiteStructure(url, signal), callerSignal);
+      if (siteMap?.success) {
         const { categorizedUrls, totalUrls } = siteMap;
         onEvent({ 
           type: 'thinking', 
@@ -272,21 +326,23 @@ export class LangGraphSearchEngine {
       const allSources: Source[] = [];
 
       for (const type of intelligenceTypes) {
+        if (this.stoppedByBudget(callerSignal)) break;
         onEvent({ type: 'thinking', message: `🔍 Phase ${intelligenceTypes.indexOf(type) + 1}/${intelligenceTypes.length}: Gathering ${type} intelligence...` });
         
-        const intelligence = await this.firecrawl.gatherWebsiteIntelligence(url, type);
+        const intelligence = await this.untilBudget(this.firecrawl.gatherWebsiteIntelligence(url, type, signal), callerSignal);
+        if (!intelligence) break;
         
         if (intelligence.success && intelligence.rawData) {
           const sources = intelligence.rawData.map((page: CrawledPage) => ({
             url: page.url,
             title: page.title || `${domain} - ${type.toUpperCase()}`,
             content: page.markdown || '',
-            quality: 0.9,
             summary: `${type} intelligence extracted via comprehensive crawling`,
             metadata: {
               intelligenceType: type,
               structuredData: intelligence.structuredData,
-              crawlSummary: intelligence.summary
+              crawlSummary: intelligence.summary,
+              ...pageDates(page.metadata)
             }
           }));
           
@@ -310,11 +366,11 @@ export class LangGraphSearchEngine {
       }
 
       // Phase 3: Competitor Landscape Analysis (if requested)
-      if (options?.includeCompetitorAnalysis) {
+      if (options?.includeCompetitorAnalysis && !this.stoppedByBudget(callerSignal)) {
         onEvent({ type: 'phase-update', phase: 'analyzing', message: 'Analyzing competitive landscape and market positioning...' });
         
         try {
-          const competitorAnalysis = await this.firecrawl.gatherWebsiteIntelligence(url, 'competitors');
+          const competitorAnalysis = await this.firecrawl.gatherWebsiteIntelligence(url, 'competitors', signal);
           
           if (competitorAnalysis.success) {
             // Include the competitive intelligence in our sources
@@ -322,8 +378,8 @@ export class LangGraphSearchEngine {
               url: page.url,
               title: page.title || `${domain} - Competitive Intelligence`,
               content: page.markdown || '',
-              quality: 0.95,
-              summary: 'Competitive positioning and market analysis'
+              summary: 'Competitive positioning and market analysis',
+              metadata: pageDates(page.metadata)
             }));
             
             allSources.push(...competitorSources);
@@ -333,6 +389,7 @@ export class LangGraphSearchEngine {
             });
           }
         } catch {
+          throwIfAborted(callerSignal);
           onEvent({ 
             type: 'thinking', 
             message: `⚠️ Competitor analysis encountered limitations - focusing on direct intelligence` 
@@ -349,12 +406,21 @@ export class LangGraphSearchEngine {
         onEvent({ type: 'content-chunk', chunk });
       };
 
-      const finalReport = await this.generateCompanyResearchReport(query, allSources, contentCb, options?.context);
+      const reportSources = selectForSynthesis(scoreSources(allSources, { firstPartyDomains: [domain] }));
+      const overBudget = this.stoppedByBudget(callerSignal);
+      const note = overBudget ? this.budgetNote(reportSources.length) : '';
+      if (overBudget) {
+        onEvent({ type: 'thinking', message: `${this.usage?.budgetMessage}. Writing the report from the ${reportSources.length} sources gathered so far.` });
+        contentCb(note);
+      }
+      const report = await this.generateCompanyResearchReport(query, reportSources, contentCb, options?.context, callerSignal);
+      const finalReport = note + report;
+      if (!overBudget) await this.emitCitationReport(finalReport, reportSources, onEvent, callerSignal);
 
       onEvent({ 
         type: 'final-result', 
         content: finalReport, 
-        sources: allSources,
+        sources: reportSources,
         followUpQuestions: [
           `Analyze customer case studies to create ICP profiles`,
           `Generate 3 specific ICP cards with target companies`,
@@ -365,6 +431,7 @@ export class LangGraphSearchEngine {
       onEvent({ type: 'phase-update', phase: 'complete', message: `Company research complete: ${allSources.length} sources analyzed` });
       
     } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
       onEvent({
         type: 'error',
         error: error instanceof Error ? error.message : 'Website intelligence analysis failed',
@@ -381,8 +448,10 @@ export class LangGraphSearchEngine {
     options?: { 
       companyResearchData?: Source[];
       context?: { query: string; response: string }[];
+      signal?: AbortSignal;
     }
   ): Promise<void> {
+    const signal = this.withBudget(options?.signal);
     try {
       const domain = new URL(companyUrl).hostname.replace('www.', '');
       
@@ -405,7 +474,8 @@ export class LangGraphSearchEngine {
       };
 
       // Direct smart ICP generation without additional API calls
-      const smartICPReport = await this.generateDirectSmartICP(query, allSources, contentCb, options?.context, domain);
+      const smartICPReport = await this.generateDirectSmartICP(query, allSources, contentCb, options?.context, domain, signal);
+      await this.emitStructuredICPProfiles(smartICPReport, onEvent, signal);
 
       onEvent({ 
         type: 'final-result', 
@@ -421,6 +491,7 @@ export class LangGraphSearchEngine {
       onEvent({ type: 'phase-update', phase: 'complete', message: `🎯 ICP analysis complete: 3 validated profiles created` });
       
     } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
       onEvent({
         type: 'error',
         error: error instanceof Error ? error.message : 'ICP analysis failed',
@@ -437,8 +508,10 @@ export class LangGraphSearchEngine {
     options?: { 
       context?: { query: string; response: string }[];
       useMultiAgent?: boolean;
+      signal?: AbortSignal;
     }
   ): Promise<void> {
+    const signal = this.withBudget(options?.signal);
     try {
       if (!this.multiAgentEngine) {
         throw new Error('Multi-agent engine not initialized');
@@ -510,7 +583,8 @@ export class LangGraphSearchEngine {
         (chunk: string) => {
           onEvent({ type: 'content-chunk', chunk });
         },
-        onProgress
+        onProgress,
+        signal
       );
 
       onEvent({ type: 'phase-update', phase: 'synthesizing', message: '🎯 ICP Synthesis Agent: Creating comprehensive profiles...' });
@@ -518,6 +592,8 @@ export class LangGraphSearchEngine {
 
       // Format the results
       const resultsText = this.formatMultiAgentICPResults(icpProfiles, agentEvents);
+      // The agents' profiles are validated as-is and only re-extracted when they fail the schema
+      await this.emitStructuredICPProfiles(resultsText, onEvent, signal, icpProfiles);
       
       onEvent({ 
         type: 'final-result', 
@@ -536,6 +612,7 @@ export class LangGraphSearchEngine {
       onEvent({ type: 'thinking', message: `📊 Analysis Summary: ${agentEvents.length} agent interactions, ${sources.length} sources processed` });
       
     } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
       onEvent({
         type: 'error',
         error: error instanceof Error ? error.message : 'Multi-agent ICP analysis failed',
@@ -548,7 +625,8 @@ export class LangGraphSearchEngine {
     query: string,
     sources: Source[],
     onChunk: (chunk: string) => void,
-    context?: { query: string; response: string }[]
+    context?: { query: string; response: string }[],
+    signal?: AbortSignal
   ): Promise<string> {
     const sourcesText = sources
       .map((s, i) => {
@@ -675,19 +753,21 @@ Formatting:
     let fullText = '';
     
     try {
-      const stream = await this.streamingLlm.stream(messages);
+      const stream = await this.streamingLlm.stream(messages, { signal });
       
       for await (const chunk of stream) {
-        const content = chunk.content;
-        if (typeof content === 'string') {
+        const content = messageText(chunk.content);
+        if (content) {
           fullText += content;
           onChunk(content);
         }
       }
     } catch {
+      // Never fall back once the run has been stopped
+      throwIfAborted(signal);
       // Fallback to non-streaming if streaming fails
-      const response = await this.llm.invoke(messages);
-      fullText = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      fullText = messageText(response.content);
       onChunk(fullText);
     }
     
@@ -700,7 +780,8 @@ Formatting:
     sources: Source[],
     onChunk: (chunk: string) => void,
     context?: { query: string; response: string }[],
-    domain?: string
+    domain?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const sourcesText = sources
       .map((s, i) => {
@@ -892,19 +973,21 @@ CRITICAL REQUIREMENTS:
     let fullText = '';
     
     try {
-      const stream = await this.streamingLlm.stream(messages);
+      const stream = await this.streamingLlm.stream(messages, { signal });
       
       for await (const chunk of stream) {
-        const content = chunk.content;
-        if (typeof content === 'string') {
+        const content = messageText(chunk.content);
+        if (content) {
           fullText += content;
           onChunk(content);
         }
       }
     } catch {
+      // Never fall back once the run has been stopped
+      throwIfAborted(signal);
       // Fallback to non-streaming if streaming fails
-      const response = await this.llm.invoke(messages);
-      fullText = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      fullText = messageText(response.content);
       onChunk(fullText);
     }
     
@@ -917,7 +1000,8 @@ CRITICAL REQUIREMENTS:
     sources: Source[],
     onChunk: (chunk: string) => void,
     context?: { query: string; response: string }[],
-    domain?: string
+    domain?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const sourcesText = sources
       .map((s, i) => {
@@ -1033,19 +1117,21 @@ CRITICAL REQUIREMENTS:
     let fullText = '';
     
     try {
-      const stream = await this.streamingLlm.stream(messages);
+      const stream = await this.streamingLlm.stream(messages, { signal });
       
       for await (const chunk of stream) {
-        const content = chunk.content;
-        if (typeof content === 'string') {
+        const content = messageText(chunk.content);
+        if (content) {
           fullText += content;
           onChunk(content);
         }
       }
     } catch {
+      // Never fall back once the run has been stopped
+      throwIfAborted(signal);
       // Fallback to non-streaming
-      const response = await this.llm.invoke(messages);
-      fullText = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      fullText = messageText(response.content);
       onChunk(fullText);
     }
     
@@ -1058,7 +1144,8 @@ CRITICAL REQUIREMENTS:
     sources: Source[],
     onChunk: (chunk: string) => void,
     context?: { query: string; response: string }[],
-    domain?: string
+    domain?: string,
+    signal?: AbortSignal
   ): Promise<string> {
     const sourcesText = sources
       .map((s, i) => {
@@ -1168,32 +1255,89 @@ CRITICAL: Only output ICPs scoring 42/70 or higher. If an ICP scores below this
     let fullText = '';
     
     try {
-      const stream = await this.streamingLlm.stream(messages);
+      const stream = await this.streamingLlm.stream(messages, { signal });
       
       for await (const chunk of stream) {
-        const content = chunk.content;
-        if (typeof content === 'string') {
+        const content = messageText(chunk.content);
+        if (content) {
           fullText += content;
           onChunk(content);
         }
       }
     } catch {
+      // Never fall back once the run has been stopped
+      throwIfAborted(signal);
       // Fallback to non-streaming
-      const response = await this.llm.invoke(messages);
-      fullText = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      fullText = messageText(response.content);
       onChunk(fullText);
     }
     
     return fullText;
   }
 
+  // ICP Fit: score one prospect domain against existing ICP profiles
+  async scoreICPFit(
+    url: string,
+    profiles: ICPProfile[],
+    onEvent: (event: SearchEvent) => void,
+    options?: { signal?: AbortSignal }
+  ): Promise<void> {
+    const signal = this.withBudget(options?.signal);
+    try {
+      onEvent({ type: 'phase-update', phase: 'understanding', message: `Scoring ${url} against ${profiles.length} ICP profiles...` });
+
+      const scorer = new ICPFitScorer(this.firecrawl, this.llm);
+      const result = await scorer.score(url, profiles, {
+        signal,
+        onProgress: (message) => {
+          const phase: SearchPhase = message.startsWith('Reading') ? 'searching' : message.startsWith('Extracting') ? 'analyzing' : 'synthesizing';
+          onEvent({ type: 'phase-update', phase, message });
+        },
+      });
+
+      onEvent({ type: 'icp-fit', result });
+      const best = result.scores[0];
+      onEvent({
+        type: 'thinking',
+        message: `🎯 Best fit: ${best.profileName} at ${best.score}/100 (${best.verdict}) from ${result.sources.length} pages`,
+      });
+
+      onEvent({
+        type: 'final-result',
+        content: formatICPFitReport(result),
+        sources: result.sources.map(source => ({
+          url: source.url,
+          title: source.title,
+          content: source.text,
+          quality: source.origin === 'website' ? 1 : 0.7,
+        })),
+        followUpQuestions: [
+          `Run full company research on ${result.domain}`,
+          'Find the missing signals for unknown criteria',
+          'Draft outreach for the best-fit profile',
+        ],
+      });
+
+      onEvent({ type: 'phase-update', phase: 'complete', message: `ICP fit scored for ${result.domain}` });
+    } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
+      onEvent({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'ICP fit scoring failed',
+        errorType: 'unknown',
+      });
+    }
+  }
+
   // Enhanced: Analyze dossier + conduct targeted website crawling for ICP research
   async analyzeDossier(
     dossierText: string,
     onEvent: (event: SearchEvent) => void,
-    options?: { query?: string; context?: { query: string; response: string }[] }
+    options?: { query?: string; context?: { query: string; response: string }[]; signal?: AbortSignal }
   ): Promise<void> {
     const query = options?.query || 'Deep ICP analysis with targeted website crawling';
+    const signal = this.withBudget(options?.signal);
 
     try {
       // Phase 1: Extract competitors and targets from dossier
@@ -1210,7 +1354,7 @@ CRITICAL: Only output ICPs scoring 42/70 or higher. If an ICP scores below this
 
       // Extract competitor websites and target domains from dossier
       onEvent({ type: 'phase-update', phase: 'planning', message: 'Identifying competitor websites for targeted crawling…' });
-      const competitorData = await this.extractCompetitorWebsites(dossierText);
+      const competitorData = await this.extractCompetitorWebsites(dossierText, signal);
       
       onEvent({ type: 'thinking', message: `Found ${competitorData.competitors.length} competitors for deep crawling: ${competitorData.competitors.slice(0, 3).join(', ')}${competitorData.competitors.length > 3 ? '...' : ''}` });
 
@@ -1240,11 +1384,11 @@ CRITICAL: Only output ICPs scoring 42/70 or higher. If an ICP scores below this
         
         // Add delay between competitor crawls to prevent rate limits
         if (i > 0) {
-          await new Promise(resolve => setTimeout(resolve, CRAWL_CONFIG.COMPETITOR_CRAWL_DELAY));
+          await abortableDelay(CRAWL_CONFIG.COMPETITOR_CRAWL_DELAY, signal);
         }
         
         try {
-          const crawledSources = await this.crawlCompetitorWebsite(domain, onEvent);
+          const crawledSources = await this.crawlCompetitorWebsite(domain, onEvent, signal);
           allSources.push(...crawledSources);
           
           onEvent({ type: 'found', sources: crawledSources, query: `${domain} website crawl` });
@@ -1253,6 +1397,7 @@ CRITICAL: Only output ICPs scoring 42/70 or higher. If an ICP scores below this
           consecutiveRateLimitErrors = 0;
           
         } catch (error) {
+          throwIfAborted(signal);
           const isRateLimit = error instanceof Error && 
                              (error.message.includes('Rate limit') || error.message.includes('429'));
           
@@ -1282,12 +1427,16 @@ CRITICAL: Only output ICPs scoring 42/70 or higher. If an ICP scores below this
         onEvent({ type: 'content-chunk', chunk });
       };
 
-      const finalText = await this.generateStreamingAnswer(query, allSources, contentCb, options?.context);
+      const answerSources = selectForSynthesis(scoreSources(allSources, { firstPartyDomains: competitorData.competitors }));
+      const finalText = await this.generateStreamingAnswer(query, answerSources, contentCb, options?.context, signal);
+      await this.emitStructuredICPProfiles(finalText, onEvent, signal);
+      await this.emitCitationReport(finalText, answerSources, onEvent, signal);
 
-      onEvent({ type: 'final-result', content: finalText, sources: allSources });
+      onEvent({ type: 'final-result', content: finalText, sources: answerSources });
       onEvent({ type: 'phase-update', phase: 'complete', message: 'Deep ICP research with website crawling complete.' });
       
     } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
       onEvent({
         type: 'error',
         error: error instanceof Error ? error.message : 'ICP analysis with crawling failed',
@@ -1297,7 +1446,7 @@ CRITICAL: Only output ICPs scoring 42/70 or higher. If an ICP scores below this
   }
 
   // Extract competitor websites from dossier text
-  private async extractCompetitorWebsites(dossierText: string): Promise<{ competitors: string[]; targets: string[] }> {
+  private async extractCompetitorWebsites(dossierText: string, signal?: AbortSignal): Promise<{ competitors: string[]; targets: string[] }> {
     try {
       const messages = [
         new SystemMessage(`Extract competitor websites and target company domains from this research dossier.
@@ -1316,8 +1465,8 @@ Focus on extracting clean domains (example.com format) from the text.`),
         new HumanMessage(`Research dossier to analyze:\n\n${dossierText.slice(0, 8000)}`)
       ];
 
-      const response = await this.llm.invoke(messages);
-      let content = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      let content = messageText(response.content);
       
       // Strip markdown code blocks if present
       content = content.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim();
@@ -1329,13 +1478,14 @@ Focus on extracting clean domains (example.com format) from the text.`),
         targets: result.targets || []
       };
     } catch (error) {
+      throwIfAborted(signal);
       console.error('Error extracting competitor websites:', error);
       return { competitors: [], targets: [] };
     }
   }
 
   // Enhanced: Comprehensive website intelligence gathering using search-first discovery
-  private async crawlCompetitorWebsite(domain: string, onEvent: (event: SearchEvent) => void): Promise<Source[]> {
+  private async crawlCompetitorWebsite(domain: string, onEvent: (event: SearchEvent) => void, signal?: AbortSignal): Promise<Source[]> {
     const sources: Source[] = [];
     
     try {
@@ -1349,13 +1499,13 @@ Focus on extracting clean domains (example.com format) from the text.`),
         
         // Add delay between intelligence types to prevent rate limits
         if (i > 0) {
-          await new Promise(resolve => setTimeout(resolve, 8000)); // 8-second delay (increased from 3s)
+          await abortableDelay(8000, signal); // 8-second delay (increased from 3s)
         }
         
         try {
           onEvent({ type: 'thinking', message: `🎯 Discovering ${intelligenceType} pages for ${domain} via search...` });
           
-          const intelligence = await this.firecrawl.gatherWebsiteIntelligence(`https://${domain}`, intelligenceType);
+          const intelligence = await this.firecrawl.gatherWebsiteIntelligence(`https://${domain}`, intelligenceType, signal);
           
           if (intelligence.success && intelligence.rawData) {
             // Convert discovered and scraped data to sources
@@ -1363,14 +1513,14 @@ Focus on extracting clean domains (example.com format) from the text.`),
               url: page.url,
               title: page.title || `${domain} - ${intelligenceType.toUpperCase()}`,
               content: page.markdown || page.content || '',
-              quality: 0.9,
               summary: `${intelligenceType} intelligence discovered via search from ${domain}`,
               metadata: {
                 intelligenceType,
                 discoveryMethod: 'search',
                 crawledAt: new Date().toISOString(),
                 structuredData: intelligence.structuredData,
-                discoveredUrls: intelligence.discoveredUrls || []
+                discoveredUrls: intelligence.discoveredUrls || [],
+                ...pageDates(page.metadata)
               }
             }));
             
@@ -1387,6 +1537,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
             });
           }
         } catch (error) {
+          throwIfAborted(signal);
           onEvent({ 
             type: 'thinking', 
             message: `⚠️ ${intelligenceType} search discovery failed for ${domain}: ${error instanceof Error ? error.message : 'Unknown error'}` 
@@ -1394,7 +1545,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
         }
         
         // Small delay between intelligence gathering operations
-        await new Promise(resolve => setTimeout(resolve, 1000));
+        await abortableDelay(1000, signal);
       }
 
       // Enhanced search for general competitive intelligence if we haven't found much
@@ -1403,7 +1554,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
         
         try {
           // Use comprehensive search to find any valuable pages
-          const comprehensiveIntel = await this.firecrawl.gatherWebsiteIntelligence(`https://${domain}`, 'comprehensive');
+          const comprehensiveIntel = await this.firecrawl.gatherWebsiteIntelligence(`https://${domain}`, 'comprehensive', signal);
           
           if (comprehensiveIntel.success && comprehensiveIntel.rawData) {
             const additionalSources = comprehensiveIntel.rawData
@@ -1412,11 +1563,11 @@ Focus on extracting clean domains (example.com format) from the text.`),
                 url: page.url,
                 title: page.title || `${domain} - General Intelligence`,
                 content: page.markdown || '',
-                quality: 0.8,
                 summary: 'Additional intelligence discovered via comprehensive search',
                 metadata: {
                   discoveryMethod: 'comprehensive_search',
-                  crawledAt: new Date().toISOString()
+                  crawledAt: new Date().toISOString(),
+                  ...pageDates(page.metadata)
                 }
               }));
             
@@ -1427,6 +1578,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
             });
           }
         } catch {
+          throwIfAborted(signal);
           onEvent({ type: 'thinking', message: `⚠️ Comprehensive search failed for ${domain}` });
         }
       }
@@ -1437,7 +1589,8 @@ Focus on extracting clean domains (example.com format) from the text.`),
         
         const targetedSearch = await this.firecrawl.search(`site:${domain} (customers OR "case study" OR testimonial OR "success story" OR pricing OR leadership OR about OR products)`, {
           limit: 8,
-          scrapeOptions: { formats: ['markdown'] }
+          scrapeOptions: { formats: ['markdown'] },
+          signal
         });
         
         if (targetedSearch.data) {
@@ -1448,11 +1601,11 @@ Focus on extracting clean domains (example.com format) from the text.`),
               url: result.url,
               title: result.title || `${domain} - Targeted Search Result`,
               content: result.markdown,
-              quality: 0.85,
               summary: 'High-value content found via targeted competitive search',
               metadata: {
                 discoveryMethod: 'targeted_search',
-                crawledAt: new Date().toISOString()
+                crawledAt: new Date().toISOString(),
+                ...pageDates(result.metadata)
               }
             }));
           
@@ -1460,17 +1613,17 @@ Focus on extracting clean domains (example.com format) from the text.`),
           onEvent({ type: 'thinking', message: `🎯 Targeted search discovered ${searchSources.length} additional high-value pages from ${domain}` });
         }
       } catch {
+        throwIfAborted(signal);
         onEvent({ type: 'thinking', message: `⚠️ Targeted search failed for ${domain}` });
       }
 
     } catch (error) {
+      throwIfAborted(signal);
       onEvent({ type: 'thinking', message: `❌ Search-based intelligence discovery failed for ${domain}: ${error instanceof Error ? error.message : 'Unknown error'}` });
     }
 
-    // Remove duplicates by URL and sort by quality
-    const uniqueSources = sources
-      .filter((source, index, self) => index === self.findIndex(s => s.url === source.url))
-      .sort((a, b) => (b.quality || 0) - (a.quality || 0));
+    // Remove duplicate and near-duplicate pages, most credible first
+    const uniqueSources = selectForSynthesis(scoreSources(sources, { firstPartyDomains: [domain] }));
 
     onEvent({ 
       type: 'thinking', 
@@ -1498,6 +1651,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
     const summarizeContent = this.summarizeContent.bind(this);
     const generateStreamingAnswer = this.generateStreamingAnswer.bind(this);
     const generateFollowUpQuestions = this.generateFollowUpQuestions.bind(this);
+    const emitCitationReport = this.emitCitationReport.bind(this);
     const firecrawl = this.firecrawl;
     const contextProcessor = this.contextProcessor;
     
@@ -1505,6 +1659,9 @@ Focus on extracting clean domains (example.com format) from the text.`),
       // Understanding node
       .addNode("understand", async (state: SearchState, config?: GraphConfig): Promise<Partial<SearchState>> => {
         const eventCallback = config?.configurable?.eventCallback;
+        const signal = config?.signal;
+        const gatherSignal = this.withBudget(signal);
+        if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
         
         if (eventCallback) {
           eventCallback({
@@ -1515,7 +1672,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
         }
         
         try {
-          const understanding = await analyzeQuery(state.query, state.context);
+          const understanding = await analyzeQuery(state.query, state.context, gatherSignal);
           
           if (eventCallback) {
             eventCallback({
@@ -1529,6 +1686,8 @@ Focus on extracting clean domains (example.com format) from the text.`),
             phase: 'planning' as SearchPhase
           };
         } catch (error) {
+          throwIfAborted(signal);
+          if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
           return {
             error: error instanceof Error ? error.message : 'Failed to understand query',
             errorType: 'llm' as ErrorType,
@@ -1540,6 +1699,9 @@ Focus on extracting clean domains (example.com format) from the text.`),
       // Planning node
       .addNode("plan", async (state: SearchState, config?: GraphConfig): Promise<Partial<SearchState>> => {
         const eventCallback = config?.configurable?.eventCallback;
+        const signal = config?.signal;
+        const gatherSignal = this.withBudget(signal);
+        if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
         
         if (eventCallback) {
           eventCallback({
@@ -1554,7 +1716,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
           let subQueries = state.subQueries;
           if (!subQueries) {
             const extractSubQueries = this.extractSubQueries.bind(this);
-            const extracted = await extractSubQueries(state.query);
+            const extracted = await extractSubQueries(state.query, gatherSignal, state.timeRange);
             subQueries = extracted.map(sq => ({
               question: sq.question,
               searchQuery: sq.searchQuery,
@@ -1579,7 +1741,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
           let searchQueries: string[];
           if (state.searchAttempt > 0) {
             const generateAlternativeSearchQueries = this.generateAlternativeSearchQueries.bind(this);
-            searchQueries = await generateAlternativeSearchQueries(subQueries, state.searchAttempt);
+            searchQueries = await generateAlternativeSearchQueries(subQueries, state.searchAttempt, gatherSignal, state.timeRange);
             
             // Update sub-queries with new search queries
             let alternativeIndex = 0;
@@ -1619,6 +1781,8 @@ Focus on extracting clean domains (example.com format) from the text.`),
             phase: 'searching' as SearchPhase
           };
         } catch (error) {
+          throwIfAborted(signal);
+          if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
           return {
             error: error instanceof Error ? error.message : 'Failed to plan search',
             errorType: 'llm' as ErrorType,
@@ -1630,8 +1794,11 @@ Focus on extracting clean domains (example.com format) from the text.`),
       // Search node (handles one search at a time)
       .addNode("search", async (state: SearchState, config?: GraphConfig): Promise<Partial<SearchState>> => {
         const eventCallback = config?.configurable?.eventCallback;
+        const signal = config?.signal;
+        const gatherSignal = this.withBudget(signal);
         const searchQueries = state.searchQueries || [];
         const currentIndex = state.currentSearchIndex || 0;
+        if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
         
         if (currentIndex === 0 && eventCallback) {
           eventCallback({
@@ -1658,20 +1825,37 @@ Focus on extracting clean domains (example.com format) from the text.`),
           });
         }
         
+        // Kept outside the try so results survive a budget stop during summarization
+        let newSources: Source[] = [];
         try {
           const results = await firecrawl.search(searchQuery, {
             limit: SEARCH_CONFIG.MAX_SOURCES_PER_SEARCH,
             scrapeOptions: {
               formats: ['markdown']
-            }
+            },
+            timeRange: state.timeRange,
+            signal: gatherSignal
           });
           
-          const newSources: Source[] = results.data.map((r: SearchResult) => ({
+          const foundSources: Source[] = results.data.map((r: SearchResult) => ({
             url: r.url,
             title: r.title,
             content: r.markdown || r.content || '',
-            quality: 0
+            quality: 0,
+            metadata: pageDates(r.metadata)
           }));
+
+          // Providers filter by date loosely, so results dated outside the range are dropped here
+          const { kept, excluded } = state.timeRange
+            ? filterByTimeRange(foundSources, state.timeRange)
+            : { kept: foundSources, excluded: [] };
+          newSources = kept;
+          if (state.timeRange && excluded.length > 0 && eventCallback) {
+            eventCallback({
+              type: 'thinking',
+              message: `Left out ${excluded.length} result${excluded.length === 1 ? '' : 's'} dated outside ${describeTimeRange(state.timeRange)}`
+            });
+          }
           
           if (eventCallback) {
             eventCallback({
@@ -1698,7 +1882,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
               
               // Generate summary if content is available
               if (source.content && source.content.length > SEARCH_CONFIG.MIN_CONTENT_LENGTH) {
-                const summary = await summarizeContent(source.content, searchQuery);
+                const summary = await summarizeContent(source.content, searchQuery, gatherSignal);
                 
                 // Store the summary in the source object
                 if (summary && !summary.toLowerCase().includes('no specific')) {
@@ -1727,14 +1911,14 @@ Focus on extracting clean domains (example.com format) from the text.`),
               }
               
               // Small delay for animation
-              await new Promise(resolve => setTimeout(resolve, SEARCH_CONFIG.SOURCE_ANIMATION_DELAY));
+              await abortableDelay(SEARCH_CONFIG.SOURCE_ANIMATION_DELAY, gatherSignal);
               
               // Score the content
               source.quality = scoreContent(source.content || '', state.query);
               
               // Generate summary if content is available
               if (source.content && source.content.length > SEARCH_CONFIG.MIN_CONTENT_LENGTH) {
-                const summary = await summarizeContent(source.content, searchQuery);
+                const summary = await summarizeContent(source.content, searchQuery, gatherSignal);
                 
                 // Store the summary in the source object
                 if (summary && !summary.toLowerCase().includes('no specific')) {
@@ -1757,6 +1941,10 @@ Focus on extracting clean domains (example.com format) from the text.`),
             currentSearchIndex: currentIndex + 1
           };
         } catch {
+          throwIfAborted(signal);
+          if (this.stoppedByBudget(signal)) {
+            return this.stopGatheringForBudget({ ...state, sources: [...(state.sources || []), ...newSources] }, eventCallback);
+          }
           return {
             currentSearchIndex: currentIndex + 1,
             errorType: 'search' as ErrorType
@@ -1767,6 +1955,8 @@ Focus on extracting clean domains (example.com format) from the text.`),
       // Scraping node
       .addNode("scrape", async (state: SearchState, config?: GraphConfig): Promise<Partial<SearchState>> => {
         const eventCallback = config?.configurable?.eventCallback;
+        const signal = config?.signal;
+        const gatherSignal = this.withBudget(signal);
         const sourcesToScrape = state.sources?.filter(s => 
           !s.content || s.content.length < SEARCH_CONFIG.MIN_CONTENT_LENGTH
         ) || [];
@@ -1780,6 +1970,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
         
         // Then scrape sources without content
         for (let i = 0; i < Math.min(sourcesToScrape.length, SEARCH_CONFIG.MAX_SOURCES_TO_SCRAPE); i++) {
+          if (this.stoppedByBudget(signal)) break;
           const source = sourcesToScrape[i];
           
           if (eventCallback) {
@@ -1793,7 +1984,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
           }
           
           try {
-            const scraped = await firecrawl.scrapeUrl(source.url, SEARCH_CONFIG.SCRAPE_TIMEOUT);
+            const scraped = await firecrawl.scrapeUrl(source.url, SEARCH_CONFIG.SCRAPE_TIMEOUT, gatherSignal);
             if (scraped.success && scraped.markdown) {
               const enrichedSource = {
                 ...source,
@@ -1812,9 +2003,9 @@ Focus on extracting clean domains (example.com format) from the text.`),
                 });
               }
               
-              await new Promise(resolve => setTimeout(resolve, 150));
+              await abortableDelay(150, gatherSignal);
               
-              const summary = await summarizeContent(scraped.markdown, state.query);
+              const summary = await summarizeContent(scraped.markdown, state.query, gatherSignal);
               if (summary) {
                 enrichedSource.summary = summary;
                 
@@ -1835,6 +2026,8 @@ Focus on extracting clean domains (example.com format) from the text.`),
               }
             }
           } catch {
+            throwIfAborted(signal);
+            if (this.stoppedByBudget(signal)) break;
             if (eventCallback) {
               eventCallback({
                 type: 'thinking',
@@ -1844,6 +2037,10 @@ Focus on extracting clean domains (example.com format) from the text.`),
           }
         }
         
+        if (this.stoppedByBudget(signal)) {
+          return this.stopGatheringForBudget({ ...state, scrapedSources: [...(state.scrapedSources || []), ...newScrapedSources] }, eventCallback);
+        }
+        
         return {
           scrapedSources: newScrapedSources,
           phase: 'analyzing' as SearchPhase
@@ -1853,6 +2050,9 @@ Focus on extracting clean domains (example.com format) from the text.`),
       // Analyzing node
       .addNode("analyze", async (state: SearchState, config?: GraphConfig): Promise<Partial<SearchState>> => {
         const eventCallback = config?.configurable?.eventCallback;
+        const signal = config?.signal;
+        const gatherSignal = this.withBudget(signal);
+        if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
         
         if (eventCallback) {
           eventCallback({
@@ -1871,12 +2071,18 @@ Focus on extracting clean domains (example.com format) from the text.`),
         // Add scraped sources (may override with better content)
         (state.scrapedSources || []).forEach(s => sourceMap.set(s.url, s));
         
-        const allSources = Array.from(sourceMap.values());
+        // Score credibility once the content is final, so synthesis can prefer trustworthy sources
+        const allSources = scoreSources(Array.from(sourceMap.values()), { firstPartyDomains: domainsIn(state.query) });
         
         // Check which questions have been answered
         if (state.subQueries) {
           const checkAnswersInSources = this.checkAnswersInSources.bind(this);
-          const updatedSubQueries = await checkAnswersInSources(state.subQueries, allSources);
+          const updatedSubQueries = await checkAnswersInSources(state.subQueries, allSources, gatherSignal)
+            .catch(error => {
+              if (this.stoppedByBudget(signal)) return undefined;
+              throw error;
+            });
+          if (!updatedSubQueries) return this.stopGatheringForBudget(state, eventCallback);
           
           const answeredCount = updatedSubQueries.filter(sq => sq.answered).length;
           const totalQuestions = updatedSubQueries.length;
@@ -1936,7 +2142,9 @@ Focus on extracting clean domains (example.com format) from the text.`),
             const processedSources = await contextProcessor.processSources(
               state.query,
               allSources,
-              state.searchQueries || []
+              state.searchQueries || [],
+              undefined,
+              gatherSignal
             );
             
             return {
@@ -1947,9 +2155,11 @@ Focus on extracting clean domains (example.com format) from the text.`),
               phase: 'synthesizing' as SearchPhase
             };
           } catch {
+            throwIfAborted(signal);
+            if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
             return {
               sources: allSources,
-              processedSources: allSources,
+              processedSources: selectForSynthesis(allSources),
               subQueries: updatedSubQueries,
               searchAttempt,
               phase: 'synthesizing' as SearchPhase
@@ -1968,7 +2178,9 @@ Focus on extracting clean domains (example.com format) from the text.`),
             const processedSources = await contextProcessor.processSources(
               state.query,
               allSources,
-              state.searchQueries || []
+              state.searchQueries || [],
+              undefined,
+              gatherSignal
             );
             
             return {
@@ -1977,9 +2189,11 @@ Focus on extracting clean domains (example.com format) from the text.`),
               phase: 'synthesizing' as SearchPhase
             };
           } catch {
+            throwIfAborted(signal);
+            if (this.stoppedByBudget(signal)) return this.stopGatheringForBudget(state, eventCallback);
             return {
               sources: allSources,
-              processedSources: allSources,
+              processedSources: selectForSynthesis(allSources),
               phase: 'synthesizing' as SearchPhase
             };
           }
@@ -1989,6 +2203,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
       // Synthesizing node with streaming
       .addNode("synthesize", async (state: SearchState, config?: GraphConfig): Promise<Partial<SearchState>> => {
         const eventCallback = config?.configurable?.eventCallback;
+        const signal = config?.signal;
         
         if (eventCallback) {
           eventCallback({
@@ -2001,6 +2216,10 @@ Focus on extracting clean domains (example.com format) from the text.`),
         try {
           const sourcesToUse = state.processedSources || state.sources || [];
           
+          if (state.budgetNote && eventCallback) {
+            eventCallback({ type: 'content-chunk', chunk: state.budgetNote });
+          }
+          
           const answer = await generateStreamingAnswer(
             state.query,
             sourcesToUse,
@@ -2009,23 +2228,41 @@ Focus on extracting clean domains (example.com format) from the text.`),
                 eventCallback({ type: 'content-chunk', chunk });
               }
             },
-            state.context
+            state.context,
+            signal,
+            state.timeRange
           );
           
+          // Over budget, so the answer is returned without the extra LLM passes below
+          if (state.budgetNote) {
+            return {
+              finalAnswer: state.budgetNote + answer,
+              phase: 'complete' as SearchPhase
+            };
+          }
+          
           // Generate follow-up questions
           const followUpQuestions = await generateFollowUpQuestions(
             state.query,
             answer,
             sourcesToUse,
-            state.context
+            state.context,
+            signal
           );
+
+          // Citations point into sourcesToUse, so that is the list they are checked against
+          const citationReport = eventCallback
+            ? await emitCitationReport(answer, sourcesToUse, eventCallback, signal)
+            : undefined;
           
           return {
             finalAnswer: answer,
             followUpQuestions,
+            citationReport,
             phase: 'complete' as SearchPhase
           };
         } catch (error) {
+          throwIfAborted(signal);
           return {
             error: error instanceof Error ? error.message : 'Failed to generate answer',
             errorType: 'llm' as ErrorType,
@@ -2094,24 +2331,35 @@ Focus on extracting clean domains (example.com format) from the text.`),
       .addEdge(START, "understand")
       .addConditionalEdges(
         "understand",
-        (state: SearchState) => state.phase === 'error' ? "handleError" : "plan",
+        (state: SearchState) => {
+          if (state.phase === 'error') return "handleError";
+          if (state.phase === 'synthesizing') return "synthesize";  // Out of budget
+          return "plan";
+        },
         {
           handleError: "handleError",
-          plan: "plan"
+          plan: "plan",
+          synthesize: "synthesize"
         }
       )
       .addConditionalEdges(
         "plan",
-        (state: SearchState) => state.phase === 'error' ? "handleError" : "search",
+        (state: SearchState) => {
+          if (state.phase === 'error') return "handleError";
+          if (state.phase === 'synthesizing') return "synthesize";  // Out of budget
+          return "search";
+        },
         {
           handleError: "handleError",
-          search: "search"
+          search: "search",
+          synthesize: "synthesize"
         }
       )
       .addConditionalEdges(
         "search",
         (state: SearchState) => {
           if (state.phase === 'error') return "handleError";
+          if (state.phase === 'synthesizing') return "synthesize"; // Out of budget
           if ((state.currentSearchIndex || 0) < (state.searchQueries?.length || 0)) {
             return "search"; // Continue searching
           }
@@ -2120,15 +2368,21 @@ Focus on extracting clean domains (example.com format) from the text.`),
         {
           handleError: "handleError",
           search: "search",
-          scrape: "scrape"
+          scrape: "scrape",
+          synthesize: "synthesize"
         }
       )
       .addConditionalEdges(
         "scrape",
-        (state: SearchState) => state.phase === 'error' ? "handleError" : "analyze",
+        (state: SearchState) => {
+          if (state.phase === 'error') return "handleError";
+          if (state.phase === 'synthesizing') return "synthesize";  // Out of budget
+          return "analyze";
+        },
         {
           handleError: "handleError",
-          analyze: "analyze"
+          analyze: "analyze",
+          synthesize: "synthesize"
         }
       )
       .addConditionalEdges(
@@ -2170,12 +2424,15 @@ Focus on extracting clean domains (example.com format) from the text.`),
     query: string,
     onEvent: (event: SearchEvent) => void,
     context?: { query: string; response: string }[],
-    checkpointId?: string
+    checkpointId?: string,
+    signal?: AbortSignal,
+    timeRange?: TimeRange
   ): Promise<void> {
     try {
       const initialState: SearchState = {
         query,
         context,
+        timeRange,
         sources: [],
         scrapedSources: [],
         processedSources: undefined,
@@ -2187,18 +2444,27 @@ Focus on extracting clean domains (example.com format) from the text.`),
         searchQueries: undefined,
         finalAnswer: undefined,
         followUpQuestions: undefined,
+        citationReport: undefined,
+        budgetNote: undefined,
         error: undefined,
         errorType: undefined,
         subQueries: undefined,
         searchAttempt: 0
       };
 
+      // Every checkpointed run gets a session id the client can resume with
+      const sessionId = this.checkpointer ? (checkpointId || uuidv4()) : undefined;
+      if (sessionId) {
+        onEvent({ type: 'session', sessionId, resumed: false });
+      }
+
       // Configure with event callback
       const config: GraphConfig = {
         configurable: {
           eventCallback: onEvent,
-          ...(checkpointId && this.checkpointer ? { thread_id: checkpointId } : {})
-        }
+          ...(sessionId ? { thread_id: sessionId } : {})
+        },
+        signal
       };
 
       // Invoke the graph with increased recursion limit
@@ -2207,6 +2473,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
         recursionLimit: 35  // Increased from default 25 to handle MAX_SEARCH_ATTEMPTS=5
       });
     } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
       onEvent({
         type: 'error',
         error: error instanceof Error ? error.message : 'Search failed',
@@ -2215,6 +2482,202 @@ Focus on extracting clean domains (example.com format) from the text.`),
     }
   }
 
+  /**
+   * Resume a checkpointed search session from its last completed node.
+   * Finished sessions replay their stored answer instead of running again.
+   */
+  async resume(sessionId: string, onEvent: (event: SearchEvent) => void, signal?: AbortSignal): Promise<void> {
+    try {
+      if (!this.checkpointer) {
+        throw new Error('Checkpointing is not enabled for this search engine');
+      }
+
+      const config: GraphConfig = {
+        configurable: {
+          eventCallback: onEvent,
+          thread_id: sessionId
+        },
+        signal
+      };
+
+      const snapshot = await this.graph.getState(config);
+      if (!snapshot.createdAt) {
+        throw new Error(`No saved research session found for ${sessionId}`);
+      }
+
+      onEvent({ type: 'session', sessionId, resumed: true });
+      const state = snapshot.values as SearchState;
+
+      if (snapshot.next.length === 0) {
+        if (!state.finalAnswer) {
+          throw new Error('This research session ended without a result');
+        }
+        onEvent({ type: 'phase-update', phase: 'complete', message: 'Restored completed research session.' });
+        if (state.citationReport) onEvent({ type: 'citation-report', report: state.citationReport });
+        onEvent({
+          type: 'final-result',
+          content: state.finalAnswer,
+          sources: state.sources || [],
+          followUpQuestions: state.followUpQuestions
+        });
+        return;
+      }
+
+      onEvent({
+        type: 'thinking',
+        message: `Resuming "${state.query}" from the ${snapshot.next.join(', ')} step - earlier steps are restored from the checkpoint`
+      });
+
+      // A null input tells LangGraph to continue from the saved checkpoint
+      await this.graph.invoke(null, {
+        ...config,
+        recursionLimit: 35
+      });
+    } catch (error) {
+      if (this.emitIfCancelled(onEvent, error, signal)) return;
+      onEvent({
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Resume failed',
+        errorType: 'unknown'
+      });
+    }
+  }
+
+  /**
+   * Report a stopped run as `cancelled` instead of an error. Checkpointed
+   * searches keep their last completed step, so they can still be resumed.
+   */
+  private emitIfCancelled(onEvent: (event: SearchEvent) => void, error: unknown, signal?: AbortSignal): boolean {
+    if (!signal?.aborted && !isAbortError(error)) return false;
+    onEvent({ type: 'cancelled', message: this.usage?.budgetMessage || 'Research stopped before it finished' });
+    return true;
+  }
+
+  /**
+   * Emit the validated ICPProfile objects behind a rendered ICP report as an
+   * icp-profiles event. Failures are reported on the event but never fail the
+   * run, since the report itself has already been streamed.
+   */
+  private async emitStructuredICPProfiles(
+    report: string,
+    onEvent: (event: SearchEvent) => void,
+    signal?: AbortSignal,
+    candidates?: unknown
+  ): Promise<ICPProfile[]> {
+    onEvent({ type: 'thinking', message: '🧩 Converting ICP report into structured profiles...' });
+    try {
+      const result = await structureICPProfiles(this.llm, report, { candidates, signal });
+      onEvent({
+        type: 'icp-profiles',
+        profiles: result.profiles,
+        attempts: result.attempts,
+        ...(result.issues ? { issues: result.issues } : {})
+      });
+      return result.profiles;
+    } catch (error) {
+      throwIfAborted(signal);
+      onEvent({
+        type: 'icp-profiles',
+        profiles: [],
+        attempts: 0,
+        issues: [error instanceof Error ? error.message : 'Structured ICP extraction failed']
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Check the claims of a finished answer against the sources they cite and
+   * emit a citation-report event. Like structured profiles, a failed check is
+   * reported but never fails the run.
+   */
+  private async emitCitationReport(
+    answer: string,
+    sources: Source[],
+    onEvent: (event: SearchEvent) => void,
+    signal?: AbortSignal
+  ): Promise<CitationReport | undefined> {
+    if (!CITATION_CONFIG.ENABLED) return undefined;
+    onEvent({ type: 'thinking', message: '🔎 Checking cited claims against their sources...' });
+    try {
+      const report = await verifyCitations(this.llm, answer, sources, { signal });
+      onEvent({ type: 'citation-report', report });
+      const flagged = flaggedClaims(report).length;
+      onEvent({
+        type: 'thinking',
+        message: report.claims.length === 0
+          ? 'No cited claims to check'
+          : flagged > 0
+            ? `⚠️ ${flagged} of ${report.claims.length} cited claims are not fully supported by their sources`
+            : `✅ All ${report.claims.length} cited claims are supported by their sources`
+      });
+      return report;
+    } catch (error) {
+      throwIfAborted(signal);
+      onEvent({ type: 'thinking', message: `⚠️ Citation check failed: ${error instanceof Error ? error.message : 'unknown error'}` });
+      return undefined;
+    }
+  }
+
+  // Stop the run through its signal once the usage budget is exceeded
+  private withBudget(signal?: AbortSignal): AbortSignal | undefined {
+    return this.usage ? this.usage.linkSignal(signal) : signal;
+  }
+
+  // Resolves to undefined instead of failing when the budget cut a gathering call short
+  private async untilBudget<T>(work: Promise<T>, signal?: AbortSignal): Promise<T | undefined> {
+    try {
+      return await work;
+    } catch (error) {
+      if (this.stoppedByBudget(signal)) return undefined;
+      throw error;
+    }
+  }
+
+  // True when gathering stopped because of the budget rather than the caller
+  private stoppedByBudget(signal?: AbortSignal): boolean {
+    return !signal?.aborted && Boolean(this.usage?.budgetExceeded);
+  }
+
+  // Shown above an answer written from a budget-shortened run
+  private budgetNote(sourceCount: number): string {
+    return `> **${this.usage?.budgetMessage || 'Budget reached'}.** Research stopped early, so this answer is based on the ${sourceCount} source${sourceCount === 1 ? '' : 's'} gathered before the limit.\n\n`;
+  }
+
+  // Skips the remaining searches and scrapes and sends the run to synthesis with what it has
+  private stopGatheringForBudget(state: SearchState, onEvent?: (event: SearchEvent) => void): Partial<SearchState> {
+    const sourceMap = new Map<string, Source>();
+    (state.sources || []).forEach(s => sourceMap.set(s.url, s));
+    (state.scrapedSources || []).forEach(s => sourceMap.set(s.url, s));
+    const allSources = scoreSources(Array.from(sourceMap.values()), { firstPartyDomains: domainsIn(state.query) });
+
+    onEvent?.({
+      type: 'thinking',
+      message: `${this.usage?.budgetMessage}. No more searches or scrapes - writing the answer from the ${allSources.length} sources gathered so far.`
+    });
+
+    return {
+      sources: allSources,
+      processedSources: selectForSynthesis(allSources),
+      budgetNote: this.budgetNote(allSources.length),
+      phase: 'synthesizing' as SearchPhase
+    };
+  }
+
+  // Steers query generation towards material from the requested time range
+  private timeRangeSearchNote(timeRange: TimeRange): string {
+    return `TIME RANGE: Only material from ${describeTimeRange(timeRange)} is wanted. Word search queries so they surface results from that period, e.g. by adding the year or words like "latest" or "announced" where that helps.`;
+  }
+
+  // Makes a date-aware answer state its as-of date and flag facts that may be stale
+  private timeRangeAnswerNote(timeRange: TimeRange): string {
+    const asOf = new Date().toISOString().slice(0, 10);
+    return `DATE-AWARE MODE:
+- The user asked for material from ${describeTimeRange(timeRange)}. Each source lists its publication or update date when known.
+- Open the report with "As of ${asOf}" and write every statement as of that date.
+- After a fact taken from a source dated outside that period, add "(as of <source date>, may be outdated)". After a fact from an undated source, add "(undated source, may be outdated)".
+- When sources disagree, prefer the most recent one and say that it is newer.`;
+  }
 
   // Get current date for context
   private getCurrentDateContext(): string {
@@ -2232,7 +2695,7 @@ Focus on extracting clean domains (example.com format) from the text.`),
   }
 
   // Pure helper methods (no side effects)
-  private async analyzeQuery(query: string, context?: { query: string; response: string }[]): Promise<string> {
+  private async analyzeQuery(query: string, context?: { query: string; response: string }[], signal?: AbortSignal): Promise<string> {
     let contextPrompt = '';
     if (context && context.length > 0) {
       contextPrompt = '\n\nPrevious conversation:\n';
@@ -2291,13 +2754,14 @@ Start by analyzing the user's request and explaining your intelligence gathering
       new HumanMessage(`Query: "${query}"${contextPrompt}`)
     ];
     
-    const response = await this.llm.invoke(messages);
-    return response.content.toString();
+    const response = await this.llm.invoke(messages, { signal });
+    return messageText(response.content);
   }
 
   private async checkAnswersInSources(
     subQueries: Array<{ question: string; searchQuery: string; answered: boolean; answer?: string; confidence: number; sources: string[] }>,
-    sources: Source[]
+    sources: Source[],
+    signal?: AbortSignal
   ): Promise<typeof subQueries> {
     if (sources.length === 0) return subQueries;
     
@@ -2384,8 +2848,8 @@ ${sources.slice(0, SEARCH_CONFIG.MAX_SOURCES_TO_CHECK).map(s => {
     ];
 
     try {
-      const response = await this.llm.invoke(messages);
-      let content = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      let content = messageText(response.content);
       
       // Strip markdown code blocks if present
       content = content.replace(/```json\s*/g, '').replace(/```\s*$/g, '').trim();
@@ -2407,14 +2871,19 @@ ${sources.slice(0, SEARCH_CONFIG.MAX_SOURCES_TO_CHECK).map(s => {
         return sq;
       });
     } catch (error) {
+      throwIfAborted(signal);
       console.error('Error checking answers:', error);
       return subQueries;
     }
   }
 
-  private async extractSubQueries(query: string): Promise<Array<{ question: string; searchQuery: string }>> {
+  private async extractSubQueries(
+    query: string,
+    signal?: AbortSignal,
+    timeRange?: TimeRange
+  ): Promise<Array<{ question: string; searchQuery: string }>> {
     const messages = [
-      new SystemMessage(`Extract intelligence gathering sub-questions for deep website research. Each question should focus on a specific aspect of the 7-phase intelligence framework.
+      new SystemMessage(`${timeRange ? `${this.getCurrentDateContext()}\n\n${this.timeRangeSearchNote(timeRange)}\n\n` : ''}Extract intelligence gathering sub-questions for deep website research. Each question should focus on a specific aspect of the 7-phase intelligence framework.
 
 INTELLIGENCE FRAMEWORK PHASES:
 1. Website Intelligence: Architecture, pricing, leadership
@@ -2464,9 +2933,10 @@ Return ONLY a JSON array of {question, searchQuery} objects.`),
     ];
 
     try {
-      const response = await this.llm.invoke(messages);
-      return JSON.parse(response.content.toString());
+      const response = await this.llm.invoke(messages, { signal });
+      return JSON.parse(messageText(response.content));
     } catch {
+      throwIfAborted(signal);
       // Fallback: treat as single query
       return [{ question: query, searchQuery: query }];
     }
@@ -2477,7 +2947,9 @@ Return ONLY a JSON array of {question, searchQuery} objects.`),
 
   private async generateAlternativeSearchQueries(
     subQueries: Array<{ question: string; searchQuery: string; answered: boolean; answer?: string; confidence: number; sources: string[] }>,
-    previousAttempts: number
+    previousAttempts: number,
+    signal?: AbortSignal,
+    timeRange?: TimeRange
   ): Promise<string[]> {
     const unansweredQueries = subQueries.filter(sq => !sq.answered || sq.confidence < SEARCH_CONFIG.MIN_ANSWER_CONFIDENCE);
     
@@ -2500,7 +2972,7 @@ Return ONLY a JSON array of {question, searchQuery} objects.`),
     }
     
     const messages = [
-      new SystemMessage(`${this.getCurrentDateContext()}
+      new SystemMessage(`${this.getCurrentDateContext()}${timeRange ? `\n\n${this.timeRangeSearchNote(timeRange)}` : ''}
 
 Generate ALTERNATIVE intelligence gathering search queries for questions that weren't adequately answered in previous attempts.
 
@@ -2562,8 +3034,8 @@ Return one alternative intelligence gathering search query per unanswered questi
     ];
 
     try {
-      const response = await this.llm.invoke(messages);
-      const result = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      const result = messageText(response.content);
       
       const queries = result
         .split('\n')
@@ -2577,6 +3049,7 @@ Return one alternative intelligence gathering search query per unanswered questi
       
       return queries.slice(0, SEARCH_CONFIG.MAX_SEARCH_QUERIES);
     } catch {
+      throwIfAborted(signal);
       // Fallback: return original queries with slight modifications
       return unansweredQueries.map(sq => sq.searchQuery + " intelligence research").slice(0, SEARCH_CONFIG.MAX_SEARCH_QUERIES);
     }
@@ -2594,7 +3067,7 @@ Return one alternative intelligence gathering search query per unanswered questi
     return Math.min(score, 1);
   }
 
-  private async summarizeContent(content: string, query: string): Promise<string> {
+  private async summarizeContent(content: string, query: string, signal?: AbortSignal): Promise<string> {
     try {
       const messages = [
         new SystemMessage(`${this.getCurrentDateContext()}
@@ -2627,9 +3100,10 @@ Instructions:
         new HumanMessage(`Intelligence Query: "${query}"\n\nContent: ${content.slice(0, 2000)}`)
       ];
       
-      const response = await this.llm.invoke(messages);
-      return response.content.toString().trim();
+      const response = await this.llm.invoke(messages, { signal });
+      return messageText(response.content).trim();
     } catch {
+      throwIfAborted(signal);
       return '';
     }
   }
@@ -2638,7 +3112,8 @@ Instructions:
     query: string,
     sources: Source[],
     onChunk: (chunk: string) => void,
-    context?: { query: string; response: string }[]
+    context?: { query: string; response: string }[],
+    signal?: AbortSignal
   ): Promise<string> {
     const sourcesText = sources
       .map((s, i) => {
@@ -2727,19 +3202,21 @@ Formatting:
     let fullText = '';
     
     try {
-      const stream = await this.streamingLlm.stream(messages);
+      const stream = await this.streamingLlm.stream(messages, { signal });
       
       for await (const chunk of stream) {
-        const content = chunk.content;
-        if (typeof content === 'string') {
+        const content = messageText(chunk.content);
+        if (content) {
           fullText += content;
           onChunk(content);
         }
       }
     } catch {
+      // Never fall back once the run has been stopped
+      throwIfAborted(signal);
       // Fallback to non-streaming if streaming fails
-      const response = await this.llm.invoke(messages);
-      fullText = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      fullText = messageText(response.content);
       onChunk(fullText);
     }
     
@@ -2750,12 +3227,21 @@ Formatting:
     query: string,
     sources: Source[],
     onChunk: (chunk: string) => void,
-    context?: { query: string; response: string }[]
+    context?: { query: string; response: string }[],
+    signal?: AbortSignal,
+    timeRange?: TimeRange
   ): Promise<string> {
+    // In date-aware mode every source states its date so outdated facts can be flagged
+    const sourceDate = (source: Source) => {
+      if (!timeRange) return '';
+      const { publishedAt, updatedAt } = source.credibility || sourceDates(source);
+      const date = updatedAt || publishedAt;
+      return date ? `\n${updatedAt ? 'Updated' : 'Published'}: ${date.slice(0, 10)}` : '\nDate: unknown';
+    };
     const sourcesText = sources
       .map((s, i) => {
-        if (!s.content) return `[${i + 1}] ${s.title}\n[No content available]`;
-        return `[${i + 1}] ${s.title}\n${s.content}`;
+        if (!s.content) return `[${i + 1}] ${s.title}${sourceDate(s)}\n[No content available]`;
+        return `[${i + 1}] ${s.title}${sourceDate(s)}\n${s.content}`;
       })
       .join('\n\n');
     
@@ -2816,26 +3302,28 @@ Formatting:
 - Use clear markdown subsections.
 - Add citations [1], [2], etc. next to claims.
 - Focus on actionable intelligence and strategic insights.
-- Conclude with follow-up recommendations for deeper analysis.`),
+- Conclude with follow-up recommendations for deeper analysis.${timeRange ? `\n\n${this.timeRangeAnswerNote(timeRange)}` : ''}`),
       new HumanMessage(`Intelligence Research Request: "${query}"${contextPrompt}\n\nBased on these intelligence sources:\n${sourcesText}`)
     ];
     
     let fullText = '';
     
     try {
-      const stream = await this.streamingLlm.stream(messages);
+      const stream = await this.streamingLlm.stream(messages, { signal });
       
       for await (const chunk of stream) {
-        const content = chunk.content;
-        if (typeof content === 'string') {
+        const content = messageText(chunk.content);
+        if (content) {
           fullText += content;
           onChunk(content);
         }
       }
     } catch {
+      // Never fall back once the run has been stopped
+      throwIfAborted(signal);
       // Fallback to non-streaming if streaming fails
-      const response = await this.llm.invoke(messages);
-      fullText = response.content.toString();
+      const response = await this.llm.invoke(messages, { signal });
+      fullText = messageText(response.content);
       onChunk(fullText);
     }
     
@@ -2846,7 +3334,8 @@ Formatting:
     originalQuery: string,
     answer: string,
     _sources: Source[],
-    context?: { query: string; response: string }[]
+    context?: { query: string; response: string }[],
+    signal?: AbortSignal
   ): Promise<string[]> {
     try {
       let contextPrompt = '';
@@ -2874,8 +3363,8 @@ Constraints:
         new HumanMessage(`Original intelligence research: "${originalQuery}"\n\nIntelligence findings summary: ${answer.length > 1000 ? answer.slice(0, 1000) + '...' : answer}${contextPrompt}`)
       ];
       
-      const response = await this.llm.invoke(messages);
-      const questions = response.content.toString()
+      const response = await this.llm.invoke(messages, { signal });
+      const questions = messageText(response.content)
         .split('\n')
         .map(q => q.trim())
         .filter(q => q.length > 0 && q.length < 80)
@@ -2883,6 +3372,7 @@ Constraints:
       
       return questions.length > 0 ? questions : [];
     } catch {
+      throwIfAborted(signal);
       return [];
     }
   }
@@ -0,0 +1,117 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { MessageContent } from "@langchain/core/messages";
+import { ChatOpenAI } from "@langchain/openai";
+import { LLM_CONFIG, MODEL_CONFIG } from './config';
+import type { UsageLedger } from './usage';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'local';
+export type ModelRole = keyof typeof LLM_CONFIG.ROLES;
+
+export interface ModelAssignment {
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface ChatModelOptions {
+  streaming?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+  // Records token usage of every call made with the model
+  usage?: UsageLedger;
+}
+
+const LLM_PROVIDERS: LLMProviderName[] = ['openai', 'anthropic', 'local'];
+
+/**
+ * Resolve which provider and model serve a role. An LLM_<ROLE> env var in
+ * "provider:model" form wins over the defaults in LLM_CONFIG.
+ */
+export function getModelAssignment(role: ModelRole): ModelAssignment {
+  const override = process.env[`LLM_${role.toUpperCase()}`];
+
+  if (override) {
+    // Split on the first colon only - local model tags contain colons (llama3.1:8b)
+    const separator = override.indexOf(':');
+    const provider = override.slice(0, separator) as LLMProviderName;
+    const model = override.slice(separator + 1);
+
+    if (separator === -1 || !LLM_PROVIDERS.includes(provider) || !model) {
+      throw new Error(`Invalid LLM_${role.toUpperCase()} value "${override}" - expected "provider:model" with provider one of ${LLM_PROVIDERS.join(', ')}`);
+    }
+    return { provider, model };
+  }
+
+  const defaults = LLM_CONFIG.ROLES[role];
+  return { provider: defaults.provider, model: defaults.model };
+}
+
+/**
+ * Build the LangChain chat model assigned to a role
+ */
+export function createChatModel(role: ModelRole, options: ChatModelOptions = {}): BaseChatModel {
+  const { provider, model } = getModelAssignment(role);
+  const temperature = options.temperature ?? MODEL_CONFIG.TEMPERATURE;
+  const callbacks = options.usage ? [options.usage.callbackFor({ provider, model })] : undefined;
+
+  switch (provider) {
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error(`OPENAI_API_KEY environment variable is not set (required for the "${role}" model role)`);
+      }
+      return new ChatOpenAI({
+        modelName: model,
+        temperature,
+        maxTokens: options.maxTokens,
+        streaming: options.streaming,
+        openAIApiKey: apiKey,
+        callbacks,
+      });
+    }
+
+    case 'anthropic': {
+      const apiKey = process.env.ANTHROPIC_API_KEY;
+      if (!apiKey) {
+        throw new Error(`ANTHROPIC_API_KEY environment variable is not set (required for the "${role}" model role)`);
+      }
+      return new ChatAnthropic({
+        model,
+        temperature,
+        maxTokens: options.maxTokens ?? LLM_CONFIG.ANTHROPIC_MAX_TOKENS,
+        streaming: options.streaming,
+        anthropicApiKey: apiKey,
+        callbacks,
+      });
+    }
+
+    case 'local':
+      // Ollama, vLLM, LM Studio etc. all speak the OpenAI chat completions API
+      return new ChatOpenAI({
+        modelName: model,
+        temperature,
+        maxTokens: options.maxTokens,
+        streaming: options.streaming,
+        // Most local servers ignore the key but the client requires one
+        openAIApiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        callbacks,
+        configuration: {
+          baseURL: process.env.LOCAL_LLM_BASE_URL || LLM_CONFIG.LOCAL_BASE_URL,
+        },
+      });
+
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
+
+/**
+ * Flatten message content to plain text. Anthropic models may return
+ * content blocks instead of a single string.
+ */
+export function messageText(content: MessageContent): string {
+  if (typeof content === 'string') return content;
+  return content
+    .map(block => (block.type === 'text' && 'text' in block ? String(block.text) : ''))
+    .join('');
+}
@@ -0,0 +1,155 @@
+// Research agents defined in a config file instead of code
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { CUSTOM_AGENTS_CONFIG } from '../config';
+import { validateTaskGraph } from './task-scheduler';
+import { AgentDefinition, AgentOutputSchema } from './types';
+
+// Tasks the hub plans on every run; custom agents may depend on any of them
+export const BUILT_IN_TASK_TYPES = [
+  'customer-intelligence',
+  'market-research',
+  'firmographic-analysis',
+  'technographic-analysis',
+  'psychographic-analysis',
+  'target-company-discovery',
+] as const;
+
+// Names a custom agent cannot take, so it never picks up a built-in task
+const RESERVED_NAMES = new Set<string>([...BUILT_IN_TASK_TYPES, 'icp-profile-synthesis', 'coordinator']);
+
+const NAME_PATTERN = /^[a-z][a-z0-9-]*$/;
+
+const outputSchemaSchema: z.ZodType<AgentOutputSchema> = z.lazy(() => z.object({
+  type: z.enum(['object', 'array', 'string', 'number', 'integer', 'boolean']),
+  description: z.string().optional(),
+  properties: z.record(outputSchemaSchema).optional(),
+  required: z.array(z.string()).optional(),
+  items: outputSchemaSchema.optional(),
+  enum: z.array(z.string()).min(1).optional(),
+}).strict().superRefine((schema, ctx) => {
+  if (schema.type === 'object' && !schema.properties) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'object schemas need properties' });
+  }
+  if (schema.type === 'array' && !schema.items) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'array schemas need items' });
+  }
+  if (schema.enum && schema.type !== 'string') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'enum is only supported on strings' });
+  }
+  const unknown = (schema.required || []).filter(key => !schema.properties || !(key in schema.properties));
+  if (unknown.length > 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `required lists unknown properties: ${unknown.join(', ')}` });
+  }
+}));
+
+const agentDefinitionSchema = z.object({
+  id: z.string().regex(NAME_PATTERN, 'must be lowercase letters, digits and dashes'),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  capabilities: z.array(z.string().regex(NAME_PATTERN, 'must be lowercase letters, digits and dashes')).default([]),
+  systemPrompt: z.string().min(1),
+  inputs: z.array(z.enum(['query', 'sources'])).default(['query', 'sources']),
+  dependsOn: z.array(z.string()).default([]),
+  outputSchema: outputSchemaSchema,
+  section: z.string().regex(/^[A-Za-z][A-Za-z0-9_-]*$/, 'must start with a letter and use letters, digits, dashes or underscores').optional(),
+  priority: z.number().default(CUSTOM_AGENTS_CONFIG.DEFAULT_PRIORITY),
+}).strict();
+
+const agentsFileSchema = z.object({
+  agents: z.array(agentDefinitionSchema).max(CUSTOM_AGENTS_CONFIG.MAX_AGENTS),
+}).strict();
+
+/**
+ * Custom agents from the agents file (CUSTOM_AGENTS_FILE, or agents.config.json
+ * in the working directory). No file means no custom agents; a file that does
+ * not validate throws, naming the agent and field at fault.
+ */
+export function loadAgentDefinitions(file = process.env.CUSTOM_AGENTS_FILE || CUSTOM_AGENTS_CONFIG.FILE): AgentDefinition[] {
+  const filePath = path.resolve(process.cwd(), file);
+  let raw: string;
+  try {
+    raw = readFileSync(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' && !process.env.CUSTOM_AGENTS_FILE) return [];
+    throw new Error(`Could not read custom agents file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(`Custom agents file ${filePath} is not valid JSON: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  try {
+    return parseAgentDefinitions(json);
+  } catch (error) {
+    throw new Error(`Invalid custom agents file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+// Validates { "agents": [...] } and checks ids, sections and dependencies across agents
+export function parseAgentDefinitions(json: unknown): AgentDefinition[] {
+  const parsed = agentsFileSchema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(parsed.error.issues.map(issue => `${issue.path.join('.') || 'file'}: ${issue.message}`).join('; '));
+  }
+
+  const definitions: AgentDefinition[] = parsed.data.agents.map(agent => ({
+    ...agent,
+    section: agent.section || agent.id,
+  }));
+
+  const sections = new Set<string>();
+  // Ids and capabilities name the tasks an agent takes, so no two agents may share one
+  const names = new Map<string, string>();
+  for (const definition of definitions) {
+    const reserved = [definition.id, ...definition.capabilities].filter(name => RESERVED_NAMES.has(name));
+    if (reserved.length > 0) {
+      throw new Error(`${definition.id}: ${reserved.join(', ')} is reserved for a built-in agent`);
+    }
+    for (const name of new Set([definition.id, ...definition.capabilities])) {
+      const owner = names.get(name);
+      if (owner) throw new Error(`${definition.id}: "${name}" is already used by agent ${owner}`);
+      names.set(name, definition.id);
+    }
+    if (sections.has(definition.section)) {
+      throw new Error(`${definition.id}: section "${definition.section}" is used by another agent`);
+    }
+    sections.add(definition.section);
+  }
+
+  validateTaskGraph([
+    ...BUILT_IN_TASK_TYPES.map(id => ({ id })),
+    ...definitions.map(definition => ({ id: definition.id, dependsOn: definition.dependsOn })),
+  ]);
+
+  return definitions;
+}
+
+// Zod validator for agent output: required properties must be present, others may be left out
+export function outputSchemaToZod(schema: AgentOutputSchema): z.ZodTypeAny {
+  switch (schema.type) {
+    case 'object': {
+      const required = new Set(schema.required || []);
+      const shape: Record<string, z.ZodTypeAny> = {};
+      for (const [key, property] of Object.entries(schema.properties || {})) {
+        const validator = outputSchemaToZod(property);
+        shape[key] = required.has(key) ? validator : validator.optional().nullable();
+      }
+      return z.object(shape);
+    }
+    case 'array':
+      return z.array(schema.items ? outputSchemaToZod(schema.items) : z.unknown());
+    case 'string':
+      return schema.enum ? z.enum(schema.enum as [string, ...string[]]) : z.string();
+    case 'number':
+      return z.number();
+    case 'integer':
+      return z.number().int();
+    case 'boolean':
+      return z.boolean();
+  }
+}
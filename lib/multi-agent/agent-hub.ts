@@ -10,9 +10,27 @@ import {
   FirmographicData,
   TechnographicData,
   PsychographicData,
-  TargetCompanyData
+  TargetCompanyData,
+  CustomResearchSection,
+  AgentSearchUsage,
+  DegradedDimension,
+  ResearchDimension
 } from './types';
 import { BaseAgent } from './base-agent';
+import { DeclarativeAgent } from './declarative-agent';
+import { Blackboard } from './blackboard';
+import { runTaskGraph, ScheduledTask, TaskGraphEvent, TaskGraphResult } from './task-scheduler';
+import { throwIfAborted } from '../abort';
+import { AGENT_RECOVERY_CONFIG } from '../config';
+
+// One step of a coordinated run: the task type names the agent capability that handles it
+interface ICPTaskPlan {
+  type: string;
+  priority: number;
+  dependsOn?: string[];
+  // Builds the task input from the results of its dependencies
+  input: (results: Record<string, unknown>) => unknown;
+}
 
 export class AgentHub {
   private agents: Map<string, BaseAgent> = new Map();
@@ -27,6 +45,29 @@ export class AgentHub {
 
   // Register agents with the hub
   public registerAgent(agent: BaseAgent): void {
+    this.registerAgents([agent]);
+  }
+
+  /**
+   * Register several agents, all or none. Tasks are routed by capability name,
+   * so agent ids and capability names must be unique across every registered
+   * agent; a name claimed twice is rejected rather than routed to either.
+   */
+  public registerAgents(agents: BaseAgent[]): void {
+    const owners = new Map<string, string>();
+    for (const agent of [...Array.from(this.agents.values()), ...agents]) {
+      const { id, name, capabilities } = agent.getStatus();
+      for (const claimed of new Set([id, ...capabilities.map(capability => capability.name)])) {
+        const owner = owners.get(claimed);
+        if (owner) throw new Error(`Cannot register ${name}: "${claimed}" is already used by ${owner}`);
+        owners.set(claimed, id);
+      }
+    }
+
+    agents.forEach(agent => this.addAgent(agent));
+  }
+
+  private addAgent(agent: BaseAgent): void {
     this.agents.set(agent.getStatus().id, agent);
     
     // Set up event forwarding
@@ -104,13 +145,24 @@ export class AgentHub {
   public async coordinateICPAnalysis(
     query: string,
     initialSources: unknown[],
-    onProgress?: (event: AgentEvent) => void
+    onProgress?: (event: AgentEvent) => void,
+    signal?: AbortSignal
   ): Promise<CombinedResearchData> {
     if (onProgress) {
       this.addEventListener(onProgress);
     }
 
+    // Agents share intermediate findings through the blackboard while they run
+    const blackboard = this.config.dataSharingEnabled ? new Blackboard() : undefined;
+
+    this.agents.forEach(agent => {
+      agent.resetSearchUsage();
+      agent.setBlackboard(blackboard);
+    });
+
     try {
+      throwIfAborted(signal);
+
       // Emit coordination start
       this.emitEvent({
         type: 'agent-started',
@@ -120,202 +172,86 @@ export class AgentHub {
         data: { query, sourceCount: initialSources.length }
       });
 
-      // Phase 1: Parallel data gathering by specialized agents
-      this.emitEvent({
-        type: 'data-shared',
-        agentId: 'coordinator',
-        timestamp: new Date(),
-        message: '📋 Phase 1: Deploying specialized agents for parallel data gathering',
-        data: { phase: 'data-gathering', agents: 5 }
-      });
-
-      const dataGatheringTasks = [
-        {
-          type: 'customer-intelligence',
-          input: { query, sources: initialSources },
-          priority: this.config.priorityWeights.customerIntelligence
-        },
-        {
-          type: 'market-research',
-          input: { query, sources: initialSources },
-          priority: this.config.priorityWeights.marketResearch
-        },
-        {
-          type: 'firmographic-analysis',
-          input: { query, sources: initialSources },
-          priority: this.config.priorityWeights.firmographic
-        },
+      // Data gathering runs as one task graph: the five specialists start side by
+      // side and target company discovery waits for the findings it builds on
+      const weights = this.config.priorityWeights;
+      const sourceInput = { query, sources: initialSources };
+      const plan: ICPTaskPlan[] = [
+        { type: 'customer-intelligence', priority: weights.customerIntelligence, input: () => sourceInput },
+        { type: 'market-research', priority: weights.marketResearch, input: () => sourceInput },
+        { type: 'firmographic-analysis', priority: weights.firmographic, input: () => sourceInput },
+        { type: 'technographic-analysis', priority: weights.technographic, input: () => sourceInput },
+        { type: 'psychographic-analysis', priority: weights.psychographic, input: () => sourceInput },
         {
-          type: 'technographic-analysis',
-          input: { query, sources: initialSources },
-          priority: this.config.priorityWeights.technographic
+          type: 'target-company-discovery',
+          priority: weights.targetCompany,
+          dependsOn: ['customer-intelligence', 'market-research', 'firmographic-analysis'],
+          input: results => ({
+            query,
+            customerIntelligence: results['customer-intelligence'],
+            marketResearch: results['market-research'],
+            firmographicData: results['firmographic-analysis']
+          })
         },
-        {
-          type: 'psychographic-analysis',
-          input: { query, sources: initialSources },
-          priority: this.config.priorityWeights.psychographic
-        }
+        // Agents from the custom agents file run after whatever they depend on
+        ...this.getCustomAgents().map((agent): ICPTaskPlan => ({
+          type: agent.definition.id,
+          priority: agent.definition.priority,
+          dependsOn: agent.definition.dependsOn,
+          input: results => ({ query, sources: initialSources, dependencies: results })
+        }))
       ];
 
-      // Execute data gathering tasks in parallel
       this.emitEvent({
         type: 'data-shared',
         agentId: 'coordinator',
         timestamp: new Date(),
-        message: '🚀 Assigning tasks to specialized agents',
-        data: { tasks: dataGatheringTasks.length }
+        message: `📋 Deploying ${plan.length} agents, up to ${this.config.maxConcurrentAgents} at a time`,
+        data: { phase: 'data-gathering', tasks: plan.map(task => ({ type: task.type, dependsOn: task.dependsOn || [] })) }
       });
 
-      // Execute tasks directly instead of using complex task tracking
-      const gatheredData: Record<string, unknown> = {};
-      
-      for (const task of dataGatheringTasks) {
-        try {
-          this.emitEvent({
-            type: 'data-shared',
-            agentId: 'coordinator',
-            timestamp: new Date(),
-            message: `🔄 Executing ${task.type} task`,
-            data: { taskType: task.type }
-          });
-
-          const suitableAgents = this.findSuitableAgentsInternal(task.type);
-          if (suitableAgents.length > 0) {
-            const selectedAgent = this.selectBestAgentInternal(suitableAgents, task.priority);
-            const agent = this.agents.get(selectedAgent.id);
-            
-            if (agent) {
-              console.log(`Executing task ${task.type} with input:`, task.input);
-              const result = await agent.executeTask({
-                id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-                agentId: selectedAgent.id,
-                type: task.type,
-                status: 'in_progress',
-                input: task.input,
-                priority: task.priority,
-                createdAt: new Date()
-              });
-              
-              console.log(`Task ${task.type} completed with result:`, result);
-              gatheredData[task.type] = result;
-              
-              this.emitEvent({
-                type: 'data-shared',
-                agentId: 'coordinator',
-                timestamp: new Date(),
-                message: `✅ Completed ${task.type} task`,
-                data: { taskType: task.type, resultType: typeof result }
-              });
-            }
-          }
-        } catch (error) {
-          console.error(`Error executing task ${task.type}:`, error);
-          this.emitEvent({
-            type: 'agent-error',
-            agentId: 'coordinator',
-            timestamp: new Date(),
-            message: `❌ Failed to execute ${task.type} task: ${error instanceof Error ? error.message : 'Unknown error'}`,
-            data: { taskType: task.type, error }
-          });
-        }
-      }
+      const { results: gatheredData, failures, fallbacks } = await this.runPlan(plan, signal, blackboard);
 
       this.emitEvent({
         type: 'data-shared',
         agentId: 'coordinator',
         timestamp: new Date(),
-        message: '✅ Phase 1 complete: All agents finished data gathering',
-        data: { completedTasks: Object.keys(gatheredData).length }
+        message: Object.keys(failures).length > 0
+          ? `⚠️ Data gathering finished with ${Object.keys(failures).length} failed agent${Object.keys(failures).length === 1 ? '' : 's'}; continuing with partial results`
+          : Object.keys(fallbacks).length > 0
+            ? `⚠️ Data gathering finished; ${Object.keys(fallbacks).join(', ')} used the single-pass fallback`
+            : '✅ All agents finished data gathering',
+        data: { completedTasks: Object.keys(gatheredData), failedTasks: failures, fallbackTasks: fallbacks }
       });
 
-      // Phase 2: Target company discovery based on gathered data
-      this.emitEvent({
-        type: 'data-shared',
-        agentId: 'coordinator',
-        timestamp: new Date(),
-        message: '📋 Phase 2: Deploying Target Company Discovery Agent',
-        data: { phase: 'target-discovery', inputData: Object.keys(gatheredData) }
-      });
-
-      const targetCompanyTask = {
-        type: 'target-company-discovery',
-        input: { 
-          query, 
-          customerIntelligence: gatheredData['customer-intelligence'],
-          marketResearch: gatheredData['market-research'],
-          firmographicData: gatheredData['firmographic-analysis']
-        },
-        priority: this.config.priorityWeights.targetCompany
-      };
-
-      // Execute target company discovery directly
-      let targetCompanyData: unknown = {};
-      try {
-        const suitableAgents = this.findSuitableAgentsInternal('target-company-discovery');
-        if (suitableAgents.length > 0) {
-          const selectedAgent = this.selectBestAgentInternal(suitableAgents, targetCompanyTask.priority);
-          const agent = this.agents.get(selectedAgent.id);
-          
-          if (agent) {
-            this.emitEvent({
-              type: 'data-shared',
-              agentId: 'coordinator',
-              timestamp: new Date(),
-              message: '🔄 Executing target company discovery task',
-              data: { taskType: 'target-company-discovery' }
-            });
-
-            targetCompanyData = await agent.executeTask({
-              id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-              agentId: selectedAgent.id,
-              type: 'target-company-discovery',
-              status: 'in_progress',
-              input: targetCompanyTask.input,
-              priority: targetCompanyTask.priority,
-              createdAt: new Date()
-            });
-          }
+      // Every dimension gets a section, and a weak one is marked so synthesis can discount it
+      const degraded: Partial<Record<ResearchDimension, DegradedDimension>> = {};
+      const section = <T>(taskType: string, dimension: ResearchDimension): T => {
+        if (taskType in gatheredData) {
+          const marker = describeWeakResult(gatheredData[taskType], fallbacks[taskType]);
+          if (marker) degraded[dimension] = marker;
+          return gatheredData[taskType] as T;
         }
-      } catch (error) {
-        console.error('Error executing target company discovery:', error);
-        this.emitEvent({
-          type: 'agent-error',
-          agentId: 'coordinator',
-          timestamp: new Date(),
-          message: `❌ Failed target company discovery: ${error instanceof Error ? error.message : 'Unknown error'}`,
-          data: { error }
-        });
-      }
-
-      this.emitEvent({
-        type: 'data-shared',
-        agentId: 'coordinator',
-        timestamp: new Date(),
-        message: '✅ Phase 2 complete: Target companies discovered and validated',
-        data: { targetCompanies: (targetCompanyData as { companies?: unknown[] })?.companies?.length || 0 }
-      });
-
-      // Combine all research data
-      this.emitEvent({
-        type: 'data-shared',
-        agentId: 'coordinator',
-        timestamp: new Date(),
-        message: '🔄 Combining all research data from specialized agents',
-        data: { dataSources: Object.keys(gatheredData).length + 1 }
-      });
+        degraded[dimension] = { reason: 'failed', detail: failures[taskType] || 'No agent ran this task' };
+        return this.emptyResultFor(taskType) as T;
+      };
 
       const combinedData: CombinedResearchData = {
-        customerIntelligence: gatheredData['customer-intelligence'] as CustomerIntelligenceData,
-        marketResearch: gatheredData['market-research'] as MarketResearchData,
-        firmographicData: gatheredData['firmographic-analysis'] as FirmographicData,
-        technographicData: gatheredData['technographic-analysis'] as TechnographicData,
-        psychographicData: gatheredData['psychographic-analysis'] as PsychographicData,
-        targetCompanyData: targetCompanyData as TargetCompanyData,
+        customerIntelligence: section<CustomerIntelligenceData>('customer-intelligence', 'customerIntelligence'),
+        marketResearch: section<MarketResearchData>('market-research', 'marketResearch'),
+        firmographicData: section<FirmographicData>('firmographic-analysis', 'firmographicData'),
+        technographicData: section<TechnographicData>('technographic-analysis', 'technographicData'),
+        psychographicData: section<PsychographicData>('psychographic-analysis', 'psychographicData'),
+        targetCompanyData: section<TargetCompanyData>('target-company-discovery', 'targetCompanyData'),
+        ...this.buildCustomSections(gatheredData),
+        ...(Object.keys(degraded).length > 0 ? { degraded } : {}),
         metadata: {
           totalSources: initialSources.length,
           confidence: this.calculateOverallConfidence(gatheredData),
           lastUpdated: new Date(),
-          agentsUsed: Array.from(this.agents.keys())
+          agentsUsed: Array.from(this.agents.keys()),
+          ...this.collectSearchUsage(),
+          ...(blackboard && blackboard.all().length > 0 ? { sharedFacts: blackboard.all() } : {})
         }
       };
 
@@ -323,23 +259,173 @@ export class AgentHub {
         type: 'agent-completed',
         agentId: 'coordinator',
         timestamp: new Date(),
-        message: '🎯 Multi-agent coordination completed successfully',
+        message: combinedData.degraded
+          ? `🎯 Multi-agent coordination completed; weak research for ${Object.keys(combinedData.degraded).join(', ')}`
+          : '🎯 Multi-agent coordination completed successfully',
         data: { 
           totalAgents: this.agents.size,
           dataPoints: Object.keys(combinedData).length,
-          confidence: combinedData.metadata.confidence
+          confidence: combinedData.metadata.confidence,
+          degraded: combinedData.degraded
         }
       });
 
       return combinedData;
 
     } finally {
+      this.agents.forEach(agent => agent.setBlackboard(undefined));
       if (onProgress) {
         this.removeEventListener(onProgress);
       }
     }
   }
 
+  // Run planned tasks on the agents that can handle them, as a dependency graph
+  private async runPlan(plan: ICPTaskPlan[], signal?: AbortSignal, blackboard?: Blackboard): Promise<TaskGraphResult> {
+    // Agents waiting on a topic stop waiting once every task that could publish it has settled
+    plan.forEach(step => {
+      this.findSuitableAgentsInternal(step.type).forEach(candidate => {
+        this.agents.get(candidate.id)?.getPublishedTopics().forEach(topic => blackboard?.expect(topic, step.type));
+      });
+    });
+
+    const tasks: ScheduledTask[] = plan.map(step => ({
+      id: step.type,
+      dependsOn: step.dependsOn,
+      priority: step.priority,
+      run: async (results, attemptSignal) => {
+        const suitableAgents = this.findSuitableAgentsInternal(step.type);
+        if (suitableAgents.length === 0) throw new Error(`No agent can handle ${step.type} tasks`);
+        const selectedAgent = this.selectBestAgentInternal(suitableAgents, step.priority);
+        const agent = this.agents.get(selectedAgent.id);
+        if (!agent) throw new Error(`Agent ${selectedAgent.id} is not registered`);
+
+        this.emitEvent({
+          type: 'task-assigned',
+          agentId: selectedAgent.id,
+          timestamp: new Date(),
+          message: `🔄 Executing ${step.type} task`,
+          data: { taskType: step.type, dependsOn: step.dependsOn || [] }
+        });
+
+        return agent.runTask(this.createPlanTask(step, selectedAgent.id, results, attemptSignal));
+      },
+      fallback: this.getFallbackAgent(step.type) && (async (results, attemptSignal) => {
+        const agent = this.getFallbackAgent(step.type)!;
+        return agent.executeFallback(this.createPlanTask(step, agent.getStatus().id, results, attemptSignal));
+      })
+    }));
+
+    return runTaskGraph(tasks, {
+      maxConcurrent: this.config.maxConcurrentAgents,
+      timeoutMs: this.config.taskTimeout,
+      retryAttempts: this.config.retryAttempts,
+      retryDelayMs: AGENT_RECOVERY_CONFIG.RETRY_DELAY_MS,
+      signal,
+      onTaskEvent: event => {
+        if (event.type === 'completed' || event.type === 'failed') blackboard?.settle(event.taskId);
+        this.emitTaskEvent(event);
+      }
+    });
+  }
+
+  // Searches agents ran on their own this run; agents that did not search are left out
+  private collectSearchUsage(): Pick<CombinedResearchData['metadata'], 'agentSearches'> {
+    const agentSearches: Record<string, AgentSearchUsage> = {};
+    this.agents.forEach((agent, agentId) => {
+      const usage = agent.getSearchUsage();
+      if (usage.queries.length > 0) agentSearches[agentId] = usage;
+    });
+    return Object.keys(agentSearches).length > 0 ? { agentSearches } : {};
+  }
+
+  private getCustomAgents(): DeclarativeAgent[] {
+    return Array.from(this.agents.values()).filter((agent): agent is DeclarativeAgent => agent instanceof DeclarativeAgent);
+  }
+
+  // Custom agent results under their sections; agents that failed are left out
+  private buildCustomSections(gatheredData: Record<string, unknown>): Pick<CombinedResearchData, 'custom'> {
+    const custom: Record<string, CustomResearchSection> = {};
+    for (const agent of this.getCustomAgents()) {
+      const { id, name, description, section } = agent.definition;
+      if (!(id in gatheredData)) continue;
+      custom[section] = { agentId: agent.getStatus().id, name, description, data: gatheredData[id] };
+    }
+    return Object.keys(custom).length > 0 ? { custom } : {};
+  }
+
+  // The attempt's signal fires on the run's abort and on the attempt's timeout
+  private createPlanTask(step: ICPTaskPlan, agentId: string, results: Record<string, unknown>, signal: AbortSignal): AgentTask {
+    return {
+      id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      agentId,
+      type: step.type,
+      status: 'in_progress',
+      input: step.input(results),
+      priority: step.priority,
+      createdAt: new Date(),
+      signal
+    };
+  }
+
+  // The agent whose single-pass extraction stands in when a task keeps failing
+  private getFallbackAgent(taskType: string): BaseAgent | undefined {
+    return this.findSuitableAgentsInternal(taskType)
+      .map(candidate => this.agents.get(candidate.id))
+      .find((agent): agent is BaseAgent => !!agent && agent.hasFallback());
+  }
+
+  // Empty section for a task that produced nothing, so synthesis sees the dimension was covered and empty
+  private emptyResultFor(taskType: string): unknown {
+    for (const candidate of this.findSuitableAgentsInternal(taskType)) {
+      const empty = this.agents.get(candidate.id)?.emptyResult();
+      if (empty !== undefined) return empty;
+    }
+    return {};
+  }
+
+  private emitTaskEvent(event: TaskGraphEvent): void {
+    switch (event.type) {
+      case 'completed':
+        this.emitEvent({
+          type: 'data-shared',
+          agentId: 'coordinator',
+          timestamp: new Date(),
+          message: `✅ Completed ${event.taskId} task${event.fallback ? ' with the single-pass fallback' : ''} in ${Math.round(event.durationMs / 1000)}s`,
+          data: { taskType: event.taskId, attempt: event.attempt, durationMs: event.durationMs, fallback: event.fallback }
+        });
+        break;
+      case 'retrying':
+        this.emitEvent({
+          type: 'agent-error',
+          agentId: 'coordinator',
+          timestamp: new Date(),
+          message: `🔁 Retrying ${event.taskId} task after attempt ${event.attempt} failed: ${event.error}`,
+          data: { taskType: event.taskId, attempt: event.attempt, error: event.error }
+        });
+        break;
+      case 'fallback':
+        this.emitEvent({
+          type: 'agent-error',
+          agentId: 'coordinator',
+          timestamp: new Date(),
+          message: `🩹 ${event.taskId} failed after ${event.attempt} attempt${event.attempt === 1 ? '' : 's'} (${event.error}); falling back to a single-pass extraction`,
+          data: { taskType: event.taskId, attempt: event.attempt, error: event.error }
+        });
+        break;
+      case 'failed':
+        console.error(`Error executing task ${event.taskId}:`, event.error);
+        this.emitEvent({
+          type: 'agent-error',
+          agentId: 'coordinator',
+          timestamp: new Date(),
+          message: `❌ Failed to execute ${event.taskId} task: ${event.error}`,
+          data: { taskType: event.taskId, attempt: event.attempt, error: event.error }
+        });
+        break;
+    }
+  }
+
   // Process message queue
   private async processMessageQueue(): Promise<void> {
     if (this.isProcessing || this.messageQueue.length === 0) {
@@ -507,4 +593,19 @@ export class AgentHub {
   public getAllAgents(): BaseAgent[] {
     return Array.from(this.agents.values());
   }
-}
\ No newline at end of file
+}
+
+// Why a gathered result is weak: it came from the fallback, or every list in it is empty
+function describeWeakResult(result: unknown, fallbackReason?: string): DegradedDimension | undefined {
+  if (fallbackReason) {
+    return { reason: 'fallback', detail: `The full analysis failed (${fallbackReason}); a single-pass extraction stood in` };
+  }
+  if (!result || typeof result !== 'object') {
+    return { reason: 'no-evidence', detail: 'The agent returned no data' };
+  }
+  const lists = Object.values(result).filter(Array.isArray);
+  if (lists.length > 0 && lists.every(list => list.length === 0)) {
+    return { reason: 'no-evidence', detail: 'The agent found nothing to analyze in the sources' };
+  }
+  return undefined;
+}
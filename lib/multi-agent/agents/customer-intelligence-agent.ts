@@ -1,4 +1,4 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { BaseAgent } from '../base-agent';
 import { 
@@ -8,16 +8,26 @@ import {
   CustomerTestimonial,
   SuccessStory,
   CustomerJourneyStep,
-  CustomerPattern
+  CustomerPattern,
+  BlackboardTopic
 } from '../types';
 
 export class CustomerIntelligenceAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  protected readonly publishedTopics: BlackboardTopic[] = ['customer-industries', 'customer-companies'];
+
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel) {
     super(
       'customer-intelligence-agent',
       'Customer Intelligence Agent',
       'Specializes in analyzing customer case studies, testimonials, and success stories to identify patterns and characteristics of successful customers',
       [
+        {
+          name: 'customer-intelligence',
+          description: 'Full customer intelligence pass: case studies, testimonials, success stories, journey and patterns',
+          inputTypes: ['research-sources'],
+          outputTypes: ['customer-intelligence'],
+          estimatedDuration: 90000
+        },
         {
           name: 'customer-pattern-analysis',
           description: 'Analyzes customer case studies to identify common patterns and characteristics',
@@ -91,6 +101,10 @@ Always provide structured, actionable insights that can be used for ICP developm
       this.emitProgress("Case study analysis", 40);
       const caseStudies = await this.analyzeCaseStudies(customerContent, query);
       this.emitFinding("Case Studies", `Identified ${caseStudies.length} customer case studies`, 0.9);
+
+      // The other agents build on who the customers are, so share it before the slower passes
+      this.shareFinding('customer-industries', caseStudies.map(study => study.industry));
+      this.shareFinding('customer-companies', caseStudies.map(study => study.company));
       
       // Analyze testimonials
       this.emitThinking("Extracting and analyzing customer testimonials");
@@ -197,7 +211,7 @@ ${content.join('\n\n')}
 Extract all customer case studies and format them as structured data.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseCaseStudies(response);
   }
 
@@ -221,7 +235,7 @@ ${content.join('\n\n')}
 Extract all customer testimonials and format them as structured data.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseTestimonials(response);
   }
 
@@ -246,7 +260,7 @@ ${content.join('\n\n')}
 Extract all customer success stories and format them as structured data.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseSuccessStories(response);
   }
 
@@ -270,7 +284,7 @@ ${content.join('\n\n')}
 Map the customer journey and format as structured data.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseCustomerJourney(response);
   }
 
@@ -300,7 +314,7 @@ Success Stories: ${JSON.stringify(successStories, null, 2)}
 Identify common patterns and characteristics.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseCustomerPatterns(response);
   }
 
@@ -383,6 +397,20 @@ Identify common patterns and characteristics.`)
     return [];
   }
 
+  public emptyResult(): CustomerIntelligenceData {
+    return this.createEmptyCustomerIntelligenceData();
+  }
+
+  protected getFallbackShape(): string {
+    return `{
+  "caseStudies": [{ "company": "", "industry": "", "companySize": "", "useCase": "", "results": "", "implementation": "", "source": "" }],
+  "testimonials": [{ "company": "", "quote": "", "role": "", "industry": "", "source": "" }],
+  "successStories": [{ "company": "", "challenge": "", "solution": "", "outcome": "", "metrics": "", "source": "" }],
+  "customerJourney": [{ "stage": "", "description": "", "duration": "", "touchpoints": [""], "painPoints": [""] }],
+  "patterns": [{ "characteristic": "", "frequency": 0.5, "confidence": 0.5, "examples": [""] }]
+}`;
+  }
+
   private createEmptyCustomerIntelligenceData(): CustomerIntelligenceData {
     return {
       caseStudies: [],
@@ -1,4 +1,4 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { BaseAgent } from '../base-agent';
 import { 
@@ -8,16 +8,26 @@ import {
   RevenueRange,
   FundingStage,
   GeographicProfile,
-  IndustrySegment
+  IndustrySegment,
+  BlackboardTopic
 } from '../types';
 
 export class FirmographicAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  protected readonly publishedTopics: BlackboardTopic[] = ['company-sizes', 'industry-segments'];
+
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel) {
     super(
       'firmographic-agent',
       'Firmographic Agent',
       'Specializes in analyzing company demographics including size, revenue, funding, geography, and industry segments',
       [
+        {
+          name: 'firmographic-analysis',
+          description: 'Full firmographic pass: company sizes, revenue, funding, geography and industry segments',
+          inputTypes: ['research-sources'],
+          outputTypes: ['firmographic-data'],
+          estimatedDuration: 90000
+        },
         {
           name: 'company-size-analysis',
           description: 'Analyzes company size patterns and employee count distributions',
@@ -94,18 +104,26 @@ Always provide structured, quantifiable data with clear categorizations and exam
 
       // Analyze company sizes
       const companySizes = await this.analyzeCompanySizes(firmographicContent, query);
+      this.shareFinding('company-sizes', companySizes.map(size => size.range));
+
+      // Later passes stay consistent with the customers the customer agent has found by now
+      const sharedContent = [
+        ...firmographicContent,
+        ...this.formatSharedFacts(await this.readSharedFacts(['customer-industries', 'customer-companies']))
+      ];
       
       // Analyze revenue ranges
-      const revenueRanges = await this.analyzeRevenueRanges(firmographicContent, query);
+      const revenueRanges = await this.analyzeRevenueRanges(sharedContent, query);
       
       // Analyze funding stages
-      const fundingStages = await this.analyzeFundingStages(firmographicContent, query);
+      const fundingStages = await this.analyzeFundingStages(sharedContent, query);
       
       // Analyze geographic data
-      const geographicData = await this.analyzeGeographicData(firmographicContent, query);
+      const geographicData = await this.analyzeGeographicData(sharedContent, query);
       
       // Analyze industry segments
-      const industrySegments = await this.analyzeIndustrySegments(firmographicContent, query);
+      const industrySegments = await this.analyzeIndustrySegments(sharedContent, query);
+      this.shareFinding('industry-segments', industrySegments.map(segment => segment.segment));
 
       return {
         companySizes,
@@ -159,7 +177,7 @@ ${content.join('\n\n')}
 Extract and analyze company size patterns and create size profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseCompanySizeProfiles(response);
   }
 
@@ -182,7 +200,7 @@ ${content.join('\n\n')}
 Extract and analyze revenue ranges and create revenue profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseRevenueRanges(response);
   }
 
@@ -205,7 +223,7 @@ ${content.join('\n\n')}
 Extract and analyze funding stages and create funding profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseFundingStages(response);
   }
 
@@ -229,7 +247,7 @@ ${content.join('\n\n')}
 Extract and analyze geographic distribution and create geographic profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseGeographicProfiles(response);
   }
 
@@ -253,7 +271,7 @@ ${content.join('\n\n')}
 Extract and analyze industry segments and create industry profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseIndustrySegments(response);
   }
 
@@ -334,6 +352,20 @@ Extract and analyze industry segments and create industry profiles.`)
     return [];
   }
 
+  public emptyResult(): FirmographicData {
+    return this.createEmptyFirmographicData();
+  }
+
+  protected getFallbackShape(): string {
+    return `{
+  "companySizes": [{ "range": "", "employeeCount": "", "characteristics": [""], "examples": [""], "source": "" }],
+  "revenueRanges": [{ "range": "", "characteristics": [""], "examples": [""], "source": "" }],
+  "fundingStages": [{ "stage": "", "characteristics": [""], "examples": [""], "source": "" }],
+  "geographicData": [{ "region": "", "characteristics": [""], "marketSize": "", "examples": [""], "source": "" }],
+  "industrySegments": [{ "segment": "", "characteristics": [""], "marketSize": "", "examples": [""], "source": "" }]
+}`;
+  }
+
   private createEmptyFirmographicData(): FirmographicData {
     return {
       companySizes: [],
@@ -1,14 +1,18 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { AGENT_RECOVERY_CONFIG } from '../../config';
 import { BaseAgent } from '../base-agent';
+import { applyVerifiedCompanies } from '../company-enrichment';
 import { 
   AgentTask, 
   CombinedResearchData,
-  ICPProfile
+  DegradedDimension,
+  ICPProfile,
+  ResearchDimension
 } from '../types';
 
 export class ICPSynthesisAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel) {
     super(
       'icp-synthesis-agent',
       'ICP Synthesis Agent',
@@ -79,7 +83,17 @@ Always create profiles that are specific, actionable, and based on real customer
       // Generate insights for each profile
       const profilesWithInsights = await this.generateInsights(validatedProfiles, combinedResearchData);
 
-      return profilesWithInsights;
+      const discountedProfiles = this.discountForWeakResearch(profilesWithInsights, combinedResearchData);
+
+      // Synthesis rewrites target companies; carry over their website verification
+      const verifiedCompanies = (combinedResearchData.targetCompanyData?.companies || [])
+        .filter(company => company.verification);
+      if (verifiedCompanies.length === 0) return discountedProfiles;
+
+      return discountedProfiles.map(profile => ({
+        ...profile,
+        targetCompanies: applyVerifiedCompanies(profile.targetCompanies || [], verifiedCompanies)
+      }));
 
     } catch (error) {
       throw new Error(`ICP Synthesis Agent failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -129,7 +143,11 @@ Based on the comprehensive research data from multiple specialized agents, creat
    - Revenue Potential
    - Confidence Score
 
-Create profiles that are distinct, actionable, and based on the actual patterns identified in the research data.`),
+Create profiles that are distinct, actionable, and based on the actual patterns identified in the research data.${researchData.custom ? `
+
+The "custom" sections come from agents the team defined for signals they care about (for example hiring or compliance signals). Use them where they bear on fit, priority, buying triggers or messaging.` : ''}${researchData.degraded ? `
+
+The "degraded" entry lists dimensions whose research failed, came from a quick fallback pass or found nothing: ${Object.entries(researchData.degraded).map(([dimension, marker]) => `${dimension} (${marker!.reason})`).join(', ')}. Do not invent detail for them; say what is unknown and lean on the dimensions that have evidence.` : ''}`),
       new HumanMessage(`Query: "${query}"
 
 Combined Research Data:
@@ -212,6 +230,28 @@ Generate actionable insights and recommendations for each ICP profile.`)
     return this.parseProfilesWithInsights(response);
   }
 
+  // Each weak dimension takes its penalty off the model's confidence score
+  private discountForWeakResearch(profiles: ICPProfile[], researchData: CombinedResearchData): ICPProfile[] {
+    const degraded = Object.entries(researchData.degraded || {}) as Array<[ResearchDimension, DegradedDimension]>;
+    if (degraded.length === 0) return profiles;
+
+    const penalty = degraded.reduce((total, [, marker]) => total + AGENT_RECOVERY_CONFIG.CONFIDENCE_PENALTIES[marker.reason], 0);
+    const weakDimensions = degraded.map(([dimension]) => dimension);
+
+    return profiles.map(profile => {
+      if (!profile?.validation || typeof profile.validation.confidence !== 'number') return profile;
+      const confidence = Math.max(AGENT_RECOVERY_CONFIG.MIN_CONFIDENCE, profile.validation.confidence - penalty);
+      return {
+        ...profile,
+        validation: {
+          ...profile.validation,
+          confidence: Math.min(profile.validation.confidence, Math.round(confidence * 100) / 100),
+          weakDimensions
+        }
+      };
+    });
+  }
+
   // Parsing methods
   private parseICPProfiles(response: string): ICPProfile[] {
     try {
@@ -1,4 +1,4 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { BaseAgent } from '../base-agent';
 import { 
@@ -8,16 +8,26 @@ import {
   MarketSizeData,
   CompetitiveData,
   GrowthRate,
-  RegulatoryInfo
+  RegulatoryInfo,
+  BlackboardTopic
 } from '../types';
 
 export class MarketResearchAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  protected readonly publishedTopics: BlackboardTopic[] = ['competitors'];
+
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel) {
     super(
       'market-research-agent',
       'Market Research Agent',
       'Specializes in gathering market intelligence, industry trends, competitive landscape, and regulatory environment data',
       [
+        {
+          name: 'market-research',
+          description: 'Full market research pass: trends, market size, competitors, growth and regulation',
+          inputTypes: ['research-sources'],
+          outputTypes: ['market-research'],
+          estimatedDuration: 90000
+        },
         {
           name: 'industry-trend-analysis',
           description: 'Analyzes industry trends and market dynamics',
@@ -105,22 +115,29 @@ Always provide data-driven insights with proper sourcing and confidence levels.`
       const marketSize = await this.calculateMarketSize(marketContent, query);
       this.emitFinding("Market Size", `Calculated TAM: ${marketSize.tam}, SAM: ${marketSize.sam}`, 0.8);
       
+      // By now the customer agent has usually shared who the customers are
+      const sharedContent = [
+        ...marketContent,
+        ...this.formatSharedFacts(await this.readSharedFacts(['customer-industries', 'customer-companies', 'industry-segments']))
+      ];
+
       // Analyze competitive landscape
       this.emitThinking("Analyzing competitive landscape and market positioning");
       this.emitProgress("Competitive analysis", 80);
-      const competitiveLandscape = await this.analyzeCompetitiveLandscape(marketContent, query);
+      const competitiveLandscape = await this.analyzeCompetitiveLandscape(sharedContent, query);
       this.emitFinding("Competitors", `Identified ${competitiveLandscape.length} key competitors`, 0.9);
+      this.shareFinding('competitors', competitiveLandscape.map(competitor => competitor.competitor));
       
       // Analyze growth rates
       this.emitThinking("Analyzing market growth rates and projections");
       this.emitProgress("Growth rate analysis", 90);
-      const growthRates = await this.analyzeGrowthRates(marketContent, query);
+      const growthRates = await this.analyzeGrowthRates(sharedContent, query);
       this.emitFinding("Growth Rates", `Analyzed ${growthRates.length} growth rate segments`, 0.75);
       
       // Analyze regulatory environment
       this.emitThinking("Analyzing regulatory environment and compliance requirements");
       this.emitProgress("Regulatory analysis", 95);
-      const regulatoryEnvironment = await this.analyzeRegulatoryEnvironment(marketContent, query);
+      const regulatoryEnvironment = await this.analyzeRegulatoryEnvironment(sharedContent, query);
       this.emitFinding("Regulations", `Identified ${regulatoryEnvironment.length} regulatory factors`, 0.7);
 
       this.emitProgress("Market research complete", 100);
@@ -190,7 +207,7 @@ ${content.join('\n\n')}
 Extract and analyze all relevant industry trends.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseIndustryTrends(response);
   }
 
@@ -214,7 +231,7 @@ ${content.join('\n\n')}
 Calculate market size metrics and provide structured data.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'object');
     return this.parseMarketSize(response);
   }
 
@@ -239,7 +256,7 @@ ${content.join('\n\n')}
 Analyze the competitive landscape and identify key competitors.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseCompetitiveData(response);
   }
 
@@ -262,7 +279,7 @@ ${content.join('\n\n')}
 Extract and analyze growth rates for relevant market segments.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseGrowthRates(response);
   }
 
@@ -285,7 +302,7 @@ ${content.join('\n\n')}
 Analyze the regulatory environment and identify key regulations.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseRegulatoryInfo(response);
   }
 
@@ -372,6 +389,20 @@ Analyze the regulatory environment and identify key regulations.`)
     return [];
   }
 
+  public emptyResult(): MarketResearchData {
+    return this.createEmptyMarketResearchData();
+  }
+
+  protected getFallbackShape(): string {
+    return `{
+  "industryTrends": [{ "trend": "", "impact": "high|medium|low", "timeframe": "", "source": "", "description": "" }],
+  "marketSize": { "tam": "", "sam": "", "som": "", "growthRate": "", "source": "" },
+  "competitiveLandscape": [{ "competitor": "", "marketShare": "", "strengths": [""], "weaknesses": [""], "positioning": "", "source": "" }],
+  "growthRates": [{ "segment": "", "rate": "", "timeframe": "", "source": "" }],
+  "regulatoryEnvironment": [{ "regulation": "", "impact": "", "compliance": "", "source": "" }]
+}`;
+  }
+
   private createEmptyMarketResearchData(): MarketResearchData {
     return {
       industryTrends: [],
@@ -1,4 +1,4 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { BaseAgent } from '../base-agent';
 import { 
@@ -7,16 +7,45 @@ import {
   PainPoint,
   BuyingTrigger,
   DecisionProcess,
-  BudgetBehavior
+  BudgetBehavior,
+  AgentOutputSchema,
+  BlackboardTopic
 } from '../types';
 
+// Reviews, forums and buyer guides state the pain points and buying behavior that research sources rarely do
+const PSYCHOGRAPHIC_SEARCHES = [
+  'customer pain points challenges reviews',
+  'why companies switch buying triggers',
+  'buying process evaluation criteria decision makers',
+  'budget pricing spend per year',
+];
+
+const BUYER_EVIDENCE_SCHEMA: AgentOutputSchema = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: ['pain-point', 'buying-trigger', 'decision-process', 'budget'] },
+    statement: { type: 'string', description: 'What the page says, close to its own words' },
+    companies: { type: 'array', items: { type: 'string' }, description: 'Companies the page names in connection with it' }
+  },
+  required: ['kind', 'statement']
+};
+
 export class PsychographicAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  protected readonly publishedTopics: BlackboardTopic[] = ['pain-points'];
+
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel) {
     super(
       'psychographic-agent',
       'Psychographic Agent',
       'Specializes in analyzing buying behavior, pain points, decision-making processes, and budget allocation patterns',
       [
+        {
+          name: 'psychographic-analysis',
+          description: 'Full psychographic pass: pain points, buying triggers, decision processes and budget behavior',
+          inputTypes: ['research-sources'],
+          outputTypes: ['psychographic-data'],
+          estimatedDuration: 90000
+        },
         {
           name: 'pain-point-analysis',
           description: 'Analyzes customer pain points and challenges',
@@ -77,15 +106,31 @@ Always provide insights that help understand the "why" behind customer behavior.
     try {
       const { query, sources } = task.input as { query: string; sources: unknown[] };
 
-      // Extract psychographic content from sources
-      const psychographicContent = this.extractPsychographicContent(sources);
+      // Buyer behavior differs by industry, so searches focus on the customers' main industry once it is known
+      const customerFacts = await this.readSharedFacts(['customer-industries'], true);
+      const industry = customerFacts[0]?.values[0];
+      const topic = this.searchTopic(industry ? `${query} ${industry}` : query);
+
+      // Extract psychographic content from sources, plus what the agent's own searches turn up
+      const evidence = await Promise.all(
+        PSYCHOGRAPHIC_SEARCHES.map(search => this.searchAndExtractData(`${topic} ${search}`, BUYER_EVIDENCE_SCHEMA))
+      );
+      const psychographicContent = [
+        ...this.extractPsychographicContent(sources),
+        ...this.formatEvidence(evidence.flat())
+      ];
       
       if (psychographicContent.length === 0) {
         return this.createEmptyPsychographicData();
       }
+      psychographicContent.push(...this.formatSharedFacts([
+        ...customerFacts,
+        ...await this.readSharedFacts(['customer-companies', 'company-sizes'])
+      ]));
 
       // Analyze pain points
       const painPoints = await this.analyzePainPoints(psychographicContent, query);
+      this.shareFinding('pain-points', painPoints.map(point => point.painPoint));
       
       // Analyze buying triggers
       const buyingTriggers = await this.analyzeBuyingTriggers(psychographicContent, query);
@@ -148,7 +193,7 @@ ${content.join('\n\n')}
 Extract and analyze pain points and create pain point profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parsePainPoints(response);
   }
 
@@ -171,7 +216,7 @@ ${content.join('\n\n')}
 Extract and analyze buying triggers and create trigger profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseBuyingTriggers(response);
   }
 
@@ -195,7 +240,7 @@ ${content.join('\n\n')}
 Extract and analyze decision-making processes and create process profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseDecisionProcesses(response);
   }
 
@@ -218,7 +263,7 @@ ${content.join('\n\n')}
 Extract and analyze budget behaviors and create behavior profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseBudgetBehaviors(response);
   }
 
@@ -284,6 +329,19 @@ Extract and analyze budget behaviors and create behavior profiles.`)
     return [];
   }
 
+  public emptyResult(): PsychographicData {
+    return this.createEmptyPsychographicData();
+  }
+
+  protected getFallbackShape(): string {
+    return `{
+  "painPoints": [{ "painPoint": "", "severity": "high|medium|low", "frequency": 0.5, "examples": [""], "source": "" }],
+  "buyingTriggers": [{ "trigger": "", "impact": "high|medium|low", "examples": [""], "source": "" }],
+  "decisionProcesses": [{ "process": "", "duration": "", "stakeholders": [""], "examples": [""], "source": "" }],
+  "budgetBehaviors": [{ "behavior": "", "characteristics": [""], "examples": [""], "source": "" }]
+}`;
+  }
+
   private createEmptyPsychographicData(): PsychographicData {
     return {
       painPoints: [],
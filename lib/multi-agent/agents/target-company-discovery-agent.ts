@@ -1,6 +1,7 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
 import { BaseAgent } from '../base-agent';
+import { CompanyEnricher } from '../company-enrichment';
 import { 
   AgentTask, 
   TargetCompanyData,
@@ -10,12 +11,22 @@ import {
 } from '../types';
 
 export class TargetCompanyDiscoveryAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  /**
+   * @param enricher Checks discovered companies against their websites; without it candidates are returned unverified
+   */
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel, private enricher?: CompanyEnricher) {
     super(
       'target-company-discovery-agent',
       'Target Company Discovery Agent',
       'Specializes in discovering and validating specific target companies based on ICP characteristics and patterns',
       [
+        {
+          name: 'target-company-discovery',
+          description: 'Discovers, verifies and maps target companies from the customer, market and firmographic findings',
+          inputTypes: ['customer-intelligence', 'market-research', 'firmographic-data'],
+          outputTypes: ['target-companies'],
+          estimatedDuration: 90000
+        },
         {
           name: 'company-discovery',
           description: 'Discovers specific target companies matching ICP criteria',
@@ -82,11 +93,29 @@ Always provide real, verifiable companies with specific reasoning for why they f
         return this.createEmptyTargetCompanyData();
       }
 
-      // Discover target companies
-      const companies = await this.discoverTargetCompanies(icpCriteria, query);
+      // What the other agents shared, including the psychographic and technographic agents this task does not wait for
+      const sharedFacts = await this.readSharedFacts(['customer-companies', 'competitors', 'technologies', 'pain-points']);
+      sharedFacts
+        .filter(fact => fact.topic === 'technologies' || fact.topic === 'pain-points')
+        .forEach(fact => {
+          icpCriteria[fact.topic === 'technologies' ? 'technologiesInUse' : 'painPoints'] = fact.values;
+        });
+
+      // Discover target companies; existing customers and competitors are not prospects
+      const excluded = sharedFacts.filter(fact => fact.topic === 'customer-companies' || fact.topic === 'competitors');
+      const discovered = this.excludeKnownCompanies(
+        await this.discoverTargetCompanies(icpCriteria, query, excluded.flatMap(fact => fact.values)),
+        excluded.flatMap(fact => fact.values)
+      );
+
+      // Check each candidate against its own website
+      const companies = this.enricher ? await this.verifyCompanies(discovered, this.enricher) : discovered;
       
       // Validate discovered companies
-      const validationResults = await this.validateCompanies(companies, icpCriteria);
+      const validationResults = this.flagUnverifiedCompanies(
+        await this.validateCompanies(companies, icpCriteria),
+        companies
+      );
       
       // Create market maps
       const marketMapping = await this.createMarketMaps(companies, icpCriteria);
@@ -156,7 +185,18 @@ Always provide real, verifiable companies with specific reasoning for why they f
     return criteria;
   }
 
-  private async discoverTargetCompanies(criteria: Record<string, unknown>, query: string): Promise<TargetCompany[]> {
+  private excludeKnownCompanies(companies: TargetCompany[], known: string[]): TargetCompany[] {
+    const names = new Set(known.map(normalizeCompanyName).filter(Boolean));
+    const kept = companies.filter(company => !names.has(normalizeCompanyName(company.name || '')));
+    if (kept.length < companies.length) {
+      this.emitThinking(`Left out ${companies.length - kept.length} existing customers or competitors`, {
+        excluded: companies.filter(company => !kept.includes(company)).map(company => company.name)
+      });
+    }
+    return kept;
+  }
+
+  private async discoverTargetCompanies(criteria: Record<string, unknown>, query: string, exclude: string[] = []): Promise<TargetCompany[]> {
     const messages = [
       new SystemMessage(`${this.getSystemPrompt()}
 
@@ -177,10 +217,12 @@ Focus on finding real, verifiable companies that match the patterns identified i
 ICP Criteria:
 ${JSON.stringify(criteria, null, 2)}
 
-Discover 15-20 specific target companies that match these criteria. Provide real company names and domains.`)
+Discover 15-20 specific target companies that match these criteria. Provide real company names and domains.${exclude.length > 0 ? `
+
+These are existing customers or competitors, not prospects - do not include them: ${exclude.join(', ')}` : ''}`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseTargetCompanies(response);
   }
 
@@ -194,7 +236,8 @@ Validate the discovered companies against the ICP criteria. For each company, as
 - Confidence score in the validation (0-1)
 - Source of validation information
 
-Focus on ensuring companies truly match the identified patterns and characteristics.`),
+Focus on ensuring companies truly match the identified patterns and characteristics.
+Where a company has a "verification" record, its fields were checked against the company's website: fields with provenance source "website" are confirmed, fields with source "llm" are unconfirmed claims, and companies with status "unverified" could not be found online.`),
       new HumanMessage(`Companies to validate:
 ${JSON.stringify(companies, null, 2)}
 
@@ -204,7 +247,7 @@ ${JSON.stringify(criteria, null, 2)}
 Validate each company and provide detailed reasoning.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseCompanyValidations(response);
   }
 
@@ -229,10 +272,56 @@ ${JSON.stringify(criteria, null, 2)}
 Create market maps and segment the companies logically.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseMarketMaps(response);
   }
 
+  private async verifyCompanies(companies: TargetCompany[], enricher: CompanyEnricher): Promise<TargetCompany[]> {
+    this.emitThinking(`Verifying ${companies.length} candidate companies against their websites`);
+    let checked = 0;
+
+    const verified = await enricher.enrichCompanies(companies, {
+      signal: this.abortSignal,
+      onVerified: company => {
+        checked++;
+        this.emitProgress(`Verified ${company.name}: ${company.verification?.status}`, Math.round((checked / companies.length) * 100));
+      }
+    });
+
+    const confirmed = verified.filter(company => company.verification?.status === 'verified').length;
+    this.emitFinding('verified companies', `${confirmed} of ${verified.length} confirmed on their own websites`);
+    return verified;
+  }
+
+  /**
+   * Companies that failed website verification cannot be valid high-confidence leads,
+   * whatever the validation model concluded
+   */
+  private flagUnverifiedCompanies(validations: CompanyValidation[], companies: TargetCompany[]): CompanyValidation[] {
+    const result = [...validations];
+
+    for (const company of companies) {
+      const verification = company.verification;
+      if (!verification || verification.status === 'verified') continue;
+
+      const existing = result.find(validation => validation.company?.toLowerCase() === company.name.toLowerCase());
+      const validation: CompanyValidation = existing || {
+        company: company.name,
+        isValid: true,
+        reasons: [],
+        confidence: company.confidence,
+        source: 'website verification'
+      };
+
+      validation.reasons = [...(validation.reasons || []), ...verification.issues];
+      validation.confidence = Math.min(validation.confidence || 0, company.confidence);
+      if (verification.status === 'unverified') validation.isValid = false;
+      if (!existing) result.push(validation);
+    }
+
+    return result;
+  }
+
   // Parsing methods
   private parseTargetCompanies(response: string): TargetCompany[] {
     try {
@@ -280,6 +369,19 @@ Create market maps and segment the companies logically.`)
     return [];
   }
 
+  public emptyResult(): TargetCompanyData {
+    return this.createEmptyTargetCompanyData();
+  }
+
+  // Target discovery's fallback only proposes companies; verification and market maps need the full pass
+  protected getFallbackShape(): string {
+    return `{
+  "companies": [{ "name": "", "domain": "", "industry": "", "size": "", "location": "", "revenue": "", "funding": "", "techStack": [""], "reasoning": "", "confidence": 0.5, "source": "" }],
+  "validationResults": [],
+  "marketMapping": []
+}`;
+  }
+
   private createEmptyTargetCompanyData(): TargetCompanyData {
     return {
       companies: [],
@@ -287,4 +389,14 @@ Create market maps and segment the companies logically.`)
       marketMapping: []
     };
   }
-}
\ No newline at end of file
+}
+
+// Company names compared without case, punctuation or legal suffixes
+function normalizeCompanyName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\b(inc|llc|ltd|corp|corporation|co|gmbh|plc)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -1,5 +1,6 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { TechnographicScanner, toIntegrations, toTechStacks } from '../../technographics';
 import { BaseAgent } from '../base-agent';
 import { 
   AgentTask, 
@@ -7,16 +8,48 @@ import {
   TechStack,
   Integration,
   DigitalMaturityLevel,
-  PlatformRequirement
+  PlatformRequirement,
+  AgentOutputSchema,
+  BlackboardTopic
 } from '../types';
 
+// Stack listings, job posts and integration directories name the tools a segment runs
+const TECHNOGRAPHIC_SEARCHES = [
+  'tech stack tools used',
+  'integrations software platforms',
+  'job posting engineering stack requirements',
+];
+
+const STACK_EVIDENCE_SCHEMA: AgentOutputSchema = {
+  type: 'object',
+  properties: {
+    company: { type: 'string', description: 'Company the page is about, if it names one' },
+    category: { type: 'string', description: 'e.g. CRM, Analytics, Cloud' },
+    technologies: { type: 'array', items: { type: 'string' } },
+    context: { type: 'string', description: 'How the page says they are used' }
+  },
+  required: ['technologies']
+};
+
 export class TechnographicAgent extends BaseAgent {
-  constructor(llm: ChatOpenAI, streamingLlm: ChatOpenAI) {
+  protected readonly publishedTopics: BlackboardTopic[] = ['technologies'];
+
+  /**
+   * @param scanner Fingerprints the source pages; without it tech stacks and integrations are inferred by the model alone
+   */
+  constructor(llm: BaseChatModel, streamingLlm: BaseChatModel, private scanner?: TechnographicScanner) {
     super(
       'technographic-agent',
       'Technographic Agent',
       'Specializes in analyzing technology stacks, integrations, digital maturity, and platform requirements',
       [
+        {
+          name: 'technographic-analysis',
+          description: 'Full technographic pass: tech stacks, integrations, digital maturity and platform requirements',
+          inputTypes: ['research-sources'],
+          outputTypes: ['technographic-data'],
+          estimatedDuration: 90000
+        },
         {
           name: 'tech-stack-analysis',
           description: 'Analyzes technology stacks and tool usage patterns',
@@ -77,18 +110,46 @@ Always provide structured, actionable insights about technology usage and requir
     try {
       const { query, sources } = task.input as { query: string; sources: unknown[] };
 
-      // Extract technographic content from sources
-      const technographicContent = this.extractTechnographicContent(sources);
+      // Deterministic detections come first; the model only fills the categories they leave open
+      const scan = this.scanner
+        ? await this.scanner.scan(this.collectPageUrls(query, sources), this.abortSignal)
+        : { technologies: [], scannedUrls: [] };
+      const fingerprintedStacks = toTechStacks(scan.technologies);
+      const fingerprintedIntegrations = toIntegrations(scan.technologies);
+
+      // Stacks differ by industry, so searches focus on the customers' main industry once it is known
+      const customerFacts = await this.readSharedFacts(['customer-industries'], true);
+      const industry = customerFacts[0]?.values[0];
+      const topic = this.searchTopic(industry ? `${query} ${industry}` : query);
+
+      // Extract technographic content from sources, plus what the agent's own searches turn up
+      const evidence = await Promise.all(
+        TECHNOGRAPHIC_SEARCHES.map(search => this.searchAndExtractData(`${topic} ${search}`, STACK_EVIDENCE_SCHEMA))
+      );
+      const technographicContent = [
+        ...this.extractTechnographicContent(sources),
+        ...this.formatEvidence(evidence.flat())
+      ];
       
       if (technographicContent.length === 0) {
-        return this.createEmptyTechnographicData();
+        this.shareFinding('technologies', fingerprintedStacks.flatMap(stack => stack.tools));
+        return {
+          ...this.createEmptyTechnographicData(),
+          techStacks: fingerprintedStacks,
+          integrations: fingerprintedIntegrations
+        };
       }
+      technographicContent.push(...this.formatSharedFacts([
+        ...customerFacts,
+        ...await this.readSharedFacts(['customer-companies', 'company-sizes'])
+      ]));
 
       // Analyze tech stacks
-      const techStacks = await this.analyzeTechStacks(technographicContent, query);
+      const techStacks = await this.analyzeTechStacks(technographicContent, query, fingerprintedStacks);
+      this.shareFinding('technologies', [...fingerprintedStacks, ...techStacks].flatMap(stack => stack.tools || []));
       
       // Analyze integrations
-      const integrations = await this.analyzeIntegrations(technographicContent, query);
+      const integrations = await this.analyzeIntegrations(technographicContent, query, fingerprintedIntegrations);
       
       // Analyze digital maturity
       const digitalMaturity = await this.analyzeDigitalMaturity(technographicContent, query);
@@ -97,8 +158,18 @@ Always provide structured, actionable insights about technology usage and requir
       const platformRequirements = await this.analyzePlatformRequirements(technographicContent, query);
 
       return {
-        techStacks,
-        integrations,
+        techStacks: [
+          ...fingerprintedStacks,
+          ...techStacks
+            .filter(stack => !coveredBy(stack.category, fingerprintedStacks.map(known => known.category)))
+            .map(stack => ({ ...stack, detection: 'llm' as const }))
+        ],
+        integrations: [
+          ...fingerprintedIntegrations,
+          ...integrations
+            .filter(integration => !coveredBy(integration.type, fingerprintedIntegrations.map(known => known.type)))
+            .map(integration => ({ ...integration, detection: 'llm' as const }))
+        ],
         digitalMaturity,
         platformRequirements
       };
@@ -108,6 +179,15 @@ Always provide structured, actionable insights about technology usage and requir
     }
   }
 
+  // Web pages behind the sources and any site named in the query; the research dossier is not a page
+  private collectPageUrls(query: string, sources: unknown[]): string[] {
+    const fromQuery = query.match(/https?:\/\/[^\s"'<>]+/g) || [];
+    const fromSources = sources
+      .map(source => (source as { url?: string }).url)
+      .filter((url): url is string => typeof url === 'string');
+    return [...fromQuery, ...fromSources].filter(url => /^https?:\/\//i.test(url));
+  }
+
   private extractTechnographicContent(sources: unknown[]): string[] {
     const technographicKeywords = [
       'technology', 'tech stack', 'software', 'platform', 'tool',
@@ -128,7 +208,7 @@ Always provide structured, actionable insights about technology usage and requir
       );
   }
 
-  private async analyzeTechStacks(content: string[], query: string): Promise<TechStack[]> {
+  private async analyzeTechStacks(content: string[], query: string, detected: TechStack[]): Promise<TechStack[]> {
     const messages = [
       new SystemMessage(`${this.getSystemPrompt()}
 
@@ -139,7 +219,7 @@ Analyze technology stacks from the provided content. For each tech stack categor
 - Real examples of companies using these tools
 - Source of information
 
-Focus on technology categories that are relevant to the target market.`),
+Focus on technology categories that are relevant to the target market.${detectedNote(detected.map(stack => `${stack.category}: ${stack.tools.join(', ')}`))}`),
       new HumanMessage(`Query: "${query}"
 
 Content to analyze:
@@ -148,11 +228,11 @@ ${content.join('\n\n')}
 Extract and analyze technology stacks and create tech stack profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseTechStacks(response);
   }
 
-  private async analyzeIntegrations(content: string[], query: string): Promise<Integration[]> {
+  private async analyzeIntegrations(content: string[], query: string, detected: Integration[]): Promise<Integration[]> {
     const messages = [
       new SystemMessage(`${this.getSystemPrompt()}
 
@@ -162,7 +242,7 @@ Analyze integration requirements from the provided content. For each integration
 - Real examples of companies with these integration needs
 - Source of information
 
-Focus on integration requirements that affect purchasing decisions.`),
+Focus on integration requirements that affect purchasing decisions.${detectedNote(detected.map(integration => `${integration.type}: ${integration.requirements.join(', ')}`))}`),
       new HumanMessage(`Query: "${query}"
 
 Content to analyze:
@@ -171,7 +251,7 @@ ${content.join('\n\n')}
 Extract and analyze integration requirements and create integration profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseIntegrations(response);
   }
 
@@ -194,7 +274,7 @@ ${content.join('\n\n')}
 Extract and analyze digital maturity levels and create maturity profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parseDigitalMaturityLevels(response);
   }
 
@@ -217,7 +297,7 @@ ${content.join('\n\n')}
 Extract and analyze platform requirements and create requirement profiles.`)
     ];
 
-    const response = await this.callLLM(messages);
+    const response = await this.callLLMForJSON(messages, 'array');
     return this.parsePlatformRequirements(response);
   }
 
@@ -283,6 +363,19 @@ Extract and analyze platform requirements and create requirement profiles.`)
     return [];
   }
 
+  public emptyResult(): TechnographicData {
+    return this.createEmptyTechnographicData();
+  }
+
+  protected getFallbackShape(): string {
+    return `{
+  "techStacks": [{ "category": "", "tools": [""], "characteristics": [""], "examples": [""], "source": "" }],
+  "integrations": [{ "type": "", "requirements": [""], "examples": [""], "source": "" }],
+  "digitalMaturity": [{ "level": "", "characteristics": [""], "examples": [""], "source": "" }],
+  "platformRequirements": [{ "requirement": "", "importance": "high|medium|low", "examples": [""], "source": "" }]
+}`;
+  }
+
   private createEmptyTechnographicData(): TechnographicData {
     return {
       techStacks: [],
@@ -291,4 +384,18 @@ Extract and analyze platform requirements and create requirement profiles.`)
       platformRequirements: []
     };
   }
-}
\ No newline at end of file
+}
+
+// Tells the model which categories page fingerprints already settled
+function detectedNote(lines: string[]): string {
+  if (lines.length === 0) return '';
+  return `
+
+Already detected from page markup and headers (do not repeat these categories; only add what they miss):
+${lines.map(line => `- ${line}`).join('\n')}`;
+}
+
+function coveredBy(category: string, known: string[]): boolean {
+  const normalized = category.trim().toLowerCase();
+  return known.some(item => item.trim().toLowerCase() === normalized);
+}
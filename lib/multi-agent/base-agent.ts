@@ -1,27 +1,53 @@
-import { ChatOpenAI } from "@langchain/openai";
-import { BaseMessage } from "@langchain/core/messages";
+import { AsyncLocalStorage } from 'async_hooks';
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { isAbortError } from "../abort";
+import { AGENT_RECOVERY_CONFIG, AGENT_SEARCH_CONFIG } from "../config";
+import { FirecrawlClient } from "../firecrawl";
+import { messageText } from "../llm";
+import { outputSchemaToZod } from './agent-definitions';
+import { Blackboard, BLACKBOARD_TOPIC_LABELS } from './blackboard';
 import { 
   Agent, 
   AgentMessage, 
   AgentTask, 
   AgentCapability, 
-  AgentEvent
+  AgentEvent,
+  AgentEvidence,
+  AgentOutputSchema,
+  AgentSearchUsage,
+  BlackboardFact,
+  BlackboardTopic
 } from './types';
 
+const extractedRecordsSchema = z.array(z.object({
+  url: z.string(),
+  data: z.unknown(),
+}));
+
 export abstract class BaseAgent {
-  protected llm: ChatOpenAI;
-  protected streamingLlm: ChatOpenAI;
+  protected llm: BaseChatModel;
+  protected streamingLlm: BaseChatModel;
   protected agent: Agent;
   protected messageQueue: AgentMessage[] = [];
   protected eventCallbacks: ((event: AgentEvent) => void)[] = [];
+  // Signal of the task running in the current async context, so overlapping attempts never share one
+  private taskSignal = new AsyncLocalStorage<AbortSignal | undefined>();
+  private searchClient?: FirecrawlClient;
+  private queryBudget: number = AGENT_SEARCH_CONFIG.DEFAULT_QUERY_BUDGET;
+  private searchLog: Array<{ query: string; urls: string[] }> = [];
+  private blackboard?: Blackboard;
+  // Topics this agent shares on the blackboard; agents waiting on them stop waiting once its task settles
+  protected readonly publishedTopics: BlackboardTopic[] = [];
 
   constructor(
     agentId: string,
     name: string,
     description: string,
     capabilities: AgentCapability[],
-    llm: ChatOpenAI,
-    streamingLlm: ChatOpenAI
+    llm: BaseChatModel,
+    streamingLlm: BaseChatModel
   ) {
     this.llm = llm;
     this.streamingLlm = streamingLlm;
@@ -39,6 +65,87 @@ export abstract class BaseAgent {
   abstract executeTask(task: AgentTask): Promise<unknown>;
   abstract getSystemPrompt(): string;
 
+  // Cancellation signal of the task being worked on; picked up by callLLM
+  protected get abortSignal(): AbortSignal | undefined {
+    return this.taskSignal.getStore();
+  }
+
+  // Run a task under its own signal. An attempt abandoned at its timeout keeps
+  // its aborted signal, so its remaining calls stop instead of running alongside the retry.
+  public runTask(task: AgentTask): Promise<unknown> {
+    return this.taskSignal.run(task.signal, () => this.executeTask(task));
+  }
+
+  // Search layer for searchAndExtractData; without one, agents only see the sources they are given
+  public setSearchClient(client: FirecrawlClient | undefined, queryBudget: number = AGENT_SEARCH_CONFIG.DEFAULT_QUERY_BUDGET): void {
+    this.searchClient = client;
+    this.queryBudget = queryBudget;
+  }
+
+  // Called at the start of each analysis; the query budget is per analysis, shared by retries
+  public resetSearchUsage(): void {
+    this.searchLog = [];
+  }
+
+  public getSearchUsage(): AgentSearchUsage {
+    return {
+      queries: this.searchLog.map(entry => entry.query),
+      urls: Array.from(new Set(this.searchLog.flatMap(entry => entry.urls))),
+      queryBudget: this.queryBudget
+    };
+  }
+
+  // Blackboard for the current run; unset when data sharing is off, which makes sharing and reading no-ops
+  public setBlackboard(blackboard?: Blackboard): void {
+    this.blackboard = blackboard;
+  }
+
+  public getPublishedTopics(): BlackboardTopic[] {
+    return [...this.publishedTopics];
+  }
+
+  // Share an intermediate finding with the agents still working
+  protected shareFinding(topic: BlackboardTopic, values: string[]): void {
+    const fact = this.blackboard?.publish({ topic, agentId: this.agent.id, agentName: this.agent.name, values });
+    if (!fact) return;
+
+    this.emitEvent({
+      type: 'data-shared',
+      agentId: this.agent.id,
+      timestamp: new Date(),
+      message: `📌 ${this.agent.name} shared ${BLACKBOARD_TOPIC_LABELS[topic].toLowerCase()}: ${fact.values.join(', ')}`,
+      data: { topic, values: fact.values }
+    });
+  }
+
+  /**
+   * Facts other agents shared on the topics. With wait, topics that are still
+   * being worked on are waited for, up to BLACKBOARD_CONFIG.WAIT_MS.
+   */
+  protected async readSharedFacts(topics: BlackboardTopic[], wait: boolean = false): Promise<BlackboardFact[]> {
+    if (!this.blackboard) return [];
+
+    const facts = (wait ? await this.blackboard.waitFor(topics, undefined, this.abortSignal) : this.blackboard.read(topics))
+      .filter(fact => fact.agentId !== this.agent.id);
+    facts.forEach(fact => {
+      this.emitEvent({
+        type: 'data-shared',
+        agentId: this.agent.id,
+        timestamp: new Date(),
+        message: `📥 ${this.agent.name} is using ${BLACKBOARD_TOPIC_LABELS[fact.topic].toLowerCase()} from ${fact.agentName}`,
+        data: { topic: fact.topic, from: fact.agentId, values: fact.values }
+      });
+    });
+    return facts;
+  }
+
+  // Shared facts as a block of analysis content
+  protected formatSharedFacts(facts: BlackboardFact[]): string[] {
+    if (facts.length === 0) return [];
+    return [`Findings shared by other agents in this analysis (stay consistent with them where the content allows):
+${facts.map(fact => `- ${BLACKBOARD_TOPIC_LABELS[fact.topic]} (${fact.agentName}): ${fact.values.join(', ')}`).join('\n')}`];
+  }
+
   // Common agent functionality
   async processMessage(message: AgentMessage): Promise<void> {
     this.messageQueue.push(message);
@@ -143,37 +250,225 @@ export abstract class BaseAgent {
     }
   }
 
-  protected async callLLM(messages: BaseMessage[], streaming: boolean = false): Promise<string> {
+  protected async callLLM(
+    messages: BaseMessage[],
+    streaming: boolean = false,
+    signal: AbortSignal | undefined = this.abortSignal
+  ): Promise<string> {
     try {
       if (streaming) {
-        const stream = await this.streamingLlm.stream(messages);
+        const stream = await this.streamingLlm.stream(messages, { signal });
         let fullText = '';
         
         for await (const chunk of stream) {
-          const content = chunk.content;
-          if (typeof content === 'string') {
+          const content = messageText(chunk.content);
+          if (content) {
             fullText += content;
           }
         }
         return fullText;
       } else {
-        const response = await this.llm.invoke(messages);
-        return response.content.toString();
+        const response = await this.llm.invoke(messages, { signal });
+        return messageText(response.content);
       }
     } catch (error) {
+      // Keep aborts recognisable so callers stop instead of treating them as failures
+      if (isAbortError(error) || signal?.aborted) throw error;
       throw new Error(`LLM call failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * callLLM for analysis steps whose output is parsed as JSON. The model is
+   * asked for JSON only; output that still does not parse is sent back for
+   * repair. Returns normalized JSON text, or the last raw output when repair
+   * fails so the caller's text fallback still sees it.
+   */
+  protected async callLLMForJSON(messages: BaseMessage[], expected: 'array' | 'object'): Promise<string> {
+    const conversation = [
+      ...messages,
+      new HumanMessage(`Respond with only a JSON ${expected === 'array' ? 'array of objects' : 'object'} using the fields described above - no markdown or commentary.`)
+    ];
+
+    let output = '';
+    for (let attempt = 0; attempt <= AGENT_RECOVERY_CONFIG.MAX_JSON_REPAIRS; attempt++) {
+      output = await this.callLLM(conversation);
+      const parsed = parseJSONOutput(output, expected);
+      if (parsed.ok) return JSON.stringify(parsed.value);
+
+      // Repair: show the model its own output and what was wrong with it
+      conversation.push(new AIMessage(output));
+      conversation.push(new HumanMessage(`That was not a valid JSON ${expected} (${parsed.issue}). Return the same content as a JSON ${expected} only.`));
+    }
+
+    this.emitThinking(`Could not get JSON from the model after ${AGENT_RECOVERY_CONFIG.MAX_JSON_REPAIRS} repair attempt${AGENT_RECOVERY_CONFIG.MAX_JSON_REPAIRS === 1 ? '' : 's'}`);
+    return output;
+  }
+
+  // JSON example of the agent's whole result for the single-prompt fallback; agents without one have no fallback
+  protected getFallbackShape(): string | undefined {
+    return undefined;
+  }
+
+  // The agent's result with every section empty; used when the agent and its fallback both fail
+  public emptyResult(): unknown {
+    return undefined;
+  }
+
+  public hasFallback(): boolean {
+    return this.getFallbackShape() !== undefined;
+  }
+
+  /**
+   * Produce the whole result in one prompt, for when the step-by-step
+   * analysis keeps failing. Cheaper and coarser: fields the model leaves out
+   * or returns in the wrong form are taken from emptyResult.
+   */
+  public executeFallback(task: AgentTask): Promise<unknown> {
+    return this.taskSignal.run(task.signal, () => this.extractInOnePass(task));
+  }
+
+  private async extractInOnePass(task: AgentTask): Promise<unknown> {
+    const shape = this.getFallbackShape();
+    if (!shape) throw new Error(`${this.agent.name} has no fallback`);
+
+    const { query, sources, ...rest } = (task.input || {}) as { query?: string; sources?: unknown[] } & Record<string, unknown>;
+    const content = (sources || [])
+      .map(source => source as { url?: string; title?: string; content?: string })
+      .filter(source => source.content)
+      .slice(0, AGENT_RECOVERY_CONFIG.FALLBACK_MAX_SOURCES)
+      .map(source => `${source.title || 'Untitled'}${source.url ? ` (${source.url})` : ''}\n${source.content!.slice(0, AGENT_RECOVERY_CONFIG.FALLBACK_MAX_SOURCE_CHARS)}`);
+    const otherInput = Object.keys(rest).length > 0
+      ? JSON.stringify(rest, null, 2).slice(0, AGENT_RECOVERY_CONFIG.FALLBACK_MAX_INPUT_CHARS)
+      : '';
+
+    this.emitThinking('Running a single-pass extraction in place of the full analysis');
+    const response = await this.callLLMForJSON([
+      new SystemMessage(`${this.getSystemPrompt()}
+
+Produce your whole analysis in one pass, as a JSON object with exactly this shape:
+${shape}
+
+Use [] or "" wherever the content does not say. Do not invent companies, figures or sources.`),
+      new HumanMessage([
+        query ? `Query: "${query}"` : '',
+        content.length > 0 ? `Content to analyze:\n\n${content.join('\n\n')}` : '',
+        otherInput ? `Findings from other agents:\n${otherInput}` : ''
+      ].filter(Boolean).join('\n\n'))
+    ], 'object');
+
+    const parsed = parseJSONOutput(response, 'object');
+    if (!parsed.ok) throw new Error(`Fallback output is not valid JSON: ${parsed.issue}`);
+
+    const empty = (this.emptyResult() || {}) as Record<string, unknown>;
+    const value = parsed.value as Record<string, unknown>;
+    return Object.fromEntries(Object.entries(empty).map(([key, fallbackValue]) => {
+      const candidate = value[key];
+      const usable = Array.isArray(fallbackValue)
+        ? Array.isArray(candidate)
+        : candidate !== undefined && candidate !== null && typeof candidate === typeof fallbackValue;
+      return [key, usable ? candidate : fallbackValue];
+    }));
+  }
+
+  /**
+   * Run one targeted search and extract records matching extractionSchema
+   * from the pages it finds. Each record keeps the URL it came from, and
+   * records pointing at pages that were not in the results are dropped.
+   * Returns nothing once the agent's query budget for the analysis is spent,
+   * without a search client, or when the search or extraction fails.
+   */
   protected async searchAndExtractData(
     query: string, 
-    extractionSchema: unknown,
-    maxResults: number = 10
-  ): Promise<unknown[]> {
-    // This would integrate with your existing search and extraction logic
-    // For now, returning a placeholder structure
-    console.log(`Searching for: ${query}, max results: ${maxResults}`);
-    return [];
+    extractionSchema: AgentOutputSchema,
+    maxResults: number = AGENT_SEARCH_CONFIG.RESULTS_PER_QUERY
+  ): Promise<AgentEvidence[]> {
+    if (!this.searchClient) return [];
+    if (this.searchLog.length >= this.queryBudget) {
+      this.emitThinking(`Search budget of ${this.queryBudget} used, skipping "${query}"`);
+      return [];
+    }
+
+    const entry = { query, urls: [] as string[] };
+    this.searchLog.push(entry);
+    const signal = this.abortSignal;
+
+    try {
+      this.emitThinking(`Searching for "${query}"`);
+      const results = await this.searchClient.search(query, {
+        limit: maxResults,
+        scrapeOptions: { formats: ['markdown'] },
+        signal
+      });
+
+      const pages: Array<{ url: string; title: string; content: string }> = [];
+      for (const result of results.data.slice(0, maxResults)) {
+        let content = result.markdown || result.content || '';
+        if (content.length < AGENT_SEARCH_CONFIG.MIN_CONTENT_LENGTH) {
+          // One page that will not load should not cost the whole search
+          const scraped = await this.searchClient.scrapeUrl(result.url, AGENT_SEARCH_CONFIG.SCRAPE_TIMEOUT, signal).catch(error => {
+            if (isAbortError(error) || signal?.aborted) throw error;
+            return undefined;
+          });
+          if (scraped?.success && scraped.markdown) content = scraped.markdown;
+        }
+        if (content.length >= AGENT_SEARCH_CONFIG.MIN_CONTENT_LENGTH) {
+          pages.push({ url: result.url, title: result.title || result.url, content });
+        }
+      }
+      if (pages.length === 0) return [];
+
+      const response = await this.callLLM([
+        new SystemMessage(`You extract research records from web pages. Each record must match this JSON Schema:
+${JSON.stringify(extractionSchema, null, 2)}
+
+Return ONLY a JSON array (no markdown): [{ "url": "<the page URL exactly as given>", "data": <record> }]
+Only extract what a page states. A page can give several records or none. Return [] when no page has anything relevant.`),
+        new HumanMessage(`Search: "${query}"
+
+${pages.map(page => `=== ${page.title} (${page.url}) ===\n${page.content.slice(0, AGENT_SEARCH_CONFIG.MAX_PAGE_CHARS)}`).join('\n\n')}`)
+      ]);
+
+      const parsed = extractedRecordsSchema.safeParse(JSON.parse(response.replace(/```json\n?|```/g, '').trim()));
+      if (!parsed.success) throw new Error('Extraction output is not a list of { url, data } records');
+
+      const recordSchema = outputSchemaToZod(extractionSchema);
+      const titles = new Map(pages.map(page => [page.url, page.title]));
+      const evidence: AgentEvidence[] = [];
+      for (const record of parsed.data) {
+        const data = recordSchema.safeParse(record.data);
+        const title = titles.get(record.url);
+        if (data.success && title !== undefined) evidence.push({ url: record.url, title, query, data: data.data });
+      }
+
+      entry.urls = Array.from(new Set(evidence.map(item => item.url)));
+      this.emitEvent({
+        type: 'data-shared',
+        agentId: this.agent.id,
+        timestamp: new Date(),
+        message: `🌐 ${this.agent.name}: ${evidence.length} finding${evidence.length === 1 ? '' : 's'} from ${entry.urls.length} of ${pages.length} pages for "${query}"`,
+        data: { query, urls: entry.urls }
+      });
+      return evidence;
+
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      console.error(`[${this.agent.id}] Search "${query}" failed:`, error);
+      return [];
+    }
+  }
+
+  // The query trimmed to a length that still works inside a search string
+  protected searchTopic(query: string): string {
+    const topic = query.replace(/\s+/g, ' ').trim();
+    if (topic.length <= AGENT_SEARCH_CONFIG.MAX_TOPIC_CHARS) return topic;
+    return topic.slice(0, AGENT_SEARCH_CONFIG.MAX_TOPIC_CHARS).replace(/\s+\S*$/, '');
+  }
+
+  // Search findings as analysis content, each labelled with the page it came from; searches
+  // that land on the same page often extract the same record
+  protected formatEvidence(evidence: AgentEvidence[]): string[] {
+    return Array.from(new Set(evidence.map(item => `Source: ${item.title} (${item.url})\n${JSON.stringify(item.data)}`)));
   }
 
   protected emitEvent(event: AgentEvent): void {
@@ -245,4 +540,35 @@ export abstract class BaseAgent {
       priority: 'medium'
     };
   }
-}
\ No newline at end of file
+}
+
+// Model output as JSON: code fences and text around the JSON are ignored, and an object
+// wrapping a single array is unwrapped when an array was asked for
+function parseJSONOutput(output: string, expected: 'array' | 'object'): { ok: true; value: unknown } | { ok: false; issue: string } {
+  const text = output.replace(/```(?:json)?/g, '').trim();
+  const open = expected === 'array' ? '[' : '{';
+  const close = expected === 'array' ? ']' : '}';
+
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start === -1 || end <= start) return { ok: false, issue: `no JSON ${expected} found` };
+    try {
+      value = JSON.parse(text.slice(start, end + 1));
+    } catch (error) {
+      return { ok: false, issue: error instanceof Error ? error.message : 'parse error' };
+    }
+  }
+
+  if (expected === 'array' && !Array.isArray(value) && value && typeof value === 'object') {
+    const arrays = Object.values(value).filter(Array.isArray);
+    if (arrays.length === 1) value = arrays[0];
+  }
+  if (expected === 'array' ? !Array.isArray(value) : !value || typeof value !== 'object' || Array.isArray(value)) {
+    return { ok: false, issue: `expected a JSON ${expected}` };
+  }
+  return { ok: true, value };
+}
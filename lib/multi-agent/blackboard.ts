@@ -0,0 +1,92 @@
+// Shared blackboard for the agents of one multi-agent ICP run
+import { createAbortError } from '../abort';
+import { BLACKBOARD_CONFIG } from '../config';
+import { BlackboardFact, BlackboardTopic } from './types';
+
+export const BLACKBOARD_TOPIC_LABELS: Record<BlackboardTopic, string> = {
+  'customer-industries': 'Industries of existing customers',
+  'customer-companies': 'Named customers',
+  'company-sizes': 'Company size ranges',
+  'industry-segments': 'Industry segments',
+  'competitors': 'Competitors',
+  'technologies': 'Technologies in use',
+  'pain-points': 'Pain points',
+};
+
+/**
+ * Facts agents publish while they work, for the agents running beside them.
+ * Each agent holds one fact per topic, so a retried task replaces what its
+ * failed attempt shared. Readers can wait for a topic: the wait ends when a
+ * fact arrives, when every task expected to publish it has settled, or at
+ * the timeout - so an agent never waits on work that is not coming.
+ */
+export class Blackboard {
+  private facts = new Map<string, BlackboardFact>();
+  // Tasks still expected to publish each topic
+  private pending = new Map<BlackboardTopic, Set<string>>();
+  private waiters = new Set<() => void>();
+
+  // Declare that a task publishes a topic; waits for the topic last until it settles
+  expect(topic: BlackboardTopic, taskId: string): void {
+    const tasks = this.pending.get(topic) || new Set<string>();
+    tasks.add(taskId);
+    this.pending.set(topic, tasks);
+  }
+
+  // The task finished or gave up; anything it has not published is not coming
+  settle(taskId: string): void {
+    this.pending.forEach(tasks => tasks.delete(taskId));
+    this.notify();
+  }
+
+  publish(fact: Omit<BlackboardFact, 'publishedAt'>): BlackboardFact | undefined {
+    // Values come from parsed model output, so anything but a non-empty string is dropped
+    const values = Array.from(new Set(fact.values
+      .filter((value): value is string => typeof value === 'string')
+      .map(value => value.trim())
+      .filter(Boolean)))
+      .slice(0, BLACKBOARD_CONFIG.MAX_VALUES);
+    if (values.length === 0) return undefined;
+
+    const published: BlackboardFact = { ...fact, values, publishedAt: new Date() };
+    this.facts.set(`${fact.topic}:${fact.agentId}`, published);
+    this.notify();
+    return published;
+  }
+
+  read(topics: BlackboardTopic[]): BlackboardFact[] {
+    return Array.from(this.facts.values()).filter(fact => topics.includes(fact.topic));
+  }
+
+  all(): BlackboardFact[] {
+    return Array.from(this.facts.values());
+  }
+
+  // Facts on the topics once each has one or has no publisher left, or whatever is there at the timeout
+  waitFor(topics: BlackboardTopic[], timeoutMs: number = BLACKBOARD_CONFIG.WAIT_MS, signal?: AbortSignal): Promise<BlackboardFact[]> {
+    if (signal?.aborted) return Promise.reject(createAbortError(signal));
+
+    return new Promise((resolve, reject) => {
+      const finish = (error?: Error) => {
+        clearTimeout(timer);
+        this.waiters.delete(check);
+        signal?.removeEventListener('abort', onAbort);
+        if (error) reject(error);
+        else resolve(this.read(topics));
+      };
+      const check = () => {
+        if (topics.every(topic => this.read([topic]).length > 0 || !this.pending.get(topic)?.size)) finish();
+      };
+      const onAbort = () => finish(createAbortError(signal));
+
+      const timer = setTimeout(() => finish(), timeoutMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.add(check);
+      check();
+    });
+  }
+
+  private notify(): void {
+    Array.from(this.waiters).forEach(check => check());
+  }
+}
@@ -0,0 +1,393 @@
+// Target Company Enrichment
+// Discovery asks the model for companies from memory, so domains, revenue and
+// tech stacks are often invented. This pipeline checks every candidate against
+// its own website: resolve the domain, scrape the homepage and about page,
+// confirm the site is live and matches the claims, and fill or correct fields
+// with per-field provenance. Companies that cannot be confirmed are flagged.
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { isAbortError, throwIfAborted } from '../abort';
+import { ENRICHMENT_CONFIG } from '../config';
+import { FirecrawlClient } from '../firecrawl';
+import { messageText } from '../llm';
+import {
+  CompanyVerification,
+  FieldProvenance,
+  TargetCompany,
+  VerificationStatus,
+} from './types';
+
+interface SitePage {
+  url: string;
+  title: string;
+  text: string;
+}
+
+interface ExtractedField<T = string> {
+  value: T;
+  evidence: string;
+  url: string;
+}
+
+interface SiteExtraction {
+  industry?: ExtractedField;
+  size?: ExtractedField;
+  location?: ExtractedField;
+  revenue?: ExtractedField;
+  funding?: ExtractedField;
+  techStack?: ExtractedField<string[]>;
+  industryMatches?: boolean | null;
+}
+
+const TEXT_FIELDS = ['industry', 'size', 'location', 'revenue', 'funding'] as const;
+
+// Search results on these hosts describe a company but are not its website
+const DIRECTORY_HOSTS = [
+  'linkedin.com', 'crunchbase.com', 'wikipedia.org', 'facebook.com', 'twitter.com', 'x.com',
+  'instagram.com', 'youtube.com', 'glassdoor.com', 'indeed.com', 'g2.com', 'capterra.com',
+  'bloomberg.com', 'zoominfo.com', 'pitchbook.com', 'owler.com', 'github.com', 'medium.com',
+];
+
+const LEGAL_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|gmbh|ag|sa|plc|pty|bv|group|holdings|technologies|labs)\b\.?/g;
+
+export class CompanyEnricher {
+  constructor(private firecrawl: FirecrawlClient, private llm: BaseChatModel) {}
+
+  /**
+   * Verify and enrich candidates, a few at a time. Order is preserved.
+   */
+  async enrichCompanies(
+    companies: TargetCompany[],
+    options: { signal?: AbortSignal; onVerified?: (company: TargetCompany) => void } = {}
+  ): Promise<TargetCompany[]> {
+    const { signal, onVerified } = options;
+    const candidates = companies.slice(0, ENRICHMENT_CONFIG.MAX_COMPANIES);
+    const results: TargetCompany[] = new Array(candidates.length);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < candidates.length) {
+        const index = next++;
+        results[index] = await this.enrichCompany(candidates[index], signal);
+        onVerified?.(results[index]);
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(ENRICHMENT_CONFIG.MAX_CONCURRENCY, candidates.length) }, worker)
+    );
+    return results;
+  }
+
+  async enrichCompany(company: TargetCompany, signal?: AbortSignal): Promise<TargetCompany> {
+    throwIfAborted(signal);
+    const issues: string[] = [];
+    const checkedUrls: string[] = [];
+    const claimedDomain = normalizeDomain(company.domain);
+
+    // 1. Resolve the domain: the claimed one if it serves a site, otherwise search for the official site
+    let domain = claimedDomain;
+    let domainSource: FieldProvenance['source'] = 'website';
+    let homepage = claimedDomain ? await this.scrapePage(`https://${claimedDomain}`, checkedUrls, signal) : undefined;
+
+    if (!homepage) {
+      issues.push(claimedDomain ? `${claimedDomain} did not respond` : 'No domain was given');
+      const resolved = await this.resolveDomain(company.name, claimedDomain, signal);
+      if (resolved) {
+        homepage = await this.scrapePage(`https://${resolved}`, checkedUrls, signal);
+        if (homepage) {
+          domain = resolved;
+          domainSource = 'search';
+        }
+      }
+    }
+
+    if (!homepage || !domain) {
+      issues.push('No live website found for this company');
+      return this.withVerification(company, {
+        status: 'unverified',
+        siteLive: false,
+        nameMatches: false,
+        checkedUrls,
+        provenance: claimedDomain ? { domain: { source: 'llm' } } : {},
+        issues,
+      });
+    }
+
+    // 2. Read the about page too - it usually carries size, location and funding
+    let pages = await this.readSite(homepage, domain, checkedUrls, signal);
+    let nameMatches = matchesName(company.name, domain, pages);
+
+    // A live claimed domain can still belong to someone else
+    if (!nameMatches && domainSource === 'website') {
+      const resolved = await this.resolveDomain(company.name, claimedDomain, signal);
+      const resolvedHome = resolved ? await this.scrapePage(`https://${resolved}`, checkedUrls, signal) : undefined;
+      if (resolved && resolvedHome) {
+        const resolvedPages = await this.readSite(resolvedHome, resolved, checkedUrls, signal);
+        if (matchesName(company.name, resolved, resolvedPages)) {
+          issues.push(`${claimedDomain} belongs to a different company`);
+          domain = resolved;
+          domainSource = 'search';
+          homepage = resolvedHome;
+          pages = resolvedPages;
+          nameMatches = true;
+        }
+      }
+    }
+    if (!nameMatches) issues.push(`The site at ${domain} does not mention "${company.name}"`);
+
+    // 3. Extract firmographics from the pages, keeping only values backed by a quote
+    const extraction = await this.extractFields(company, pages, signal).catch(error => {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      issues.push(`Field extraction failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return {} as SiteExtraction;
+    });
+
+    const enriched: TargetCompany = { ...company, domain, source: homepage.url };
+    const provenance: CompanyVerification['provenance'] = {
+      domain: {
+        source: domainSource,
+        url: homepage.url,
+        ...(claimedDomain && claimedDomain !== domain ? { corrected: true, previousValue: company.domain } : {}),
+      },
+    };
+
+    for (const field of TEXT_FIELDS) {
+      const extracted = extraction[field];
+      if (extracted && typeof extracted.value === 'string' && isSupported(extracted, pages)) {
+        enriched[field] = extracted.value;
+        provenance[field] = fieldProvenance(extracted, company[field], extracted.value);
+      } else if (company[field]) {
+        provenance[field] = { source: 'llm' };
+      }
+    }
+
+    const techStack = extraction.techStack;
+    const claimedStack = company.techStack || [];
+    if (techStack && Array.isArray(techStack.value) && techStack.value.length > 0 && isSupported(techStack, pages)) {
+      enriched.techStack = techStack.value;
+      provenance.techStack = fieldProvenance(techStack, claimedStack.join(', '), techStack.value.join(', '));
+    } else if (claimedStack.length > 0) {
+      provenance.techStack = { source: 'llm' };
+    }
+
+    const industryMatches = extraction.industryMatches ?? undefined;
+    if (industryMatches === false) issues.push(`The site does not describe a ${company.industry} company`);
+
+    const status: VerificationStatus = nameMatches && industryMatches !== false ? 'verified' : 'partial';
+    return this.withVerification(enriched, {
+      status,
+      siteLive: true,
+      nameMatches,
+      industryMatches,
+      checkedUrls,
+      provenance,
+      issues,
+    });
+  }
+
+  private withVerification(
+    company: TargetCompany,
+    verification: Omit<CompanyVerification, 'verifiedAt'>
+  ): TargetCompany {
+    const cap = verification.status === 'unverified'
+      ? ENRICHMENT_CONFIG.UNVERIFIED_CONFIDENCE
+      : verification.status === 'partial' ? ENRICHMENT_CONFIG.PARTIAL_CONFIDENCE : 1;
+
+    return {
+      ...company,
+      confidence: Math.min(company.confidence || 0, cap),
+      verification: { ...verification, verifiedAt: new Date().toISOString() },
+    };
+  }
+
+  private async readSite(homepage: SitePage, domain: string, checkedUrls: string[], signal?: AbortSignal): Promise<SitePage[]> {
+    const about = await this.scrapePage(findAboutUrl(homepage, domain), checkedUrls, signal);
+    return about ? [homepage, about] : [homepage];
+  }
+
+  /**
+   * Scrape a page; failures are recorded as a checked URL and return undefined
+   */
+  private async scrapePage(url: string, checkedUrls: string[], signal?: AbortSignal): Promise<SitePage | undefined> {
+    checkedUrls.push(url);
+    try {
+      const result = await this.firecrawl.scrapeUrl(url, ENRICHMENT_CONFIG.SCRAPE_TIMEOUT, signal);
+      const text = (result.markdown || '').trim();
+      if (!result.success || !text) return undefined;
+
+      const finalUrl = (result.metadata.url || result.metadata.sourceURL || url) as string;
+      return { url: finalUrl, title: (result.metadata.title as string) || '', text };
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      return undefined;
+    }
+  }
+
+  /**
+   * Find the company's own domain through search when the claimed one is missing or dead
+   */
+  private async resolveDomain(name: string, claimedDomain: string | undefined, signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      const results = await this.firecrawl.search(`${name} official website`, {
+        limit: ENRICHMENT_CONFIG.DOMAIN_SEARCH_RESULTS,
+        scrapeOptions: false,
+        signal,
+      });
+
+      for (const result of results.data) {
+        const host = normalizeDomain(result.url);
+        if (!host || host === claimedDomain || DIRECTORY_HOSTS.some(directory => host === directory || host.endsWith(`.${directory}`))) {
+          continue;
+        }
+        if (hostMatchesName(host, name)) return host;
+      }
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+    }
+    return undefined;
+  }
+
+  private async extractFields(company: TargetCompany, pages: SitePage[], signal?: AbortSignal): Promise<SiteExtraction> {
+    const pageText = pages
+      .map(page => `URL: ${page.url}\nTitle: ${page.title}\n\n${page.text.slice(0, ENRICHMENT_CONFIG.MAX_PAGE_CHARS)}`)
+      .join('\n\n---\n\n');
+
+    const messages = [
+      new SystemMessage(`You verify company facts against the company's own website.
+
+Return ONLY a JSON object (no markdown) with this shape:
+{
+  "industry": { "value": "", "evidence": "", "url": "" },
+  "size": { "value": "", "evidence": "", "url": "" },
+  "location": { "value": "", "evidence": "", "url": "" },
+  "revenue": { "value": "", "evidence": "", "url": "" },
+  "funding": { "value": "", "evidence": "", "url": "" },
+  "techStack": { "value": [""], "evidence": "", "url": "" },
+  "industryMatches": true
+}
+
+Rules:
+- Only fill a field when the pages state it. "evidence" must be an exact quote (under 200 characters) copied from the page given in "url".
+- Use null for any field the pages do not state. Never use outside knowledge.
+- size is an employee count or range, revenue an annual revenue figure, funding a stage or amount raised.
+- techStack lists technologies, platforms or integrations the company says it uses or builds on.
+- industryMatches: true if the site describes a company in the claimed industry, false if clearly a different business, null if unclear.`),
+      new HumanMessage(`Company: ${company.name}
+Claimed industry: ${company.industry || 'unknown'}
+Claimed size: ${company.size || 'unknown'}
+Claimed location: ${company.location || 'unknown'}
+
+Website pages:
+
+${pageText}`),
+    ];
+
+    const response = await this.llm.invoke(messages, { signal });
+    const content = messageText(response.content).replace(/```json\n?|```/g, '').trim();
+    return JSON.parse(content) as SiteExtraction;
+  }
+}
+
+/**
+ * Carry verification results into companies that were rewritten downstream
+ * (e.g. by ICP synthesis). Companies that were never verified are flagged.
+ */
+export function applyVerifiedCompanies(companies: TargetCompany[], verified: TargetCompany[]): TargetCompany[] {
+  const byKey = new Map<string, TargetCompany>();
+  for (const company of verified) {
+    if (!company.verification) continue;
+    byKey.set(`name:${companyKey(company.name)}`, company);
+    const domain = normalizeDomain(company.domain);
+    if (domain) byKey.set(`domain:${domain}`, company);
+  }
+
+  return companies.map(company => {
+    const domain = normalizeDomain(company.domain);
+    const match = byKey.get(`name:${companyKey(company.name)}`) || (domain ? byKey.get(`domain:${domain}`) : undefined);
+    // Keep the downstream reasoning, take everything else from the verified record
+    if (match) return { ...match, reasoning: company.reasoning || match.reasoning };
+
+    return {
+      ...company,
+      confidence: Math.min(company.confidence || 0, ENRICHMENT_CONFIG.UNVERIFIED_CONFIDENCE),
+      verification: {
+        status: 'unverified',
+        siteLive: false,
+        nameMatches: false,
+        checkedUrls: [],
+        provenance: {},
+        issues: ['Not among the verified discovery candidates'],
+        verifiedAt: new Date().toISOString(),
+      },
+    };
+  });
+}
+
+export function normalizeDomain(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed || !/[a-z0-9-]+\.[a-z]{2,}/.test(trimmed)) return undefined;
+  try {
+    const host = new URL(/^https?:\/\//.test(trimmed) ? trimmed : `https://${trimmed}`).hostname;
+    return host.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
+function companyKey(name: string): string {
+  return name.toLowerCase().replace(LEGAL_SUFFIXES, '').replace(/[^a-z0-9]/g, '');
+}
+
+function nameTokens(name: string): string[] {
+  return name
+    .toLowerCase()
+    .replace(LEGAL_SUFFIXES, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1);
+}
+
+function hostMatchesName(host: string, name: string): boolean {
+  const label = host.split('.').slice(0, -1).join('').replace(/[^a-z0-9]/g, '');
+  const key = companyKey(name);
+  if (!label || !key) return false;
+  return label.includes(key) || key.includes(label) || nameTokens(name).some(token => token.length > 3 && label.includes(token));
+}
+
+function matchesName(name: string, domain: string, pages: SitePage[]): boolean {
+  const text = pages.map(page => `${page.title} ${page.text}`).join(' ').toLowerCase();
+  const tokens = nameTokens(name);
+  return (tokens.length > 0 && tokens.every(token => text.includes(token))) || hostMatchesName(domain, name);
+}
+
+function findAboutUrl(homepage: SitePage, domain: string): string {
+  for (const match of homepage.text.matchAll(/\((https?:\/\/[^)\s]+)\)/g)) {
+    const host = normalizeDomain(match[1]);
+    if (host === domain && /\/(about|about-us|company|who-we-are)\/?(?:[?#].*)?$/i.test(match[1])) {
+      return match[1];
+    }
+  }
+  return `https://${domain}/about`;
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[*_`#>[\]()]/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// A value counts only when its quote really appears on one of the scraped pages
+function isSupported(field: ExtractedField<unknown>, pages: SitePage[]): boolean {
+  if (!field.value || !field.evidence) return false;
+  const evidence = normalizeText(field.evidence);
+  return evidence.length > 0 && pages.some(page => normalizeText(page.text).includes(evidence));
+}
+
+function fieldProvenance(field: ExtractedField<unknown>, previous: string, next: string): FieldProvenance {
+  const changed = Boolean(previous) && normalizeText(previous) !== normalizeText(next);
+  return {
+    source: 'website',
+    url: field.url,
+    evidence: field.evidence,
+    ...(changed ? { corrected: true, previousValue: previous } : {}),
+  };
+}
@@ -0,0 +1,126 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage, HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { CUSTOM_AGENTS_CONFIG } from '../config';
+import { BaseAgent } from './base-agent';
+import { outputSchemaToZod } from './agent-definitions';
+import { BLACKBOARD_TOPIC_LABELS } from './blackboard';
+import { AgentDefinition, AgentTask, BlackboardTopic } from './types';
+
+// Input the hub builds for a custom agent's task
+export interface DeclarativeAgentInput {
+  query: string;
+  sources: unknown[];
+  // Results of the tasks the definition depends on that succeeded
+  dependencies: Record<string, unknown>;
+}
+
+/**
+ * Runs an agent from its definition: one prompt over the inputs it asked
+ * for, answered as JSON that must match the definition's output schema.
+ * Output that does not match is sent back with the issues before the task
+ * fails.
+ */
+export class DeclarativeAgent extends BaseAgent {
+  readonly definition: AgentDefinition;
+  private outputValidator: z.ZodTypeAny;
+
+  constructor(definition: AgentDefinition, llm: BaseChatModel, streamingLlm: BaseChatModel) {
+    super(
+      `${definition.id}-agent`,
+      definition.name,
+      definition.description,
+      [
+        {
+          name: definition.id,
+          description: definition.description || definition.name,
+          inputTypes: definition.inputs.map(input => input === 'sources' ? 'research-sources' : 'query'),
+          outputTypes: [definition.section],
+          estimatedDuration: 60000
+        },
+        ...definition.capabilities.map(name => ({
+          name,
+          description: definition.description || definition.name,
+          inputTypes: ['research-sources'],
+          outputTypes: [definition.section],
+          estimatedDuration: 60000
+        }))
+      ],
+      llm,
+      streamingLlm
+    );
+    this.definition = definition;
+    this.outputValidator = outputSchemaToZod(definition.outputSchema);
+  }
+
+  getSystemPrompt(): string {
+    return `${this.definition.systemPrompt}
+
+Return ONLY JSON (no markdown, no commentary) that matches this JSON Schema:
+${JSON.stringify(this.definition.outputSchema, null, 2)}
+
+Use only what the material you are given supports. Leave out optional fields you have no evidence for rather than guessing.`;
+  }
+
+  async executeTask(task: AgentTask): Promise<unknown> {
+    const input = task.input as DeclarativeAgentInput;
+    this.emitThinking(`Analyzing for the ${this.definition.section} section`);
+
+    const messages: BaseMessage[] = [
+      new SystemMessage(this.getSystemPrompt()),
+      new HumanMessage([
+        this.buildPrompt(input),
+        ...this.formatSharedFacts(await this.readSharedFacts(Object.keys(BLACKBOARD_TOPIC_LABELS) as BlackboardTopic[]))
+      ].join('\n\n'))
+    ];
+
+    let issues: string[] = [];
+    const maxAttempts = 1 + CUSTOM_AGENTS_CONFIG.MAX_REPAIR_ATTEMPTS;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const output = await this.callLLM(messages);
+
+      try {
+        const parsed = this.outputValidator.safeParse(JSON.parse(output.replace(/```json\n?|```/g, '').trim()));
+        if (parsed.success) {
+          this.emitProgress(`Produced the ${this.definition.section} section`, 100);
+          return parsed.data;
+        }
+        issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+      } catch (error) {
+        issues = [`Output is not valid JSON: ${error instanceof Error ? error.message : 'parse error'}`];
+      }
+
+      // Repair: show the model its own output and what was wrong with it
+      messages.push(new AIMessage(output));
+      messages.push(new HumanMessage(`That output failed validation:\n- ${issues.slice(0, 20).join('\n- ')}\n\nReturn the corrected JSON only.`));
+    }
+
+    throw new Error(`${this.definition.name} output did not match its schema: ${issues.slice(0, 5).join('; ')}`);
+  }
+
+  private buildPrompt(input: DeclarativeAgentInput): string {
+    const parts: string[] = [];
+
+    if (this.definition.inputs.includes('query')) {
+      parts.push(`Query: "${input.query}"`);
+    }
+
+    if (this.definition.inputs.includes('sources')) {
+      const sources = input.sources
+        .map(source => source as { url?: string; title?: string; content?: string })
+        .filter(source => source.content)
+        .slice(0, CUSTOM_AGENTS_CONFIG.MAX_SOURCES)
+        .map((source, index) => `[${index + 1}] ${source.title || 'Untitled'}${source.url ? ` (${source.url})` : ''}\n${source.content!.slice(0, CUSTOM_AGENTS_CONFIG.MAX_SOURCE_CHARS)}`);
+      parts.push(sources.length > 0 ? `Sources:\n\n${sources.join('\n\n')}` : 'Sources: none with readable content.');
+    }
+
+    if (this.definition.dependsOn.length > 0) {
+      const findings = JSON.stringify(input.dependencies, null, 2).slice(0, CUSTOM_AGENTS_CONFIG.MAX_DEPENDENCY_CHARS);
+      const missing = this.definition.dependsOn.filter(id => !(id in input.dependencies));
+      parts.push(`Findings from other agents:\n${findings}${missing.length > 0 ? `\n\nNot available (the agent failed): ${missing.join(', ')}` : ''}`);
+    }
+
+    return parts.join('\n\n');
+  }
+}
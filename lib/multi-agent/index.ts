@@ -2,6 +2,9 @@
 export * from './types';
 export * from './base-agent';
 export * from './agent-hub';
+export * from './blackboard';
+export * from './agent-definitions';
+export * from './declarative-agent';
 export * from './multi-agent-icp-engine';
 
 // Specialized Agents
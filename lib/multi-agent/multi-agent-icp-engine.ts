@@ -1,5 +1,11 @@
-import { ChatOpenAI } from "@langchain/openai";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
 import { AgentHub } from './agent-hub';
+import { createAbortError, throwIfAborted } from '../abort';
+import { FirecrawlClient } from '../firecrawl';
+import { TechnographicScanner } from '../technographics';
+import { CompanyEnricher } from './company-enrichment';
+import { loadAgentDefinitions } from './agent-definitions';
+import { DeclarativeAgent } from './declarative-agent';
 import { 
   CustomerIntelligenceAgent 
 } from './agents/customer-intelligence-agent';
@@ -24,29 +30,49 @@ import {
 import { 
   MultiAgentConfig, 
   ICPProfile, 
-  AgentEvent 
+  AgentEvent,
+  AgentDefinition
 } from './types';
 
 export class MultiAgentICPEngine {
   private agentHub: AgentHub;
-  private llm: ChatOpenAI;
-  private streamingLlm: ChatOpenAI;
+  private llm: BaseChatModel;
+  private streamingLlm: BaseChatModel;
   private config: MultiAgentConfig;
 
+  private firecrawl?: FirecrawlClient;
+  // Why the custom agents file was not loaded; reported at the start of each run
+  private customAgentsError?: string;
+
+  /**
+   * @param firecrawl Scrape layer used to verify discovered target companies against their websites
+   *   and to fingerprint the technologies on source pages
+   * @param agentDefinitions Custom agents to run alongside the built-in ones; read from the custom
+   *   agents file when omitted
+   */
   constructor(
-    llm: ChatOpenAI,
-    streamingLlm: ChatOpenAI,
-    config?: Partial<MultiAgentConfig>
+    llm: BaseChatModel,
+    streamingLlm: BaseChatModel,
+    config?: Partial<MultiAgentConfig>,
+    firecrawl?: FirecrawlClient,
+    agentDefinitions?: AgentDefinition[]
   ) {
     this.llm = llm;
     this.streamingLlm = streamingLlm;
+    this.firecrawl = firecrawl;
     
     // Default configuration
     this.config = {
       maxConcurrentAgents: 6,
-      taskTimeout: 60000,
+      // Per attempt; agents make several model calls and target discovery checks candidate websites
+      taskTimeout: 180000,
       retryAttempts: 2,
       dataSharingEnabled: true,
+      // Buyer behavior and tech stacks are rarely in the initial sources, so these agents search more
+      queryBudgets: {
+        'psychographic-agent': 4,
+        'technographic-agent': 3
+      },
       priorityWeights: {
         customerIntelligence: 10,
         marketResearch: 9,
@@ -60,6 +86,12 @@ export class MultiAgentICPEngine {
 
     this.agentHub = new AgentHub(this.config);
     this.initializeAgents();
+    this.initializeCustomAgents(agentDefinitions);
+
+    // Agents search through the same client as the rest of the run, so its cache and usage ledger apply
+    this.agentHub.getAllAgents().forEach(agent => {
+      agent.setSearchClient(this.firecrawl, this.config.queryBudgets?.[agent.getStatus().id]);
+    });
   }
 
   private initializeAgents(): void {
@@ -67,9 +99,17 @@ export class MultiAgentICPEngine {
     const customerIntelligenceAgent = new CustomerIntelligenceAgent(this.llm, this.streamingLlm);
     const marketResearchAgent = new MarketResearchAgent(this.llm, this.streamingLlm);
     const firmographicAgent = new FirmographicAgent(this.llm, this.streamingLlm);
-    const technographicAgent = new TechnographicAgent(this.llm, this.streamingLlm);
+    const technographicAgent = new TechnographicAgent(
+      this.llm,
+      this.streamingLlm,
+      this.firecrawl ? new TechnographicScanner(this.firecrawl) : undefined
+    );
     const psychographicAgent = new PsychographicAgent(this.llm, this.streamingLlm);
-    const targetCompanyDiscoveryAgent = new TargetCompanyDiscoveryAgent(this.llm, this.streamingLlm);
+    const targetCompanyDiscoveryAgent = new TargetCompanyDiscoveryAgent(
+      this.llm,
+      this.streamingLlm,
+      this.firecrawl ? new CompanyEnricher(this.firecrawl, this.llm) : undefined
+    );
     const icpSynthesisAgent = new ICPSynthesisAgent(this.llm, this.streamingLlm);
 
     // Register agents with the hub
@@ -82,21 +122,44 @@ export class MultiAgentICPEngine {
     this.agentHub.registerAgent(icpSynthesisAgent);
   }
 
+  // A broken agents file should not take the built-in analysis down with it
+  private initializeCustomAgents(agentDefinitions?: AgentDefinition[]): void {
+    try {
+      const definitions = agentDefinitions ?? loadAgentDefinitions();
+      this.agentHub.registerAgents(definitions.map(definition => new DeclarativeAgent(definition, this.llm, this.streamingLlm)));
+    } catch (error) {
+      this.customAgentsError = error instanceof Error ? error.message : 'Unknown error';
+      console.error('Custom agents were not loaded:', error);
+    }
+  }
+
   /**
    * Main method to perform comprehensive ICP analysis using multi-agent system
    */
   async analyzeICP(
     query: string,
     sources: unknown[],
-    onProgress?: (event: AgentEvent) => void
+    onProgress?: (event: AgentEvent) => void,
+    signal?: AbortSignal
   ): Promise<ICPProfile[]> {
     try {
-      // Phase 1: Parallel data gathering by specialized agents
+      if (this.customAgentsError) {
+        onProgress?.({
+          type: 'agent-error',
+          agentId: 'coordinator',
+          timestamp: new Date(),
+          message: `⚠️ Custom agents were not loaded: ${this.customAgentsError}`
+        });
+      }
+
+      // Phase 1: Data gathering by specialized agents, scheduled by their dependencies
       const researchData = await this.agentHub.coordinateICPAnalysis(
         query,
         sources,
-        onProgress
+        onProgress,
+        signal
       );
+      throwIfAborted(signal);
 
       // Phase 2: ICP synthesis
       const synthesisTask = {
@@ -123,14 +186,15 @@ export class MultiAgentICPEngine {
           
           if (agent) {
             console.log('Executing ICP synthesis with input:', synthesisTask.input);
-            icpProfiles = await agent.executeTask({
+            icpProfiles = await agent.runTask({
               id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
               agentId: selectedAgent.id,
               type: 'icp-profile-synthesis',
               status: 'in_progress',
               input: synthesisTask.input,
               priority: synthesisTask.priority,
-              createdAt: new Date()
+              createdAt: new Date(),
+              signal
             }) as ICPProfile[];
             
             console.log('ICP synthesis completed, profiles:', icpProfiles.length);
@@ -139,6 +203,7 @@ export class MultiAgentICPEngine {
           console.log('No suitable agents found for ICP synthesis');
         }
       } catch (error) {
+        if (signal?.aborted) throw createAbortError(signal);
         console.error('Error executing ICP synthesis:', error);
         throw new Error(`ICP synthesis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -146,6 +211,7 @@ export class MultiAgentICPEngine {
       return icpProfiles;
 
     } catch (error) {
+      if (signal?.aborted) throw createAbortError(signal);
       throw new Error(`Multi-Agent ICP Analysis failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
@@ -157,7 +223,8 @@ export class MultiAgentICPEngine {
     query: string,
     sources: unknown[],
     onChunk: (chunk: string) => void,
-    onProgress?: (event: AgentEvent) => void
+    onProgress?: (event: AgentEvent) => void,
+    signal?: AbortSignal
   ): Promise<ICPProfile[]> {
     try {
       // Set up progress monitoring
@@ -166,7 +233,7 @@ export class MultiAgentICPEngine {
       }
 
       // Perform analysis
-      const icpProfiles = await this.analyzeICP(query, sources, onProgress);
+      const icpProfiles = await this.analyzeICP(query, sources, onProgress, signal);
 
       // Stream the results
       const resultsText = this.formatICPResults(icpProfiles);
@@ -303,6 +370,10 @@ export class MultiAgentICPEngine {
         result += `   - Industry: ${company.industry}\n`;
         result += `   - Size: ${company.size}\n`;
         result += `   - Location: ${company.location}\n`;
+        if (company.verification) {
+          const issues = company.verification.issues.length > 0 ? ` - ${company.verification.issues.join('; ')}` : '';
+          result += `   - Verification: ${company.verification.status}${issues}\n`;
+        }
         result += `   - Reasoning: ${company.reasoning}\n\n`;
       });
       
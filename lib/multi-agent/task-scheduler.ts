@@ -0,0 +1,221 @@
+// Dependency-aware task scheduler for the agent hub
+import { abortableDelay, anySignal, createAbortError, throwIfAborted } from '../abort';
+
+export interface ScheduledTask {
+  id: string;
+  // Tasks whose results this one reads; it starts once they have all finished or failed
+  dependsOn?: string[];
+  // Among ready tasks, higher priorities start first
+  priority?: number;
+  // Receives the results of the dependencies that succeeded
+  run: (dependencyResults: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>;
+  // Cheaper stand-in tried once, under the same timeout, after the last attempt fails
+  fallback?: (dependencyResults: Record<string, unknown>, signal: AbortSignal) => Promise<unknown>;
+}
+
+export interface TaskGraphOptions {
+  maxConcurrent: number;
+  // Per attempt; 0 or less disables the timeout
+  timeoutMs: number;
+  // Extra attempts after the first failure
+  retryAttempts: number;
+  // Before the first retry; doubles with each retry after it
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  onTaskEvent?: (event: TaskGraphEvent) => void;
+}
+
+export type TaskGraphEvent =
+  | { type: 'started'; taskId: string; attempt: number }
+  | { type: 'retrying'; taskId: string; attempt: number; error: string }
+  // fallback is set when the fallback produced the result
+  | { type: 'completed'; taskId: string; attempt: number; durationMs: number; fallback?: boolean }
+  | { type: 'fallback'; taskId: string; attempt: number; error: string }
+  | { type: 'failed'; taskId: string; attempt: number; error: string };
+
+export interface TaskGraphResult {
+  results: Record<string, unknown>;
+  // Error message per task that failed after all its attempts and its fallback
+  failures: Record<string, string>;
+  // Error that sent each task to its fallback, for tasks whose result came from the fallback
+  fallbacks: Record<string, string>;
+}
+
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+/**
+ * Run tasks as a DAG: a task starts once every task it depends on has
+ * settled, independent tasks run side by side up to maxConcurrent, and each
+ * attempt is bounded by the timeout. A task that still fails after its
+ * retries gets one run of its fallback, if it has one. A failed task does
+ * not stop the graph - its dependents run with the results that are there.
+ * Only an abort of the caller's signal ends the run early.
+ */
+export async function runTaskGraph(tasks: ScheduledTask[], options: TaskGraphOptions): Promise<TaskGraphResult> {
+  validateTaskGraph(tasks);
+  throwIfAborted(options.signal);
+
+  const results: Record<string, unknown> = {};
+  const failures: Record<string, string> = {};
+  const fallbacks: Record<string, string> = {};
+  const settled = new Set<string>();
+  const started = new Set<string>();
+  const maxConcurrent = Math.max(1, options.maxConcurrent);
+
+  return new Promise<TaskGraphResult>((resolve, reject) => {
+    let running = 0;
+    let stopped = false;
+
+    const stop = (error: unknown) => {
+      if (stopped) return;
+      stopped = true;
+      reject(error);
+    };
+
+    const pump = () => {
+      if (stopped) return;
+      if (settled.size === tasks.length) {
+        resolve({ results, failures, fallbacks });
+        return;
+      }
+
+      const ready = tasks
+        .filter(task => !started.has(task.id) && (task.dependsOn || []).every(id => settled.has(id)))
+        .sort((a, b) => (b.priority || 0) - (a.priority || 0));
+
+      for (const task of ready) {
+        if (running >= maxConcurrent) break;
+        started.add(task.id);
+        running++;
+
+        const inputs = Object.fromEntries((task.dependsOn || [])
+          .filter(id => id in results)
+          .map(id => [id, results[id]]));
+
+        runWithRetries(task, inputs, options)
+          .then(outcome => {
+            results[task.id] = outcome.result;
+            if (outcome.fallbackFrom) fallbacks[task.id] = outcome.fallbackFrom;
+          }, error => {
+            if (options.signal?.aborted) throw createAbortError(options.signal);
+            failures[task.id] = error instanceof Error ? error.message : String(error);
+          })
+          .then(() => {
+            running--;
+            settled.add(task.id);
+            pump();
+          })
+          .catch(stop);
+      }
+    };
+
+    pump();
+  });
+}
+
+async function runWithRetries(
+  task: ScheduledTask,
+  inputs: Record<string, unknown>,
+  options: TaskGraphOptions
+): Promise<{ result: unknown; fallbackFrom?: string }> {
+  const attempts = 1 + Math.max(0, options.retryAttempts);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(options.signal);
+    options.onTaskEvent?.({ type: 'started', taskId: task.id, attempt });
+    const startedAt = Date.now();
+
+    try {
+      const result = await runAttempt(task.id, signal => task.run(inputs, signal), options);
+      options.onTaskEvent?.({ type: 'completed', taskId: task.id, attempt, durationMs: Date.now() - startedAt });
+      return { result };
+    } catch (error) {
+      if (options.signal?.aborted) throw createAbortError(options.signal);
+      const message = error instanceof Error ? error.message : String(error);
+
+      if (attempt >= attempts) {
+        if (task.fallback) return runFallback(task, inputs, options, attempt, message);
+        options.onTaskEvent?.({ type: 'failed', taskId: task.id, attempt, error: message });
+        throw error;
+      }
+      options.onTaskEvent?.({ type: 'retrying', taskId: task.id, attempt, error: message });
+      await abortableDelay((options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** (attempt - 1), options.signal);
+    }
+  }
+}
+
+async function runFallback(
+  task: ScheduledTask,
+  inputs: Record<string, unknown>,
+  options: TaskGraphOptions,
+  attempt: number,
+  reason: string
+): Promise<{ result: unknown; fallbackFrom: string }> {
+  options.onTaskEvent?.({ type: 'fallback', taskId: task.id, attempt, error: reason });
+  const fallback = task.fallback!;
+  const startedAt = Date.now();
+
+  try {
+    const result = await runAttempt(task.id, signal => fallback(inputs, signal), options);
+    options.onTaskEvent?.({ type: 'completed', taskId: task.id, attempt, durationMs: Date.now() - startedAt, fallback: true });
+    return { result, fallbackFrom: reason };
+  } catch (error) {
+    if (options.signal?.aborted) throw createAbortError(options.signal);
+    const message = `${reason}; fallback failed: ${error instanceof Error ? error.message : String(error)}`;
+    options.onTaskEvent?.({ type: 'failed', taskId: task.id, attempt, error: message });
+    throw new Error(message);
+  }
+}
+
+// One attempt, aborted through its own signal when it runs past the timeout
+function runAttempt(taskId: string, run: (signal: AbortSignal) => Promise<unknown>, options: TaskGraphOptions): Promise<unknown> {
+  const controller = new AbortController();
+  const signal = anySignal(options.signal, controller.signal) || controller.signal;
+  if (options.timeoutMs <= 0) return run(signal);
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new Error(`${taskId} timed out after ${options.timeoutMs / 1000}s`);
+      controller.abort(error);
+      reject(error);
+    }, options.timeoutMs);
+
+    run(signal).then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+// Throws on duplicate ids, dependencies on unknown tasks and cycles
+export function validateTaskGraph(tasks: Array<Pick<ScheduledTask, 'id' | 'dependsOn'>>): void {
+  const ids = new Set<string>();
+  for (const task of tasks) {
+    if (ids.has(task.id)) throw new Error(`Duplicate task id: ${task.id}`);
+    ids.add(task.id);
+  }
+  for (const task of tasks) {
+    const unknown = (task.dependsOn || []).filter(id => !ids.has(id));
+    if (unknown.length > 0) throw new Error(`Task ${task.id} depends on unknown tasks: ${unknown.join(', ')}`);
+  }
+
+  // Kahn's algorithm: whatever cannot be ordered sits on a cycle
+  const remaining = new Map(tasks.map(task => [task.id, new Set(task.dependsOn || [])]));
+  let progressed = true;
+  while (remaining.size > 0 && progressed) {
+    progressed = false;
+    for (const [id, dependencies] of remaining) {
+      if (Array.from(dependencies).every(dependency => !remaining.has(dependency))) {
+        remaining.delete(id);
+        progressed = true;
+      }
+    }
+  }
+  if (remaining.size > 0) throw new Error(`Task dependencies form a cycle: ${Array.from(remaining.keys()).join(', ')}`);
+}
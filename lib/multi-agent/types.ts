@@ -1,4 +1,6 @@
 // Multi-Agent System Types for ICP Analysis
+import type { TechEvidence } from '../technographics/types';
+
 export interface AgentMessage {
   id: string;
   from: string;
@@ -20,6 +22,8 @@ export interface AgentTask {
   createdAt: Date;
   completedAt?: Date;
   priority: number;
+  // Stops the task's LLM calls, searches and blackboard waits; agents read it through runTask
+  signal?: AbortSignal;
 }
 
 export interface AgentCapability {
@@ -197,6 +201,10 @@ export interface TechStack {
   characteristics: string[];
   examples: string[];
   source: string;
+  // 'fingerprint' when detected from page markup and headers, 'llm' when inferred from text
+  detection?: TechDetectionMethod;
+  confidence?: number;
+  evidence?: TechEvidence[];
 }
 
 export interface Integration {
@@ -204,8 +212,13 @@ export interface Integration {
   requirements: string[];
   examples: string[];
   source: string;
+  detection?: TechDetectionMethod;
+  confidence?: number;
+  evidence?: TechEvidence[];
 }
 
+export type TechDetectionMethod = 'fingerprint' | 'llm';
+
 export interface DigitalMaturityLevel {
   level: string;
   characteristics: string[];
@@ -275,6 +288,36 @@ export interface TargetCompany {
   reasoning: string;
   confidence: number;
   source: string;
+  // Set once the enrichment pipeline has checked the company against its website
+  verification?: CompanyVerification;
+}
+
+// Target Company Verification
+export type VerificationStatus = 'verified' | 'partial' | 'unverified';
+
+export type EnrichedField = 'domain' | 'industry' | 'size' | 'location' | 'revenue' | 'funding' | 'techStack';
+
+export interface FieldProvenance {
+  // website: read from the company's own pages; search: from search results; llm: the discovery model's claim, unchecked
+  source: 'website' | 'search' | 'llm';
+  url?: string;
+  // Quote from the page that supports the value
+  evidence?: string;
+  // The value replaced a different claim from the discovery model
+  corrected?: boolean;
+  previousValue?: string;
+}
+
+export interface CompanyVerification {
+  status: VerificationStatus;
+  siteLive: boolean;
+  nameMatches: boolean;
+  // Undefined when the site did not say enough to judge
+  industryMatches?: boolean;
+  checkedUrls: string[];
+  provenance: Partial<Record<EnrichedField, FieldProvenance>>;
+  issues: string[];
+  verifiedAt: string;
 }
 
 export interface CompanyValidation {
@@ -301,14 +344,105 @@ export interface CombinedResearchData {
   technographicData: TechnographicData;
   psychographicData: PsychographicData;
   targetCompanyData: TargetCompanyData;
+  // Output of agents defined in the custom agents file, keyed by section name
+  custom?: Record<string, CustomResearchSection>;
+  // Dimensions whose agent failed, fell back or found nothing; synthesis lowers confidence for each
+  degraded?: Partial<Record<ResearchDimension, DegradedDimension>>;
   metadata: {
     totalSources: number;
     confidence: number;
     lastUpdated: Date;
     agentsUsed: string[];
+    // Searches each agent ran on its own and the pages its findings came from, by agent id
+    agentSearches?: Record<string, AgentSearchUsage>;
+    // Facts agents shared on the blackboard during the run
+    sharedFacts?: BlackboardFact[];
   };
 }
 
+export type ResearchDimension =
+  | 'customerIntelligence'
+  | 'marketResearch'
+  | 'firmographicData'
+  | 'technographicData'
+  | 'psychographicData'
+  | 'targetCompanyData';
+
+export interface DegradedDimension {
+  // fallback: a single-prompt extraction stood in for the full analysis; failed: both failed and the
+  // section is empty; no-evidence: the agent ran but found nothing to analyze
+  reason: 'fallback' | 'failed' | 'no-evidence';
+  detail: string;
+}
+
+// Intermediate findings agents share with each other while a run is in progress
+export type BlackboardTopic =
+  | 'customer-industries'
+  | 'customer-companies'
+  | 'company-sizes'
+  | 'industry-segments'
+  | 'competitors'
+  | 'technologies'
+  | 'pain-points';
+
+export interface BlackboardFact {
+  topic: BlackboardTopic;
+  agentId: string;
+  agentName: string;
+  values: string[];
+  publishedAt: Date;
+}
+
+// A record an agent extracted from a page it found through its own search
+export interface AgentEvidence {
+  url: string;
+  title: string;
+  query: string;
+  data: unknown;
+}
+
+export interface AgentSearchUsage {
+  queries: string[];
+  // Pages that contributed at least one record
+  urls: string[];
+  queryBudget: number;
+}
+
+export interface CustomResearchSection {
+  agentId: string;
+  name: string;
+  description: string;
+  data: unknown;
+}
+
+// Subset of JSON Schema that custom agent output is validated against
+export interface AgentOutputSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, AgentOutputSchema>;
+  required?: string[];
+  items?: AgentOutputSchema;
+  enum?: string[];
+}
+
+// A research agent defined in configuration rather than code
+export interface AgentDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // Extra capability names; the agent always handles tasks named after its id
+  capabilities: string[];
+  systemPrompt: string;
+  // What the agent is given from the run itself
+  inputs: Array<'query' | 'sources'>;
+  // Tasks whose results the agent reads: built-in tasks (e.g. "customer-intelligence") or other custom agent ids
+  dependsOn: string[];
+  outputSchema: AgentOutputSchema;
+  // Key under CombinedResearchData.custom; defaults to the id
+  section: string;
+  priority: number;
+}
+
 // ICP Profile Output
 export interface ICPProfile {
   id: string;
@@ -358,6 +492,8 @@ export interface ICPValidation {
   salesVelocity: string;
   revenuePotential: string;
   confidence: number;
+  // Research dimensions that were weak when the profile was made; confidence was lowered for each
+  weakDimensions?: ResearchDimension[];
 }
 
 export interface ICPInsights {
@@ -379,10 +515,12 @@ export interface AgentEvent {
 
 // Multi-Agent System Configuration
 export interface MultiAgentConfig {
-  maxConcurrentAgents: number;
-  taskTimeout: number;
-  retryAttempts: number;
-  dataSharingEnabled: boolean;
+  maxConcurrentAgents: number; // Agent tasks running at the same time
+  taskTimeout: number; // Milliseconds per task attempt
+  retryAttempts: number; // Extra attempts after a task fails
+  dataSharingEnabled: boolean; // Agents share intermediate findings on a blackboard during the run
+  // Searches an agent may run per analysis, by agent id; others get AGENT_SEARCH_CONFIG.DEFAULT_QUERY_BUDGET
+  queryBudgets?: Record<string, number>;
   priorityWeights: {
     customerIntelligence: number;
     marketResearch: number;
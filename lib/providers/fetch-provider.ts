@@ -0,0 +1,471 @@
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { BlockList, isIP, LookupFunction } from 'net';
+import TurndownService from 'turndown';
+import { Agent, fetch as undiciFetch, Response as UndiciResponse } from 'undici';
+import { isAbortError, throwIfAborted } from '../abort';
+import { CRAWL_CONFIG, PROVIDER_CONFIG } from '../config';
+import { isoDay, resolveTimeRange, TimeRange } from '../time-range';
+import {
+  CrawledPageData,
+  CrawlOptions,
+  CrawlResult,
+  MapOptions,
+  MapResult,
+  ResearchProvider,
+  ScrapeResult,
+  SearchOptions,
+  SearchResponse,
+  SearchResultItem,
+} from './types';
+
+// Timeout for auxiliary requests (sitemaps, search pages) that are not full scrapes
+const AUX_REQUEST_TIMEOUT = 10000;
+
+// Earliest date used when a custom time range has no start
+const OPEN_RANGE_START = '2000-01-01';
+
+/**
+ * DuckDuckGo `df` value for a time range: w/m/y for presets, a date span for custom ranges
+ */
+function duckDuckGoTimeFilter(range: TimeRange): string {
+  if (range.preset !== 'custom') return range.preset[0];
+  const { from, to } = resolveTimeRange(range);
+  return `${isoDay(from) || OPEN_RANGE_START}..${isoDay(to || new Date())}`;
+}
+
+// Loopback, private, link-local (cloud metadata), shared, multicast and reserved ranges
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPublicAddress(address: string, family: number): boolean {
+  // BlockList also matches IPv4-mapped IPv6 addresses against the IPv4 ranges
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+class NonPublicAddressError extends Error {
+  constructor(hostname: string) {
+    super(`Refusing to fetch ${hostname}: not a public address`);
+    this.name = 'NonPublicAddressError';
+  }
+}
+
+/**
+ * Throws unless the URL is http(s), and not a literal non-public IP. API
+ * callers choose the URLs this provider fetches, so it must not reach the
+ * server's own network or the cloud metadata endpoint. Host names are
+ * checked when the connection is made, by publicOnlyLookup.
+ */
+function assertPublicUrl(url: URL): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Unsupported protocol: ${url.protocol}`);
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(hostname) && !isPublicAddress(hostname, isIP(hostname))) {
+    throw new NonPublicAddressError(url.hostname);
+  }
+}
+
+/**
+ * DNS lookup for outgoing connections that fails unless every address is
+ * public. The socket connects to the address checked here, so a host cannot
+ * pass a separate check and then resolve somewhere else for the request.
+ */
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true, verbatim: true }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+    if (addresses.length === 0 || !addresses.every(({ address, family }) => isPublicAddress(address, family))) {
+      return callback(new NonPublicAddressError(hostname), '', 0);
+    }
+    // net asks for every address when it races IPv4 and IPv6 (autoSelectFamily)
+    if (options.all) return (callback as unknown as (error: null, addresses: LookupAddress[]) => void)(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+const publicOnlyAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+/**
+ * Keyless provider built on plain fetch: HTML is converted to markdown locally,
+ * search goes through DuckDuckGo's HTML endpoint and crawling is a same-host BFS.
+ * Useful for development and for sites where Firecrawl credits are not warranted.
+ */
+export class FetchProvider implements ResearchProvider {
+  readonly name = 'fetch' as const;
+  private turndown: TurndownService;
+
+  constructor() {
+    this.turndown = new TurndownService({ headingStyle: 'atx', codeBlockStyle: 'fenced' });
+    // Scripts, styles, frames and inline SVG never carry useful research content
+    this.turndown.remove(['script', 'style', 'noscript', 'iframe']);
+    this.turndown.remove(node => node.nodeName.toLowerCase() === 'svg');
+  }
+
+  async scrapeUrl(url: string, timeoutMs: number = 15000, signal?: AbortSignal): Promise<ScrapeResult> {
+    try {
+      const { html, status, headers } = await this.fetchHtml(url, timeoutMs, signal);
+
+      if (status === 401 || status === 403) {
+        return {
+          markdown: '',
+          html: '',
+          metadata: {
+            error: 'This website blocked the request',
+            statusCode: status,
+          },
+          success: false,
+          error: 'unsupported',
+        };
+      }
+
+      if (status >= 400) {
+        throw new Error(`HTTP ${status}`);
+      }
+
+      return {
+        markdown: this.htmlToMarkdown(html),
+        html,
+        rawHtml: html,
+        headers,
+        metadata: { ...this.extractMetadata(html), sourceURL: url, statusCode: status },
+        success: true,
+      };
+    } catch (error) {
+      // A cancelled run is not a slow page
+      if (signal?.aborted) throw error;
+
+      if (isAbortError(error)) {
+        return {
+          markdown: '',
+          html: '',
+          metadata: {
+            error: 'Scraping took too long and was stopped',
+            timeout: true,
+          },
+          success: false,
+          error: 'timeout',
+        };
+      }
+
+      return {
+        markdown: '',
+        html: '',
+        metadata: {
+          error: error instanceof Error ? error.message : 'Failed to scrape URL',
+        },
+        success: false,
+        error: 'failed',
+      };
+    }
+  }
+
+  async mapUrl(url: string, options?: MapOptions): Promise<MapResult> {
+    const limit = options?.limit || 10;
+    const origin = new URL(url).origin;
+
+    // Prefer the sitemap; fall back to the links on the page itself
+    let links = await this.readSitemap(`${origin}/sitemap.xml`, options?.signal);
+    let source = 'sitemap';
+    if (links.length === 0) {
+      const { html } = await this.fetchHtml(url, AUX_REQUEST_TIMEOUT, options?.signal);
+      links = this.extractLinks(html, url).filter(link => new URL(link).origin === origin);
+      source = 'page-links';
+    }
+
+    if (options?.search) {
+      const terms = options.search.toLowerCase().split(/\s+/).filter(Boolean);
+      links = links.filter(link => terms.some(term => link.toLowerCase().includes(term)));
+    }
+
+    return {
+      links: Array.from(new Set(links)).slice(0, limit),
+      metadata: { source },
+    };
+  }
+
+  async search(query: string, options?: SearchOptions): Promise<SearchResponse> {
+    const limit = options?.limit || 10;
+    const dateFilter = options?.timeRange ? `&df=${encodeURIComponent(duckDuckGoTimeFilter(options.timeRange))}` : '';
+    const endpoint = `${PROVIDER_CONFIG.FETCH_SEARCH_ENDPOINT}?q=${encodeURIComponent(query)}${dateFilter}`;
+    const { html, status } = await this.fetchHtml(endpoint, AUX_REQUEST_TIMEOUT, options?.signal);
+
+    if (status >= 400) {
+      throw new Error(`Search failed: HTTP ${status}`);
+    }
+
+    const hits = this.parseSearchResults(html).slice(0, limit);
+    const shouldScrape = options?.scrapeOptions !== false;
+
+    const data: SearchResultItem[] = await Promise.all(hits.map(async (hit) => {
+      const scraped = shouldScrape ? await this.scrapeUrl(hit.url, undefined, options?.signal) : null;
+      const markdown = scraped?.success ? scraped.markdown : '';
+      const favicon = `https://${new URL(hit.url).hostname}/favicon.ico`;
+
+      return {
+        url: hit.url,
+        title: hit.title || (scraped?.metadata.title as string) || 'Untitled',
+        description: hit.description,
+        markdown,
+        html: scraped?.success ? scraped.html : '',
+        links: [],
+        screenshot: null,
+        metadata: {
+          ...(scraped?.metadata || {}),
+          favicon,
+        },
+        scraped: Boolean(scraped?.success),
+        content: markdown,
+        favicon,
+      };
+    }));
+
+    return {
+      data,
+      results: data,
+      metadata: { provider: this.name },
+    };
+  }
+
+  async crawlWebsite(url: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+    try {
+      const limit = options.limit || CRAWL_CONFIG.DEFAULT_CRAWL_LIMIT;
+      const maxDepth = options.maxDepth ?? 2;
+      const root = new URL(url);
+      const visited = new Set<string>();
+      const pages: CrawledPageData[] = [];
+      let frontier = [url];
+
+      for (let depth = 0; depth <= maxDepth && frontier.length > 0 && pages.length < limit; depth++) {
+        const next: string[] = [];
+
+        for (let i = 0; i < frontier.length && pages.length < limit; i += PROVIDER_CONFIG.FETCH_CRAWL_CONCURRENCY) {
+          throwIfAborted(options.signal);
+          const batch = frontier
+            .slice(i, i + PROVIDER_CONFIG.FETCH_CRAWL_CONCURRENCY)
+            .filter(pageUrl => !visited.has(pageUrl));
+          batch.forEach(pageUrl => visited.add(pageUrl));
+
+          const results = await Promise.all(batch.map(pageUrl =>
+            this.scrapeUrl(pageUrl, options.scrapeOptions?.timeout || 15000, options.signal)
+          ));
+
+          results.forEach((result, index) => {
+            if (!result.success || pages.length >= limit) return;
+            const pageUrl = batch[index];
+            pages.push({
+              url: pageUrl,
+              title: result.metadata.title as string | undefined,
+              markdown: result.markdown,
+              html: result.html,
+              metadata: result.metadata,
+            });
+
+            for (const link of this.extractLinks(result.html, pageUrl)) {
+              if (!visited.has(link) && this.isCrawlable(link, root, options)) {
+                next.push(link);
+              }
+            }
+          });
+        }
+
+        frontier = Array.from(new Set(next));
+      }
+
+      return {
+        success: true,
+        data: pages,
+        total: pages.length,
+        completed: pages.length,
+        creditsUsed: 0,
+        status: 'completed',
+      };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Crawl operation failed'
+      };
+    }
+  }
+
+  private async fetchHtml(url: string, timeoutMs: number, signal?: AbortSignal): Promise<{ html: string; status: number; headers: Record<string, string> }> {
+    throwIfAborted(signal);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      // Redirects are followed by hand so every hop gets the public-address check
+      let target = new URL(url);
+      let response: UndiciResponse;
+      for (let redirects = 0; ; redirects++) {
+        assertPublicUrl(target);
+        response = await undiciFetch(target, {
+          dispatcher: publicOnlyAgent,
+          headers: {
+            'User-Agent': PROVIDER_CONFIG.USER_AGENT,
+            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+          },
+          redirect: 'manual',
+          signal: controller.signal,
+        });
+        const location = response.headers.get('location');
+        if (response.status < 300 || response.status >= 400 || !location) break;
+        if (redirects >= PROVIDER_CONFIG.FETCH_MAX_REDIRECTS) {
+          throw new Error(`Too many redirects from ${url}`);
+        }
+        await response.body?.cancel();
+        target = new URL(location, target);
+      }
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        headers[name.toLowerCase()] = value;
+      });
+      // forEach folds repeated Set-Cookie headers into one comma-joined value
+      const cookies = response.headers.getSetCookie();
+      if (cookies.length > 0) headers['set-cookie'] = cookies.join('\n');
+      return { html: await response.text(), status: response.status, headers };
+    } catch (error) {
+      throwIfAborted(signal);
+      // fetch wraps connection errors; surface the refusal itself
+      if (error instanceof Error && error.cause instanceof NonPublicAddressError) throw error.cause;
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private htmlToMarkdown(html: string): string {
+    // Drop chrome that is rarely part of the main content
+    const body = html
+      .replace(/<(nav|footer|header|aside)[\s\S]*?<\/\1>/gi, '')
+      .replace(/<!--[\s\S]*?-->/g, '');
+    return this.turndown.turndown(body).replace(/\n{3,}/g, '\n\n').trim();
+  }
+
+  private extractMetadata(html: string): Record<string, unknown> {
+    const metadata: Record<string, unknown> = {};
+    const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+    if (title) metadata.title = decodeEntities(title[1].trim());
+
+    const metaTags = html.match(/<meta\s[^>]*>/gi) || [];
+    for (const tag of metaTags) {
+      const key = tag.match(/(?:name|property)=["']([^"']+)["']/i)?.[1];
+      const content = tag.match(/content=["']([^"']*)["']/i)?.[1];
+      if (!key || content === undefined) continue;
+
+      if (key === 'description') metadata.description = decodeEntities(content);
+      else if (key === 'og:title') metadata.ogTitle = decodeEntities(content);
+      else if (key === 'og:description') metadata.ogDescription = decodeEntities(content);
+      else if (key === 'og:image') metadata.ogImage = content;
+      else if (key === 'article:published_time') metadata.publishedTime = content;
+      else if (key === 'article:modified_time' || key === 'og:updated_time') metadata.modifiedTime = content;
+    }
+
+    const lang = html.match(/<html[^>]*\slang=["']([^"']+)["']/i);
+    if (lang) metadata.language = lang[1];
+
+    return metadata;
+  }
+
+  private extractLinks(html: string, baseUrl: string): string[] {
+    const links: string[] = [];
+    const hrefPattern = /<a\s[^>]*href=["']([^"'#]+)["']/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = hrefPattern.exec(html)) !== null) {
+      try {
+        const resolved = new URL(match[1], baseUrl);
+        if (resolved.protocol === 'http:' || resolved.protocol === 'https:') {
+          resolved.hash = '';
+          links.push(resolved.toString());
+        }
+      } catch {
+        // Ignore malformed hrefs
+      }
+    }
+
+    return Array.from(new Set(links));
+  }
+
+  private async readSitemap(sitemapUrl: string, signal?: AbortSignal): Promise<string[]> {
+    try {
+      const { html: xml, status } = await this.fetchHtml(sitemapUrl, AUX_REQUEST_TIMEOUT, signal);
+      if (status >= 400) return [];
+      const locs = Array.from(xml.matchAll(/<loc>\s*([^<\s]+)\s*<\/loc>/gi)).map(m => m[1]);
+      return locs.slice(0, CRAWL_CONFIG.SITEMAP_DISCOVERY_LIMIT);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      return [];
+    }
+  }
+
+  private parseSearchResults(html: string): Array<{ url: string; title: string; description: string }> {
+    const results: Array<{ url: string; title: string; description: string }> = [];
+    const blocks = html.split(/class="result\s/).slice(1);
+
+    for (const block of blocks) {
+      const anchor = block.match(/class="result__a"[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/);
+      if (!anchor) continue;
+
+      // DuckDuckGo wraps result links in a redirect carrying the target in `uddg`
+      let url = decodeEntities(anchor[1]);
+      const redirect = url.match(/[?&]uddg=([^&]+)/);
+      if (redirect) url = decodeURIComponent(redirect[1]);
+      if (url.startsWith('//')) url = `https:${url}`;
+      if (!/^https?:\/\//.test(url)) continue;
+
+      const snippet = block.match(/class="result__snippet"[^>]*>([\s\S]*?)<\/a>/);
+      results.push({
+        url,
+        title: stripTags(anchor[2]),
+        description: snippet ? stripTags(snippet[1]) : '',
+      });
+    }
+
+    return results;
+  }
+
+  private isCrawlable(link: string, root: URL, options: CrawlOptions): boolean {
+    const target = new URL(link);
+    const sameHost = target.hostname === root.hostname;
+    const subdomain = target.hostname.endsWith(`.${root.hostname.replace(/^www\./, '')}`);
+    if (!sameHost && !(options.allowSubdomains && subdomain)) return false;
+
+    // Skip binary assets
+    if (/\.(pdf|jpe?g|png|gif|svg|webp|zip|mp4|mp3|css|js)$/i.test(target.pathname)) return false;
+
+    if (options.includePaths?.length && !options.includePaths.some(p => new RegExp(p).test(target.pathname))) {
+      return false;
+    }
+    if (options.excludePaths?.some(p => new RegExp(p).test(target.pathname))) {
+      return false;
+    }
+    return true;
+  }
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;|&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ');
+}
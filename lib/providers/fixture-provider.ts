@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  CrawlOptions,
+  CrawlResult,
+  MapOptions,
+  MapResult,
+  ResearchProvider,
+  ScrapeResult,
+  SearchOptions,
+  SearchResponse,
+} from './types';
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface FixtureProviderOptions {
+  directory: string;
+  mode?: FixtureMode;
+  // Required in record mode: the provider whose responses get saved
+  upstream?: ResearchProvider;
+}
+
+type FixtureOperation = 'search' | 'scrape' | 'map' | 'crawl';
+
+interface FixtureFile<T> {
+  operation: FixtureOperation;
+  key: unknown;
+  recordedAt: string;
+  response: T;
+}
+
+/**
+ * Replays provider responses from JSON files on disk so searches are
+ * reproducible offline. In record mode it forwards calls to an upstream
+ * provider and writes each response as a fixture before returning it.
+ */
+export class FixtureProvider implements ResearchProvider {
+  readonly name = 'fixture' as const;
+  private directory: string;
+  private mode: FixtureMode;
+  private upstream?: ResearchProvider;
+
+  constructor(options: FixtureProviderOptions) {
+    this.directory = path.resolve(options.directory);
+    this.mode = options.mode || 'replay';
+    this.upstream = options.upstream;
+
+    if (this.mode === 'record' && !this.upstream) {
+      throw new Error('FixtureProvider in record mode requires an upstream provider');
+    }
+  }
+
+  async search(query: string, options?: SearchOptions): Promise<SearchResponse> {
+    // A time-bounded search is a different recording; unbounded keys are unchanged
+    return this.resolve('search', { query, limit: options?.limit || 10, timeRange: options?.timeRange }, () =>
+      this.upstream!.search(query, options)
+    );
+  }
+
+  async scrapeUrl(url: string, timeoutMs?: number, signal?: AbortSignal): Promise<ScrapeResult> {
+    return this.resolve('scrape', { url }, () => this.upstream!.scrapeUrl(url, timeoutMs, signal));
+  }
+
+  async mapUrl(url: string, options?: MapOptions): Promise<MapResult> {
+    return this.resolve('map', { url, search: options?.search, limit: options?.limit }, () =>
+      this.upstream!.mapUrl(url, options)
+    );
+  }
+
+  async crawlWebsite(url: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+    return this.resolve('crawl', { url, limit: options.limit, maxDepth: options.maxDepth }, () =>
+      this.upstream!.crawlWebsite(url, options)
+    );
+  }
+
+  /**
+   * Path of the fixture for an operation; keys are hashed so arbitrary
+   * queries and URLs map to safe, stable file names
+   */
+  fixturePath(operation: FixtureOperation, key: unknown): string {
+    const hash = createHash('sha1').update(JSON.stringify(key)).digest('hex').slice(0, 16);
+    return path.join(this.directory, `${operation}-${hash}.json`);
+  }
+
+  private async resolve<T>(operation: FixtureOperation, key: unknown, call: () => Promise<T>): Promise<T> {
+    const file = this.fixturePath(operation, key);
+
+    if (this.mode === 'replay') {
+      try {
+        const fixture = JSON.parse(await fs.readFile(file, 'utf8')) as FixtureFile<T>;
+        return fixture.response;
+      } catch {
+        throw new Error(`No ${operation} fixture recorded for ${JSON.stringify(key)} (expected ${file})`);
+      }
+    }
+
+    const response = await call();
+    const fixture: FixtureFile<T> = {
+      operation,
+      key,
+      recordedAt: new Date().toISOString(),
+      response,
+    };
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2), 'utf8');
+    return response;
+  }
+}
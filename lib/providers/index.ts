@@ -0,0 +1,53 @@
+// Research Providers - pluggable search & scrape backends
+import { PROVIDER_CONFIG } from '../config';
+import { FetchProvider } from './fetch-provider';
+import { FirecrawlProvider } from './firecrawl-provider';
+import { FixtureMode, FixtureProvider } from './fixture-provider';
+import { ProviderName, ResearchProvider } from './types';
+
+export * from './types';
+export { FirecrawlProvider } from './firecrawl-provider';
+export { FetchProvider } from './fetch-provider';
+export { FixtureProvider } from './fixture-provider';
+export type { FixtureMode, FixtureProviderOptions } from './fixture-provider';
+
+export const PROVIDER_NAMES: ProviderName[] = ['firecrawl', 'fetch', 'fixture'];
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return typeof value === 'string' && (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Provider used when a request does not pick one explicitly
+ */
+export function getDefaultProviderName(): ProviderName {
+  const fromEnv = process.env.RESEARCH_PROVIDER;
+  return isProviderName(fromEnv) ? fromEnv : PROVIDER_CONFIG.DEFAULT_PROVIDER;
+}
+
+/**
+ * Build a research provider by name. The Firecrawl API key is only needed
+ * for the firecrawl provider (or when recording fixtures through it).
+ */
+export function createResearchProvider(name: ProviderName = getDefaultProviderName(), apiKey?: string): ResearchProvider {
+  switch (name) {
+    case 'firecrawl':
+      return new FirecrawlProvider(apiKey);
+    case 'fetch':
+      return new FetchProvider();
+    case 'fixture': {
+      const mode = (process.env.FIXTURE_MODE || PROVIDER_CONFIG.FIXTURE_MODE) as FixtureMode;
+      const upstreamName = (process.env.FIXTURE_UPSTREAM || PROVIDER_CONFIG.FIXTURE_UPSTREAM) as ProviderName;
+      if (upstreamName === 'fixture') {
+        throw new Error('FIXTURE_UPSTREAM cannot be the fixture provider itself');
+      }
+      return new FixtureProvider({
+        directory: process.env.FIXTURE_DIR || PROVIDER_CONFIG.FIXTURE_DIR,
+        mode,
+        upstream: mode === 'record' ? createResearchProvider(upstreamName, apiKey) : undefined,
+      });
+    }
+    default:
+      throw new Error(`Unknown research provider: ${name}`);
+  }
+}
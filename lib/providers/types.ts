@@ -0,0 +1,112 @@
+// Search & Scrape Provider Types
+// Every research backend (Firecrawl, plain fetch, recorded fixtures) implements
+// the same primitives so the intelligence-gathering logic in FirecrawlClient
+// and the LangGraph search engine stay provider-agnostic.
+import type { TimeRange } from '../time-range';
+
+export type ProviderName = 'firecrawl' | 'fetch' | 'fixture';
+
+export interface ScrapeFormatOptions {
+  formats?: string[];
+  onlyMainContent?: boolean;
+  waitFor?: number;
+  timeout?: number;
+}
+
+export interface ScrapeResult {
+  markdown: string;
+  html: string;
+  // Unprocessed page markup including scripts, when the provider returns it
+  rawHtml?: string;
+  // Response headers with lower-case names; repeated Set-Cookie values joined by newlines
+  headers?: Record<string, string>;
+  metadata: Record<string, unknown>;
+  success: boolean;
+  error?: 'timeout' | 'unsupported' | 'failed';
+}
+
+export interface SearchOptions {
+  limit?: number;
+  // Pass false to only discover URLs without scraping their content
+  scrapeOptions?: ScrapeFormatOptions | false;
+  // Only return results published within this range, where the provider supports it
+  timeRange?: TimeRange;
+  signal?: AbortSignal;
+}
+
+export interface SearchResultItem {
+  url: string;
+  title: string;
+  description: string;
+  markdown: string;
+  html: string;
+  links: string[];
+  screenshot: string | null;
+  metadata: Record<string, unknown>;
+  scraped: boolean;
+  content: string;
+  favicon: string | null;
+}
+
+export interface SearchResponse {
+  data: SearchResultItem[];
+  results: SearchResultItem[]; // For backward compatibility
+  metadata: Record<string, unknown>;
+}
+
+export interface MapOptions {
+  search?: string;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface MapResult {
+  links: string[];
+  metadata: Record<string, unknown>;
+}
+
+export interface CrawlOptions {
+  limit?: number;
+  maxDepth?: number;
+  allowSubdomains?: boolean;
+  includePaths?: string[];
+  excludePaths?: string[];
+  scrapeOptions?: ScrapeFormatOptions;
+  signal?: AbortSignal;
+}
+
+export interface CrawledPageData {
+  url: string;
+  title?: string;
+  markdown?: string;
+  html?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CrawlResult {
+  success: boolean;
+  id?: string;
+  status?: 'scraping' | 'completed' | 'failed';
+  total?: number;
+  completed?: number;
+  creditsUsed?: number;
+  data?: CrawledPageData[];
+  error?: string;
+}
+
+export interface SearchProvider {
+  readonly name: ProviderName;
+  search(query: string, options?: SearchOptions): Promise<SearchResponse>;
+}
+
+export interface ScrapeProvider {
+  readonly name: ProviderName;
+  // Providers reject with an AbortError once the signal aborts, rather than
+  // reporting a failed scrape, so cancelled runs stop instead of carrying on
+  scrapeUrl(url: string, timeoutMs?: number, signal?: AbortSignal): Promise<ScrapeResult>;
+  mapUrl(url: string, options?: MapOptions): Promise<MapResult>;
+  crawlWebsite(url: string, options?: CrawlOptions): Promise<CrawlResult>;
+}
+
+// Most callers need both halves, so adapters implement the combined interface
+export interface ResearchProvider extends SearchProvider, ScrapeProvider {}
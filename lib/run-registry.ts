@@ -0,0 +1,40 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Streamed server actions can't receive an AbortSignal from the browser, so each
+// run registers a controller here and hands its id back to the client, which
+// cancels it through another server action.
+const activeRuns = new Map<string, AbortController>();
+
+export interface RegisteredRun {
+  runId: string;
+  signal: AbortSignal;
+  // Call once the run has finished, whatever the outcome
+  release: () => void;
+}
+
+export function registerRun(): RegisteredRun {
+  const runId = uuidv4();
+  const controller = new AbortController();
+  activeRuns.set(runId, controller);
+
+  return {
+    runId,
+    signal: controller.signal,
+    release: () => {
+      activeRuns.delete(runId);
+    },
+  };
+}
+
+/**
+ * Abort a running research action. Returns false when the run already
+ * finished or is owned by another server instance.
+ */
+export function cancelRun(runId: string): boolean {
+  const controller = activeRuns.get(runId);
+  if (!controller) return false;
+
+  controller.abort();
+  activeRuns.delete(runId);
+  return true;
+}
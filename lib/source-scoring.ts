@@ -0,0 +1,385 @@
+// Source Credibility
+// Scores how far a source can be trusted, independently of how relevant it
+// is to the question: what kind of site it comes from (the researched
+// company's own site, a review site, a content farm...), how recently it was
+// published or updated, and how much content it has. Near-duplicates of a
+// better source are marked so the same text does not reach synthesis twice.
+// Every score carries the reasons behind it so the UI can explain it.
+import { SOURCE_SCORING_CONFIG, TIME_RANGE_CONFIG } from './config';
+import type { Source } from './langgraph-search-engine';
+import { normalizeDomain } from './multi-agent/company-enrichment';
+import { isWithinTimeBounds, resolveTimeRange, TimeRange } from './time-range';
+
+export type SourceAuthority = keyof typeof SOURCE_SCORING_CONFIG.AUTHORITY_SCORES;
+
+export interface SourceCredibility {
+  // 0-1, the weighted authority, freshness and length scores
+  score: number;
+  authority: SourceAuthority;
+  // ISO dates found in the page metadata, text or URL
+  publishedAt?: string;
+  updatedAt?: string;
+  ageDays?: number;
+  freshness: number;
+  // Characters of content the length score was based on
+  length: number;
+  // URL of the better source this one repeats
+  duplicateOf?: string;
+  reasons: string[];
+}
+
+export interface PageDates {
+  publishedTime?: string;
+  modifiedTime?: string;
+}
+
+export interface ScoreSourcesOptions {
+  // Domains of the company being researched; their pages count as first-party
+  firstPartyDomains?: string[];
+  now?: Date;
+}
+
+const REVIEW_DOMAINS = [
+  'g2.com', 'capterra.com', 'trustradius.com', 'getapp.com', 'softwareadvice.com', 'trustpilot.com',
+  'glassdoor.com', 'producthunt.com', 'peerspot.com', 'sourceforge.net', 'saasworthy.com', 'gartner.com/reviews',
+];
+
+const REFERENCE_DOMAINS = [
+  'wikipedia.org', 'crunchbase.com', 'linkedin.com', 'pitchbook.com', 'zoominfo.com', 'owler.com', 'dnb.com',
+  'craft.co', 'cbinsights.com', 'opencorporates.com', 'statista.com', 'gartner.com', 'forrester.com',
+  'builtwith.com', 'similarweb.com', 'tracxn.com', 'macrotrends.net',
+];
+
+const NEWS_DOMAINS = [
+  'reuters.com', 'apnews.com', 'bloomberg.com', 'bbc.com', 'bbc.co.uk', 'nytimes.com', 'wsj.com', 'ft.com',
+  'economist.com', 'theguardian.com', 'washingtonpost.com', 'cnbc.com', 'forbes.com', 'fortune.com',
+  'businessinsider.com', 'axios.com', 'techcrunch.com', 'theverge.com', 'wired.com', 'venturebeat.com',
+  'zdnet.com', 'theinformation.com', 'fastcompany.com', 'inc.com', 'arstechnica.com', 'siliconangle.com',
+  'geekwire.com', 'protocol.com', 'theregister.com', 'computerworld.com', 'infoworld.com',
+];
+
+const COMMUNITY_DOMAINS = [
+  'reddit.com', 'quora.com', 'medium.com', 'substack.com', 'stackoverflow.com', 'stackexchange.com',
+  'news.ycombinator.com', 'dev.to', 'hashnode.dev', 'blogspot.com', 'wordpress.com', 'tumblr.com',
+  'x.com', 'twitter.com', 'facebook.com', 'youtube.com', 'github.com', 'discord.com',
+];
+
+const CONTENT_FARM_DOMAINS = [
+  'ehow.com', 'answers.com', 'wikihow.com', 'ezinearticles.com', 'hubpages.com', 'articlesbase.com',
+  'examiner.com', 'livestrong.com', 'bizfluent.com', 'techjury.net', 'financesonline.com',
+];
+
+const OFFICIAL_HOST = /(?:^|\.)(?:gov|mil|int)(?:\.[a-z]{2})?$|(?:^|\.)(?:europa\.eu|who\.int|iso\.org|w3\.org|ietf\.org)$/;
+const ACADEMIC_HOST = /(?:^|\.)(?:edu|ac\.[a-z]{2})$/;
+const SPAM_TLD = /\.(?:xyz|top|click|buzz|online|site|info|biz)$/;
+const LISTICLE_TITLE = /\b(?:top|best)\s+\d+\b|\b\d+\s+best\b/i;
+const AFFILIATE_TEXT = /\b(?:affiliate links?|we may earn (?:a )?commission|sponsored post)\b/i;
+
+const DATE_KEYS: Record<keyof PageDates, string[]> = {
+  publishedTime: ['publishedTime', 'article:published_time', 'datePublished', 'publishDate', 'pubdate', 'date', 'dc.date', 'dcterms.created'],
+  modifiedTime: ['modifiedTime', 'article:modified_time', 'og:updated_time', 'dateModified', 'lastModified', 'dcterms.modified'],
+};
+
+const MONTH_DATE = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?\\s+\\d{1,2},?\\s+\\d{4}|\\d{1,2}\\s+(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?,?\\s+\\d{4}';
+const TEXT_DATE = new RegExp(
+  `\\b(published|posted|updated|last updated|last modified|modified)(?:\\s+on)?:?\\s*(\\d{4}-\\d{2}-\\d{2}|${MONTH_DATE})`,
+  'gi'
+);
+const URL_DATE = /\/(20\d{2}|19\d{2})\/(0[1-9]|1[0-2])(?:\/(0[1-9]|[12]\d|3[01]))?\//;
+const DATE_SCAN_LENGTH = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_DUPLICATE_CHARS = 20000;
+
+/**
+ * Publication and update dates from scrape metadata, as ISO strings.
+ * Values that do not parse as a plausible date are dropped.
+ */
+export function pageDates(metadata: object | undefined, now = new Date()): PageDates {
+  const dates: PageDates = {};
+  if (!metadata) return dates;
+  const values = metadata as Record<string, unknown>;
+  for (const field of Object.keys(DATE_KEYS) as Array<keyof PageDates>) {
+    for (const key of DATE_KEYS[field]) {
+      const raw = values[key];
+      const date = parseDate(Array.isArray(raw) ? raw[0] : raw, now);
+      if (date) {
+        dates[field] = date.toISOString();
+        break;
+      }
+    }
+  }
+  return dates;
+}
+
+/**
+ * Domains named in free text, e.g. the researched company in a query
+ */
+export function domainsIn(text: string): string[] {
+  const matches = text.match(/\b(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}\b/gi) || [];
+  return Array.from(new Set(matches.map(match => normalizeDomain(match)).filter((domain): domain is string => !!domain)));
+}
+
+/**
+ * Scores every source and marks near-duplicates. Sources keep their order;
+ * each gets a `credibility` field.
+ */
+export function scoreSources(sources: Source[], options: ScoreSourcesOptions = {}): Source[] {
+  const now = options.now || new Date();
+  const firstParty = (options.firstPartyDomains || [])
+    .map(domain => normalizeDomain(domain))
+    .filter((domain): domain is string => !!domain);
+
+  const scored = sources.map(source => ({ ...source, credibility: scoreSource(source, firstParty, now) }));
+  markDuplicates(scored);
+  return scored;
+}
+
+/**
+ * The sources worth sending to synthesis, most credible first: duplicates
+ * are dropped, and so are low-credibility sources unless too few would remain.
+ */
+export function selectForSynthesis(sources: Source[]): Source[] {
+  const { MIN_CREDIBILITY, MIN_SOURCES } = SOURCE_SCORING_CONFIG;
+  const ranked = sources
+    .filter(source => !source.credibility?.duplicateOf)
+    .sort((a, b) => credibilityOf(b) - credibilityOf(a));
+  const credible = ranked.filter(source => credibilityOf(source) >= MIN_CREDIBILITY);
+  return credible.length >= MIN_SOURCES ? credible : ranked.slice(0, Math.max(MIN_SOURCES, credible.length));
+}
+
+/**
+ * Relevance adjusted by credibility, for ranking sources that were judged relevant
+ */
+export function rankScore(relevance: number, credibility?: SourceCredibility): number {
+  if (!credibility) return relevance;
+  const weight = SOURCE_SCORING_CONFIG.RANK_WEIGHT;
+  return relevance * (1 - weight + weight * credibility.score);
+}
+
+/**
+ * Splits sources into those dated inside the range and those dated outside it.
+ * A source counts as inside when its publication or update date is. Undated
+ * sources are kept unless TIME_RANGE_CONFIG.KEEP_UNDATED is off.
+ */
+export function filterByTimeRange(
+  sources: Source[],
+  range: TimeRange,
+  now = new Date()
+): { kept: Source[]; excluded: Source[] } {
+  const bounds = resolveTimeRange(range, now);
+  const kept: Source[] = [];
+  const excluded: Source[] = [];
+  for (const source of sources) {
+    const { publishedAt, updatedAt } = source.credibility || sourceDates(source, now);
+    const dates = [publishedAt, updatedAt].filter((date): date is string => !!date);
+    const inside = dates.length === 0
+      ? TIME_RANGE_CONFIG.KEEP_UNDATED
+      : dates.some(date => isWithinTimeBounds(date, bounds));
+    (inside ? kept : excluded).push(source);
+  }
+  return { kept, excluded };
+}
+
+/**
+ * Publication and update dates of a source, from its metadata, the start of
+ * its text or its URL
+ */
+export function sourceDates(source: Source, now = new Date()): { publishedAt?: string; updatedAt?: string } {
+  const content = source.content || '';
+  const fromMetadata = pageDates(source.metadata, now);
+  let publishedAt = fromMetadata.publishedTime;
+  let updatedAt = fromMetadata.modifiedTime;
+
+  if (!publishedAt || !updatedAt) {
+    const head = content.slice(0, DATE_SCAN_LENGTH);
+    for (const match of head.matchAll(TEXT_DATE)) {
+      const date = parseDate(match[2], now)?.toISOString();
+      if (!date) continue;
+      if (/updated|modified/i.test(match[1])) updatedAt = updatedAt || date;
+      else publishedAt = publishedAt || date;
+      if (publishedAt && updatedAt) break;
+    }
+  }
+
+  if (!publishedAt) {
+    const match = source.url.match(URL_DATE);
+    if (match) publishedAt = parseDate(`${match[1]}-${match[2]}-${match[3] || '01'}`, now)?.toISOString();
+  }
+
+  // An update older than publication is a template date, not a revision
+  if (updatedAt && publishedAt && updatedAt < publishedAt) updatedAt = undefined;
+  return { publishedAt, updatedAt };
+}
+
+function credibilityOf(source: Source): number {
+  return source.credibility?.score ?? SOURCE_SCORING_CONFIG.AUTHORITY_SCORES.unknown;
+}
+
+function scoreSource(source: Source, firstParty: string[], now: Date): SourceCredibility {
+  const { WEIGHTS, AUTHORITY_SCORES } = SOURCE_SCORING_CONFIG;
+  const reasons: string[] = [];
+  const content = source.content || '';
+
+  const { authority, reason } = classifyAuthority(source, content, firstParty);
+  reasons.push(reason);
+
+  const dates = sourceDates(source, now);
+  const latest = dates.updatedAt || dates.publishedAt;
+  const ageDays = latest ? Math.max(0, Math.floor((now.getTime() - Date.parse(latest)) / DAY_MS)) : undefined;
+  const freshness = ageDays === undefined
+    ? SOURCE_SCORING_CONFIG.UNDATED_FRESHNESS
+    : Math.pow(0.5, ageDays / SOURCE_SCORING_CONFIG.FRESHNESS_HALF_LIFE_DAYS);
+  reasons.push(latest
+    ? `${dates.updatedAt ? 'Updated' : 'Published'} ${latest.slice(0, 10)} (${formatAge(ageDays ?? 0)})`
+    : 'No publication date found');
+
+  const length = content.length;
+  const lengthScore = scoreLength(length);
+  if (length < SOURCE_SCORING_CONFIG.MIN_LENGTH) reasons.push(`Little content (${length} characters)`);
+
+  const score = WEIGHTS.authority * AUTHORITY_SCORES[authority]
+    + WEIGHTS.freshness * freshness
+    + WEIGHTS.length * lengthScore;
+
+  return {
+    score: round(score),
+    authority,
+    ...dates,
+    ageDays,
+    freshness: round(freshness),
+    length,
+    reasons,
+  };
+}
+
+function classifyAuthority(
+  source: Source,
+  content: string,
+  firstParty: string[]
+): { authority: SourceAuthority; reason: string } {
+  let url: URL;
+  try {
+    url = new URL(source.url);
+  } catch {
+    return { authority: 'unknown', reason: 'Source without a web address' };
+  }
+  // Uploaded files and pasted dossiers come from the user
+  if (!/^https?:$/.test(url.protocol)) return { authority: 'first-party', reason: 'Provided with the request' };
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const path = `${host}${url.pathname.toLowerCase()}`;
+  const onDomain = (domain: string) => domain.includes('/')
+    ? path.startsWith(domain)
+    : host === domain || host.endsWith(`.${domain}`);
+
+  if (firstParty.some(onDomain)) return { authority: 'first-party', reason: "The researched company's own site" };
+  if (OFFICIAL_HOST.test(host)) return { authority: 'official', reason: 'Government or standards body' };
+  if (CONTENT_FARM_DOMAINS.some(onDomain)) return { authority: 'content-farm', reason: 'Known content farm' };
+  if (REVIEW_DOMAINS.some(onDomain)) return { authority: 'review', reason: 'Software review site' };
+  if (REFERENCE_DOMAINS.some(onDomain) || ACADEMIC_HOST.test(host)) {
+    return { authority: 'reference', reason: 'Reference or company database' };
+  }
+  if (NEWS_DOMAINS.some(onDomain)) return { authority: 'news', reason: 'Established news outlet' };
+  if (COMMUNITY_DOMAINS.some(onDomain)) return { authority: 'community', reason: 'User-generated content' };
+
+  // Unknown sites that look like SEO pages: keyword-stuffed domains, spam TLDs, affiliate listicles
+  const label = host.split('.').slice(-2, -1)[0] || '';
+  const listicle = LISTICLE_TITLE.test(source.title || '') && AFFILIATE_TEXT.test(content);
+  if (label.split('-').length >= 4 || SPAM_TLD.test(host) || listicle) {
+    return { authority: 'content-farm', reason: listicle ? 'Affiliate listicle' : 'Looks like an SEO site' };
+  }
+  return { authority: 'unknown', reason: 'Site of unknown standing' };
+}
+
+function parseDate(value: unknown, now: Date): Date | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = typeof value === 'string' ? value.trim().replace(/(\d)(?:st|nd|rd|th)\b/, '$1') : value;
+  if (text === '') return undefined;
+  const date = new Date(text);
+  const time = date.getTime();
+  // Reject unparsable, implausibly old and future dates
+  if (Number.isNaN(time) || date.getFullYear() < 1995 || time > now.getTime() + DAY_MS) return undefined;
+  return date;
+}
+
+function scoreLength(length: number): number {
+  const { MIN_LENGTH, IDEAL_LENGTH } = SOURCE_SCORING_CONFIG;
+  if (length <= MIN_LENGTH) return 0.1 * (length / MIN_LENGTH);
+  return 0.1 + 0.9 * Math.min(1, Math.log(length / MIN_LENGTH) / Math.log(IDEAL_LENGTH / MIN_LENGTH));
+}
+
+/**
+ * Marks each source that repeats a more credible one, by canonical URL or by
+ * shingle overlap, and lowers its score.
+ */
+function markDuplicates(sources: Array<Source & { credibility: SourceCredibility }>): void {
+  const { DUPLICATE_SIMILARITY, DUPLICATE_PENALTY } = SOURCE_SCORING_CONFIG;
+  const originals: Array<{ url: string; key: string; shingles: Set<number> }> = [];
+  const byCredibility = [...sources].sort((a, b) => b.credibility.score - a.credibility.score);
+
+  for (const source of byCredibility) {
+    const key = canonicalUrl(source.url);
+    const shingles = shingleSet(source.content || '');
+    const original = originals.find(candidate => candidate.key === key)
+      || originals.find(candidate => jaccard(candidate.shingles, shingles) >= DUPLICATE_SIMILARITY);
+
+    if (original) {
+      source.credibility.duplicateOf = original.url;
+      source.credibility.score = round(source.credibility.score * DUPLICATE_PENALTY);
+      source.credibility.reasons.push(`Repeats ${original.url}`);
+    } else {
+      originals.push({ url: source.url, key, shingles });
+    }
+  }
+}
+
+function canonicalUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    const path = url.pathname.replace(/\/+$/, '').toLowerCase();
+    return `${url.hostname.replace(/^www\./, '').toLowerCase()}${path}`;
+  } catch {
+    return value;
+  }
+}
+
+function shingleSet(content: string): Set<number> {
+  const size = SOURCE_SCORING_CONFIG.SHINGLE_SIZE;
+  const words = content.slice(0, MAX_DUPLICATE_CHARS).toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+  const shingles = new Set<number>();
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(hash(words.slice(i, i + size).join(' ')));
+  }
+  return shingles;
+}
+
+function jaccard(a: Set<number>, b: Set<number>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  // The overlap can never reach the threshold when the sizes are too far apart
+  if (smaller.size / larger.size < SOURCE_SCORING_CONFIG.DUPLICATE_SIMILARITY) return 0;
+  let shared = 0;
+  for (const shingle of smaller) if (larger.has(shingle)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+// FNV-1a, to keep shingle sets small
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+function formatAge(days: number): string {
+  if (days < 1) return 'today';
+  if (days < 60) return `${days} day${days === 1 ? '' : 's'} ago`;
+  if (days < 730) return `${Math.round(days / 30)} months ago`;
+  return `${Math.round(days / 365)} years ago`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
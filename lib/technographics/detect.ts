@@ -0,0 +1,189 @@
+import { TECHNOGRAPHIC_CONFIG } from '../config';
+import type { Integration, TechStack } from '../multi-agent/types';
+import { TECH_FINGERPRINTS } from './fingerprints';
+import { DetectedTechnology, FingerprintPage, TechEvidence, TechEvidenceKind, TechnologyFingerprint } from './types';
+
+const FINGERPRINT_SOURCE = 'Page fingerprints (headers, cookies, scripts, meta tags, markup)';
+
+/**
+ * Identify technologies on one page from deterministic fingerprint rules.
+ * Nothing is inferred from the page text, so every result has evidence.
+ */
+export function detectTechnologies(page: FingerprintPage, fingerprints: TechnologyFingerprint[] = TECH_FINGERPRINTS): DetectedTechnology[] {
+  const headers = page.headers || {};
+  const scripts = extractScriptSources(page.html);
+  const meta = extractMetaTags(page.html);
+  const cookies = (headers['set-cookie'] || '')
+    .split('\n')
+    .map(cookie => cookie.split('=')[0].trim())
+    .filter(Boolean);
+
+  const detected = new Map<string, DetectedTechnology>();
+  for (const fingerprint of fingerprints) {
+    const evidence: TechEvidence[] = [];
+    const add = (kind: TechEvidenceKind, match: string) => evidence.push({ url: page.url, kind, match: clip(match) });
+
+    for (const [name, pattern] of Object.entries(fingerprint.headers || {})) {
+      const value = headers[name.toLowerCase()];
+      if (value !== undefined && pattern.test(value)) add('header', `${name}: ${value}`);
+    }
+    for (const pattern of fingerprint.cookies || []) {
+      const cookie = cookies.find(name => pattern.test(name));
+      if (cookie) add('cookie', cookie);
+    }
+    for (const pattern of fingerprint.scripts || []) {
+      const script = scripts.find(src => pattern.test(src));
+      if (script) add('script', script);
+    }
+    for (const [name, pattern] of Object.entries(fingerprint.meta || {})) {
+      const content = meta[name.toLowerCase()];
+      if (content !== undefined && pattern.test(content)) add('meta', `<meta name="${name}" content="${content}">`);
+    }
+    for (const pattern of fingerprint.html || []) {
+      const match = pattern.exec(page.html);
+      if (match) add('html', match[0]);
+    }
+
+    if (evidence.length > 0) {
+      detected.set(fingerprint.name, toDetection(fingerprint, evidence));
+    }
+  }
+
+  addImplied(detected, fingerprints, page.url);
+  return Array.from(detected.values())
+    .filter(technology => technology.confidence >= TECHNOGRAPHIC_CONFIG.MIN_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+}
+
+/**
+ * Combine detections from several pages: evidence is pooled and confidence
+ * is the highest any page reached
+ */
+export function mergeDetections(detections: DetectedTechnology[]): DetectedTechnology[] {
+  const merged = new Map<string, DetectedTechnology>();
+  for (const technology of detections) {
+    const existing = merged.get(technology.name);
+    if (!existing) {
+      merged.set(technology.name, { ...technology, evidence: technology.evidence.slice(0, TECHNOGRAPHIC_CONFIG.MAX_EVIDENCE) });
+      continue;
+    }
+    existing.confidence = Math.max(existing.confidence, technology.confidence);
+    existing.evidence = [...existing.evidence, ...technology.evidence].slice(0, TECHNOGRAPHIC_CONFIG.MAX_EVIDENCE);
+  }
+  return Array.from(merged.values()).sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name));
+}
+
+/**
+ * One TechStack per category, listing the companies (hosts) each was seen on
+ */
+export function toTechStacks(technologies: DetectedTechnology[]): TechStack[] {
+  return groupBy(technologies, technology => technology.category).map(([category, members]) => ({
+    category,
+    tools: members.map(member => member.name),
+    characteristics: [],
+    examples: hostsOf(members),
+    source: FINGERPRINT_SOURCE,
+    detection: 'fingerprint' as const,
+    confidence: round(Math.max(...members.map(member => member.confidence))),
+    evidence: members.flatMap(member => member.evidence),
+  }));
+}
+
+/**
+ * Third-party services the pages connect to, grouped by the kind of integration
+ */
+export function toIntegrations(technologies: DetectedTechnology[]): Integration[] {
+  return groupBy(technologies.filter(technology => technology.integration), technology => technology.category).map(([type, members]) => ({
+    type,
+    requirements: members.map(member => `${member.name} integration`),
+    examples: hostsOf(members),
+    source: FINGERPRINT_SOURCE,
+    detection: 'fingerprint' as const,
+    confidence: round(Math.max(...members.map(member => member.confidence))),
+    evidence: members.flatMap(member => member.evidence),
+  }));
+}
+
+function toDetection(fingerprint: TechnologyFingerprint, evidence: TechEvidence[]): DetectedTechnology {
+  // Independent markers: the chance that all of them are coincidences shrinks with each one
+  const doubt = evidence.reduce((product, item) => product * (1 - weightOf(item.kind)), 1);
+  return {
+    name: fingerprint.name,
+    category: fingerprint.category,
+    integration: Boolean(fingerprint.integration),
+    confidence: round(1 - doubt),
+    evidence: evidence.slice(0, TECHNOGRAPHIC_CONFIG.MAX_EVIDENCE),
+  };
+}
+
+function addImplied(detected: Map<string, DetectedTechnology>, fingerprints: TechnologyFingerprint[], url: string) {
+  const queue = Array.from(detected.values());
+  while (queue.length > 0) {
+    const parent = queue.shift()!;
+    const implies = fingerprints.find(fingerprint => fingerprint.name === parent.name)?.implies || [];
+    for (const name of implies) {
+      const fingerprint = fingerprints.find(candidate => candidate.name === name);
+      if (!fingerprint) continue;
+      const existing = detected.get(name);
+      if (existing && existing.confidence >= parent.confidence) continue;
+      const implied: DetectedTechnology = {
+        name,
+        category: fingerprint.category,
+        integration: Boolean(fingerprint.integration),
+        confidence: parent.confidence,
+        evidence: [...(existing?.evidence || []), { url, kind: 'implied' as const, match: `Implied by ${parent.name}` }]
+          .slice(0, TECHNOGRAPHIC_CONFIG.MAX_EVIDENCE),
+      };
+      detected.set(name, implied);
+      queue.push(implied);
+    }
+  }
+}
+
+function weightOf(kind: TechEvidenceKind): number {
+  return kind === 'implied' ? 0 : TECHNOGRAPHIC_CONFIG.EVIDENCE_WEIGHTS[kind];
+}
+
+function extractScriptSources(html: string): string[] {
+  return Array.from(html.matchAll(/<script\b[^>]*?\bsrc\s*=\s*["']([^"']+)["']/gi), match => match[1]);
+}
+
+// Meta tags keyed by lower-case name, property or http-equiv
+function extractMetaTags(html: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const [tag] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = /\b(?:name|property|http-equiv)\s*=\s*["']([^"']+)["']/i.exec(tag)?.[1];
+    const content = /\bcontent\s*=\s*["']([^"']*)["']/i.exec(tag)?.[1];
+    if (key && content !== undefined && !(key.toLowerCase() in tags)) tags[key.toLowerCase()] = content;
+  }
+  return tags;
+}
+
+function hostsOf(technologies: DetectedTechnology[]): string[] {
+  const hosts = new Set<string>();
+  for (const item of technologies.flatMap(technology => technology.evidence)) {
+    try {
+      hosts.add(new URL(item.url).hostname.replace(/^www\./, ''));
+    } catch {
+      // Evidence from pages without a URL has no host to report
+    }
+  }
+  return Array.from(hosts);
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): [string, T[]][] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    groups.set(key(item), [...(groups.get(key(item)) || []), item]);
+  }
+  return Array.from(groups.entries());
+}
+
+function clip(value: string): string {
+  const flat = value.replace(/\s+/g, ' ').trim();
+  return flat.length > TECHNOGRAPHIC_CONFIG.EVIDENCE_LENGTH ? `${flat.slice(0, TECHNOGRAPHIC_CONFIG.EVIDENCE_LENGTH - 1)}…` : flat;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
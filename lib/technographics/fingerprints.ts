@@ -0,0 +1,148 @@
+// Fingerprint rules for technologies that matter to B2B technographic filters.
+// Patterns follow the approach of Wappalyzer: each one is a specific marker a
+// technology leaves in headers, cookies, script URLs, meta tags or markup.
+import { TechnologyFingerprint } from './types';
+
+export const TECH_FINGERPRINTS: TechnologyFingerprint[] = [
+  // Analytics
+  {
+    name: 'Google Analytics',
+    category: 'Analytics',
+    scripts: [/google-analytics\.com\/(?:analytics|ga)\.js/i, /googletagmanager\.com\/gtag\/js\?id=(?:G|UA)-/i],
+    cookies: [/^_ga(?:_|$)/i],
+    html: [/gtag\(\s*['"]config['"]\s*,\s*['"](?:G|UA)-[A-Z0-9-]+/i],
+  },
+  { name: 'Segment', category: 'Customer Data Platform', integration: true, scripts: [/cdn\.segment\.(?:com|io)\/analytics\.js/i], cookies: [/^ajs_anonymous_id$/i] },
+  { name: 'Mixpanel', category: 'Analytics', scripts: [/cdn(?:4)?\.mxpnl\.com/i, /mixpanel-[\d.]+(?:\.min)?\.js/i], cookies: [/^mp_[a-f0-9]+_mixpanel$/i] },
+  { name: 'Amplitude', category: 'Analytics', scripts: [/cdn\.amplitude\.com/i], cookies: [/^amp_[a-f0-9]+$/i, /^AMP_[A-F0-9]+$/i] },
+  { name: 'Heap', category: 'Analytics', scripts: [/cdn\.heapanalytics\.com/i], html: [/heap\.load\(\s*['"]\d+['"]/i] },
+  { name: 'Hotjar', category: 'Analytics', scripts: [/static\.hotjar\.com/i], cookies: [/^_hj(?:SessionUser|Session|id)/i] },
+  { name: 'PostHog', category: 'Analytics', scripts: [/(?:us|eu)(?:-assets)?\.i\.posthog\.com/i, /app\.posthog\.com\/static\/array\.js/i], cookies: [/^ph_phc_/i] },
+  { name: 'Plausible', category: 'Analytics', scripts: [/plausible\.io\/js\//i] },
+  { name: 'FullStory', category: 'Analytics', scripts: [/(?:edge\.)?fullstory\.com\/s\/fs\.js/i], html: [/window\['_fs_org'\]/i] },
+  { name: 'Microsoft Clarity', category: 'Analytics', scripts: [/clarity\.ms\/tag\//i] },
+
+  // Tag management
+  {
+    name: 'Google Tag Manager',
+    category: 'Tag Manager',
+    scripts: [/googletagmanager\.com\/gtm\.js/i],
+    html: [/googletagmanager\.com\/ns\.html\?id=GTM-[A-Z0-9]+/i, /['"]GTM-[A-Z0-9]{4,}['"]/],
+  },
+
+  // Marketing automation and CRM
+  {
+    name: 'HubSpot',
+    category: 'Marketing Automation',
+    integration: true,
+    scripts: [/js\.hs-scripts\.com/i, /js\.hsforms\.net/i, /js\.hs-analytics\.net/i, /js\.hubspot\.com/i],
+    cookies: [/^hubspotutk$/i, /^__hs(?:tc|sc|src)$/i],
+  },
+  { name: 'Marketo', category: 'Marketing Automation', integration: true, scripts: [/munchkin\.marketo\.net/i], cookies: [/^_mkto_trk$/i], html: [/mktoForm_\d+/i] },
+  { name: 'Pardot', category: 'Marketing Automation', integration: true, scripts: [/pi\.pardot\.com/i], html: [/piAId\s*=\s*['"]\d+/i], implies: ['Salesforce'] },
+  { name: 'Mailchimp', category: 'Email Marketing', integration: true, scripts: [/chimpstatic\.com/i], html: [/list-manage\.com\/subscribe/i] },
+  { name: 'Klaviyo', category: 'Email Marketing', integration: true, scripts: [/static\.klaviyo\.com/i] },
+  { name: 'ActiveCampaign', category: 'Marketing Automation', integration: true, scripts: [/trackcmp\.net/i] },
+  { name: 'Salesforce', category: 'CRM', integration: true, html: [/webto\.salesforce\.com/i, /\.my\.salesforce\.com/i], scripts: [/\.force\.com\//i] },
+  { name: 'Zoho', category: 'CRM', integration: true, scripts: [/salesiq\.zoho\.(?:com|eu|in)/i, /crm\.zoho\.(?:com|eu|in)/i] },
+
+  // Account intelligence and advertising
+  { name: 'Clearbit', category: 'Sales Intelligence', scripts: [/tag\.clearbitscripts\.com/i, /x\.clearbitjs\.com/i] },
+  { name: 'ZoomInfo', category: 'Sales Intelligence', scripts: [/ws\.zoominfo\.com/i, /js\.zi-scripts\.com/i] },
+  { name: '6sense', category: 'Sales Intelligence', scripts: [/j\.6sc\.co/i] },
+  { name: 'Demandbase', category: 'Sales Intelligence', scripts: [/tag\.demandbase\.com/i] },
+  { name: 'LinkedIn Insight Tag', category: 'Advertising', scripts: [/snap\.licdn\.com\/li\.lms-analytics/i], html: [/_linkedin_partner_id\s*=/i] },
+  { name: 'Meta Pixel', category: 'Advertising', scripts: [/connect\.facebook\.net\/[a-z_A-Z]+\/fbevents\.js/i], html: [/fbq\(\s*['"]init['"]/i] },
+  { name: 'Google Ads', category: 'Advertising', scripts: [/googleadservices\.com\/pagead\/conversion/i, /googletagmanager\.com\/gtag\/js\?id=AW-/i] },
+
+  // Customer messaging and support
+  { name: 'Intercom', category: 'Customer Messaging', integration: true, scripts: [/widget\.intercom\.io/i, /js\.intercomcdn\.com/i], cookies: [/^intercom-(?:id|session)-/i] },
+  { name: 'Drift', category: 'Customer Messaging', integration: true, scripts: [/js\.driftt\.com/i, /js\.drift\.com/i] },
+  { name: 'Zendesk', category: 'Customer Support', integration: true, scripts: [/static\.zdassets\.com/i, /\.zendesk\.com\/embeddable/i] },
+  { name: 'Crisp', category: 'Customer Messaging', integration: true, scripts: [/client\.crisp\.chat/i] },
+  { name: 'LiveChat', category: 'Customer Messaging', integration: true, scripts: [/cdn\.livechatinc\.com/i] },
+  { name: 'Freshworks', category: 'Customer Support', integration: true, scripts: [/wchat\.freshchat\.com/i, /widget\.freshworks\.com/i] },
+  { name: 'Help Scout', category: 'Customer Support', integration: true, scripts: [/beacon-v2\.helpscout\.net/i] },
+
+  // Scheduling and video
+  { name: 'Calendly', category: 'Scheduling', integration: true, scripts: [/assets\.calendly\.com/i], html: [/calendly\.com\/[a-z0-9_-]+/i] },
+  { name: 'Chili Piper', category: 'Scheduling', integration: true, scripts: [/js\.chilipiper\.com/i] },
+  { name: 'Wistia', category: 'Video', scripts: [/fast\.wistia\.(?:com|net)/i] },
+  { name: 'Vimeo', category: 'Video', html: [/player\.vimeo\.com\/video\//i] },
+  { name: 'YouTube', category: 'Video', html: [/youtube(?:-nocookie)?\.com\/embed\//i] },
+
+  // Payments and billing
+  { name: 'Stripe', category: 'Payments', integration: true, scripts: [/js\.stripe\.com/i], cookies: [/^__stripe_(?:mid|sid)$/i] },
+  { name: 'PayPal', category: 'Payments', integration: true, scripts: [/paypal\.com\/sdk\/js/i, /paypalobjects\.com\/api\/checkout/i] },
+  { name: 'Braintree', category: 'Payments', integration: true, scripts: [/js\.braintreegateway\.com/i] },
+  { name: 'Paddle', category: 'Payments', integration: true, scripts: [/cdn\.paddle\.com\/paddle/i] },
+  { name: 'Chargebee', category: 'Subscription Billing', integration: true, scripts: [/js\.chargebee\.com/i] },
+
+  // Experimentation
+  { name: 'Optimizely', category: 'A/B Testing', scripts: [/cdn\.optimizely\.com/i] },
+  { name: 'VWO', category: 'A/B Testing', scripts: [/dev\.visualwebsiteoptimizer\.com/i], cookies: [/^_vwo_uuid/i] },
+  { name: 'LaunchDarkly', category: 'Feature Management', scripts: [/app\.launchdarkly\.com/i, /clientstream\.launchdarkly\.com/i] },
+
+  // Identity, consent and security
+  { name: 'Auth0', category: 'Authentication', integration: true, scripts: [/cdn\.auth0\.com/i], html: [/[a-z0-9-]+\.auth0\.com\/authorize/i] },
+  { name: 'Okta', category: 'Authentication', integration: true, scripts: [/global\.oktacdn\.com/i], html: [/[a-z0-9-]+\.okta\.com\/oauth2/i] },
+  { name: 'Clerk', category: 'Authentication', integration: true, scripts: [/clerk\.[a-z0-9.-]+\/npm\/@clerk/i], cookies: [/^__clerk_db_jwt/i] },
+  { name: 'OneTrust', category: 'Consent Management', scripts: [/cdn\.cookielaw\.org/i, /optanon\.blob\.core\.windows\.net/i], cookies: [/^OptanonConsent$/i] },
+  { name: 'Cookiebot', category: 'Consent Management', scripts: [/consent\.cookiebot\.com/i] },
+  { name: 'reCAPTCHA', category: 'Security', scripts: [/google\.com\/recaptcha\/(?:api|enterprise)\.js/i, /recaptcha\.net\/recaptcha/i] },
+  { name: 'hCaptcha', category: 'Security', scripts: [/js\.hcaptcha\.com/i] },
+
+  // CMS and site builders
+  {
+    name: 'WordPress',
+    category: 'CMS',
+    meta: { generator: /^WordPress/i },
+    html: [/\/wp-content\/(?:themes|plugins|uploads)\//i, /\/wp-includes\//i],
+    headers: { link: /rel="https:\/\/api\.w\.org\/"/i },
+  },
+  { name: 'WooCommerce', category: 'Ecommerce', meta: { generator: /^WooCommerce/i }, html: [/\/wp-content\/plugins\/woocommerce\//i], implies: ['WordPress'] },
+  { name: 'Webflow', category: 'CMS', meta: { generator: /^Webflow/i }, html: [/data-wf-(?:page|site)=/i], scripts: [/assets\.website-files\.com/i] },
+  { name: 'Wix', category: 'CMS', meta: { generator: /^Wix\.com/i }, headers: { 'x-wix-request-id': /.+/ }, html: [/static\.wixstatic\.com/i] },
+  { name: 'Squarespace', category: 'CMS', html: [/static1\.squarespace\.com/i], headers: { server: /^Squarespace/i } },
+  { name: 'Framer', category: 'CMS', meta: { generator: /^Framer/i }, html: [/framerusercontent\.com/i] },
+  { name: 'Drupal', category: 'CMS', meta: { generator: /^Drupal/i }, headers: { 'x-generator': /^Drupal/i, 'x-drupal-cache': /.+/ }, html: [/\/sites\/default\/files\//i] },
+  { name: 'Ghost', category: 'CMS', meta: { generator: /^Ghost/i } },
+  { name: 'Contentful', category: 'CMS', html: [/(?:images|assets)\.ctfassets\.net/i] },
+  { name: 'HubSpot CMS', category: 'CMS', headers: { 'x-hs-hub-id': /\d+/ }, meta: { generator: /^HubSpot/i }, implies: ['HubSpot'] },
+
+  // Ecommerce
+  { name: 'Shopify', category: 'Ecommerce', headers: { 'x-shopid': /\d+/, 'x-shopify-stage': /.+/ }, cookies: [/^_shopify_y$/i], scripts: [/cdn\.shopify\.com/i] },
+  { name: 'Magento', category: 'Ecommerce', cookies: [/^X-Magento-Vary$/i], headers: { 'x-magento-cache-debug': /.+/ }, html: [/Mage\.Cookies/i, /\/static\/version\d+\/frontend\//i] },
+  { name: 'BigCommerce', category: 'Ecommerce', html: [/cdn\d*\.bigcommerce\.com/i] },
+
+  // Front-end frameworks
+  { name: 'Next.js', category: 'JavaScript Framework', headers: { 'x-powered-by': /Next\.js/i }, html: [/<script[^>]+id="__NEXT_DATA__"/i, /\/_next\/static\//i], implies: ['React'] },
+  { name: 'Nuxt', category: 'JavaScript Framework', html: [/window\.__NUXT__/i, /\/_nuxt\//i], implies: ['Vue.js'] },
+  { name: 'Gatsby', category: 'JavaScript Framework', meta: { generator: /^Gatsby/i }, html: [/id="___gatsby"/i], implies: ['React'] },
+  { name: 'Remix', category: 'JavaScript Framework', html: [/window\.__remixContext/i], implies: ['React'] },
+  { name: 'SvelteKit', category: 'JavaScript Framework', html: [/__sveltekit_[a-z0-9]+/i, /data-sveltekit-/i] },
+  { name: 'Angular', category: 'JavaScript Framework', html: [/<[a-z-]+[^>]+ng-version="\d/i] },
+  { name: 'React', category: 'JavaScript Framework', html: [/data-reactroot/i], scripts: [/react(?:-dom)?(?:\.production)?(?:\.min)?\.js/i] },
+  { name: 'Vue.js', category: 'JavaScript Framework', scripts: [/vue(?:\.runtime)?(?:\.global)?(?:\.prod)?(?:\.min)?\.js/i], html: [/data-v-[a-f0-9]{8}/i] },
+  { name: 'jQuery', category: 'JavaScript Library', scripts: [/jquery(?:-\d[\d.]*)?(?:\.slim)?(?:\.min)?\.js/i] },
+
+  // Hosting, CDN and servers
+  { name: 'Cloudflare', category: 'CDN', headers: { server: /^cloudflare$/i, 'cf-ray': /.+/ }, cookies: [/^__cf_bm$/i, /^__cfruid$/i] },
+  { name: 'Amazon CloudFront', category: 'CDN', headers: { via: /CloudFront/i, 'x-amz-cf-id': /.+/ } },
+  { name: 'Fastly', category: 'CDN', headers: { 'x-served-by': /cache-[a-z]+\d+/i, 'x-fastly-request-id': /.+/ } },
+  { name: 'Akamai', category: 'CDN', headers: { 'x-akamai-transformed': /.+/, server: /^AkamaiGHost/i } },
+  { name: 'Vercel', category: 'Hosting', headers: { server: /^Vercel$/i, 'x-vercel-id': /.+/ } },
+  { name: 'Netlify', category: 'Hosting', headers: { server: /^Netlify$/i, 'x-nf-request-id': /.+/ } },
+  { name: 'Heroku', category: 'Hosting', headers: { via: /vegur/i } },
+  { name: 'Amazon Web Services', category: 'Hosting', headers: { 'x-amz-request-id': /.+/, server: /^(?:AmazonS3|awselb)/i } },
+  { name: 'Google Cloud', category: 'Hosting', headers: { server: /^Google Frontend$/i, via: /1\.1 google/i } },
+  { name: 'Microsoft Azure', category: 'Hosting', headers: { 'x-azure-ref': /.+/, 'x-ms-request-id': /.+/ } },
+  { name: 'Nginx', category: 'Web Server', headers: { server: /^nginx/i } },
+  { name: 'Apache', category: 'Web Server', headers: { server: /^Apache/i } },
+  { name: 'Microsoft IIS', category: 'Web Server', headers: { server: /^Microsoft-IIS/i }, implies: ['ASP.NET'] },
+  { name: 'ASP.NET', category: 'Web Framework', headers: { 'x-powered-by': /ASP\.NET/i, 'x-aspnet-version': /.+/ }, cookies: [/^ASP\.NET_SessionId$/i] },
+  { name: 'PHP', category: 'Programming Language', headers: { 'x-powered-by': /PHP/i }, cookies: [/^PHPSESSID$/i] },
+  { name: 'Express', category: 'Web Framework', headers: { 'x-powered-by': /^Express$/i } },
+  { name: 'Ruby on Rails', category: 'Web Framework', meta: { 'csrf-param': /^authenticity_token$/i } },
+  { name: 'Django', category: 'Web Framework', cookies: [/^csrftoken$/i], html: [/name="csrfmiddlewaretoken"/i] },
+];
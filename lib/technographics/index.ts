@@ -0,0 +1,4 @@
+export * from './types';
+export { TECH_FINGERPRINTS } from './fingerprints';
+export { detectTechnologies, mergeDetections, toIntegrations, toTechStacks } from './detect';
+export { TechnographicScanner } from './scanner';
@@ -0,0 +1,35 @@
+import { isAbortError, throwIfAborted } from '../abort';
+import { TECHNOGRAPHIC_CONFIG } from '../config';
+import { FirecrawlClient } from '../firecrawl';
+import { detectTechnologies, mergeDetections } from './detect';
+import { DetectedTechnology, TechnographicScan } from './types';
+
+/**
+ * Fetches pages through the scrape layer and fingerprints what they run on.
+ * Pages that cannot be fetched are left out rather than failing the scan.
+ */
+export class TechnographicScanner {
+  constructor(private firecrawl: FirecrawlClient) {}
+
+  async scan(urls: string[], signal?: AbortSignal): Promise<TechnographicScan> {
+    const unique = Array.from(new Set(urls)).slice(0, TECHNOGRAPHIC_CONFIG.MAX_PAGES);
+    const detections: DetectedTechnology[] = [];
+    const scannedUrls: string[] = [];
+
+    for (const url of unique) {
+      throwIfAborted(signal);
+      try {
+        const result = await this.firecrawl.scrapeUrl(url, TECHNOGRAPHIC_CONFIG.SCRAPE_TIMEOUT, signal);
+        const html = result.rawHtml || result.html;
+        if (!result.success || !html) continue;
+        detections.push(...detectTechnologies({ url, html, headers: result.headers }));
+        scannedUrls.push(url);
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw error;
+        console.warn(`Technographic scan skipped ${url}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    return { technologies: mergeDetections(detections), scannedUrls };
+  }
+}
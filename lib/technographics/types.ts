@@ -0,0 +1,58 @@
+// Technographic Fingerprinting Types
+
+// Where on a page a technology was recognised
+export type TechEvidenceKind = 'header' | 'cookie' | 'script' | 'meta' | 'html' | 'implied';
+
+export interface TechEvidence {
+  url: string;
+  kind: TechEvidenceKind;
+  // The matched header, cookie name, script URL, meta tag or markup
+  match: string;
+}
+
+/**
+ * Rules that identify one technology. Any matching pattern counts; patterns
+ * are tested case-insensitively.
+ */
+export interface TechnologyFingerprint {
+  name: string;
+  // TechStack category, e.g. "Analytics" or "Marketing Automation"
+  category: string;
+  // Third-party services a customer connects to, reported as integrations too
+  integration?: boolean;
+  // Response header name -> value pattern
+  headers?: Record<string, RegExp>;
+  // Patterns for cookie names
+  cookies?: RegExp[];
+  // Patterns for <script src> URLs
+  scripts?: RegExp[];
+  // Meta tag name or property -> content pattern
+  meta?: Record<string, RegExp>;
+  // Patterns for the raw page markup
+  html?: RegExp[];
+  // Technologies this one is built on
+  implies?: string[];
+}
+
+export interface DetectedTechnology {
+  name: string;
+  category: string;
+  integration: boolean;
+  // 0-1, from the number and kind of matching patterns
+  confidence: number;
+  evidence: TechEvidence[];
+}
+
+// A fetched page as the scrape layer returns it
+export interface FingerprintPage {
+  url: string;
+  html: string;
+  // Lower-case header names; repeated Set-Cookie headers joined by newlines
+  headers?: Record<string, string>;
+}
+
+export interface TechnographicScan {
+  technologies: DetectedTechnology[];
+  // Pages that were fetched and fingerprinted
+  scannedUrls: string[];
+}
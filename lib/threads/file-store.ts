@@ -0,0 +1,70 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { THREAD_CONFIG } from '../config';
+import { matchesSearch } from './search';
+import { ResearchThread, ThreadListOptions, ThreadStore } from './types';
+
+/**
+ * File-backed threads: one JSON record per thread, rewritten atomically
+ * whenever a turn is added.
+ */
+export class FileThreadStore implements ThreadStore {
+  private directory: string;
+
+  constructor(directory: string = THREAD_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  async get(id: string): Promise<ResearchThread | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.recordPath(id), 'utf8')) as ResearchThread;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async put(thread: ResearchThread): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const target = this.recordPath(thread.id);
+    const temp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(thread), 'utf8');
+    await fs.rename(temp, target);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    try {
+      await fs.unlink(this.recordPath(id));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async list(options: ThreadListOptions = {}): Promise<ResearchThread[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const threads = await Promise.all(files
+      .filter(file => file.endsWith('.thread.json'))
+      .map(file => this.get(file.slice(0, -'.thread.json'.length))));
+
+    return threads
+      .filter((thread): thread is ResearchThread => Boolean(thread))
+      .filter(thread => matchesSearch(thread, options.search))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, options.limit || THREAD_CONFIG.MAX_THREADS_LISTED);
+  }
+
+  private recordPath(id: string): string {
+    return path.join(this.directory, `${safeId(id)}.thread.json`);
+  }
+}
+
+// Ids come from clients - keep them from escaping the directory
+function safeId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
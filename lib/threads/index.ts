@@ -0,0 +1,32 @@
+// Research Threads - saved conversations that can be reopened and continued
+import { THREAD_CONFIG } from '../config';
+import { FileThreadStore } from './file-store';
+import { MemoryThreadStore } from './memory-store';
+import { ThreadWorkspace } from './thread-workspace';
+import { ThreadStore } from './types';
+
+export * from './types';
+export { ThreadWorkspace, threadExportFile } from './thread-workspace';
+export { MemoryThreadStore } from './memory-store';
+export { FileThreadStore } from './file-store';
+
+export function createThreadStore(kind: string = process.env.THREAD_STORE || THREAD_CONFIG.STORE): ThreadStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryThreadStore();
+    case 'file':
+      return new FileThreadStore(process.env.THREAD_DIR || THREAD_CONFIG.DIRECTORY);
+    default:
+      throw new Error(`Unknown thread store: ${kind}`);
+  }
+}
+
+// One workspace per server process so its write locks cover every route and action
+let sharedWorkspace: ThreadWorkspace | undefined;
+
+export function getThreadWorkspace(): ThreadWorkspace {
+  if (!sharedWorkspace) {
+    sharedWorkspace = new ThreadWorkspace(createThreadStore());
+  }
+  return sharedWorkspace;
+}
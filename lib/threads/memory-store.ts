@@ -0,0 +1,32 @@
+import { THREAD_CONFIG } from '../config';
+import { matchesSearch } from './search';
+import { ResearchThread, ThreadListOptions, ThreadStore } from './types';
+
+/**
+ * Process-local threads. They are lost on restart - use the file store to
+ * keep them.
+ */
+export class MemoryThreadStore implements ThreadStore {
+  private threads = new Map<string, ResearchThread>();
+
+  async get(id: string): Promise<ResearchThread | undefined> {
+    const thread = this.threads.get(id);
+    return thread ? structuredClone(thread) : undefined;
+  }
+
+  async put(thread: ResearchThread): Promise<void> {
+    this.threads.set(thread.id, structuredClone(thread));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.threads.delete(id);
+  }
+
+  async list(options: ThreadListOptions = {}): Promise<ResearchThread[]> {
+    return Array.from(this.threads.values())
+      .filter(thread => matchesSearch(thread, options.search))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, options.limit || THREAD_CONFIG.MAX_THREADS_LISTED)
+      .map(thread => structuredClone(thread));
+  }
+}
@@ -0,0 +1,37 @@
+import { THREAD_CONFIG } from '../config';
+import { ResearchThread, ThreadMatch } from './types';
+
+export function matchesSearch(thread: ResearchThread, search?: string): boolean {
+  const needle = search?.trim().toLowerCase();
+  if (!needle) return true;
+  return thread.title.toLowerCase().includes(needle)
+    || thread.turns.some(turn => turn.query.toLowerCase().includes(needle) || turn.content.toLowerCase().includes(needle));
+}
+
+/**
+ * Where a search term appears in a thread, with a little surrounding text
+ */
+export function findMatches(thread: ResearchThread, search: string): ThreadMatch[] {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: ThreadMatch[] = [];
+  for (const turn of thread.turns) {
+    for (const field of ['query', 'content'] as const) {
+      const text = turn[field];
+      const index = text.toLowerCase().indexOf(needle);
+      if (index < 0) continue;
+      matches.push({ turnId: turn.id, field, snippet: snippetAround(text, index, needle.length) });
+      if (matches.length >= THREAD_CONFIG.MAX_MATCHES_PER_THREAD) return matches;
+    }
+  }
+  return matches;
+}
+
+function snippetAround(text: string, index: number, length: number): string {
+  const padding = Math.max(0, Math.floor((THREAD_CONFIG.SNIPPET_LENGTH - length) / 2));
+  const start = Math.max(0, index - padding);
+  const end = Math.min(text.length, index + length + padding);
+  const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
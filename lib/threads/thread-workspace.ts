@@ -0,0 +1,179 @@
+import { v4 as uuidv4 } from 'uuid';
+import { THREAD_CONFIG } from '../config';
+import type { Source } from '../langgraph-search-engine';
+import { findMatches } from './search';
+import {
+  NewThreadTurn,
+  ResearchThread,
+  ResearchThreadSummary,
+  ThreadExport,
+  ThreadImportResult,
+  ThreadListOptions,
+  ThreadStore,
+  ThreadTurn,
+} from './types';
+
+/**
+ * Saved research conversations. Each finished answer is appended as a turn,
+ * so a thread can be reopened later and continued with its whole history.
+ */
+export class ThreadWorkspace {
+  private store: ThreadStore;
+  // Serialize read-modify-write per thread so concurrent turns are never dropped
+  private locks = new Map<string, Promise<unknown>>();
+
+  constructor(store: ThreadStore) {
+    this.store = store;
+  }
+
+  async create(options: { title?: string; turns?: NewThreadTurn[] } = {}): Promise<ResearchThread> {
+    const now = new Date().toISOString();
+    const turns = (options.turns || []).map(turn => toTurn(turn, now));
+    const thread: ResearchThread = {
+      id: uuidv4(),
+      title: options.title?.trim() || titleFrom(turns),
+      turns,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.put(thread);
+    return thread;
+  }
+
+  async get(id: string): Promise<ResearchThread | undefined> {
+    return this.store.get(id);
+  }
+
+  /**
+   * Most recently active threads first. With a search term each entry also
+   * says where the term was found.
+   */
+  async list(options: ThreadListOptions = {}): Promise<ResearchThreadSummary[]> {
+    const threads = await this.store.list(options);
+    return threads.map(thread => ({
+      ...summarize(thread),
+      matches: options.search?.trim() ? findMatches(thread, options.search) : undefined,
+    }));
+  }
+
+  async appendTurn(id: string, turn: NewThreadTurn): Promise<ResearchThread | undefined> {
+    return this.modify(id, thread => {
+      if (thread.turns.length >= THREAD_CONFIG.MAX_TURNS) {
+        throw new Error(`Thread ${id} has reached the ${THREAD_CONFIG.MAX_TURNS} turn limit - start a new thread`);
+      }
+      const now = new Date().toISOString();
+      const turns = [...thread.turns, toTurn(turn, now)];
+      return { ...thread, title: thread.title || titleFrom(turns), turns, updatedAt: now };
+    });
+  }
+
+  async rename(id: string, title: string): Promise<ResearchThread | undefined> {
+    return this.modify(id, thread => ({
+      ...thread,
+      title: title.trim() || thread.title,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.withLock(id, () => this.store.delete(id));
+  }
+
+  /**
+   * The given threads, or every listed thread, in the portable export format
+   */
+  async exportThreads(ids?: string[]): Promise<ThreadExport> {
+    const threads = ids && ids.length > 0
+      ? await Promise.all(ids.map(async id => {
+          const thread = await this.store.get(id);
+          if (!thread) throw new Error(`Thread ${id} not found`);
+          return thread;
+        }))
+      : await this.store.list();
+    return { format: 'firesearch-threads', version: 1, exportedAt: new Date().toISOString(), threads };
+  }
+
+  /**
+   * Add threads from an export. Threads whose id is already in the workspace
+   * are skipped rather than overwritten.
+   */
+  async importThreads(file: Omit<ThreadExport, 'exportedAt'>): Promise<ThreadImportResult> {
+    const result: ThreadImportResult = { imported: [], skipped: [] };
+    for (const incoming of file.threads) {
+      const thread: ResearchThread = {
+        ...incoming,
+        title: incoming.title.trim() || titleFrom(incoming.turns),
+        turns: incoming.turns.map(turn => ({ ...turn, sources: compactSources(turn.sources) })),
+      };
+      const added = await this.withLock(thread.id, async () => {
+        if (await this.store.get(thread.id)) return false;
+        await this.store.put(thread);
+        return true;
+      });
+      if (added) {
+        result.imported.push(summarize(thread));
+      } else {
+        result.skipped.push(`Thread "${thread.title}" (${thread.id}) already exists`);
+      }
+    }
+    return result;
+  }
+
+  private modify(id: string, change: (thread: ResearchThread) => ResearchThread): Promise<ResearchThread | undefined> {
+    return this.withLock(id, async () => {
+      const thread = await this.store.get(id);
+      if (!thread) return undefined;
+      const updated = change(thread);
+      await this.store.put(updated);
+      return updated;
+    });
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const next = previous.then(task, task);
+    this.locks.set(key, next.catch(() => undefined));
+    return next;
+  }
+}
+
+/**
+ * A JSON download of exported threads
+ */
+export function threadExportFile(file: ThreadExport): { filename: string; contentType: string; content: string } {
+  const slug = file.threads.length === 1
+    ? file.threads[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+    : '';
+  return {
+    filename: `${slug || 'research-threads'}-${file.exportedAt.slice(0, 10)}.json`,
+    contentType: 'application/json',
+    content: JSON.stringify(file, null, 2),
+  };
+}
+
+function toTurn(turn: NewThreadTurn, createdAt: string): ThreadTurn {
+  return { ...turn, id: uuidv4(), sources: compactSources(turn.sources), createdAt };
+}
+
+// Page text is only kept as a preview so long threads stay small on disk
+function compactSources(sources: Source[]): Source[] {
+  return sources.map(source => ({
+    url: source.url,
+    title: source.title,
+    content: source.content?.slice(0, THREAD_CONFIG.MAX_SOURCE_CHARS),
+    quality: source.quality,
+    summary: source.summary,
+    credibility: source.credibility,
+  }));
+}
+
+// Untitled threads take their first question as the title once they have one
+function titleFrom(turns: Pick<ThreadTurn, 'query'>[]): string {
+  const first = turns[0]?.query.replace(/\s+/g, ' ').trim() || '';
+  return first.length > THREAD_CONFIG.TITLE_LENGTH ? `${first.slice(0, THREAD_CONFIG.TITLE_LENGTH - 1)}…` : first;
+}
+
+function summarize(thread: ResearchThread): ResearchThreadSummary {
+  const { turns, ...rest } = thread;
+  return { ...rest, turnCount: turns.length, lastQuery: turns[turns.length - 1]?.query };
+}
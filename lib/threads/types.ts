@@ -0,0 +1,83 @@
+// Research Thread Types
+import type { CitationReport } from '../citation-verification';
+import type { Source } from '../langgraph-search-engine';
+import type { ICPProfile } from '../multi-agent/types';
+
+// Which research flow produced a turn
+export type ThreadTurnKind = 'search' | 'company' | 'icp';
+
+/**
+ * One question and its finished answer. Only plain data is kept so a thread
+ * can be re-rendered, exported and used as context for follow-ups.
+ */
+export interface ThreadTurn {
+  id: string;
+  kind: ThreadTurnKind;
+  // What the user asked, as shown in the conversation
+  query: string;
+  // The URL a company or ICP analysis was run for
+  target?: string;
+  // Final markdown answer
+  content: string;
+  sources: Source[];
+  followUpQuestions?: string[];
+  icpProfiles?: ICPProfile[];
+  // Which cited claims in content their sources support
+  citationReport?: CitationReport;
+  createdAt: string;
+}
+
+export type NewThreadTurn = Omit<ThreadTurn, 'id' | 'createdAt'>;
+
+export interface ResearchThread {
+  id: string;
+  title: string;
+  // Oldest first
+  turns: ThreadTurn[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadMatch {
+  turnId: string;
+  field: 'query' | 'content';
+  snippet: string;
+}
+
+// List entries leave out the turns
+export type ResearchThreadSummary = Omit<ResearchThread, 'turns'> & {
+  turnCount: number;
+  lastQuery?: string;
+  // Set when the list was searched
+  matches?: ThreadMatch[];
+};
+
+export interface ThreadListOptions {
+  // Case-insensitive match on the title, questions and answers
+  search?: string;
+  limit?: number;
+}
+
+// Portable file format for moving threads between workspaces
+export interface ThreadExport {
+  format: 'firesearch-threads';
+  version: 1;
+  exportedAt: string;
+  threads: ResearchThread[];
+}
+
+export interface ThreadImportResult {
+  imported: ResearchThreadSummary[];
+  // One message per thread that was left out
+  skipped: string[];
+}
+
+/**
+ * Persistence for threads. Records are written whole.
+ */
+export interface ThreadStore {
+  get(id: string): Promise<ResearchThread | undefined>;
+  put(thread: ResearchThread): Promise<void>;
+  delete(id: string): Promise<boolean>;
+  list(options?: ThreadListOptions): Promise<ResearchThread[]>;
+}
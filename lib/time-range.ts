@@ -0,0 +1,78 @@
+// Time-Bounded Research
+// A time range limits a search to recent material. Search providers are
+// asked for results from the range, results dated outside it are dropped
+// (see filterByTimeRange in source-scoring), and the answer is written as of
+// today with facts from older or undated pages flagged. Nothing here depends
+// on the rest of the engine so providers can use it too.
+import { TIME_RANGE_CONFIG } from './config';
+
+export type TimeRangePreset = keyof typeof TIME_RANGE_CONFIG.PRESET_DAYS;
+
+export interface TimeRange {
+  preset: TimeRangePreset | 'custom';
+  // Inclusive bounds of a custom range as YYYY-MM-DD; either may be left open
+  from?: string;
+  to?: string;
+}
+
+export interface TimeBounds {
+  from?: Date;
+  to?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The dates a range covers. Presets run up to today; custom bounds cover whole days.
+ */
+export function resolveTimeRange(range: TimeRange, now = new Date()): TimeBounds {
+  if (range.preset !== 'custom') {
+    return { from: new Date(now.getTime() - TIME_RANGE_CONFIG.PRESET_DAYS[range.preset] * DAY_MS) };
+  }
+  const from = parseDay(range.from);
+  const to = parseDay(range.to);
+  return { from, to: to && new Date(to.getTime() + DAY_MS - 1) };
+}
+
+/**
+ * Whether a date falls inside the bounds
+ */
+export function isWithinTimeBounds(date: string | Date, bounds: TimeBounds): boolean {
+  const time = new Date(date).getTime();
+  if (Number.isNaN(time)) return false;
+  return (!bounds.from || time >= bounds.from.getTime()) && (!bounds.to || time <= bounds.to.getTime());
+}
+
+/**
+ * The range in words, for prompts and progress messages
+ */
+export function describeTimeRange(range: TimeRange, now = new Date()): string {
+  const { from, to } = resolveTimeRange(range, now);
+  if (range.preset !== 'custom') return `the past ${range.preset} (since ${isoDay(from)})`;
+  if (from && to) return `${isoDay(from)} to ${isoDay(to)}`;
+  if (from) return `since ${isoDay(from)}`;
+  if (to) return `up to ${isoDay(to)}`;
+  return 'any time';
+}
+
+/**
+ * Validation message for a range, or undefined when it is usable
+ */
+export function timeRangeIssue(range: TimeRange): string | undefined {
+  if (range.preset !== 'custom') return undefined;
+  if (!range.from && !range.to) return 'A custom time range needs a start or end date';
+  if (range.from && !parseDay(range.from)) return 'The start date must be a YYYY-MM-DD date';
+  if (range.to && !parseDay(range.to)) return 'The end date must be a YYYY-MM-DD date';
+  if (range.from && range.to && range.from > range.to) return 'The start date must not be after the end date';
+  return undefined;
+}
+
+export function isoDay(date: Date | undefined): string {
+  return date ? date.toISOString().slice(0, 10) : '';
+}
+
+function parseDay(value: string | undefined): Date | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
@@ -0,0 +1,228 @@
+// Usage Ledger
+// Aggregates LLM tokens per model and Firecrawl credits per operation for a
+// single research run, estimates its cost and enforces an optional budget.
+import type { LLMResult } from "@langchain/core/outputs";
+import { anySignal } from './abort';
+import { USAGE_CONFIG } from './config';
+import type { ModelAssignment } from './llm';
+
+export type CreditOperation = 'scrape' | 'search' | 'map' | 'crawl';
+
+export interface ModelUsage {
+  provider: ModelAssignment['provider'];
+  model: string;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // False when the model has no entry in USAGE_CONFIG.MODEL_PRICING
+  priced: boolean;
+}
+
+export interface UsageBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+  maxCredits?: number;
+}
+
+export interface RunUsage {
+  models: ModelUsage[];
+  credits: Record<CreditOperation, number>;
+  totalTokens: number;
+  totalCredits: number;
+  llmCostUsd: number;
+  creditCostUsd: number;
+  estimatedCostUsd: number;
+  budget?: UsageBudget;
+  budgetExceeded: boolean;
+}
+
+/**
+ * Per-run usage ledger. LLM calls are recorded through the LangChain callback
+ * from callbackFor(); provider credits are recorded by FirecrawlClient.
+ * Once the budget is exceeded the ledger's signal aborts. Searches stop
+ * gathering and answer from what they have; other runs are cancelled.
+ */
+export class UsageLedger {
+  private models = new Map<string, ModelUsage>();
+  private credits: Record<CreditOperation, number> = { scrape: 0, search: 0, map: 0, crawl: 0 };
+  private listeners = new Set<(usage: RunUsage) => void>();
+  private controller = new AbortController();
+  private exceededMessage?: string;
+
+  constructor(private budget?: UsageBudget) {}
+
+  /**
+   * Aborts once the run goes over budget
+   */
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get budgetExceeded(): boolean {
+    return Boolean(this.exceededMessage);
+  }
+
+  // Explains which limit stopped the run
+  get budgetMessage(): string | undefined {
+    return this.exceededMessage;
+  }
+
+  /**
+   * Combine the caller's signal with the budget signal
+   */
+  linkSignal(signal?: AbortSignal): AbortSignal | undefined {
+    return this.budget ? anySignal(signal, this.controller.signal) : signal;
+  }
+
+  recordTokens(assignment: ModelAssignment, inputTokens: number, outputTokens: number): void {
+    const key = `${assignment.provider}:${assignment.model}`;
+    const pricing = assignment.provider === 'local' ? { input: 0, output: 0 } : findPricing(assignment.model);
+    const entry = this.models.get(key) || {
+      provider: assignment.provider,
+      model: assignment.model,
+      calls: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0,
+      priced: Boolean(pricing),
+    };
+
+    entry.calls++;
+    entry.inputTokens += inputTokens;
+    entry.outputTokens += outputTokens;
+    if (pricing) {
+      entry.costUsd += (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+    }
+    this.models.set(key, entry);
+    this.changed();
+  }
+
+  recordCredits(operation: CreditOperation, credits: number): void {
+    if (credits <= 0) return;
+    this.credits[operation] += credits;
+    this.changed();
+  }
+
+  /**
+   * LangChain callback that records token usage for every call of a model
+   */
+  callbackFor(assignment: ModelAssignment) {
+    return {
+      handleLLMEnd: (output: LLMResult) => {
+        const { inputTokens, outputTokens } = extractTokenUsage(output);
+        this.recordTokens(assignment, inputTokens, outputTokens);
+      },
+    };
+  }
+
+  /**
+   * Subscribe to usage updates. Returns an unsubscribe function
+   */
+  onChange(listener: (usage: RunUsage) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  snapshot(): RunUsage {
+    const models = Array.from(this.models.values()).map(entry => ({ ...entry }));
+    const totalTokens = models.reduce((sum, entry) => sum + entry.inputTokens + entry.outputTokens, 0);
+    const totalCredits = Object.values(this.credits).reduce((sum, credits) => sum + credits, 0);
+    const llmCostUsd = models.reduce((sum, entry) => sum + entry.costUsd, 0);
+    const creditCostUsd = totalCredits * USAGE_CONFIG.FIRECRAWL_CREDIT_USD;
+
+    return {
+      models,
+      credits: { ...this.credits },
+      totalTokens,
+      totalCredits,
+      llmCostUsd,
+      creditCostUsd,
+      estimatedCostUsd: llmCostUsd + creditCostUsd,
+      budget: this.budget,
+      budgetExceeded: this.budgetExceeded,
+    };
+  }
+
+  private changed(): void {
+    const usage = this.snapshot();
+    this.checkBudget(usage);
+    this.listeners.forEach(listener => listener(usage));
+  }
+
+  private checkBudget(usage: RunUsage): void {
+    if (!this.budget || this.exceededMessage) return;
+    const { maxCostUsd, maxTokens, maxCredits } = this.budget;
+
+    if (maxCostUsd !== undefined && usage.estimatedCostUsd > maxCostUsd) {
+      this.exceededMessage = `Budget reached: estimated cost $${usage.estimatedCostUsd.toFixed(4)} exceeds the $${maxCostUsd} limit`;
+    } else if (maxTokens !== undefined && usage.totalTokens > maxTokens) {
+      this.exceededMessage = `Budget reached: ${usage.totalTokens} tokens used, limit is ${maxTokens}`;
+    } else if (maxCredits !== undefined && usage.totalCredits > maxCredits) {
+      this.exceededMessage = `Budget reached: ${usage.totalCredits} credits used, limit is ${maxCredits}`;
+    }
+
+    if (this.exceededMessage) {
+      usage.budgetExceeded = true;
+      const reason = new Error(this.exceededMessage);
+      reason.name = 'AbortError';
+      this.controller.abort(reason);
+    }
+  }
+}
+
+function findPricing(model: string): { input: number; output: number } | undefined {
+  const match = Object.keys(USAGE_CONFIG.MODEL_PRICING)
+    .filter(prefix => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? USAGE_CONFIG.MODEL_PRICING[match] : undefined;
+}
+
+// Chat models report usage on the message (usage_metadata); older OpenAI
+// responses only carry it in llmOutput.tokenUsage
+function extractTokenUsage(output: LLMResult): { inputTokens: number; outputTokens: number } {
+  let inputTokens = 0;
+  let outputTokens = 0;
+  let found = false;
+
+  for (const generations of output.generations) {
+    for (const generation of generations) {
+      const usage = (generation as { message?: { usage_metadata?: { input_tokens?: number; output_tokens?: number } } })
+        .message?.usage_metadata;
+      if (usage) {
+        found = true;
+        inputTokens += usage.input_tokens || 0;
+        outputTokens += usage.output_tokens || 0;
+      }
+    }
+  }
+
+  if (!found) {
+    const tokenUsage = output.llmOutput?.tokenUsage as { promptTokens?: number; completionTokens?: number } | undefined;
+    inputTokens = tokenUsage?.promptTokens || 0;
+    outputTokens = tokenUsage?.completionTokens || 0;
+  }
+
+  return { inputTokens, outputTokens };
+}
+
+/**
+ * Ledger for one run. Limits not given in budget fall back to the
+ * RUN_BUDGET_USD / RUN_BUDGET_TOKENS / RUN_BUDGET_CREDITS env vars.
+ */
+export function createUsageLedger(budget: UsageBudget = {}): UsageLedger {
+  const limits: UsageBudget = {
+    maxCostUsd: budget.maxCostUsd ?? envNumber('RUN_BUDGET_USD'),
+    maxTokens: budget.maxTokens ?? envNumber('RUN_BUDGET_TOKENS'),
+    maxCredits: budget.maxCredits ?? envNumber('RUN_BUDGET_CREDITS'),
+  };
+  const hasLimit = Object.values(limits).some(limit => limit !== undefined);
+  return new UsageLedger(hasLimit ? limits : undefined);
+}
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+}
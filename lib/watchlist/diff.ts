@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import { WATCHLIST_CONFIG } from '../config';
+import { PageChange, PageSnapshot, WatchSnapshot } from './types';
+
+/**
+ * Page text as the lines worth comparing: markdown syntax, links and image
+ * URLs are stripped (an image keeps its alt text, so a removed customer logo
+ * still shows), and short or boilerplate lines are dropped.
+ */
+export function normalizeLines(markdown: string): string[] {
+  const lines = markdown
+    .split('\n')
+    .map(line => line
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, (_, alt: string) => (alt.trim() ? `[image: ${alt.trim()}]` : ''))
+      .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/^[\s>#*\-+|]+|[\s*|]+$/g, '')
+      .replace(/\s+/g, ' ')
+      .trim())
+    .filter(line => line.length >= WATCHLIST_CONFIG.MIN_LINE_LENGTH && !NOISE.test(line));
+
+  // Navigation and footers repeat lines; keep the first of each
+  return Array.from(new Set(lines));
+}
+
+export function contentHash(lines: string[]): string {
+  return createHash('sha1').update(lines.join('\n')).digest('hex');
+}
+
+/**
+ * Pages that are new or whose text changed between two snapshots. Pages
+ * missing from the newer snapshot are not reported: a page that drops out of
+ * search discovery has usually not been taken down.
+ */
+export function diffSnapshots(previous: WatchSnapshot, current: WatchSnapshot): PageChange[] {
+  const before = new Map(previous.pages.map(page => [page.url, page]));
+  const changes: PageChange[] = [];
+
+  for (const page of current.pages) {
+    if (page.carriedOver) continue;
+    const old = before.get(page.url);
+    if (old?.contentHash === page.contentHash) continue;
+
+    const change = diffPage(old, page);
+    if (change) changes.push(change);
+  }
+
+  return changes.sort((a, b) => b.changeRatio - a.changeRatio);
+}
+
+function diffPage(old: PageSnapshot | undefined, page: PageSnapshot): PageChange | undefined {
+  const after = normalizeLines(page.content);
+  if (!old) {
+    return {
+      url: page.url,
+      title: page.title,
+      intelligenceType: page.intelligenceType,
+      kind: 'added',
+      addedLines: after.slice(0, WATCHLIST_CONFIG.MAX_DIFF_LINES),
+      removedLines: [],
+      changeRatio: 1,
+    };
+  }
+
+  // Line sets rather than a positional diff: reordered sections are not changes
+  const before = normalizeLines(old.content);
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  const added = after.filter(line => !beforeSet.has(line));
+  const removed = before.filter(line => !afterSet.has(line));
+  if (added.length === 0 && removed.length === 0) return undefined;
+
+  return {
+    url: page.url,
+    title: page.title,
+    intelligenceType: page.intelligenceType,
+    kind: 'changed',
+    addedLines: added.slice(0, WATCHLIST_CONFIG.MAX_DIFF_LINES),
+    removedLines: removed.slice(0, WATCHLIST_CONFIG.MAX_DIFF_LINES),
+    changeRatio: Math.min(1, (added.length + removed.length) / Math.max(1, before.length, after.length)),
+  };
+}
+
+// Lines that change on every visit without meaning anything
+const NOISE = /^(©|copyright\b|all rights reserved|skip to (main )?content|cookie|we use cookies|accept( all)?$|loading\.*$)/i;
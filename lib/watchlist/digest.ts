@@ -0,0 +1,175 @@
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { z } from 'zod';
+import { isAbortError } from '../abort';
+import { WATCHLIST_CONFIG } from '../config';
+import { messageText } from '../llm';
+import { ChangeCategory, ChangeDigest, ChangeSignificance, PageChange, SemanticChange, WatchIntelligenceType, WatchTarget } from './types';
+
+const CATEGORIES = ['pricing', 'packaging', 'customers', 'product', 'team', 'positioning', 'other'] as const;
+
+const describedChangesSchema = z.object({
+  headline: z.string().min(1),
+  changes: z.array(z.object({
+    category: z.enum(CATEGORIES).catch('other'),
+    significance: z.enum(['high', 'medium', 'low']).catch('low'),
+    summary: z.string().min(1),
+    url: z.string(),
+    evidence: z.string().optional(),
+  })),
+});
+
+export interface DescribedChanges {
+  headline: string;
+  changes: SemanticChange[];
+}
+
+/**
+ * What the page changes mean for a competitor's pricing, customers, product,
+ * team or positioning. The model only sees the added and removed lines, and
+ * a change is kept only when its evidence is one of them. When the model
+ * fails, each page change is described from its lines instead.
+ */
+export async function describeChanges(
+  model: BaseChatModel,
+  target: WatchTarget,
+  pageChanges: PageChange[],
+  signal?: AbortSignal
+): Promise<DescribedChanges> {
+  if (pageChanges.length === 0) return { headline: 'No changes', changes: [] };
+
+  try {
+    const response = await model.invoke([
+      new SystemMessage(`You track competitor websites for a product marketing team. You get line diffs of pages from one competitor's site since the last check.
+
+Return ONLY a JSON object (no markdown):
+{ "headline": "", "changes": [{ "category": "", "significance": "", "summary": "", "url": "", "evidence": "" }] }
+
+- category: pricing (prices, discounts, trials), packaging (plans or tiers added, removed, renamed or regrouped), customers (logos, case studies, testimonials), product (features, integrations, launches), team (leadership and hires), positioning (messaging, comparisons, target market) or other.
+- significance: high for anything that changes how we sell against them (a new or removed tier, a price change, a lost or won named customer, a new head of product), medium for notable updates, low for copy edits.
+- summary: one sentence a PMM can forward, e.g. "New Scale tier at $499/month between Pro and Enterprise".
+- evidence: copy one added (+) or removed (-) line exactly, without the sign.
+- Leave out layout, navigation, dates and wording changes that do not change meaning. Return an empty list if nothing meaningful changed.
+- headline: one line covering the most important changes.`),
+      new HumanMessage(`Competitor: ${target.name ? `${target.name} (${target.domain})` : target.domain}
+
+${formatPageChanges(pageChanges)}`),
+    ], { signal });
+
+    const content = messageText(response.content).replace(/```json\n?|```/g, '').trim();
+    const parsed = describedChangesSchema.safeParse(JSON.parse(content));
+    if (!parsed.success) {
+      throw new Error(`Change descriptions did not validate: ${parsed.error.issues.map(issue => issue.message).join(', ')}`);
+    }
+
+    const urls = new Set(pageChanges.map(change => change.url));
+    const changes = parsed.data.changes
+      .filter(change => urls.has(change.url))
+      .map(change => ({ ...change, evidence: change.evidence && stripSign(change.evidence) }))
+      .filter(change => !change.evidence || hasEvidence(pageChanges, change.url, change.evidence))
+      .sort((a, b) => SIGNIFICANCE_ORDER[a.significance] - SIGNIFICANCE_ORDER[b.significance]);
+
+    return { headline: parsed.data.headline, changes };
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error(`[Watchlist] Could not describe changes for ${target.domain}:`, error);
+    return describeFromLines(pageChanges);
+  }
+}
+
+/**
+ * Markdown report of the digests in a window, grouped by competitor with
+ * high-significance changes first - ready to paste into a weekly update.
+ */
+export function buildChangeReport(digests: ChangeDigest[], targets: WatchTarget[], since: Date, until = new Date()): string {
+  const lines = [`# Competitor changes ${since.toISOString().slice(0, 10)} to ${until.toISOString().slice(0, 10)}`, ''];
+  const names = new Map(targets.map(target => [target.id, target.name || target.domain]));
+  const byTarget = new Map<string, ChangeDigest[]>();
+  for (const digest of digests) {
+    byTarget.set(digest.targetId, [...(byTarget.get(digest.targetId) || []), digest]);
+  }
+
+  if (byTarget.size === 0) {
+    lines.push('No changes were found on watched competitor pages.');
+    return lines.join('\n');
+  }
+
+  for (const [targetId, targetDigests] of byTarget) {
+    const changes = targetDigests
+      .flatMap(digest => digest.changes)
+      .sort((a, b) => SIGNIFICANCE_ORDER[a.significance] - SIGNIFICANCE_ORDER[b.significance]);
+    lines.push(`## ${names.get(targetId) || targetDigests[0].domain}`, '');
+
+    if (changes.length === 0) {
+      lines.push(`- Pages changed without meaningful updates (${targetDigests.reduce((count, digest) => count + digest.pageChanges.length, 0)} pages)`);
+    }
+    for (const change of changes) {
+      lines.push(`- **${change.significance === 'high' ? 'High' : change.significance === 'medium' ? 'Medium' : 'Low'}** · ${change.category}: ${change.summary} ([source](${change.url}))`);
+    }
+
+    const unreachable = Array.from(new Set(targetDigests.flatMap(digest => digest.unreachable)));
+    if (unreachable.length > 0) {
+      lines.push(`- _Could not re-check: ${unreachable.join(', ')}_`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trim();
+}
+
+function formatPageChanges(pageChanges: PageChange[]): string {
+  let text = '';
+  for (const change of pageChanges) {
+    const block = [
+      `Page: ${change.title} (${change.url}) [${change.intelligenceType}${change.kind === 'added' ? ', new page' : ''}]`,
+      ...change.removedLines.map(line => `- ${line}`),
+      ...change.addedLines.map(line => `+ ${line}`),
+      '',
+    ].join('\n');
+    if (text.length + block.length > WATCHLIST_CONFIG.MAX_DIFF_CHARS) break;
+    text += `${block}\n`;
+  }
+  return text.trim();
+}
+
+function hasEvidence(pageChanges: PageChange[], url: string, evidence: string): boolean {
+  const wanted = evidence.toLowerCase();
+  return pageChanges
+    .filter(change => change.url === url)
+    .some(change => [...change.addedLines, ...change.removedLines].some(line => line.toLowerCase().includes(wanted)));
+}
+
+// The model sometimes copies the diff's +/- marker along with the line
+function stripSign(evidence: string): string {
+  return evidence.replace(/^[+-]\s+/, '').trim();
+}
+
+function describeFromLines(pageChanges: PageChange[]): DescribedChanges {
+  const changes = pageChanges.map((change): SemanticChange => {
+    const significance: ChangeSignificance = change.intelligenceType === 'pricing' || change.changeRatio >= 0.3 ? 'medium' : 'low';
+    const summary = change.kind === 'added'
+      ? `New page: ${change.title}`
+      : `${change.title}: ${change.addedLines.length} lines added, ${change.removedLines.length} removed`;
+    return {
+      category: TYPE_CATEGORIES[change.intelligenceType],
+      significance,
+      summary,
+      url: change.url,
+      evidence: change.addedLines[0] || change.removedLines[0],
+    };
+  });
+  return {
+    headline: `${pageChanges.length} page${pageChanges.length === 1 ? '' : 's'} changed`,
+    changes,
+  };
+}
+
+const TYPE_CATEGORIES: Record<WatchIntelligenceType, ChangeCategory> = {
+  pricing: 'pricing',
+  customers: 'customers',
+  products: 'product',
+  team: 'team',
+  competitors: 'positioning',
+};
+
+const SIGNIFICANCE_ORDER: Record<ChangeSignificance, number> = { high: 0, medium: 1, low: 2 };
@@ -0,0 +1,122 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { WATCHLIST_CONFIG } from '../config';
+import { ChangeDigest, DigestListOptions, WatchSnapshot, WatchTarget, WatchlistStore } from './types';
+
+/**
+ * File-backed watchlist: one JSON record per target and per digest, and a
+ * directory of snapshots per target named so they sort oldest first. Every
+ * record is written atomically.
+ */
+export class FileWatchlistStore implements WatchlistStore {
+  private directory: string;
+
+  constructor(directory: string = WATCHLIST_CONFIG.DIRECTORY) {
+    this.directory = path.resolve(directory);
+  }
+
+  async getTarget(id: string): Promise<WatchTarget | undefined> {
+    return readRecord<WatchTarget>(path.join(this.directory, `${safeId(id)}.target.json`));
+  }
+
+  async putTarget(target: WatchTarget): Promise<void> {
+    await writeRecord(path.join(this.directory, `${safeId(target.id)}.target.json`), target);
+  }
+
+  async deleteTarget(id: string): Promise<boolean> {
+    const digests = await this.listDigests({ targetId: id, limit: Number.MAX_SAFE_INTEGER });
+    await Promise.all(digests.map(digest => fs.unlink(this.digestPath(digest.id)).catch(() => undefined)));
+    await fs.rm(this.snapshotDirectory(id), { recursive: true, force: true });
+    try {
+      await fs.unlink(path.join(this.directory, `${safeId(id)}.target.json`));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listTargets(limit: number = WATCHLIST_CONFIG.MAX_TARGETS_LISTED): Promise<WatchTarget[]> {
+    const targets = await Promise.all((await listFiles(this.directory))
+      .filter(file => file.endsWith('.target.json'))
+      .map(file => readRecord<WatchTarget>(path.join(this.directory, file))));
+
+    return targets
+      .filter((target): target is WatchTarget => Boolean(target))
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+      .slice(0, limit);
+  }
+
+  async listSnapshots(targetId: string): Promise<WatchSnapshot[]> {
+    const directory = this.snapshotDirectory(targetId);
+    const snapshots = await Promise.all((await listFiles(directory))
+      .filter(file => file.endsWith('.snapshot.json'))
+      .sort()
+      .map(file => readRecord<WatchSnapshot>(path.join(directory, file))));
+    return snapshots.filter((snapshot): snapshot is WatchSnapshot => Boolean(snapshot));
+  }
+
+  async addSnapshot(snapshot: WatchSnapshot, keep: number): Promise<void> {
+    const directory = this.snapshotDirectory(snapshot.targetId);
+    // Zero-padded timestamps keep the file names in time order
+    const name = `${String(Date.parse(snapshot.takenAt)).padStart(15, '0')}-${safeId(snapshot.id)}.snapshot.json`;
+    await writeRecord(path.join(directory, name), snapshot);
+
+    const files = (await listFiles(directory)).filter(file => file.endsWith('.snapshot.json')).sort();
+    await Promise.all(files.slice(0, Math.max(0, files.length - keep))
+      .map(file => fs.unlink(path.join(directory, file)).catch(() => undefined)));
+  }
+
+  async putDigest(digest: ChangeDigest): Promise<void> {
+    await writeRecord(this.digestPath(digest.id), digest);
+  }
+
+  async listDigests(options: DigestListOptions = {}): Promise<ChangeDigest[]> {
+    const directory = path.join(this.directory, 'digests');
+    const digests = await Promise.all((await listFiles(directory))
+      .filter(file => file.endsWith('.digest.json'))
+      .map(file => readRecord<ChangeDigest>(path.join(directory, file))));
+
+    return digests
+      .filter((digest): digest is ChangeDigest => Boolean(digest))
+      .filter(digest => !options.targetId || digest.targetId === options.targetId)
+      .filter(digest => !options.since || digest.createdAt >= options.since)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || WATCHLIST_CONFIG.MAX_DIGESTS_LISTED);
+  }
+
+  private snapshotDirectory(targetId: string): string {
+    return path.join(this.directory, 'snapshots', safeId(targetId));
+  }
+
+  private digestPath(id: string): string {
+    return path.join(this.directory, 'digests', `${safeId(id)}.digest.json`);
+  }
+}
+
+async function readRecord<T>(file: string): Promise<T | undefined> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeRecord(file: string, record: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(record), 'utf8');
+  await fs.rename(temp, file);
+}
+
+async function listFiles(directory: string): Promise<string[]> {
+  try {
+    return await fs.readdir(directory);
+  } catch {
+    return [];
+  }
+}
+
+// Ids come from clients - keep them from escaping the directory
+function safeId(id: string): string {
+  return id.replace(/[^a-zA-Z0-9_-]/g, '_');
+}
@@ -0,0 +1,35 @@
+// Competitor Watchlist - scheduled snapshots of competitor pages with change digests
+import { WATCHLIST_CONFIG } from '../config';
+import { FileWatchlistStore } from './file-store';
+import { MemoryWatchlistStore } from './memory-store';
+import { WatchlistStore } from './types';
+import { Watchlist } from './watchlist';
+
+export * from './types';
+export { Watchlist, WATCH_INTELLIGENCE_TYPES } from './watchlist';
+export { MemoryWatchlistStore } from './memory-store';
+export { FileWatchlistStore } from './file-store';
+export { diffSnapshots, normalizeLines } from './diff';
+export { buildChangeReport } from './digest';
+
+export function createWatchlistStore(kind: string = process.env.WATCHLIST_STORE || WATCHLIST_CONFIG.STORE): WatchlistStore {
+  switch (kind) {
+    case 'memory':
+      return new MemoryWatchlistStore();
+    case 'file':
+      return new FileWatchlistStore(process.env.WATCHLIST_DIR || WATCHLIST_CONFIG.DIRECTORY);
+    default:
+      throw new Error(`Unknown watchlist store: ${kind}`);
+  }
+}
+
+// One watchlist per server process so its locks and scheduler cover every route and action
+let sharedWatchlist: Watchlist | undefined;
+
+export function getWatchlist(): Watchlist {
+  if (!sharedWatchlist) {
+    sharedWatchlist = new Watchlist(createWatchlistStore());
+    if (process.env.WATCHLIST_SCHEDULER !== 'off') sharedWatchlist.start();
+  }
+  return sharedWatchlist;
+}
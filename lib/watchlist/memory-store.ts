@@ -0,0 +1,58 @@
+import { WATCHLIST_CONFIG } from '../config';
+import { ChangeDigest, DigestListOptions, WatchSnapshot, WatchTarget, WatchlistStore } from './types';
+
+/**
+ * Process-local watchlist. Targets and snapshots are lost on restart - use
+ * the file store to keep them.
+ */
+export class MemoryWatchlistStore implements WatchlistStore {
+  private targets = new Map<string, WatchTarget>();
+  private snapshots = new Map<string, WatchSnapshot[]>();
+  private digests = new Map<string, ChangeDigest>();
+
+  async getTarget(id: string): Promise<WatchTarget | undefined> {
+    const target = this.targets.get(id);
+    return target ? structuredClone(target) : undefined;
+  }
+
+  async putTarget(target: WatchTarget): Promise<void> {
+    this.targets.set(target.id, structuredClone(target));
+  }
+
+  async deleteTarget(id: string): Promise<boolean> {
+    this.snapshots.delete(id);
+    for (const digest of this.digests.values()) {
+      if (digest.targetId === id) this.digests.delete(digest.id);
+    }
+    return this.targets.delete(id);
+  }
+
+  async listTargets(limit: number = WATCHLIST_CONFIG.MAX_TARGETS_LISTED): Promise<WatchTarget[]> {
+    return Array.from(this.targets.values())
+      .sort((a, b) => a.domain.localeCompare(b.domain))
+      .slice(0, limit)
+      .map(target => structuredClone(target));
+  }
+
+  async listSnapshots(targetId: string): Promise<WatchSnapshot[]> {
+    return (this.snapshots.get(targetId) || []).map(snapshot => structuredClone(snapshot));
+  }
+
+  async addSnapshot(snapshot: WatchSnapshot, keep: number): Promise<void> {
+    const snapshots = [...(this.snapshots.get(snapshot.targetId) || []), structuredClone(snapshot)];
+    this.snapshots.set(snapshot.targetId, snapshots.slice(-keep));
+  }
+
+  async putDigest(digest: ChangeDigest): Promise<void> {
+    this.digests.set(digest.id, structuredClone(digest));
+  }
+
+  async listDigests(options: DigestListOptions = {}): Promise<ChangeDigest[]> {
+    return Array.from(this.digests.values())
+      .filter(digest => !options.targetId || digest.targetId === options.targetId)
+      .filter(digest => !options.since || digest.createdAt >= options.since)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, options.limit || WATCHLIST_CONFIG.MAX_DIGESTS_LISTED)
+      .map(digest => structuredClone(digest));
+  }
+}
@@ -0,0 +1,132 @@
+// Competitor Watchlist Types
+import type { ProviderName } from '../providers';
+
+// Intelligence types a target can be watched for, as gathered by FirecrawlClient.gatherWebsiteIntelligence
+export type WatchIntelligenceType = 'pricing' | 'customers' | 'products' | 'team' | 'competitors';
+
+export interface WatchTarget {
+  id: string;
+  domain: string;
+  name?: string;
+  intelligenceTypes: WatchIntelligenceType[];
+  intervalHours: number;
+  provider?: ProviderName;
+  paused: boolean;
+  createdAt: string;
+  updatedAt: string;
+  lastCheckedAt?: string;
+  nextCheckAt: string;
+  // When the last digest with changes was made
+  lastChangeAt?: string;
+  lastError?: string;
+}
+
+export interface WatchTargetInput {
+  domain: string;
+  name?: string;
+  intelligenceTypes?: WatchIntelligenceType[];
+  intervalHours?: number;
+  provider?: ProviderName;
+}
+
+export type WatchTargetUpdate = Partial<Pick<WatchTarget, 'name' | 'intelligenceTypes' | 'intervalHours' | 'paused' | 'provider'>>;
+
+export interface PageSnapshot {
+  url: string;
+  title: string;
+  intelligenceType: WatchIntelligenceType;
+  // sha1 of the normalized lines, so unchanged pages are skipped without a line diff
+  contentHash: string;
+  content: string;
+  // Copied from the previous snapshot because the page could not be fetched this time
+  carriedOver?: boolean;
+}
+
+export interface WatchSnapshot {
+  id: string;
+  targetId: string;
+  takenAt: string;
+  pages: PageSnapshot[];
+  // Intelligence types whose pages could not be gathered; their previous pages are carried over
+  failedTypes: WatchIntelligenceType[];
+}
+
+// Snapshot list entries leave out page text
+export type WatchSnapshotSummary = Omit<WatchSnapshot, 'pages'> & {
+  pages: Array<Pick<PageSnapshot, 'url' | 'title' | 'intelligenceType' | 'carriedOver'>>;
+};
+
+// Line-level difference of one page between two snapshots
+export interface PageChange {
+  url: string;
+  title: string;
+  intelligenceType: WatchIntelligenceType;
+  kind: 'added' | 'changed';
+  addedLines: string[];
+  removedLines: string[];
+  // Share of the page's lines that were added or removed (0-1)
+  changeRatio: number;
+}
+
+export type ChangeCategory = 'pricing' | 'packaging' | 'customers' | 'product' | 'team' | 'positioning' | 'other';
+
+export type ChangeSignificance = 'high' | 'medium' | 'low';
+
+// What a change means, read from the line diff
+export interface SemanticChange {
+  category: ChangeCategory;
+  significance: ChangeSignificance;
+  // e.g. "New Scale tier at $499/month"
+  summary: string;
+  url: string;
+  // An added or removed line that shows the change
+  evidence?: string;
+}
+
+export interface ChangeDigest {
+  id: string;
+  targetId: string;
+  domain: string;
+  fromSnapshotId: string;
+  toSnapshotId: string;
+  // When the compared snapshots were taken
+  from: string;
+  to: string;
+  headline: string;
+  changes: SemanticChange[];
+  pageChanges: PageChange[];
+  // Pages that were kept from the previous snapshot because they could not be fetched
+  unreachable: string[];
+  createdAt: string;
+}
+
+export interface DigestListOptions {
+  targetId?: string;
+  // ISO date; only digests created at or after it
+  since?: string;
+  limit?: number;
+}
+
+export interface WatchCheckResult {
+  target: WatchTarget;
+  snapshot?: WatchSnapshot;
+  // Set when the check found changes against the previous snapshot
+  digest?: ChangeDigest;
+}
+
+/**
+ * Persistence for the watchlist. Targets and digests are written whole;
+ * snapshots are kept per target, oldest first.
+ */
+export interface WatchlistStore {
+  getTarget(id: string): Promise<WatchTarget | undefined>;
+  putTarget(target: WatchTarget): Promise<void>;
+  // Removes the target with its snapshots and digests
+  deleteTarget(id: string): Promise<boolean>;
+  listTargets(limit?: number): Promise<WatchTarget[]>;
+  listSnapshots(targetId: string): Promise<WatchSnapshot[]>;
+  // Drops the oldest snapshots beyond `keep`
+  addSnapshot(snapshot: WatchSnapshot, keep: number): Promise<void>;
+  putDigest(digest: ChangeDigest): Promise<void>;
+  listDigests(options?: DigestListOptions): Promise<ChangeDigest[]>;
+}
@@ -0,0 +1,362 @@
+import { v4 as uuidv4 } from 'uuid';
+import { isAbortError } from '../abort';
+import { WATCHLIST_CONFIG } from '../config';
+import { FirecrawlClient } from '../firecrawl';
+import { createChatModel } from '../llm';
+import { normalizeDomain } from '../multi-agent/company-enrichment';
+import { contentHash, diffSnapshots, normalizeLines } from './diff';
+import { buildChangeReport, describeChanges } from './digest';
+import {
+  ChangeDigest,
+  DigestListOptions,
+  PageSnapshot,
+  WatchCheckResult,
+  WatchIntelligenceType,
+  WatchSnapshot,
+  WatchSnapshotSummary,
+  WatchTarget,
+  WatchTargetInput,
+  WatchTargetUpdate,
+  WatchlistStore,
+} from './types';
+
+export const WATCH_INTELLIGENCE_TYPES: WatchIntelligenceType[] = ['pricing', 'customers', 'products', 'team', 'competitors'];
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Competitor pages watched for changes. Each target is re-scraped on its own
+ * interval; every check stores a snapshot, and when pages changed since the
+ * previous snapshot a digest describes what the changes mean.
+ *
+ * Checks run one at a time. The in-process scheduler (start) looks for due
+ * targets every few minutes; deployments without a long-lived server call
+ * runDueChecks from a cron job instead.
+ */
+export class Watchlist {
+  private store: WatchlistStore;
+  // Serialize read-modify-write per target so a check and an edit never overwrite each other
+  private locks = new Map<string, Promise<unknown>>();
+  // Checks in flight per target; asking again joins the running check
+  private checks = new Map<string, Promise<WatchCheckResult>>();
+  private sweep?: Promise<WatchCheckResult[]>;
+  private timer?: ReturnType<typeof setInterval>;
+
+  constructor(store: WatchlistStore) {
+    this.store = store;
+  }
+
+  /**
+   * Start watching a competitor domain. The first check is due immediately.
+   */
+  async register(input: WatchTargetInput): Promise<WatchTarget> {
+    const domain = normalizeDomain(input.domain);
+    if (!domain) throw new Error(`Invalid domain: ${input.domain}`);
+
+    const existing = (await this.store.listTargets(Number.MAX_SAFE_INTEGER)).find(target => target.domain === domain);
+    if (existing) throw new Error(`${domain} is already on the watchlist`);
+
+    const now = new Date().toISOString();
+    const target: WatchTarget = {
+      id: uuidv4(),
+      domain,
+      name: input.name?.trim() || undefined,
+      intelligenceTypes: parseIntelligenceTypes(input.intelligenceTypes),
+      intervalHours: parseInterval(input.intervalHours),
+      provider: input.provider,
+      paused: false,
+      createdAt: now,
+      updatedAt: now,
+      nextCheckAt: now,
+    };
+    await this.store.putTarget(target);
+    return target;
+  }
+
+  async get(id: string): Promise<WatchTarget | undefined> {
+    return this.store.getTarget(id);
+  }
+
+  async list(limit?: number): Promise<WatchTarget[]> {
+    return this.store.listTargets(limit);
+  }
+
+  async update(id: string, changes: WatchTargetUpdate): Promise<WatchTarget | undefined> {
+    return this.modify(id, target => {
+      const intervalHours = changes.intervalHours !== undefined ? parseInterval(changes.intervalHours) : target.intervalHours;
+      const lastChecked = target.lastCheckedAt ? Date.parse(target.lastCheckedAt) : Date.now();
+      return {
+        ...target,
+        name: changes.name !== undefined ? changes.name.trim() || undefined : target.name,
+        intelligenceTypes: changes.intelligenceTypes ? parseIntelligenceTypes(changes.intelligenceTypes) : target.intelligenceTypes,
+        intervalHours,
+        provider: changes.provider ?? target.provider,
+        paused: changes.paused ?? target.paused,
+        nextCheckAt: intervalHours !== target.intervalHours
+          ? new Date(lastChecked + intervalHours * HOUR_MS).toISOString()
+          : target.nextCheckAt,
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Stop watching a target and drop its snapshots and digests
+   */
+  async remove(id: string): Promise<boolean> {
+    return this.withLock(id, () => this.store.deleteTarget(id));
+  }
+
+  /**
+   * Snapshots of a target, newest first, without page text
+   */
+  async snapshots(id: string): Promise<WatchSnapshotSummary[]> {
+    const snapshots = await this.store.listSnapshots(id);
+    return snapshots.reverse().map(snapshot => ({
+      ...snapshot,
+      pages: snapshot.pages.map(({ url, title, intelligenceType, carriedOver }) => ({ url, title, intelligenceType, carriedOver })),
+    }));
+  }
+
+  async digests(options?: DigestListOptions): Promise<ChangeDigest[]> {
+    return this.store.listDigests(options);
+  }
+
+  /**
+   * Markdown report of every change found in the last `days` days
+   */
+  async report(days: number = WATCHLIST_CONFIG.REPORT_WINDOW_DAYS): Promise<string> {
+    const until = new Date();
+    const since = new Date(until.getTime() - days * DAY_MS);
+    const [digests, targets] = await Promise.all([
+      this.store.listDigests({ since: since.toISOString(), limit: Number.MAX_SAFE_INTEGER }),
+      this.store.listTargets(Number.MAX_SAFE_INTEGER),
+    ]);
+    return buildChangeReport(digests.reverse(), targets, since, until);
+  }
+
+  /**
+   * Re-scrape a target now, store the snapshot and build a digest if anything changed
+   */
+  async check(id: string, options: { apiKey?: string; signal?: AbortSignal } = {}): Promise<WatchCheckResult | undefined> {
+    const running = this.checks.get(id);
+    if (running) return running;
+
+    const target = await this.store.getTarget(id);
+    if (!target) return undefined;
+
+    const check = this.runCheck(target, options.apiKey, options.signal).finally(() => this.checks.delete(id));
+    this.checks.set(id, check);
+    return check;
+  }
+
+  /**
+   * Check every target that is due, one after another. A sweep already in
+   * progress is joined rather than started again.
+   */
+  async runDueChecks(): Promise<WatchCheckResult[]> {
+    if (!this.sweep) {
+      this.sweep = this.checkDueTargets().finally(() => {
+        this.sweep = undefined;
+      });
+    }
+    return this.sweep;
+  }
+
+  /**
+   * Look for due targets on a timer for as long as the process runs
+   */
+  start(intervalMs: number = WATCHLIST_CONFIG.POLL_INTERVAL_MS): void {
+    if (this.timer) return;
+    this.timer = setInterval(() => {
+      this.runDueChecks().catch(error => console.error('[Watchlist] Scheduled checks failed:', error));
+    }, intervalMs);
+    // The scheduler should never keep the process alive on its own
+    this.timer.unref?.();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async checkDueTargets(): Promise<WatchCheckResult[]> {
+    const now = new Date().toISOString();
+    const due = (await this.store.listTargets(Number.MAX_SAFE_INTEGER))
+      .filter(target => !target.paused && target.nextCheckAt <= now)
+      .sort((a, b) => a.nextCheckAt.localeCompare(b.nextCheckAt));
+
+    const results: WatchCheckResult[] = [];
+    for (const target of due) {
+      try {
+        const result = await this.check(target.id);
+        if (result) results.push(result);
+      } catch (error) {
+        console.error(`[Watchlist] Check of ${target.domain} failed:`, error);
+      }
+    }
+    return results;
+  }
+
+  private async runCheck(target: WatchTarget, apiKey?: string, signal?: AbortSignal): Promise<WatchCheckResult> {
+    const checkedAt = new Date();
+    const previous = (await this.store.listSnapshots(target.id)).pop();
+
+    let snapshot: WatchSnapshot;
+    try {
+      snapshot = await this.takeSnapshot(target, previous, apiKey, signal);
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+      const message = error instanceof Error ? error.message : 'Check failed';
+      const updated = await this.recordCheck(target.id, checkedAt, { lastError: message });
+      return { target: updated || target };
+    }
+
+    // Nothing could be fetched; keep the last good snapshot as the baseline
+    if (snapshot.failedTypes.length === target.intelligenceTypes.length && snapshot.pages.every(page => page.carriedOver)) {
+      const updated = await this.recordCheck(target.id, checkedAt, {
+        lastError: `No pages could be fetched from ${target.domain}`,
+      });
+      return { target: updated || target };
+    }
+
+    await this.store.addSnapshot(snapshot, WATCHLIST_CONFIG.MAX_SNAPSHOTS);
+
+    let digest: ChangeDigest | undefined;
+    const pageChanges = previous ? diffSnapshots(previous, snapshot) : [];
+    if (previous && pageChanges.length > 0) {
+      const described = await describeChanges(createChatModel('fast'), target, pageChanges, signal);
+      digest = {
+        id: uuidv4(),
+        targetId: target.id,
+        domain: target.domain,
+        fromSnapshotId: previous.id,
+        toSnapshotId: snapshot.id,
+        from: previous.takenAt,
+        to: snapshot.takenAt,
+        headline: described.headline,
+        changes: described.changes,
+        pageChanges,
+        unreachable: snapshot.pages.filter(page => page.carriedOver).map(page => page.url),
+        createdAt: new Date().toISOString(),
+      };
+      await this.store.putDigest(digest);
+    }
+
+    const updated = await this.recordCheck(target.id, checkedAt, {
+      lastError: snapshot.failedTypes.length > 0 ? `Could not gather ${snapshot.failedTypes.join(', ')} pages` : undefined,
+      lastChangeAt: digest ? digest.createdAt : undefined,
+    });
+    return { target: updated || target, snapshot, digest };
+  }
+
+  /**
+   * Gather the target's pages for each intelligence type. Pages from the
+   * previous snapshot that search did not turn up again are scraped directly,
+   * and pages that cannot be fetched are carried over unchanged so a failed
+   * fetch never reads as a removed page.
+   */
+  private async takeSnapshot(
+    target: WatchTarget,
+    previous: WatchSnapshot | undefined,
+    apiKey?: string,
+    signal?: AbortSignal
+  ): Promise<WatchSnapshot> {
+    // No research cache: every check must see the live pages
+    const firecrawl = new FirecrawlClient(apiKey, target.provider);
+    const pages = new Map<string, PageSnapshot>();
+    const failedTypes: WatchIntelligenceType[] = [];
+
+    for (const type of target.intelligenceTypes) {
+      const result = await firecrawl.gatherWebsiteIntelligence(`https://${target.domain}`, type, signal);
+      if (!result.success || !result.rawData) {
+        failedTypes.push(type);
+        continue;
+      }
+      for (const page of result.rawData as Array<{ url: string; title?: string; markdown: string }>) {
+        if (pages.size >= WATCHLIST_CONFIG.MAX_PAGES_PER_SNAPSHOT) break;
+        if (!pages.has(page.url)) pages.set(page.url, toPageSnapshot(page.url, page.title, page.markdown, type));
+      }
+    }
+
+    for (const old of previous?.pages || []) {
+      if (pages.has(old.url) || pages.size >= WATCHLIST_CONFIG.MAX_PAGES_PER_SNAPSHOT) continue;
+      try {
+        const scraped = await firecrawl.scrapeUrl(old.url, undefined, signal);
+        pages.set(old.url, scraped.success && scraped.markdown
+          ? toPageSnapshot(old.url, typeof scraped.metadata.title === 'string' ? scraped.metadata.title : old.title, scraped.markdown, old.intelligenceType)
+          : { ...old, carriedOver: true });
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        pages.set(old.url, { ...old, carriedOver: true });
+      }
+    }
+
+    return {
+      id: uuidv4(),
+      targetId: target.id,
+      takenAt: new Date().toISOString(),
+      pages: Array.from(pages.values()),
+      failedTypes,
+    };
+  }
+
+  private recordCheck(
+    id: string,
+    checkedAt: Date,
+    result: { lastError?: string; lastChangeAt?: string }
+  ): Promise<WatchTarget | undefined> {
+    return this.modify(id, target => ({
+      ...target,
+      lastCheckedAt: checkedAt.toISOString(),
+      nextCheckAt: new Date(checkedAt.getTime() + target.intervalHours * HOUR_MS).toISOString(),
+      lastError: result.lastError,
+      lastChangeAt: result.lastChangeAt || target.lastChangeAt,
+      updatedAt: new Date().toISOString(),
+    }));
+  }
+
+  private modify(id: string, change: (target: WatchTarget) => WatchTarget): Promise<WatchTarget | undefined> {
+    return this.withLock(id, async () => {
+      const target = await this.store.getTarget(id);
+      if (!target) return undefined;
+      const updated = change(target);
+      await this.store.putTarget(updated);
+      return updated;
+    });
+  }
+
+  private async withLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(key) || Promise.resolve();
+    const next = previous.then(task, task);
+    this.locks.set(key, next.catch(() => undefined));
+    return next;
+  }
+}
+
+function toPageSnapshot(url: string, title: string | undefined, markdown: string, intelligenceType: WatchIntelligenceType): PageSnapshot {
+  const content = markdown.slice(0, WATCHLIST_CONFIG.MAX_PAGE_CHARS);
+  return {
+    url,
+    title: title || url,
+    intelligenceType,
+    contentHash: contentHash(normalizeLines(content)),
+    content,
+  };
+}
+
+function parseIntelligenceTypes(types: WatchIntelligenceType[] | undefined): WatchIntelligenceType[] {
+  if (!types || types.length === 0) return ['pricing', 'customers', 'products'];
+  const unknown = types.filter(type => !WATCH_INTELLIGENCE_TYPES.includes(type));
+  if (unknown.length > 0) throw new Error(`Unknown intelligence types: ${unknown.join(', ')}`);
+  return Array.from(new Set(types));
+}
+
+function parseInterval(hours: number | undefined): number {
+  if (hours === undefined) return WATCHLIST_CONFIG.DEFAULT_INTERVAL_HOURS;
+  if (!Number.isFinite(hours) || hours < WATCHLIST_CONFIG.MIN_INTERVAL_HOURS || hours > WATCHLIST_CONFIG.MAX_INTERVAL_HOURS) {
+    throw new Error(`Check interval must be between ${WATCHLIST_CONFIG.MIN_INTERVAL_HOURS} and ${WATCHLIST_CONFIG.MAX_INTERVAL_HOURS} hours`);
+  }
+  return hours;
+}